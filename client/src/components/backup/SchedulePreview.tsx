@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { SchedulePreview as SchedulePreviewResult, ScheduleTiming } from "@/lib/types";
+import { Loader2 } from "lucide-react";
+
+interface SchedulePreviewProps {
+  // Saved schedule to preview
+  scheduleId?: number;
+  // Unsaved schedule to preview, e.g. while it is being edited
+  timing?: ScheduleTiming;
+  count?: number;
+}
+
+// Extract the server's message from an apiRequest error, e.g. '400: {"message":"..."}'
+const getErrorMessage = (error: unknown) => {
+  const text = error instanceof Error ? error.message.replace(/^\d+: /, "") : "";
+
+  try {
+    return JSON.parse(text).message || "Invalid schedule";
+  } catch {
+    return text || "Invalid schedule";
+  }
+};
+
+/**
+ * Lists the next run times of a backup schedule in its time zone
+ */
+const SchedulePreview = ({ scheduleId, timing, count = 5 }: SchedulePreviewProps) => {
+  // Wait for typing to pause before previewing edited schedules
+  const [debouncedTiming, setDebouncedTiming] = useState(timing);
+  const timingKey = JSON.stringify(timing);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedTiming(timing), 400);
+    return () => clearTimeout(timeout);
+  }, [timingKey]);
+
+  const savedPreview = useQuery<SchedulePreviewResult>({
+    queryKey: [`/api/backup-schedules/${scheduleId}/preview?count=${count}`],
+    enabled: scheduleId !== undefined && !timing,
+  });
+
+  const editedPreview = useQuery<SchedulePreviewResult>({
+    queryKey: ["/api/backup-schedules/preview", debouncedTiming, count],
+    queryFn: () => apiRequest<SchedulePreviewResult>("POST", "/api/backup-schedules/preview", { ...debouncedTiming, count }),
+    enabled: !!debouncedTiming,
+  });
+
+  const { data: preview, isLoading, error } = timing ? editedPreview : savedPreview;
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  if (error || !preview) {
+    return <p className="text-sm text-red-500">{getErrorMessage(error)}</p>;
+  }
+
+  return (
+    <ul className="text-sm text-muted-foreground space-y-0.5">
+      {preview.runs.map((run) => (
+        <li key={run}>
+          {new Date(run).toLocaleString(undefined, {
+            timeZone: preview.timeZone,
+            weekday: "short",
+            year: "numeric",
+            month: "short",
+            day: "numeric",
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </li>
+      ))}
+      <li className="text-xs">{preview.timeZone}</li>
+    </ul>
+  );
+};
+
+export default SchedulePreview;
@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
 import OAuthPopup from "./oauth-popup";
+import ProviderConfigFields, { toProviderSettings, useProviderConfigFields } from "./provider-config-fields";
 
 // Create nested credential schema
 // NOTE: This is named configSchema to match the database field name (config, not credentials)
@@ -27,14 +28,17 @@ const configSchema = z.object({
   password: z.string().optional(),
   port: z.string().optional(),
   path: z.string().optional(),
-});
+}).passthrough();
+
+// Providers whose settings are rendered from the registry's configFields
+const REGISTRY_PROVIDER_TYPES = ["sftp", "webdav"];
 
 // Form validation schema
 const formSchema = z.object({
   name: z.string().min(1, {
     message: "Provider name is required",
   }),
-  type: z.enum(["google", "dropbox", "s3", "ftp", "local", "onedrive", "github"]),
+  type: z.enum(["google", "dropbox", "s3", "ftp", "sftp", "webdav", "local", "onedrive", "github"]),
   config: configSchema,
   quota: z.preprocess(
     (val) => (val === "" ? null : Number(val)),
@@ -75,6 +79,12 @@ const AddStorageForm = ({ onSuccess }: AddStorageFormProps) => {
     },
   });
 
+  const providerType = form.watch("type");
+  const { data: registryFields } = useProviderConfigFields(
+    providerType,
+    REGISTRY_PROVIDER_TYPES.includes(providerType)
+  );
+
   const mutation = useMutation({
     mutationFn: async (data: FormValues) => {
       return await apiRequest("POST", "/api/storage-providers", data);
@@ -165,6 +175,10 @@ const AddStorageForm = ({ onSuccess }: AddStorageFormProps) => {
           path: form.watch("config.path") || "",
         };
         break;
+      case "sftp":
+      case "webdav":
+        configObj = toProviderSettings(registryFields?.fields || [], data.config);
+        break;
     }
 
     mutation.mutate({
@@ -175,8 +189,10 @@ const AddStorageForm = ({ onSuccess }: AddStorageFormProps) => {
 
   // Render dynamic credential fields based on provider type
   const renderCredentialFields = () => {
-    const providerType = form.watch("type");
-    
+    if (REGISTRY_PROVIDER_TYPES.includes(providerType)) {
+      return <ProviderConfigFields providerId={providerType} control={form.control} />;
+    }
+
     switch (providerType) {
       case "google":
         return (
@@ -567,6 +583,8 @@ const AddStorageForm = ({ onSuccess }: AddStorageFormProps) => {
                   <SelectItem value="github">GitHub</SelectItem>
                   <SelectItem value="onedrive">OneDrive</SelectItem>
                   <SelectItem value="ftp">FTP Server</SelectItem>
+                  <SelectItem value="sftp">SFTP Server</SelectItem>
+                  <SelectItem value="webdav">WebDAV / Nextcloud</SelectItem>
                   <SelectItem value="local">Local Storage</SelectItem>
                 </SelectContent>
               </Select>
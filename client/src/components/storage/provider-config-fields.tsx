@@ -0,0 +1,159 @@
+import { useQuery } from "@tanstack/react-query";
+import { Control } from "react-hook-form";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+// Mirrors the configFields entries returned by the provider registry
+export interface ProviderConfigField {
+  name: string;
+  type: "text" | "password" | "number" | "boolean" | "select";
+  label: string;
+  placeholder?: string;
+  required: boolean;
+  options?: { value: string; label: string }[];
+  defaultValue?: any;
+  validation?: {
+    pattern?: string;
+    min?: number;
+    max?: number;
+    message?: string;
+  };
+}
+
+interface ProviderConfigFieldsResponse {
+  success: boolean;
+  fields: ProviderConfigField[];
+}
+
+/**
+ * Convert raw form values into the types declared by the provider fields
+ */
+export const toProviderSettings = (
+  fields: ProviderConfigField[],
+  values: Record<string, any>
+): Record<string, any> => {
+  const settings: Record<string, any> = {};
+
+  fields.forEach((field) => {
+    const value = values[field.name];
+
+    if (value === undefined || value === null || value === "") {
+      if (field.defaultValue !== undefined) settings[field.name] = field.defaultValue;
+      return;
+    }
+
+    settings[field.name] = field.type === "number" ? Number(value) : value;
+  });
+
+  return settings;
+};
+
+/**
+ * Load the configuration fields of a provider from the registry
+ */
+export const useProviderConfigFields = (providerId: string, enabled = true) => {
+  return useQuery<ProviderConfigFieldsResponse>({
+    queryKey: [`/api/backup/providers/${providerId}/fields`],
+    enabled,
+  });
+};
+
+interface ProviderConfigFieldsProps {
+  providerId: string;
+  control: Control<any>;
+}
+
+/**
+ * Render the configuration fields a provider declares, without provider specific UI
+ */
+const ProviderConfigFields = ({ providerId, control }: ProviderConfigFieldsProps) => {
+  const { data, isLoading, isError } = useProviderConfigFields(providerId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading provider settings...
+      </div>
+    );
+  }
+
+  if (isError || !data?.fields) {
+    return (
+      <div className="text-sm text-red-600 dark:text-red-400">
+        Could not load the settings for this provider
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {data.fields.map((configField) => (
+        <FormField
+          key={configField.name}
+          control={control}
+          name={`config.${configField.name}`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {configField.label}
+                {configField.required && <span className="text-red-500"> *</span>}
+              </FormLabel>
+              {configField.type === "select" ? (
+                <Select
+                  onValueChange={field.onChange}
+                  defaultValue={field.value ?? configField.defaultValue}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder={configField.placeholder || `Select ${configField.label}`} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {configField.options?.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : configField.type === "boolean" ? (
+                <FormControl>
+                  <div>
+                    <Switch
+                      checked={Boolean(field.value ?? configField.defaultValue)}
+                      onCheckedChange={field.onChange}
+                    />
+                  </div>
+                </FormControl>
+              ) : (
+                <FormControl>
+                  <Input
+                    type={configField.type}
+                    placeholder={
+                      configField.placeholder ??
+                      (configField.defaultValue !== undefined ? String(configField.defaultValue) : undefined)
+                    }
+                    {...field}
+                    value={field.value ?? ""}
+                  />
+                </FormControl>
+              )}
+              {configField.validation?.message && (
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {configField.validation.message}
+                </div>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </>
+  );
+};
+
+export default ProviderConfigFields;
@@ -47,6 +47,8 @@ export interface Backup {
   error?: string;
   startedAt: string;
   completedAt?: string;
+  verifiedAt?: string; // Last time the stored archives matched their checksums
+  checksums?: Record<string, string>; // SHA-256 of every stored archive by name
   processId?: string;  // WordPress backup process ID for status tracking
   metadata?: string;   // JSON string with additional backup metadata
 }
@@ -62,12 +64,31 @@ export interface BackupSchedule {
   createdAt: string;
   lastRun?: string;
   backupType: string;
+  fullBackupFrequency?: number | null;
+  differentialBackupFrequency?: number | null;
+  retentionCount?: number | null;
   hourOfDay?: number;
   minuteOfHour?: number;
   dayOfWeek?: number;
+  dayOfMonth?: number | null;
+  cronExpression?: string | null;
+  timeZone?: string | null;
   enabled?: boolean;
 }
 
+// Fields that determine when a backup schedule runs
+export type ScheduleTiming = Pick<BackupSchedule, 'frequency' | 'dayOfMonth' | 'cronExpression' | 'timeZone'> & {
+  dayOfWeek?: number | null;
+  hourOfDay: number;
+  minuteOfHour: number;
+};
+
+// Next run times of a backup schedule
+export interface SchedulePreview {
+  timeZone: string;
+  runs: string[];
+}
+
 // Health Check Result type
 export interface HealthCheckResult {
   overall_health?: {
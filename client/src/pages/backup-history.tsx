@@ -1,5 +1,7 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import {
   Card,
   CardContent,
@@ -31,7 +33,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Site, Backup, StorageProvider } from "@/lib/types";
-import { Search, Download, RefreshCw, MoreVertical, FileDown, Trash, Filter, Loader2, ExternalLink, XCircle, CheckCircle } from "lucide-react";
+import { Search, Download, RefreshCw, MoreVertical, FileDown, Trash, Filter, Loader2, ExternalLink, XCircle, CheckCircle, ShieldCheck } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
 
 const BackupHistory = () => {
@@ -39,6 +41,7 @@ const BackupHistory = () => {
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [searchTerm, setSearchTerm] = useState<string>("");
+  const { toast } = useToast();
   
   // Fetch backups
   const { data: backups, isLoading: isLoadingBackups } = useQuery<Backup[]>({
@@ -55,6 +58,28 @@ const BackupHistory = () => {
     queryKey: ["/api/storage-providers"],
   });
 
+  // Queue a verification of a backup against its recorded checksums
+  const verifyBackupMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/backups/${id}/verify`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/backups"] });
+      toast({
+        title: "Verification queued",
+        description: "The backup will be downloaded and checked against its checksums",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error verifying backup",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Format the size to human-readable format
   const formatSize = (bytes: number | null) => {
     if (bytes === null || bytes === undefined) return "--";
@@ -307,16 +332,27 @@ const BackupHistory = () => {
                           <div className={`inline-flex items-center px-2 py-1 rounded text-xs ${
                             backup.type === 'incremental' 
                               ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' 
-                              : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                              : backup.type === 'differential'
+                                ? 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
+                                : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                           }`}>
                             {backup.type || 'full'}
-                            {backup.type === 'incremental' && backup.parentBackupId && (
+                            {backup.type !== 'full' && backup.parentBackupId && (
                               <span className="ml-1">#{backup.parentBackupId}</span>
                             )}
                           </div>
                         </TableCell>
                         <TableCell>
                           {getStatusBadge(backup.status)}
+                          {backup.verifiedAt && (
+                            <div
+                              className="inline-flex items-center mt-1 px-2 py-0.5 rounded text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                              title={format(new Date(backup.verifiedAt), "MMM d, yyyy HH:mm:ss")}
+                            >
+                              <ShieldCheck className="h-3 w-3 mr-1" />
+                              Verified {formatDistanceToNow(new Date(backup.verifiedAt), { addSuffix: true })}
+                            </div>
+                          )}
                           {backup.error && (
                             <div className="text-xs text-red-500 mt-1">{backup.error}</div>
                           )}
@@ -326,7 +362,7 @@ const BackupHistory = () => {
                           {backup.fileCount ? (
                             <div>
                               <span>{backup.fileCount.toLocaleString()}</span>
-                              {backup.type === 'incremental' && backup.changedFiles && (
+                              {backup.type !== 'full' && backup.changedFiles && (
                                 <div className="text-xs text-muted-foreground">
                                   {backup.changedFiles.toLocaleString()} changed
                                 </div>
@@ -377,6 +413,13 @@ const BackupHistory = () => {
                                     <RefreshCw className="mr-2 h-4 w-4" />
                                     <span>Restore Site</span>
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    disabled={verifyBackupMutation.isPending}
+                                    onClick={() => verifyBackupMutation.mutate(backup.id)}
+                                  >
+                                    <ShieldCheck className="mr-2 h-4 w-4" />
+                                    <span>Verify</span>
+                                  </DropdownMenuItem>
                                 </>
                               )}
                               {backup.status === "failed" && (
@@ -390,7 +433,7 @@ const BackupHistory = () => {
                                 <span>View Details</span>
                               </DropdownMenuItem>
                               
-                              {backup.type === 'incremental' && (
+                              {backup.type !== 'full' && (
                                 <DropdownMenuItem>
                                   <RefreshCw className="mr-2 h-4 w-4" />
                                   <span>View Backup Chain</span>
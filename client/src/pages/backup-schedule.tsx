@@ -26,7 +26,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { format, formatDistanceToNow } from "date-fns";
-import { Clock, CalendarClock, Plus, Loader2, Power, Settings } from "lucide-react";
+import { Clock, CalendarClock, CalendarRange, Plus, Loader2, Power, Settings } from "lucide-react";
+import SchedulePreview from "@/components/backup/SchedulePreview";
+
+// Schedules default to the browser's time zone
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const timeZones = Intl.supportedValuesOf("timeZone");
 
 const BackupSchedulePage = () => {
   const { toast } = useToast();
@@ -55,11 +60,17 @@ const BackupSchedulePage = () => {
       (val) => parseInt(String(val), 10),
       z.number().positive("Storage provider selection is required")
     ),
-    frequency: z.enum(["hourly", "daily", "weekly", "monthly"]),
+    frequency: z.enum(["hourly", "daily", "weekly", "monthly", "custom"]),
     dayOfWeek: z.preprocess(
       (val) => val === "" ? null : parseInt(String(val), 10),
       z.number().min(0).max(6).nullable()
     ),
+    dayOfMonth: z.preprocess(
+      (val) => val === "" || val === null ? null : parseInt(String(val), 10),
+      z.number().min(1).max(31).nullable()
+    ),
+    cronExpression: z.string().optional(),
+    timeZone: z.string().min(1, "Time zone is required"),
     hourOfDay: z.preprocess(
       (val) => parseInt(String(val), 10),
       z.number().min(0).max(23)
@@ -68,16 +79,23 @@ const BackupSchedulePage = () => {
       (val) => parseInt(String(val), 10),
       z.number().min(0).max(59)
     ),
-    backupType: z.enum(["full", "incremental"]).default("full"),
+    backupType: z.enum(["full", "incremental", "differential"]).default("full"),
     fullBackupFrequency: z.preprocess(
       (val) => val === "" ? null : parseInt(String(val), 10),
       z.number().min(1).max(30).nullable()
     ),
+    differentialBackupFrequency: z.preprocess(
+      (val) => val === "" ? null : parseInt(String(val), 10),
+      z.number().min(1).max(30).nullable()
+    ),
     retentionCount: z.preprocess(
       (val) => val === "" ? null : parseInt(String(val), 10),
       z.number().min(1).nullable()
     ),
     enabled: z.boolean().default(true),
+  }).refine((data) => data.frequency !== "custom" || !!data.cronExpression?.trim(), {
+    message: "Cron expression is required",
+    path: ["cronExpression"],
   });
 
   type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
@@ -89,10 +107,14 @@ const BackupSchedulePage = () => {
       storageProviderId: undefined,
       frequency: "daily",
       dayOfWeek: null,
+      dayOfMonth: null,
+      cronExpression: "",
+      timeZone: browserTimeZone,
       hourOfDay: 0,
       minuteOfHour: 0,
       backupType: "full",
       fullBackupFrequency: null,
+      differentialBackupFrequency: null,
       retentionCount: null,
       enabled: true,
     },
@@ -146,6 +168,20 @@ const BackupSchedulePage = () => {
     createScheduleMutation.mutate(data);
   };
 
+  // Timing of the schedule being created, for the run time preview
+  const [frequency, dayOfWeek, dayOfMonth, hourOfDay, minuteOfHour, cronExpression, timeZone] = form.watch([
+    "frequency", "dayOfWeek", "dayOfMonth", "hourOfDay", "minuteOfHour", "cronExpression", "timeZone",
+  ]);
+  const previewTiming = {
+    frequency,
+    dayOfWeek: dayOfWeek === null ? null : Number(dayOfWeek),
+    dayOfMonth: dayOfMonth === null ? null : Number(dayOfMonth),
+    hourOfDay: Number(hourOfDay) || 0,
+    minuteOfHour: Number(minuteOfHour) || 0,
+    cronExpression: frequency === "custom" ? cronExpression : null,
+    timeZone,
+  };
+
   // Get site name by ID
   const getSiteName = (siteId: number) => {
     if (!sites) return "Unknown Site";
@@ -185,13 +221,16 @@ const BackupSchedulePage = () => {
         schedule_text = `Every ${day} at ${String(hourOfDay).padStart(2, '0')}:${String(minuteOfHour).padStart(2, '0')}`;
         break;
       case "monthly":
-        schedule_text = `Monthly on day 1 at ${String(hourOfDay).padStart(2, '0')}:${String(minuteOfHour).padStart(2, '0')}`;
+        schedule_text = `Monthly on day ${schedule.dayOfMonth || 1} at ${String(hourOfDay).padStart(2, '0')}:${String(minuteOfHour).padStart(2, '0')}`;
+        break;
+      case "custom":
+        schedule_text = schedule.cronExpression ? `Cron: ${schedule.cronExpression}` : "Custom schedule";
         break;
       default:
         schedule_text = "Custom schedule";
     }
     
-    return schedule_text;
+    return schedule.timeZone ? `${schedule_text} (${schedule.timeZone})` : schedule_text;
   };
 
   return (
@@ -292,6 +331,7 @@ const BackupSchedulePage = () => {
                               <SelectItem value="daily">Daily</SelectItem>
                               <SelectItem value="weekly">Weekly</SelectItem>
                               <SelectItem value="monthly">Monthly</SelectItem>
+                              <SelectItem value="custom">Custom (cron)</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage className="text-red-500" />
@@ -331,36 +371,122 @@ const BackupSchedulePage = () => {
                       />
                     )}
 
-                    <div className="flex space-x-4 mt-4">
-                      {form.watch('frequency') !== 'hourly' && (
+                    {form.watch('frequency') === 'monthly' && (
+                      <FormField
+                        control={form.control}
+                        name="dayOfMonth"
+                        render={({ field }) => (
+                          <FormItem className="mt-4">
+                            <FormLabel className="text-gray-700 dark:text-gray-300">Day of Month (1-31)</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                min="1" 
+                                max="31" 
+                                placeholder="1"
+                                value={field.value === null ? '' : field.value}
+                                onChange={(e) => field.onChange(e.target.value === '' ? null : parseInt(e.target.value))}
+                                className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                              />
+                            </FormControl>
+                            <FormDescription className="text-gray-500 dark:text-gray-400 text-xs mt-1">
+                              Months without this day are skipped
+                            </FormDescription>
+                            <FormMessage className="text-red-500" />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {form.watch('frequency') === 'custom' && (
+                      <FormField
+                        control={form.control}
+                        name="cronExpression"
+                        render={({ field }) => (
+                          <FormItem className="mt-4">
+                            <FormLabel className="text-gray-700 dark:text-gray-300">Cron Expression</FormLabel>
+                            <FormControl>
+                              <Input 
+                                placeholder="0 3 * * 1-5" 
+                                {...field} 
+                                className="font-mono border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200" 
+                              />
+                            </FormControl>
+                            <FormDescription className="text-gray-500 dark:text-gray-400 text-xs mt-1">
+                              Minute, hour, day of month, month and day of week
+                            </FormDescription>
+                            <FormMessage className="text-red-500" />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {form.watch('frequency') !== 'custom' && (
+                      <div className="flex space-x-4 mt-4">
+                        {form.watch('frequency') !== 'hourly' && (
+                          <FormField
+                            control={form.control}
+                            name="hourOfDay"
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormLabel className="text-gray-700 dark:text-gray-300">Hour (0-23)</FormLabel>
+                                <FormControl>
+                                  <Input type="number" min="0" max="23" {...field} className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200" />
+                                </FormControl>
+                                <FormMessage className="text-red-500" />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+
                         <FormField
                           control={form.control}
-                          name="hourOfDay"
+                          name="minuteOfHour"
                           render={({ field }) => (
                             <FormItem className="flex-1">
-                              <FormLabel className="text-gray-700 dark:text-gray-300">Hour (0-23)</FormLabel>
+                              <FormLabel className="text-gray-700 dark:text-gray-300">Minute (0-59)</FormLabel>
                               <FormControl>
-                                <Input type="number" min="0" max="23" {...field} className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200" />
+                                <Input type="number" min="0" max="59" {...field} className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200" />
                               </FormControl>
                               <FormMessage className="text-red-500" />
                             </FormItem>
                           )}
                         />
-                      )}
+                      </div>
+                    )}
 
-                      <FormField
-                        control={form.control}
-                        name="minuteOfHour"
-                        render={({ field }) => (
-                          <FormItem className="flex-1">
-                            <FormLabel className="text-gray-700 dark:text-gray-300">Minute (0-59)</FormLabel>
+                    <FormField
+                      control={form.control}
+                      name="timeZone"
+                      render={({ field }) => (
+                        <FormItem className="mt-4">
+                          <FormLabel className="text-gray-700 dark:text-gray-300">Time Zone</FormLabel>
+                          <Select 
+                            onValueChange={field.onChange} 
+                            defaultValue={field.value}
+                          >
                             <FormControl>
-                              <Input type="number" min="0" max="59" {...field} className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200" />
+                              <SelectTrigger className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200">
+                                <SelectValue placeholder="Select time zone" />
+                              </SelectTrigger>
                             </FormControl>
-                            <FormMessage className="text-red-500" />
-                          </FormItem>
-                        )}
-                      />
+                            <SelectContent className="max-h-72 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-600">
+                              {timeZones.map((zone) => (
+                                <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription className="text-gray-500 dark:text-gray-400 text-xs mt-1">
+                            Runs keep their local time when daylight saving time starts or ends
+                          </FormDescription>
+                          <FormMessage className="text-red-500" />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="mt-4">
+                      <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Next Runs</p>
+                      <SchedulePreview timing={previewTiming} />
                     </div>
                   </div>
 
@@ -383,17 +509,18 @@ const BackupSchedulePage = () => {
                             <SelectContent className="bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-600">
                               <SelectItem value="full">Full</SelectItem>
                               <SelectItem value="incremental">Incremental</SelectItem>
+                              <SelectItem value="differential">Differential</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormDescription className="text-gray-500 dark:text-gray-400 text-xs mt-1">
-                            Full backups contain all files. Incremental backups only store changes since the last full backup.
+                            Full backups contain all files. Incremental backups only store changes since the previous backup, differential backups all changes since the last full backup.
                           </FormDescription>
                           <FormMessage className="text-red-500" />
                         </FormItem>
                       )}
                     />
                     
-                    {form.watch('backupType') === 'incremental' && (
+                    {form.watch('backupType') !== 'full' && (
                       <FormField
                         control={form.control}
                         name="fullBackupFrequency"
@@ -418,7 +545,40 @@ const BackupSchedulePage = () => {
                               />
                             </FormControl>
                             <FormDescription className="text-gray-500 dark:text-gray-400 text-xs mt-1">
-                              Number of incremental backups before creating a new full backup
+                              Number of {form.watch('backupType')} backups before creating a new full backup
+                            </FormDescription>
+                            <FormMessage className="text-red-500" />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    
+                    {form.watch('backupType') === 'incremental' && (
+                      <FormField
+                        control={form.control}
+                        name="differentialBackupFrequency"
+                        render={({ field }) => (
+                          <FormItem className="mt-4">
+                            <FormLabel className="text-gray-700 dark:text-gray-300">Differential Backup Frequency</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                min="1" 
+                                max="30" 
+                                placeholder="Leave empty for incremental backups only" 
+                                value={field.value === null ? '' : field.value}
+                                onChange={(e) => {
+                                  if (e.target.value === '') {
+                                    field.onChange(null);
+                                  } else {
+                                    field.onChange(parseInt(e.target.value));
+                                  }
+                                }}
+                                className="border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200"
+                              />
+                            </FormControl>
+                            <FormDescription className="text-gray-500 dark:text-gray-400 text-xs mt-1">
+                              Number of incremental backups before creating a differential backup, so restores only need the full backup, the latest differential and the incrementals since then
                             </FormDescription>
                             <FormMessage className="text-red-500" />
                           </FormItem>
@@ -573,6 +733,7 @@ const BackupSchedulePage = () => {
                                 <SelectContent className="bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-600">
                                   <SelectItem value="full">Full</SelectItem>
                                   <SelectItem value="incremental">Incremental</SelectItem>
+                                  <SelectItem value="differential">Differential</SelectItem>
                                 </SelectContent>
                               </Select>
                             </div>
@@ -617,6 +778,16 @@ const BackupSchedulePage = () => {
                   </div>
                 </div>
                 
+                {schedule.enabled && (
+                  <div className="flex items-start space-x-2">
+                    <CalendarRange className="h-5 w-5 text-primary mt-0.5" />
+                    <div>
+                      <p className="font-medium">Upcoming Runs</p>
+                      <SchedulePreview scheduleId={schedule.id} count={3} />
+                    </div>
+                  </div>
+                )}
+                
                 <div className="flex items-start space-x-2">
                   <Power className={`h-5 w-5 mt-0.5 ${schedule.enabled ? 'text-green-500' : 'text-gray-400'}`} />
                   <div>
@@ -630,16 +801,19 @@ const BackupSchedulePage = () => {
                 {schedule.backupType && (
                   <div className="flex items-start space-x-2">
                     <div className={`h-5 w-5 mt-0.5 rounded-full flex items-center justify-center 
-                      ${schedule.backupType === 'incremental' ? 'bg-blue-100 text-blue-600' : 'bg-green-100 text-green-600'}`}>
-                      {schedule.backupType === 'incremental' ? 'I' : 'F'}
+                      ${schedule.backupType === 'incremental' ? 'bg-blue-100 text-blue-600' : schedule.backupType === 'differential' ? 'bg-purple-100 text-purple-600' : 'bg-green-100 text-green-600'}`}>
+                      {schedule.backupType === 'incremental' ? 'I' : schedule.backupType === 'differential' ? 'D' : 'F'}
                     </div>
                     <div>
                       <p className="font-medium">Backup Type</p>
                       <p className="text-sm text-muted-foreground capitalize">
                         {schedule.backupType} 
-                        {schedule.backupType === 'incremental' && schedule.fullBackupFrequency && (
+                        {schedule.backupType !== 'full' && schedule.fullBackupFrequency && (
                           <span> (Full backup every {schedule.fullBackupFrequency} backups)</span>
                         )}
+                        {schedule.backupType === 'incremental' && schedule.differentialBackupFrequency && (
+                          <span> (Differential backup every {schedule.differentialBackupFrequency} incrementals)</span>
+                        )}
                       </p>
                     </div>
                   </div>
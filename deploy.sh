@@ -20,7 +20,7 @@ fi
 # Configuration - Change these variables as needed
 APP_DIR="/opt/wordpress-backup"
 APP_PORT=5000
-NODE_VERSION="20.x"
+NODE_VERSION="22.x"
 ADMIN_USERNAME="${ADMIN_USERNAME:-admin}"
 ADMIN_PASSWORD="${ADMIN_PASSWORD:-}"
 
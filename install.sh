@@ -16,8 +16,9 @@ fi
 
 # Check Node.js version
 NODE_VERSION=$(node -v | cut -d 'v' -f 2 | cut -d '.' -f 1)
-if [ "$NODE_VERSION" -lt 16 ]; then
-    echo "Node.js version is $NODE_VERSION. Please upgrade to version 16 or higher."
+NODE_MINOR=$(node -v | cut -d '.' -f 2)
+if [ "$NODE_VERSION" -lt 22 ] || { [ "$NODE_VERSION" -eq 22 ] && [ "$NODE_MINOR" -lt 15 ]; }; then
+    echo "Node.js version is $(node -v). Please upgrade to version 22.15 or higher."
     echo "Visit https://nodejs.org/ for upgrade instructions."
     exit 1
 fi
@@ -0,0 +1,3 @@
+-- Archives of 2 GB and more don't fit into integer columns
+ALTER TABLE "backups" ALTER COLUMN "size" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "backup_runs" ALTER COLUMN "size" SET DATA TYPE bigint;
@@ -5,20 +5,27 @@
  * using Drizzle ORM for database operations.
  */
 import { PostgresJsDatabase } from "drizzle-orm/postgres-js";
-import { eq, and, desc, asc, isNull, sql } from "drizzle-orm";
+import { eq, and, desc, asc, isNull, inArray, lte, sql } from "drizzle-orm";
 
 import * as schema from "../../shared/schema";
 import { 
-  users, sites, storageProviders, backupSchedules, backups, feedback,
+  users, sites, storageProviders, backupConfigurations, backupSchedules, backups, backupRuns, jobs, repositoryChunks, encryptionKeys, restoreDrills, feedback,
   type User, type InsertUser, 
   type Site, type InsertSite,
   type StorageProvider, type InsertStorageProvider,
+  type BackupConfiguration, type InsertBackupConfiguration,
   type BackupSchedule, type InsertBackupSchedule,
   type Backup, type InsertBackup,
+  type BackupRunRecord, type InsertBackupRunRecord,
+  type Job, type InsertJob,
+  type RepositoryChunk, type InsertRepositoryChunk,
+  type EncryptionKey, type InsertEncryptionKey,
+  type RestoreDrill, type InsertRestoreDrill,
   type Feedback, type InsertFeedback
 } from "../../shared/schema";
-import { IStorage } from "../storage";
+import { IStorage, JobFilter } from "../storage";
 import logger from "../utils/logger";
+import { getNextRun, changesTiming } from "../utils/schedule";
 
 /**
  * PostgreSQL implementation of the storage interface
@@ -185,6 +192,63 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  // Backup Configuration operations
+  async getBackupConfiguration(id: string): Promise<BackupConfiguration | undefined> {
+    try {
+      const result = await this.db.select().from(backupConfigurations).where(eq(backupConfigurations.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      logger.error("Error retrieving backup configuration by ID", { error, configurationId: id });
+      throw error;
+    }
+  }
+
+  async listBackupConfigurations(): Promise<BackupConfiguration[]> {
+    try {
+      return await this.db.select().from(backupConfigurations).orderBy(asc(backupConfigurations.createdAt));
+    } catch (error) {
+      logger.error("Error listing backup configurations", { error });
+      throw error;
+    }
+  }
+
+  async createBackupConfiguration(configuration: InsertBackupConfiguration): Promise<BackupConfiguration> {
+    try {
+      const result = await this.db.insert(backupConfigurations).values(configuration).returning();
+      return result[0];
+    } catch (error) {
+      logger.error("Error creating backup configuration", { error, configurationId: configuration.id });
+      throw error;
+    }
+  }
+
+  async updateBackupConfiguration(id: string, configuration: Partial<InsertBackupConfiguration>): Promise<BackupConfiguration | undefined> {
+    try {
+      const result = await this.db.update(backupConfigurations)
+        .set({ ...configuration, updatedAt: new Date() })
+        .where(eq(backupConfigurations.id, id))
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      logger.error("Error updating backup configuration", { error, configurationId: id });
+      throw error;
+    }
+  }
+
+  async deleteBackupConfiguration(id: string): Promise<boolean> {
+    try {
+      const result = await this.db.delete(backupConfigurations)
+        .where(eq(backupConfigurations.id, id))
+        .returning({ id: backupConfigurations.id });
+      
+      return result.length > 0;
+    } catch (error) {
+      logger.error("Error deleting backup configuration", { error, configurationId: id });
+      throw error;
+    }
+  }
+
   // Backup Schedule operations
   async getBackupSchedule(id: number): Promise<BackupSchedule | undefined> {
     try {
@@ -220,28 +284,12 @@ export class PostgresStorage implements IStorage {
   async createBackupSchedule(schedule: InsertBackupSchedule): Promise<BackupSchedule> {
     try {
       // Calculate next run date
-      const now = new Date();
-      const nextRun = new Date(now);
-      nextRun.setHours(schedule.hourOfDay);
-      nextRun.setMinutes(schedule.minuteOfHour || 0);
-      nextRun.setSeconds(0);
-      nextRun.setMilliseconds(0);
-      
-      if (nextRun <= now) {
-        // If the scheduled time for today has already passed, schedule for tomorrow
-        nextRun.setDate(nextRun.getDate() + 1);
-      }
-      
-      // For weekly schedules, adjust to the next occurrence of the specified day
-      if (schedule.frequency === 'weekly' && schedule.dayOfWeek !== null && schedule.dayOfWeek !== undefined) {
-        while (nextRun.getDay() !== schedule.dayOfWeek) {
-          nextRun.setDate(nextRun.getDate() + 1);
-        }
-      }
+      const nextRun = getNextRun(schedule, new Date());
 
       const insertData = {
         ...schedule,
-        lastRun: null as null  // Explicitly typed as null
+        lastRun: null as null,  // Explicitly typed as null
+        nextRun
       };
 
       const result = await this.db.insert(backupSchedules)
@@ -257,41 +305,18 @@ export class PostgresStorage implements IStorage {
 
   async updateBackupSchedule(id: number, schedule: Partial<InsertBackupSchedule>): Promise<BackupSchedule | undefined> {
     try {
-      // If schedule timing is changed, recalculate next run
-      if (schedule.hourOfDay !== undefined || schedule.minuteOfHour !== undefined || schedule.dayOfWeek !== undefined) {
+      // If schedule timing is changed or it is re-enabled, recalculate next run
+      let nextRun: Date | undefined;
+      if (changesTiming(schedule) || schedule.enabled) {
         const currentSchedule = await this.getBackupSchedule(id);
-        if (currentSchedule) {
-          const hourOfDay = schedule.hourOfDay ?? currentSchedule.hourOfDay;
-          const minuteOfHour = schedule.minuteOfHour ?? currentSchedule.minuteOfHour;
-          const frequency = schedule.frequency ?? currentSchedule.frequency;
-          const dayOfWeek = schedule.dayOfWeek ?? currentSchedule.dayOfWeek;
-          
-          const now = new Date();
-          const nextRun = new Date(now);
-          nextRun.setHours(hourOfDay);
-          nextRun.setMinutes(minuteOfHour);
-          nextRun.setSeconds(0);
-          nextRun.setMilliseconds(0);
-          
-          if (nextRun <= now) {
-            // If the scheduled time for today has already passed, schedule for tomorrow
-            nextRun.setDate(nextRun.getDate() + 1);
-          }
-          
-          // For weekly schedules, adjust to the next occurrence of the specified day
-          if (frequency === 'weekly' && dayOfWeek !== null && dayOfWeek !== undefined) {
-            while (nextRun.getDay() !== dayOfWeek) {
-              nextRun.setDate(nextRun.getDate() + 1);
-            }
-          }
-          
-          // Instead of adding nextRun to schedule object, we'll set it directly in the update query
+        if (currentSchedule && (changesTiming(schedule) || !currentSchedule.enabled)) {
+          nextRun = getNextRun({ ...currentSchedule, ...schedule }, new Date());
         }
       }
 
       // Update the schedule
       const result = await this.db.update(backupSchedules)
-        .set(schedule)
+        .set(nextRun ? { ...schedule, nextRun } : schedule)
         .where(eq(backupSchedules.id, id))
         .returning();
       
@@ -315,6 +340,24 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  async claimBackupSchedule(id: number, expectedNextRun: Date | null, runs: { lastRun: Date | null; nextRun: Date }): Promise<BackupSchedule | undefined> {
+    try {
+      // Conditional update, so only one scheduler claims a due run
+      const result = await this.db.update(backupSchedules)
+        .set(runs)
+        .where(and(
+          eq(backupSchedules.id, id),
+          expectedNextRun ? eq(backupSchedules.nextRun, expectedNextRun) : isNull(backupSchedules.nextRun)
+        ))
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      logger.error("Error claiming backup schedule", { error, scheduleId: id });
+      throw error;
+    }
+  }
+
   // Backup operations
   async getBackup(id: number): Promise<Backup | undefined> {
     try {
@@ -363,6 +406,18 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  async listBackupsByStatus(statuses: string[]): Promise<Backup[]> {
+    try {
+      return await this.db.select()
+        .from(backups)
+        .where(inArray(backups.status, statuses))
+        .orderBy(asc(backups.startedAt));
+    } catch (error) {
+      logger.error("Error listing backups by status", { error });
+      throw error;
+    }
+  }
+
   async createBackup(backup: InsertBackup): Promise<Backup> {
     try {
       const result = await this.db.insert(backups).values(backup).returning();
@@ -406,53 +461,63 @@ export class PostgresStorage implements IStorage {
     }
   }
 
-  async getLatestFullBackup(siteId: number): Promise<Backup | undefined> {
+  async updateBackup(id: number, backup: Partial<InsertBackup>): Promise<Backup | undefined> {
+    try {
+      const result = await this.db.update(backups)
+        .set(backup)
+        .where(eq(backups.id, id))
+        .returning();
+
+      return result[0];
+    } catch (error) {
+      logger.error("Error updating backup", { error, backupId: id });
+      throw error;
+    }
+  }
+
+  async getLatestFullBackup(siteId: number, configurationId?: string): Promise<Backup | undefined> {
     try {
       const result = await this.db.select()
         .from(backups)
         .where(and(
           eq(backups.siteId, siteId),
           eq(backups.type, 'full'),
-          eq(backups.status, 'completed')
+          eq(backups.status, 'completed'),
+          configurationId ? eq(backups.configurationId, configurationId) : undefined
         ))
         .orderBy(desc(backups.startedAt))
         .limit(1);
       
       return result[0];
     } catch (error) {
-      logger.error("Error retrieving latest full backup", { error, siteId });
+      logger.error("Error retrieving latest full backup", { error, siteId, configurationId });
       throw error;
     }
   }
 
   async getBackupChain(backupId: number): Promise<Backup[]> {
     try {
-      const rootBackup = await this.getBackup(backupId);
+      let rootBackup = await this.getBackup(backupId);
       if (!rootBackup) return [];
       
-      // If the backup is a full backup, just return it
-      if (rootBackup.type === 'full' || !rootBackup.parentBackupId) {
-        return [rootBackup];
-      }
-      
-      // Otherwise, recursively get the chain of backups
-      const chain = [rootBackup];
-      let currentParentId = rootBackup.parentBackupId;
-      
-      while (currentParentId) {
-        const parentBackup = await this.getBackup(currentParentId);
+      // Incremental backups belong to the chain of the full backup they build on
+      while (rootBackup.type !== 'full' && rootBackup.parentBackupId) {
+        const parentBackup = await this.getBackup(rootBackup.parentBackupId);
         if (!parentBackup) break;
         
-        chain.unshift(parentBackup);
-        
-        if (parentBackup.type === 'full' || !parentBackup.parentBackupId) {
-          break;
-        }
-        
-        currentParentId = parentBackup.parentBackupId;
+        rootBackup = parentBackup;
       }
       
-      return chain;
+      if (rootBackup.type !== 'full') {
+        return [rootBackup];
+      }
+      
+      const dependents = await this.db.select()
+        .from(backups)
+        .where(eq(backups.parentBackupId, rootBackup.id))
+        .orderBy(asc(backups.startedAt));
+      
+      return [rootBackup, ...dependents];
     } catch (error) {
       logger.error("Error retrieving backup chain", { error, backupId });
       throw error;
@@ -528,6 +593,270 @@ export class PostgresStorage implements IStorage {
     }
   }
 
+  // Backup run operations
+  async getBackupRun(id: string): Promise<BackupRunRecord | undefined> {
+    try {
+      const result = await this.db.select().from(backupRuns).where(eq(backupRuns.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      logger.error("Error retrieving backup run by ID", { error, runId: id });
+      throw error;
+    }
+  }
+
+  async listBackupRunsByStatus(statuses: string[]): Promise<BackupRunRecord[]> {
+    try {
+      return await this.db.select()
+        .from(backupRuns)
+        .where(inArray(backupRuns.status, statuses))
+        .orderBy(asc(backupRuns.createdAt));
+    } catch (error) {
+      logger.error("Error listing backup runs by status", { error, statuses });
+      throw error;
+    }
+  }
+
+  async createBackupRun(run: InsertBackupRunRecord): Promise<BackupRunRecord> {
+    try {
+      const result = await this.db.insert(backupRuns).values(run).returning();
+      return result[0];
+    } catch (error) {
+      logger.error("Error creating backup run", { error, runId: run.id });
+      throw error;
+    }
+  }
+
+  async updateBackupRun(id: string, run: Partial<InsertBackupRunRecord>): Promise<BackupRunRecord | undefined> {
+    try {
+      const result = await this.db.update(backupRuns)
+        .set({ ...run, updatedAt: new Date() })
+        .where(eq(backupRuns.id, id))
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      logger.error("Error updating backup run", { error, runId: id });
+      throw error;
+    }
+  }
+
+  // Job operations
+  async getJob(id: number): Promise<Job | undefined> {
+    try {
+      const result = await this.db.select().from(jobs).where(eq(jobs.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      logger.error("Error retrieving job by ID", { error, jobId: id });
+      throw error;
+    }
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<Job[]> {
+    try {
+      const conditions = [];
+      if (filter.status) conditions.push(inArray(jobs.status, filter.status));
+      if (filter.type) conditions.push(eq(jobs.type, filter.type));
+      if (filter.siteId !== undefined) conditions.push(eq(jobs.siteId, filter.siteId));
+
+      return await this.db.select()
+        .from(jobs)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(jobs.createdAt), desc(jobs.id))
+        .limit(filter.limit ?? 100);
+    } catch (error) {
+      logger.error("Error listing jobs", { error, filter });
+      throw error;
+    }
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    try {
+      const result = await this.db.insert(jobs).values(job).returning();
+      return result[0];
+    } catch (error) {
+      logger.error("Error creating job", { error, type: job.type });
+      throw error;
+    }
+  }
+
+  async updateJob(id: number, job: Partial<Omit<Job, 'id' | 'createdAt'>>): Promise<Job | undefined> {
+    try {
+      const result = await this.db.update(jobs)
+        .set(job)
+        .where(eq(jobs.id, id))
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      logger.error("Error updating job", { error, jobId: id });
+      throw error;
+    }
+  }
+
+  async claimJob(id: number): Promise<Job | undefined> {
+    try {
+      // Conditional update, so only one worker claims a queued job
+      const result = await this.db.update(jobs)
+        .set({
+          status: "running",
+          attempts: sql`${jobs.attempts} + 1`,
+          startedAt: new Date()
+        })
+        .where(and(eq(jobs.id, id), eq(jobs.status, "queued")))
+        .returning();
+      
+      return result[0];
+    } catch (error) {
+      logger.error("Error claiming job", { error, jobId: id });
+      throw error;
+    }
+  }
+
+  // Repository chunk operations
+  async getRepositoryChunks(configurationId: string, hashes: string[]): Promise<RepositoryChunk[]> {
+    if (hashes.length === 0) return [];
+
+    try {
+      return await this.db.select()
+        .from(repositoryChunks)
+        .where(and(eq(repositoryChunks.configurationId, configurationId), inArray(repositoryChunks.hash, hashes)));
+    } catch (error) {
+      logger.error("Error retrieving repository chunks", { error, configurationId });
+      throw error;
+    }
+  }
+
+  async referenceRepositoryChunks(configurationId: string, hashes: string[]): Promise<RepositoryChunk[]> {
+    if (hashes.length === 0) return [];
+
+    try {
+      return await this.db.update(repositoryChunks)
+        .set({ refCount: sql`${repositoryChunks.refCount} + 1` })
+        .where(and(eq(repositoryChunks.configurationId, configurationId), inArray(repositoryChunks.hash, hashes)))
+        .returning();
+    } catch (error) {
+      logger.error("Error referencing repository chunks", { error, configurationId });
+      throw error;
+    }
+  }
+
+  async addRepositoryChunks(chunks: InsertRepositoryChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    try {
+      await this.db.insert(repositoryChunks)
+        .values(chunks)
+        .onConflictDoUpdate({
+          target: [repositoryChunks.configurationId, repositoryChunks.hash],
+          set: { refCount: sql`${repositoryChunks.refCount} + excluded.ref_count` }
+        });
+    } catch (error) {
+      logger.error("Error adding repository chunks", { error, count: chunks.length });
+      throw error;
+    }
+  }
+
+  async releaseRepositoryChunks(configurationId: string, hashes: string[]): Promise<void> {
+    if (hashes.length === 0) return;
+
+    try {
+      await this.db.update(repositoryChunks)
+        .set({ refCount: sql`${repositoryChunks.refCount} - 1` })
+        .where(and(eq(repositoryChunks.configurationId, configurationId), inArray(repositoryChunks.hash, hashes)));
+    } catch (error) {
+      logger.error("Error releasing repository chunks", { error, configurationId });
+      throw error;
+    }
+  }
+
+  async deleteUnreferencedRepositoryChunks(configurationId: string): Promise<RepositoryChunk[]> {
+    try {
+      return await this.db.delete(repositoryChunks)
+        .where(and(eq(repositoryChunks.configurationId, configurationId), lte(repositoryChunks.refCount, 0)))
+        .returning();
+    } catch (error) {
+      logger.error("Error deleting unreferenced repository chunks", { error, configurationId });
+      throw error;
+    }
+  }
+
+  async listRepositoryPackIds(configurationId: string): Promise<string[]> {
+    try {
+      const result = await this.db.selectDistinct({ packId: repositoryChunks.packId })
+        .from(repositoryChunks)
+        .where(eq(repositoryChunks.configurationId, configurationId));
+
+      return result.map(row => row.packId);
+    } catch (error) {
+      logger.error("Error listing repository packs", { error, configurationId });
+      throw error;
+    }
+  }
+
+  // Encryption key operations
+  async getEncryptionKey(id: string): Promise<EncryptionKey | undefined> {
+    try {
+      const result = await this.db.select().from(encryptionKeys).where(eq(encryptionKeys.id, id)).limit(1);
+      return result[0];
+    } catch (error) {
+      logger.error("Error retrieving encryption key", { error, keyId: id });
+      throw error;
+    }
+  }
+
+  async getActiveEncryptionKey(siteId: string): Promise<EncryptionKey | undefined> {
+    try {
+      const result = await this.db.select()
+        .from(encryptionKeys)
+        .where(and(eq(encryptionKeys.siteId, siteId), eq(encryptionKeys.active, true)))
+        .orderBy(desc(encryptionKeys.createdAt))
+        .limit(1);
+
+      return result[0];
+    } catch (error) {
+      logger.error("Error retrieving active encryption key", { error, siteId });
+      throw error;
+    }
+  }
+
+  async createEncryptionKey(key: InsertEncryptionKey): Promise<EncryptionKey> {
+    try {
+      await this.db.update(encryptionKeys)
+        .set({ active: false })
+        .where(and(eq(encryptionKeys.siteId, key.siteId), eq(encryptionKeys.active, true)));
+
+      const result = await this.db.insert(encryptionKeys).values({ ...key, active: true }).returning();
+      return result[0];
+    } catch (error) {
+      logger.error("Error creating encryption key", { error, siteId: key.siteId });
+      throw error;
+    }
+  }
+
+  // Restore drill operations
+  async createRestoreDrill(drill: InsertRestoreDrill): Promise<RestoreDrill> {
+    try {
+      const result = await this.db.insert(restoreDrills).values(drill).returning();
+      return result[0];
+    } catch (error) {
+      logger.error("Error creating restore drill", { error, siteId: drill.siteId });
+      throw error;
+    }
+  }
+
+  async listRestoreDrillsBySiteId(siteId: number, limit: number = 100): Promise<RestoreDrill[]> {
+    try {
+      return await this.db.select()
+        .from(restoreDrills)
+        .where(eq(restoreDrills.siteId, siteId))
+        .orderBy(desc(restoreDrills.completedAt), desc(restoreDrills.id))
+        .limit(limit);
+    } catch (error) {
+      logger.error("Error listing restore drills", { error, siteId });
+      throw error;
+    }
+  }
+
   // Feedback operations
   async getFeedback(id: number): Promise<Feedback | undefined> {
     try {
@@ -1,7 +1,17 @@
 import prisma from '../prisma';
 import logger from '../utils/logger';
+import { getNextRun, changesTiming } from '../utils/schedule';
+import type {
+  BackupConfiguration, InsertBackupConfiguration,
+  BackupRunRecord, InsertBackupRunRecord,
+  Job, InsertJob,
+  RepositoryChunk, InsertRepositoryChunk,
+  EncryptionKey, InsertEncryptionKey,
+  RestoreDrill, InsertRestoreDrill
+} from '@shared/schema';
 import type { 
   IStorage, 
+  JobFilter,
   Backup, InsertBackup, 
   BackupSchedule, InsertBackupSchedule, 
   Feedback, InsertFeedback, 
@@ -10,6 +20,17 @@ import type {
   User, InsertUser
 } from '../storage';
 
+/**
+ * Convert the size of a backup or backup run row to a number
+ *
+ * Sizes are BigInt columns, which Prisma returns as bigint values.
+ */
+function withNumberSize<T>(row: T): T {
+  const size = (row as { size?: unknown } | null)?.size;
+
+  return typeof size === 'bigint' ? { ...row, size: Number(size) } : row;
+}
+
 export class PrismaStorage implements IStorage {
   constructor() {
     logger.info('Using Prisma storage implementation');
@@ -78,6 +99,7 @@ export class PrismaStorage implements IStorage {
     try {
       // Delete related records first due to foreign key constraints
       await prisma.backup.deleteMany({ where: { siteId: id } });
+      await prisma.backupSchedule.deleteMany({ where: { siteId: id } });
       await prisma.feedback.deleteMany({ where: { siteId: id } });
       
       await prisma.site.delete({
@@ -234,11 +256,80 @@ export class PrismaStorage implements IStorage {
     }
   }
 
+  // Backup Configuration operations
+  async getBackupConfiguration(id: string): Promise<BackupConfiguration | undefined> {
+    try {
+      const configuration = await prisma.backupConfiguration.findUnique({
+        where: { id }
+      });
+      return configuration || undefined;
+    } catch (error) {
+      logger.error('Error getting backup configuration', { error });
+      throw error;
+    }
+  }
+
+  async listBackupConfigurations(): Promise<BackupConfiguration[]> {
+    try {
+      return await prisma.backupConfiguration.findMany({
+        orderBy: { createdAt: 'asc' }
+      });
+    } catch (error) {
+      logger.error('Error listing backup configurations', { error });
+      throw error;
+    }
+  }
+
+  async createBackupConfiguration(configuration: InsertBackupConfiguration): Promise<BackupConfiguration> {
+    try {
+      return await prisma.backupConfiguration.create({
+        data: configuration as any
+      });
+    } catch (error) {
+      logger.error('Error creating backup configuration', { error });
+      throw error;
+    }
+  }
+
+  async updateBackupConfiguration(id: string, configuration: Partial<InsertBackupConfiguration>): Promise<BackupConfiguration | undefined> {
+    try {
+      const existingConfiguration = await prisma.backupConfiguration.findUnique({
+        where: { id }
+      });
+
+      if (!existingConfiguration) {
+        return undefined;
+      }
+
+      return await prisma.backupConfiguration.update({
+        where: { id },
+        data: configuration as any
+      });
+    } catch (error) {
+      logger.error('Error updating backup configuration', { error });
+      throw error;
+    }
+  }
+
+  async deleteBackupConfiguration(id: string): Promise<boolean> {
+    try {
+      await prisma.backupConfiguration.delete({
+        where: { id }
+      });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting backup configuration', { error });
+      return false;
+    }
+  }
+
   // Backup Schedule operations
   async getBackupSchedule(id: number): Promise<BackupSchedule | undefined> {
     try {
-      // Backup schedules are not implemented in Prisma yet
-      return undefined;
+      const schedule = await prisma.backupSchedule.findUnique({
+        where: { id }
+      });
+      return schedule || undefined;
     } catch (error) {
       logger.error('Error getting backup schedule', { error });
       throw error;
@@ -247,8 +338,9 @@ export class PrismaStorage implements IStorage {
 
   async listBackupSchedules(): Promise<BackupSchedule[]> {
     try {
-      // Backup schedules are not implemented in Prisma yet
-      return [];
+      return await prisma.backupSchedule.findMany({
+        orderBy: { nextRun: 'asc' }
+      });
     } catch (error) {
       logger.error('Error listing backup schedules', { error });
       throw error;
@@ -257,8 +349,10 @@ export class PrismaStorage implements IStorage {
 
   async listBackupSchedulesBySiteId(siteId: number): Promise<BackupSchedule[]> {
     try {
-      // Backup schedules are not implemented in Prisma yet
-      return [];
+      return await prisma.backupSchedule.findMany({
+        where: { siteId },
+        orderBy: { nextRun: 'asc' }
+      });
     } catch (error) {
       logger.error('Error listing backup schedules by site ID', { error });
       throw error;
@@ -267,8 +361,13 @@ export class PrismaStorage implements IStorage {
 
   async createBackupSchedule(schedule: InsertBackupSchedule): Promise<BackupSchedule> {
     try {
-      // Backup schedules are not implemented in Prisma yet
-      throw new Error('Backup schedules not implemented');
+      return await prisma.backupSchedule.create({
+        data: {
+          ...schedule,
+          lastRun: null,
+          nextRun: getNextRun(schedule, new Date())
+        } as any
+      });
     } catch (error) {
       logger.error('Error creating backup schedule', { error });
       throw error;
@@ -277,8 +376,24 @@ export class PrismaStorage implements IStorage {
 
   async updateBackupSchedule(id: number, schedule: Partial<InsertBackupSchedule>): Promise<BackupSchedule | undefined> {
     try {
-      // Backup schedules are not implemented in Prisma yet
-      return undefined;
+      const existingSchedule = await prisma.backupSchedule.findUnique({
+        where: { id }
+      });
+
+      if (!existingSchedule) {
+        return undefined;
+      }
+
+      // Recalculate next run if schedule timing changed or it was re-enabled
+      const data: any = { ...schedule };
+      if (changesTiming(schedule) || (schedule.enabled && !existingSchedule.enabled)) {
+        data.nextRun = getNextRun({ ...existingSchedule, ...schedule }, new Date());
+      }
+
+      return await prisma.backupSchedule.update({
+        where: { id },
+        data
+      });
     } catch (error) {
       logger.error('Error updating backup schedule', { error });
       throw error;
@@ -287,14 +402,38 @@ export class PrismaStorage implements IStorage {
 
   async deleteBackupSchedule(id: number): Promise<boolean> {
     try {
-      // Backup schedules are not implemented in Prisma yet
-      return false;
+      await prisma.backupSchedule.delete({
+        where: { id }
+      });
+      return true;
     } catch (error) {
       logger.error('Error deleting backup schedule', { error });
       return false;
     }
   }
 
+  async claimBackupSchedule(id: number, expectedNextRun: Date | null, runs: { lastRun: Date | null; nextRun: Date }): Promise<BackupSchedule | undefined> {
+    try {
+      // Conditional update, so only one scheduler claims a due run
+      const { count } = await prisma.backupSchedule.updateMany({
+        where: { id, nextRun: expectedNextRun },
+        data: runs
+      });
+
+      if (count === 0) {
+        return undefined;
+      }
+
+      const schedule = await prisma.backupSchedule.findUnique({
+        where: { id }
+      });
+      return schedule || undefined;
+    } catch (error) {
+      logger.error('Error claiming backup schedule', { error });
+      throw error;
+    }
+  }
+
   // Backup operations
   async getBackup(id: number): Promise<Backup | undefined> {
     try {
@@ -302,7 +441,7 @@ export class PrismaStorage implements IStorage {
         where: { id },
         include: { site: true }
       });
-      return backup as any || undefined;
+      return withNumberSize(backup) as any || undefined;
     } catch (error) {
       logger.error('Error getting backup', { error });
       throw error;
@@ -316,7 +455,7 @@ export class PrismaStorage implements IStorage {
         orderBy: { createdAt: 'desc' },
         include: { site: true }
       });
-      return backups as any[];
+      return backups.map(withNumberSize) as any[];
     } catch (error) {
       logger.error('Error listing backups', { error });
       throw error;
@@ -330,7 +469,7 @@ export class PrismaStorage implements IStorage {
         take: limit,
         orderBy: { createdAt: 'desc' }
       });
-      return backups as any[];
+      return backups.map(withNumberSize) as any[];
     } catch (error) {
       logger.error('Error listing backups by site ID', { error });
       throw error;
@@ -341,6 +480,19 @@ export class PrismaStorage implements IStorage {
     return this.listBackups(limit);
   }
 
+  async listBackupsByStatus(statuses: string[]): Promise<Backup[]> {
+    try {
+      const backups = await prisma.backup.findMany({
+        where: { status: { in: statuses } },
+        orderBy: { createdAt: 'asc' }
+      });
+      return backups.map(withNumberSize) as any[];
+    } catch (error) {
+      logger.error('Error listing backups by status', { error });
+      throw error;
+    }
+  }
+
   async createBackup(backup: InsertBackup): Promise<Backup> {
     try {
       const result = await prisma.backup.create({
@@ -354,7 +506,7 @@ export class PrismaStorage implements IStorage {
         data: { lastBackup: new Date() }
       });
       
-      return result as any;
+      return withNumberSize(result) as any;
     } catch (error) {
       logger.error('Error creating backup', { error });
       throw error;
@@ -387,26 +539,42 @@ export class PrismaStorage implements IStorage {
         include: { site: true }
       });
       
-      return backup as any;
+      return withNumberSize(backup) as any;
     } catch (error) {
       logger.error('Error updating backup status', { error });
       throw error;
     }
   }
+
+  async updateBackup(id: number, backup: Partial<InsertBackup>): Promise<Backup | undefined> {
+    try {
+      const result = await prisma.backup.update({
+        where: { id },
+        data: backup as any,
+        include: { site: true }
+      });
+
+      return withNumberSize(result) as any;
+    } catch (error) {
+      logger.error('Error updating backup', { error });
+      throw error;
+    }
+  }
   
-  async getLatestFullBackup(siteId: number): Promise<Backup | undefined> {
+  async getLatestFullBackup(siteId: number, configurationId?: string): Promise<Backup | undefined> {
     try {
       const backup = await prisma.backup.findFirst({
         where: {
           siteId,
-          backupType: 'full',
-          status: 'completed'
+          type: 'full',
+          status: 'completed',
+          ...(configurationId ? { configurationId } : {})
         },
-        orderBy: { createdAt: 'desc' },
+        orderBy: { completedAt: 'desc' },
         include: { site: true }
       });
       
-      return backup as any || undefined;
+      return withNumberSize(backup) as any || undefined;
     } catch (error) {
       logger.error('Error getting latest full backup', { error });
       throw error;
@@ -415,22 +583,36 @@ export class PrismaStorage implements IStorage {
   
   async getBackupChain(backupId: number): Promise<Backup[]> {
     try {
-      // Find the initial backup
-      const backup = await prisma.backup.findUnique({
+      let rootBackup = await prisma.backup.findUnique({
         where: { id: backupId },
         include: { site: true }
       });
       
-      if (!backup) return [];
+      if (!rootBackup) return [];
       
-      // For simplicity, just return all backups for the site
-      const backups = await prisma.backup.findMany({
-        where: { siteId: backup.siteId },
-        orderBy: { createdAt: 'desc' },
+      // Incremental backups belong to the chain of the full backup they build on
+      while (rootBackup.type !== 'full' && rootBackup.parentBackupId) {
+        const parentBackup = await prisma.backup.findUnique({
+          where: { id: rootBackup.parentBackupId },
+          include: { site: true }
+        });
+        
+        if (!parentBackup) break;
+        
+        rootBackup = parentBackup;
+      }
+      
+      if (rootBackup.type !== 'full') {
+        return [withNumberSize(rootBackup) as any];
+      }
+      
+      const dependents = await prisma.backup.findMany({
+        where: { parentBackupId: rootBackup.id },
+        orderBy: { createdAt: 'asc' },
         include: { site: true }
       });
       
-      return backups as any[];
+      return [rootBackup, ...dependents].map(withNumberSize) as any[];
     } catch (error) {
       logger.error('Error getting backup chain', { error });
       throw error;
@@ -476,14 +658,321 @@ export class PrismaStorage implements IStorage {
   
   async getUpcomingBackups(limit: number = 5): Promise<(BackupSchedule & { site: Site })[]> {
     try {
-      // Backup schedules not implemented yet
-      return [];
+      const schedules = await prisma.backupSchedule.findMany({
+        where: { enabled: true },
+        orderBy: { nextRun: 'asc' },
+        take: limit,
+        include: { site: true }
+      });
+      return schedules as any[];
     } catch (error) {
       logger.error('Error getting upcoming backups', { error });
       throw error;
     }
   }
 
+  // Backup run operations
+  async getBackupRun(id: string): Promise<BackupRunRecord | undefined> {
+    try {
+      const run = await prisma.backupRun.findUnique({
+        where: { id }
+      });
+      return withNumberSize(run) || undefined;
+    } catch (error) {
+      logger.error('Error getting backup run', { error });
+      throw error;
+    }
+  }
+
+  async listBackupRunsByStatus(statuses: string[]): Promise<BackupRunRecord[]> {
+    try {
+      const runs = await prisma.backupRun.findMany({
+        where: { status: { in: statuses } },
+        orderBy: { createdAt: 'asc' }
+      });
+      return runs.map(withNumberSize);
+    } catch (error) {
+      logger.error('Error listing backup runs by status', { error });
+      throw error;
+    }
+  }
+
+  async createBackupRun(run: InsertBackupRunRecord): Promise<BackupRunRecord> {
+    try {
+      const result = await prisma.backupRun.create({
+        data: run as any
+      });
+      return withNumberSize(result);
+    } catch (error) {
+      logger.error('Error creating backup run', { error });
+      throw error;
+    }
+  }
+
+  async updateBackupRun(id: string, run: Partial<InsertBackupRunRecord>): Promise<BackupRunRecord | undefined> {
+    try {
+      const existingRun = await prisma.backupRun.findUnique({
+        where: { id }
+      });
+
+      if (!existingRun) {
+        return undefined;
+      }
+
+      const result = await prisma.backupRun.update({
+        where: { id },
+        data: run as any
+      });
+      return withNumberSize(result);
+    } catch (error) {
+      logger.error('Error updating backup run', { error });
+      throw error;
+    }
+  }
+
+  // Job operations
+  async getJob(id: number): Promise<Job | undefined> {
+    try {
+      const job = await prisma.job.findUnique({
+        where: { id }
+      });
+      return job || undefined;
+    } catch (error) {
+      logger.error('Error getting job', { error });
+      throw error;
+    }
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<Job[]> {
+    try {
+      return await prisma.job.findMany({
+        where: {
+          status: filter.status ? { in: filter.status } : undefined,
+          type: filter.type,
+          siteId: filter.siteId
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: filter.limit ?? 100
+      });
+    } catch (error) {
+      logger.error('Error listing jobs', { error });
+      throw error;
+    }
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    try {
+      return await prisma.job.create({
+        data: job as any
+      });
+    } catch (error) {
+      logger.error('Error creating job', { error });
+      throw error;
+    }
+  }
+
+  async updateJob(id: number, job: Partial<Omit<Job, 'id' | 'createdAt'>>): Promise<Job | undefined> {
+    try {
+      return await prisma.job.update({
+        where: { id },
+        data: job as any
+      });
+    } catch (error) {
+      logger.error('Error updating job', { error });
+      return undefined;
+    }
+  }
+
+  async claimJob(id: number): Promise<Job | undefined> {
+    try {
+      // Conditional update, so only one worker claims a queued job
+      const { count } = await prisma.job.updateMany({
+        where: { id, status: 'queued' },
+        data: { status: 'running', attempts: { increment: 1 }, startedAt: new Date() }
+      });
+
+      if (count === 0) {
+        return undefined;
+      }
+
+      return await this.getJob(id);
+    } catch (error) {
+      logger.error('Error claiming job', { error });
+      throw error;
+    }
+  }
+
+  // Repository chunk operations
+  async getRepositoryChunks(configurationId: string, hashes: string[]): Promise<RepositoryChunk[]> {
+    try {
+      return await prisma.repositoryChunk.findMany({
+        where: { configurationId, hash: { in: hashes } }
+      });
+    } catch (error) {
+      logger.error('Error getting repository chunks', { error });
+      throw error;
+    }
+  }
+
+  async referenceRepositoryChunks(configurationId: string, hashes: string[]): Promise<RepositoryChunk[]> {
+    try {
+      // One update per chunk, so chunks added in the meantime aren't returned without a reference
+      const chunks = await Promise.all(hashes.map(async (hash) => {
+        try {
+          return await prisma.repositoryChunk.update({
+            where: { configurationId_hash: { configurationId, hash } },
+            data: { refCount: { increment: 1 } }
+          });
+        } catch (error: any) {
+          // Record to update not found
+          if (error?.code === 'P2025') {
+            return undefined;
+          }
+          throw error;
+        }
+      }));
+
+      return chunks.filter((chunk): chunk is RepositoryChunk => chunk !== undefined);
+    } catch (error) {
+      logger.error('Error referencing repository chunks', { error });
+      throw error;
+    }
+  }
+
+  async addRepositoryChunks(chunks: InsertRepositoryChunk[]): Promise<void> {
+    try {
+      for (const chunk of chunks) {
+        await prisma.repositoryChunk.upsert({
+          where: { configurationId_hash: { configurationId: chunk.configurationId, hash: chunk.hash } },
+          create: chunk as any,
+          update: { refCount: { increment: chunk.refCount ?? 1 } }
+        });
+      }
+    } catch (error) {
+      logger.error('Error adding repository chunks', { error });
+      throw error;
+    }
+  }
+
+  async releaseRepositoryChunks(configurationId: string, hashes: string[]): Promise<void> {
+    try {
+      await prisma.repositoryChunk.updateMany({
+        where: { configurationId, hash: { in: hashes } },
+        data: { refCount: { decrement: 1 } }
+      });
+    } catch (error) {
+      logger.error('Error releasing repository chunks', { error });
+      throw error;
+    }
+  }
+
+  async deleteUnreferencedRepositoryChunks(configurationId: string): Promise<RepositoryChunk[]> {
+    try {
+      const chunks = await prisma.repositoryChunk.findMany({
+        where: { configurationId, refCount: { lte: 0 } }
+      });
+
+      // Chunks referenced again in the meantime are kept
+      await prisma.repositoryChunk.deleteMany({
+        where: { id: { in: chunks.map((chunk: RepositoryChunk) => chunk.id) }, refCount: { lte: 0 } }
+      });
+
+      return chunks;
+    } catch (error) {
+      logger.error('Error deleting unreferenced repository chunks', { error });
+      throw error;
+    }
+  }
+
+  async listRepositoryPackIds(configurationId: string): Promise<string[]> {
+    try {
+      const chunks = await prisma.repositoryChunk.findMany({
+        where: { configurationId },
+        select: { packId: true },
+        distinct: ['packId']
+      });
+
+      return chunks.map((chunk: { packId: string }) => chunk.packId);
+    } catch (error) {
+      logger.error('Error listing repository packs', { error });
+      throw error;
+    }
+  }
+
+  // Encryption key operations
+  async getEncryptionKey(id: string): Promise<EncryptionKey | undefined> {
+    try {
+      const key = await prisma.encryptionKey.findUnique({
+        where: { id }
+      });
+
+      return key || undefined;
+    } catch (error) {
+      logger.error('Error getting encryption key', { error });
+      throw error;
+    }
+  }
+
+  async getActiveEncryptionKey(siteId: string): Promise<EncryptionKey | undefined> {
+    try {
+      const key = await prisma.encryptionKey.findFirst({
+        where: { siteId, active: true },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      return key || undefined;
+    } catch (error) {
+      logger.error('Error getting active encryption key', { error });
+      throw error;
+    }
+  }
+
+  async createEncryptionKey(key: InsertEncryptionKey): Promise<EncryptionKey> {
+    try {
+      const [, created] = await prisma.$transaction([
+        prisma.encryptionKey.updateMany({
+          where: { siteId: key.siteId, active: true },
+          data: { active: false }
+        }),
+        prisma.encryptionKey.create({
+          data: { ...key, active: true }
+        })
+      ]);
+
+      return created;
+    } catch (error) {
+      logger.error('Error creating encryption key', { error });
+      throw error;
+    }
+  }
+
+  // Restore drill operations
+  async createRestoreDrill(drill: InsertRestoreDrill): Promise<RestoreDrill> {
+    try {
+      const created = await prisma.restoreDrill.create({
+        data: drill
+      });
+
+      return created;
+    } catch (error) {
+      logger.error('Error creating restore drill', { error });
+      throw error;
+    }
+  }
+
+  async listRestoreDrillsBySiteId(siteId: number, limit: number = 100): Promise<RestoreDrill[]> {
+    try {
+      return await prisma.restoreDrill.findMany({
+        where: { siteId },
+        orderBy: [{ completedAt: 'desc' }, { id: 'desc' }],
+        take: limit
+      });
+    } catch (error) {
+      logger.error('Error listing restore drills', { error });
+      throw error;
+    }
+  }
+
   // Feedback operations
   async getFeedback(id: number): Promise<Feedback | undefined> {
     try {
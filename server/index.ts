@@ -4,6 +4,10 @@ import { setupVite, serveStatic, log } from "./vite";
 import { setupAuth } from "./auth";
 import { setupMiddleware, setupErrorHandling } from "./middleware";
 import logger from "./utils/logger";
+import { backupScheduler } from "./services/backup-scheduler";
+import { backupService } from "./services/backup-service";
+import { jobQueue } from "./services/job-queue";
+import { recoverInterruptedBackups, registerJobHandlers } from "./services/job-handlers";
 import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from 'url';
@@ -44,11 +48,21 @@ setupAuth(app);
     }, () => {
       logger.info(`Server started and listening on port ${port}`);
       log(`serving on port ${port}`);
+      
+      // Run queued jobs and backup schedules in the background; backups the
+      // restart interrupted are resumed or failed before their jobs run again,
+      // and archives staged for retries before the restart still expire
+      registerJobHandlers();
+      void recoverInterruptedBackups().then(() => jobQueue.start());
+      void backupService.removeExpiredArchives();
+      backupScheduler.start();
     });
     
     // Handle graceful shutdown
     const gracefulShutdown = () => {
       logger.info('Received shutdown signal, closing server...');
+      backupScheduler.stop();
+      jobQueue.stop();
       server.close(() => {
         logger.info('Server closed successfully');
         process.exit(0);
@@ -0,0 +1,454 @@
+/**
+ * Dropbox API Client
+ *
+ * This module provides a client for the Dropbox HTTP API used by the Dropbox
+ * backup provider. Expired access tokens are refreshed automatically through
+ * the token refresh manager.
+ */
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import logger from '../../utils/logger';
+import { countMatchingChunks, getFileSize, readFileInChunks } from '../../utils/file-stream';
+import { OAuthToken, tokenRefreshManager } from '../../TokenRefreshManager';
+import type { BackupPart, UploadSessionProgress } from '../types';
+import { processDropboxToken } from './index';
+
+// Use the default logger instance
+
+/**
+ * Largest chunk Dropbox accepts in a single upload request
+ */
+export const MAX_CHUNK_SIZE = 150 * 1024 * 1024;
+
+/**
+ * Dropbox file or folder entry
+ */
+export type DropboxEntry = {
+  '.tag': 'file' | 'folder' | 'deleted';
+  name: string;
+  path_lower: string;
+  path_display: string;
+  id?: string;
+  size?: number;
+  server_modified?: string;
+  client_modified?: string;
+};
+
+/**
+ * Type guard to check if an error is an AxiosError
+ * @param error - The error to check
+ * @returns True if the error is an AxiosError
+ */
+function isAxiosError(error: unknown): error is AxiosError {
+  return error !== null &&
+         typeof error === 'object' &&
+         'isAxiosError' in error &&
+         (error as any).isAxiosError === true;
+}
+
+/**
+ * Read the response body of a failed request as an object
+ *
+ * Content endpoints are requested as binary, so their error bodies arrive as buffers.
+ */
+function getErrorData(error: AxiosError): any {
+  const data = error.response?.data;
+
+  if (Buffer.isBuffer(data) || data instanceof ArrayBuffer) {
+    try {
+      return JSON.parse(Buffer.from(data as Buffer).toString('utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Check whether an error is a Dropbox "path not found" error
+ * @param error - The error to check
+ */
+function isNotFoundError(error: unknown): boolean {
+  if (!isAxiosError(error) || error.response?.status !== 409) {
+    return false;
+  }
+
+  const summary = getErrorData(error)?.error_summary;
+  return typeof summary === 'string' && summary.includes('not_found');
+}
+
+/**
+ * Utility function to extract meaningful error messages from Dropbox API errors
+ * @param error - The error to extract a message from
+ * @param context - Additional context for logging
+ * @returns A user-friendly error message
+ */
+function getDropboxErrorMessage(error: unknown, context: string): string {
+  if (isAxiosError(error)) {
+    if (error.response) {
+      const data = getErrorData(error);
+      if (data && typeof data === 'object' && 'error_summary' in data) {
+        return `Dropbox API error (${error.response.status}): ${data.error_summary}`;
+      }
+      return `Dropbox API error (${error.response.status})`;
+    }
+    if (error.request) {
+      return `Dropbox API request failed: No response received`;
+    }
+  }
+  return `Dropbox operation failed: ${context} - ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Encode an argument for the Dropbox-API-Arg header
+ *
+ * HTTP headers must be ASCII, so non-ASCII characters are escaped.
+ */
+function encodeApiArg(arg: Record<string, any>): string {
+  return JSON.stringify(arg).replace(
+    /[\u007f-\uffff]/g,
+    char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
+/**
+ * Dropbox API client
+ */
+export class DropboxClient {
+  private token: OAuthToken;
+  private apiUrl: string;
+  private contentUrl: string;
+  private onTokenRefreshed?: (token: OAuthToken) => void;
+
+  /**
+   * Create a new Dropbox API client
+   *
+   * @param options - Client options
+   */
+  constructor(options: {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    apiUrl?: string;
+    contentUrl?: string;
+    onTokenRefreshed?: (token: OAuthToken) => void;
+  }) {
+    this.token = {
+      access_token: processDropboxToken(options.accessToken),
+      refresh_token: options.refreshToken,
+      expires_at: options.expiresAt,
+    };
+    this.apiUrl = options.apiUrl || 'https://api.dropboxapi.com/2';
+    this.contentUrl = options.contentUrl || 'https://content.dropboxapi.com/2';
+    this.onTokenRefreshed = options.onTokenRefreshed;
+  }
+
+  /**
+   * Refresh the access token
+   */
+  private async refreshToken(): Promise<void> {
+    logger.info('Dropbox access token rejected, refreshing');
+
+    this.token = await tokenRefreshManager.refreshDropboxToken(this.token);
+    this.onTokenRefreshed?.(this.token);
+  }
+
+  /**
+   * Send an authenticated request, refreshing the token once on 401
+   *
+   * @param config - Request configuration
+   * @returns Axios response
+   */
+  private async request<T = any>(config: AxiosRequestConfig) {
+    const send = () => axios.request<T>({
+      ...config,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      headers: {
+        ...config.headers,
+        Authorization: `Bearer ${this.token.access_token}`,
+      },
+    });
+
+    try {
+      return await send();
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 401 && this.token.refresh_token) {
+        await this.refreshToken();
+        return send();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Call an RPC endpoint
+   *
+   * @param endpoint - Endpoint path, e.g. `/files/list_folder`
+   * @param body - JSON body
+   */
+  private async rpc<T = any>(endpoint: string, body: Record<string, any> | null = null): Promise<T> {
+    const response = await this.request<T>({
+      method: 'POST',
+      url: `${this.apiUrl}${endpoint}`,
+      data: body === null ? 'null' : JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Call a content upload endpoint
+   *
+   * @param endpoint - Endpoint path, e.g. `/files/upload`
+   * @param arg - API argument
+   * @param data - Content to upload
+   */
+  private async upload<T = any>(endpoint: string, arg: Record<string, any>, data: Buffer | string): Promise<T> {
+    const response = await this.request<T>({
+      method: 'POST',
+      url: `${this.contentUrl}${endpoint}`,
+      data,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Dropbox-API-Arg': encodeApiArg(arg),
+      },
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Test the API connection
+   *
+   * @returns Test result with the account details
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    account?: any;
+  }> {
+    try {
+      const account = await this.rpc('/users/get_current_account');
+
+      return {
+        success: true,
+        message: `Successfully connected as ${account?.name?.display_name || account?.email || 'Dropbox user'}`,
+        account,
+      };
+    } catch (error: unknown) {
+      logger.error('Error testing Dropbox connection', error);
+
+      return {
+        success: false,
+        message: `Error testing Dropbox connection: ${getDropboxErrorMessage(error, 'testing connection')}`,
+      };
+    }
+  }
+
+  /**
+   * Upload content in a single request
+   *
+   * @param filePath - Dropbox path
+   * @param content - File content
+   */
+  async uploadContent(filePath: string, content: Buffer | string): Promise<DropboxEntry> {
+    try {
+      return await this.upload<DropboxEntry>('/files/upload', {
+        path: filePath,
+        mode: 'overwrite',
+        mute: true,
+      }, content);
+    } catch (error: unknown) {
+      logger.error(`Error uploading file: ${filePath}`, error);
+      throw new Error(getDropboxErrorMessage(error, `uploading file ${filePath}`));
+    }
+  }
+
+  /**
+   * Upload a local file, using an upload session when it is larger than one chunk
+   *
+   * Given the session of an interrupted upload, the upload continues in it
+   * if none of the chunks it stored changed since; otherwise, or if the
+   * session is gone, a new session is started.
+   *
+   * @param filePath - Dropbox path
+   * @param localPath - Local file to upload
+   * @param chunkSize - Chunk size in bytes
+   * @param progress - Session of an interrupted upload and where to save progress
+   */
+  async uploadFile(
+    filePath: string,
+    localPath: string,
+    chunkSize: number,
+    progress?: UploadSessionProgress
+  ): Promise<DropboxEntry> {
+    const size = await getFileSize(localPath);
+    const effectiveChunkSize = Math.min(chunkSize, MAX_CHUNK_SIZE);
+
+    if (size <= effectiveChunkSize) {
+      const chunks: Buffer[] = [];
+      await readFileInChunks(localPath, Math.max(size, 1), async (chunk) => {
+        chunks.push(chunk);
+      });
+      return this.uploadContent(filePath, Buffer.concat(chunks));
+    }
+
+    const numChunks = Math.ceil(size / effectiveChunkSize);
+    const uploaded = progress?.uploaded || [];
+    // Data appended to a session can't be replaced, so a session only continues if all of it is unchanged
+    const resumed = !!progress?.session && uploaded.length > 0 && uploaded.length < numChunks
+      && await countMatchingChunks(localPath, effectiveChunkSize, uploaded) === uploaded.length;
+    const parts: BackupPart[] = resumed ? [...uploaded] : [];
+    let sessionId = resumed ? progress!.session! : '';
+    let offset = parts.reduce((total, part) => total + part.size, 0);
+    let entry: DropboxEntry | undefined;
+
+    try {
+      await readFileInChunks(localPath, effectiveChunkSize, async (chunk, index) => {
+        if (index === 0) {
+          const result = await this.upload<{ session_id: string }>(
+            '/files/upload_session/start',
+            { close: false },
+            chunk
+          );
+          sessionId = result.session_id;
+        } else if (index < numChunks - 1) {
+          await this.upload('/files/upload_session/append_v2', {
+            cursor: { session_id: sessionId, offset },
+            close: false,
+          }, chunk);
+        } else {
+          entry = await this.upload<DropboxEntry>('/files/upload_session/finish', {
+            cursor: { session_id: sessionId, offset },
+            commit: { path: filePath, mode: 'overwrite', mute: true },
+          }, chunk);
+        }
+
+        offset += chunk.length;
+
+        if (index < numChunks - 1) {
+          parts.push({ name: `part${index + 1}`, size: chunk.length, sha256: createHash('sha256').update(chunk).digest('hex') });
+          await progress?.save(sessionId, parts);
+        }
+      }, parts.length);
+    } catch (error: unknown) {
+      // The session expired or was finished, e.g. just before the interruption
+      if (resumed && parts.length === uploaded.length) {
+        logger.warn(`Upload session can't be resumed, starting a new one: ${filePath}`, error);
+        return this.uploadFile(filePath, localPath, chunkSize, { ...progress!, session: undefined, uploaded: [] });
+      }
+
+      logger.error(`Error uploading file in session: ${filePath}`, error);
+      throw new Error(getDropboxErrorMessage(error, `uploading file ${filePath}`));
+    }
+
+    return entry!;
+  }
+
+  /**
+   * Download a file into memory
+   *
+   * @param filePath - Dropbox path
+   * @returns File content or null if the file doesn't exist
+   */
+  async download(filePath: string): Promise<Buffer | null> {
+    try {
+      const response = await this.request<ArrayBuffer>({
+        method: 'POST',
+        url: `${this.contentUrl}/files/download`,
+        headers: { 'Dropbox-API-Arg': encodeApiArg({ path: filePath }) },
+        responseType: 'arraybuffer',
+      });
+
+      return Buffer.from(response.data);
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+
+      logger.error(`Error downloading file: ${filePath}`, error);
+      throw new Error(getDropboxErrorMessage(error, `downloading file ${filePath}`));
+    }
+  }
+
+  /**
+   * Download a file to a local path
+   *
+   * @param filePath - Dropbox path
+   * @param localPath - Destination file path
+   */
+  async downloadToFile(filePath: string, localPath: string): Promise<void> {
+    try {
+      const response = await this.request({
+        method: 'POST',
+        url: `${this.contentUrl}/files/download`,
+        headers: { 'Dropbox-API-Arg': encodeApiArg({ path: filePath }) },
+        responseType: 'stream',
+      });
+
+      await pipeline(response.data as NodeJS.ReadableStream, createWriteStream(localPath));
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${filePath}`, error);
+      throw new Error(getDropboxErrorMessage(error, `downloading file ${filePath}`));
+    }
+  }
+
+  /**
+   * List the entries of a folder
+   *
+   * @param folderPath - Dropbox folder path
+   * @param recursive - Whether to include nested entries
+   * @returns Folder entries, or an empty list if the folder doesn't exist
+   */
+  async listFolder(folderPath: string, recursive: boolean = false): Promise<DropboxEntry[]> {
+    const entries: DropboxEntry[] = [];
+
+    try {
+      let result = await this.rpc<{
+        entries: DropboxEntry[];
+        cursor: string;
+        has_more: boolean;
+      }>('/files/list_folder', { path: folderPath, recursive });
+      entries.push(...result.entries);
+
+      while (result.has_more) {
+        result = await this.rpc('/files/list_folder/continue', { cursor: result.cursor });
+        entries.push(...result.entries);
+      }
+
+      return entries;
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return [];
+      }
+
+      logger.error(`Error listing folder: ${folderPath}`, error);
+      throw new Error(getDropboxErrorMessage(error, `listing folder ${folderPath}`));
+    }
+  }
+
+  /**
+   * Delete a file or folder (folders are deleted recursively on the server)
+   *
+   * @param filePath - Dropbox path
+   */
+  async delete(filePath: string): Promise<void> {
+    try {
+      await this.rpc('/files/delete_v2', { path: filePath });
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return;
+      }
+
+      logger.error(`Error deleting path: ${filePath}`, error);
+      throw new Error(getDropboxErrorMessage(error, `deleting ${filePath}`));
+    }
+  }
+}
+
+export default DropboxClient;
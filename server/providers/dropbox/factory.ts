@@ -0,0 +1,175 @@
+/**
+ * Dropbox Backup Provider Factory
+ *
+ * This module defines the factory for creating Dropbox backup providers.
+ */
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { BackupProviderFactory, BackupConfig, isDropboxBackupConfig } from '../types';
+import { registerProvider } from '../registry';
+import { DropboxBackupProvider } from './provider';
+
+// Use the default logger instance
+
+/**
+ * Validation schema for Dropbox backup provider configuration
+ */
+const dropboxConfigSchema = z.object({
+  accessToken: z.string().min(1, 'Access token is required'),
+  refreshToken: z.string().optional(),
+  expiresAt: z.number().optional(),
+  rootPath: z
+    .string()
+    .regex(/^(\/[^/]+)*\/?$/, 'Folder must be an absolute path inside the app folder, e.g. /wordpress-backups')
+    .optional(),
+  chunkSize: z.number().int().min(1).max(150, 'Chunk size must be at most 150 MB').optional(),
+});
+
+/**
+ * Dropbox Backup Provider Factory
+ */
+export class DropboxBackupProviderFactory implements BackupProviderFactory {
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'dropbox';
+  }
+
+  /**
+   * Get provider information
+   */
+  getInfo(): {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    features: Record<string, boolean>;
+    configFields: Array<{
+      name: string;
+      type: 'text' | 'password' | 'number' | 'boolean' | 'select';
+      label: string;
+      placeholder?: string;
+      required: boolean;
+      options?: { value: string; label: string }[];
+      defaultValue?: any;
+      validation?: {
+        pattern?: string;
+        min?: number;
+        max?: number;
+        message?: string;
+      };
+    }>;
+  } {
+    return {
+      id: 'dropbox',
+      name: 'Dropbox',
+      description: 'Backup WordPress sites to the Dropbox app folder of your account',
+      icon: 'dropbox',
+      features: {
+        incremental: false,
+        compression: true,
+        encryption: false,
+        versioning: true,
+        scheduling: true,
+        fileRestore: true,
+      },
+      configFields: [
+        {
+          name: 'accessToken',
+          type: 'password',
+          label: 'Access Token',
+          required: true,
+        },
+        {
+          name: 'refreshToken',
+          type: 'password',
+          label: 'Refresh Token',
+          required: false,
+          validation: {
+            message: 'Needed to renew short-lived access tokens automatically.',
+          },
+        },
+        {
+          name: 'rootPath',
+          type: 'text',
+          label: 'Backup Folder',
+          placeholder: 'e.g., /wordpress-backups',
+          required: false,
+          defaultValue: '/wordpress-backups',
+        },
+        {
+          name: 'chunkSize',
+          type: 'number',
+          label: 'Upload Chunk Size (MB)',
+          required: false,
+          defaultValue: 8,
+          validation: {
+            min: 1,
+            max: 150,
+            message: 'Chunk size must be between 1 MB and 150 MB.',
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Validate provider configuration
+   */
+  validateConfig(config: Record<string, any>): {
+    valid: boolean;
+    errors?: Record<string, string>;
+  } {
+    try {
+      // Validate configuration schema
+      const result = dropboxConfigSchema.safeParse(config);
+
+      if (!result.success) {
+        // Format validation errors
+        const errors: Record<string, string> = {};
+
+        result.error.errors.forEach(error => {
+          const path = error.path.join('.');
+          errors[path] = error.message;
+        });
+
+        return {
+          valid: false,
+          errors,
+        };
+      }
+
+      return {
+        valid: true,
+      };
+    } catch (error: unknown) {
+      logger.error('Error validating Dropbox configuration', error);
+
+      return {
+        valid: false,
+        errors: {
+          '_': `Invalid configuration format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a new provider instance
+   */
+  createProvider(config: BackupConfig): DropboxBackupProvider {
+    // Validate config type
+    if (!isDropboxBackupConfig(config)) {
+      throw new Error('Invalid Dropbox backup configuration');
+    }
+
+    // Create provider
+    return new DropboxBackupProvider(config);
+  }
+}
+
+// Create and register singleton instance
+export const dropboxBackupProviderFactory = registerProvider(new DropboxBackupProviderFactory());
+
+export default dropboxBackupProviderFactory;
@@ -0,0 +1,728 @@
+/**
+ * Dropbox Backup Provider
+ *
+ * This module implements a backup provider that stores WordPress site backups
+ * in the Dropbox app folder of the connected account.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import logger from '../../utils/logger';
+import { BackupProvider, BackupMetadata, DropboxBackupConfig, PreparedArchive, UploadCheckpoint } from '../types';
+import { DropboxClient, DropboxEntry } from './client';
+import {
+  createArchive,
+  extractArchive,
+  getContentType,
+  listArchiveEntries,
+  readArchiveEntry,
+  toEntryName,
+} from '../../utils/archive';
+
+// Use the default logger instance
+
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+const DEFAULT_CHUNK_SIZE_MB = 8;
+
+/**
+ * Dropbox backup provider
+ *
+ * Files are stored as `<rootPath>/<siteId>/<backupId>/archive.tar.gz` with a
+ * `metadata.json` file next to the archive. Paths are relative to the app folder.
+ */
+export class DropboxBackupProvider implements BackupProvider {
+  private config: DropboxBackupConfig;
+  private client: DropboxClient;
+  private initialized: boolean = false;
+
+  /**
+   * Create a new Dropbox backup provider
+   *
+   * @param config - Provider configuration
+   * @param client - Optional API client (mainly for testing)
+   */
+  constructor(config: DropboxBackupConfig, client?: DropboxClient) {
+    this.config = config;
+    this.client = client || new DropboxClient({
+      accessToken: config.settings.accessToken,
+      refreshToken: config.settings.refreshToken,
+      expiresAt: config.settings.expiresAt,
+      onTokenRefreshed: (token) => {
+        // Keep the configuration in sync so the refreshed token is persisted with it
+        this.config.settings.accessToken = token.access_token;
+        this.config.settings.refreshToken = token.refresh_token;
+        this.config.settings.expiresAt = token.expires_at;
+        this.config.updated = new Date();
+      },
+    });
+  }
+
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'dropbox';
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): DropboxBackupConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the folder under which all backups are stored
+   */
+  private getRootPath(): string {
+    const rootPath = (this.config.settings.rootPath ?? '/wordpress-backups').replace(/\/+$/, '');
+    return rootPath && !rootPath.startsWith('/') ? `/${rootPath}` : rootPath;
+  }
+
+  /**
+   * Get the folder of a backup
+   *
+   * @param siteId - Site ID
+   * @param backupId - Backup ID
+   */
+  private getBackupPath(siteId: string, backupId: string): string {
+    return `${this.getRootPath()}/${siteId}/${backupId}`;
+  }
+
+  /**
+   * Get the upload session chunk size in bytes
+   */
+  private getChunkSize(): number {
+    return (this.config.settings.chunkSize || DEFAULT_CHUNK_SIZE_MB) * 1024 * 1024;
+  }
+
+  /**
+   * Initialize the provider
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      if (this.initialized) {
+        return true;
+      }
+
+      const result = await this.client.testConnection();
+
+      if (!result.success) {
+        logger.error(`Dropbox account is not accessible: ${result.message}`);
+        return false;
+      }
+
+      this.initialized = true;
+      logger.info('Dropbox backup provider initialized');
+
+      return true;
+    } catch (error: unknown) {
+      logger.error('Error initializing Dropbox backup provider', error);
+      return false;
+    }
+  }
+
+  /**
+   * Test the connection to Dropbox
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    const result = await this.client.testConnection();
+
+    return {
+      success: result.success,
+      message: result.message,
+      details: result.success
+        ? {
+          account: result.account?.email,
+          rootPath: this.getRootPath(),
+        }
+        : undefined,
+    };
+  }
+
+  /**
+   * Create a backup
+   *
+   * Progress of upload sessions is reported after every chunk; given the
+   * checkpoint of an interrupted upload, its upload session is continued.
+   */
+  async createBackup(options: {
+    siteId: string;
+    files: string[];
+    database?: boolean;
+    destinations?: string[];
+    metadata?: Record<string, any>;
+    backupId?: string;
+    archive?: PreparedArchive;
+    checkpoint?: UploadCheckpoint;
+    onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
+  }): Promise<{
+    id: string;
+    success: boolean;
+    message?: string;
+    locations?: {
+      provider: string;
+      destination: string;
+      path: string;
+      url?: string;
+    }[];
+    errors?: {
+      destination?: string;
+      message: string;
+      details?: any;
+    }[];
+    size?: number;
+    created: Date;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return {
+            id: uuidv4(),
+            success: false,
+            message: 'Failed to initialize Dropbox backup provider',
+            created: new Date(),
+          };
+        }
+      }
+
+      // A checkpoint only helps if it recorded an upload session
+      const resumed = options.checkpoint?.session.sessionId ? options.checkpoint : undefined;
+
+      // Generate backup ID
+      const backupId = options.backupId || uuidv4();
+      const created = resumed ? new Date(resumed.session.created) : new Date();
+
+      // Prepare backup name
+      const timestamp = created.toISOString().replace(/[:.]/g, '-');
+      const backupName = `wp-backup-${options.siteId}-${timestamp}`;
+      const backupPath = this.getBackupPath(options.siteId, backupId);
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dropbox-backup-'));
+
+      try {
+        // Create the archive locally, then upload it
+        // Reuse the archive shared with other destinations when one is given
+        const archivePath = options.archive?.path || path.join(workDir, ARCHIVE_NAME);
+        const archive = options.archive || await createArchive(options.files, archivePath);
+
+        await this.client.uploadFile(`${backupPath}/${ARCHIVE_NAME}`, archivePath, this.getChunkSize(), {
+          session: resumed?.session.sessionId,
+          uploaded: resumed?.parts || [],
+          save: async (sessionId, parts) => {
+            await options.onCheckpoint?.({ session: { created: created.toISOString(), sessionId }, parts: [...parts] });
+          },
+        });
+
+        // Create backup metadata
+        const metadata: BackupMetadata = {
+          id: backupId,
+          siteId: options.siteId,
+          name: backupName,
+          created: created.toISOString(),
+          size: archive.size,
+          fileCount: archive.fileCount,
+          type: 'full',
+          metadata: options.metadata || {},
+        };
+
+        // Metadata is written last so incomplete backups are never listed
+        await this.client.uploadContent(
+          `${backupPath}/${METADATA_NAME}`,
+          JSON.stringify(metadata, null, 2)
+        );
+
+        return {
+          id: backupId,
+          success: true,
+          message: `Backup created successfully: ${backupName}`,
+          locations: [
+            {
+              provider: 'dropbox',
+              destination: this.getRootPath() || '/',
+              path: `${backupPath}/${ARCHIVE_NAME}`,
+            },
+          ],
+          size: archive.size,
+          created,
+        };
+      } catch (error: unknown) {
+        logger.error(`Error uploading backup: ${backupName}`, error);
+
+        // Don't leave incomplete backups behind
+        await this.client.delete(backupPath).catch(() => undefined);
+
+        return {
+          id: backupId,
+          success: false,
+          message: `Error uploading backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          created,
+        };
+      } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    } catch (error: unknown) {
+      logger.error('Error creating backup', error);
+
+      return {
+        id: uuidv4(),
+        success: false,
+        message: `Error creating backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        created: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read the metadata of every stored backup
+   *
+   * @param siteId - Optional site ID to restrict the listing to
+   * @returns Backup metadata with the backup folder and archive entry
+   */
+  private async readAllMetadata(siteId?: string): Promise<Array<{
+    metadata: BackupMetadata;
+    folder: string;
+    archive?: DropboxEntry;
+  }>> {
+    const root = this.getRootPath();
+    const entries = await this.client.listFolder(siteId ? `${root}/${siteId}` : root, true);
+    const archives = new Map(
+      entries
+        .filter(entry => entry['.tag'] === 'file' && entry.name === ARCHIVE_NAME)
+        .map(entry => [path.posix.dirname(entry.path_lower), entry])
+    );
+    const results: Array<{ metadata: BackupMetadata; folder: string; archive?: DropboxEntry }> = [];
+
+    for (const entry of entries.filter(item => item['.tag'] === 'file' && item.name === METADATA_NAME)) {
+      const folder = path.posix.dirname(entry.path_display);
+
+      try {
+        const content = await this.client.download(entry.path_display);
+
+        if (!content) {
+          continue;
+        }
+
+        results.push({
+          metadata: JSON.parse(content.toString('utf8')) as BackupMetadata,
+          folder,
+          archive: archives.get(path.posix.dirname(entry.path_lower)),
+        });
+      } catch (error: unknown) {
+        logger.warn(`Skipping backup without readable metadata: ${folder}`);
+        continue;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find a backup by ID
+   *
+   * @param backupId - Backup ID
+   * @returns Backup metadata with the backup folder
+   */
+  private async findBackup(backupId: string): Promise<{
+    metadata: BackupMetadata;
+    folder: string;
+  } | undefined> {
+    const entries = await this.client.listFolder(this.getRootPath(), true);
+    const metadataEntry = entries.find(entry =>
+      entry['.tag'] === 'file' &&
+      entry.path_lower.endsWith(`/${backupId.toLowerCase()}/${METADATA_NAME}`)
+    );
+
+    if (!metadataEntry) {
+      return undefined;
+    }
+
+    const content = await this.client.download(metadataEntry.path_display);
+
+    if (!content) {
+      return undefined;
+    }
+
+    return {
+      metadata: JSON.parse(content.toString('utf8')) as BackupMetadata,
+      folder: path.posix.dirname(metadataEntry.path_display),
+    };
+  }
+
+  /**
+   * Download the archive of a backup into a scratch directory
+   *
+   * @param folder - Backup folder
+   * @returns Scratch directory and archive path
+   */
+  private async downloadArchive(folder: string): Promise<{
+    workDir: string;
+    archivePath: string;
+  }> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dropbox-restore-'));
+    const archivePath = path.join(workDir, ARCHIVE_NAME);
+
+    try {
+      await this.client.downloadToFile(`${folder}/${ARCHIVE_NAME}`, archivePath);
+    } catch (error: unknown) {
+      await fs.rm(workDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    return { workDir, archivePath };
+  }
+
+  /**
+   * List backups
+   */
+  async listBackups(options?: {
+    siteId?: string;
+    destination?: string;
+    limit?: number;
+    offset?: number;
+    sort?: 'created' | 'size';
+    order?: 'asc' | 'desc';
+  }): Promise<{
+    backups: {
+      id: string;
+      siteId: string;
+      name: string;
+      destination?: string;
+      path?: string;
+      url?: string;
+      size?: number;
+      created: Date;
+      metadata?: Record<string, any>;
+    }[];
+    total: number;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return { backups: [], total: 0 };
+        }
+      }
+
+      const backups = (await this.readAllMetadata(options?.siteId)).map(({ metadata, folder, archive }) => ({
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.getRootPath() || '/',
+        path: `${folder}/${ARCHIVE_NAME}`,
+        size: archive?.size ?? metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      }));
+
+      // Sort backups
+      if (options?.sort) {
+        const sortField = options.sort;
+        const sortOrder = options.order === 'asc' ? 1 : -1;
+
+        backups.sort((a, b) => {
+          if (sortField === 'created') {
+            return sortOrder * (a.created.getTime() - b.created.getTime());
+          } else if (sortField === 'size') {
+            return sortOrder * ((a.size || 0) - (b.size || 0));
+          }
+
+          return 0;
+        });
+      } else {
+        // Default to sorting by created date, newest first
+        backups.sort((a, b) => b.created.getTime() - a.created.getTime());
+      }
+
+      // Apply pagination
+      let result = backups;
+
+      if (options?.offset != null || options?.limit != null) {
+        const offset = options?.offset || 0;
+        const limit = options?.limit || 10;
+
+        result = backups.slice(offset, offset + limit);
+      }
+
+      return {
+        backups: result,
+        total: backups.length,
+      };
+    } catch (error: unknown) {
+      logger.error('Error listing backups', error);
+      return { backups: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get a specific backup
+   */
+  async getBackup(backupId: string): Promise<{
+    id: string;
+    siteId: string;
+    name: string;
+    destination?: string;
+    path?: string;
+    url?: string;
+    contents?: {
+      name: string;
+      type: 'file' | 'directory';
+      path: string;
+      size?: number;
+      modified?: Date;
+    }[];
+    size?: number;
+    created: Date;
+    metadata?: Record<string, any>;
+  } | null> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return null;
+        }
+      }
+
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return null;
+      }
+
+      const { metadata, folder } = found;
+      const backup = {
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.getRootPath() || '/',
+        path: `${folder}/${ARCHIVE_NAME}`,
+        size: metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      };
+
+      // List archive contents
+      try {
+        const { workDir, archivePath } = await this.downloadArchive(folder);
+
+        try {
+          const entries = await listArchiveEntries(archivePath);
+
+          return {
+            ...backup,
+            contents: entries
+              .filter(entry => entry.type === 'file' || entry.type === 'directory')
+              .map(entry => ({
+                name: path.posix.basename(entry.path),
+                type: entry.type as 'file' | 'directory',
+                path: entry.path,
+                size: entry.size,
+                modified: entry.modified,
+              })),
+          };
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      } catch (error: unknown) {
+        logger.error(`Error reading backup archive: ${backupId}`, error);
+        // Return backup without contents
+      }
+
+      return backup;
+    } catch (error: unknown) {
+      logger.error(`Error getting backup: ${backupId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a backup
+   */
+  async deleteBackup(backupId: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      // Deleting the folder removes the archive and metadata in one call
+      await this.client.delete(found.folder);
+
+      return {
+        success: true,
+        message: `Backup deleted: ${found.metadata.name}`,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error deleting backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error deleting backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Restore a backup
+   *
+   * Files are extracted into the requested destination directory, or into a
+   * scratch directory that is removed afterwards when no destination is given.
+   */
+  async restoreBackup(backupId: string, options: {
+    destination?: string;
+    files?: string[];
+    database?: boolean;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    let workDir: string | undefined;
+
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const downloaded = await this.downloadArchive(found.folder);
+      workDir = downloaded.workDir;
+
+      const restoreDir = options.destination
+        ? path.resolve(options.destination)
+        : path.join(workDir, 'restore');
+
+      const extractedFiles = await extractArchive(downloaded.archivePath, restoreDir, options.files);
+
+      return {
+        success: true,
+        message: `Backup restored: ${found.metadata.name} (${extractedFiles.length} files)`,
+        details: {
+          destination: options.destination ? restoreDir : undefined,
+          files: extractedFiles,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error(`Error restoring backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      // Clean up scratch directory
+      if (workDir) {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Download a file from a backup
+   *
+   * The path may refer to a file stored next to the archive (e.g.
+   * `metadata.json`) or to an entry inside the archive.
+   */
+  async downloadFile(backupId: string, filePath: string): Promise<{
+    success: boolean;
+    content?: Buffer | string;
+    contentType?: string;
+    size?: number;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const entryName = toEntryName(filePath);
+      let content: Buffer | null = null;
+
+      // Files stored next to the archive
+      if (entryName === ARCHIVE_NAME || entryName === METADATA_NAME) {
+        content = await this.client.download(`${found.folder}/${entryName}`);
+      } else {
+        const { workDir, archivePath } = await this.downloadArchive(found.folder);
+
+        try {
+          content = await readArchiveEntry(archivePath, entryName);
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      }
+
+      if (!content) {
+        return {
+          success: false,
+          message: `File not found in backup: ${filePath}`,
+        };
+      }
+
+      return {
+        success: true,
+        content,
+        contentType: getContentType(filePath),
+        size: content.length,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${backupId}/${filePath}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Download the archive of a backup into a file
+   *
+   * The archive is streamed into the file instead of being held in memory.
+   */
+  async downloadArchiveToFile(backupId: string, outputPath: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      await this.client.downloadToFile(`${found.folder}/${ARCHIVE_NAME}`, outputPath);
+
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`Error downloading archive: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
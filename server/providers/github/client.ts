@@ -5,10 +5,25 @@
  * to perform operations related to backup and restore.
  */
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
 import logger from '../../utils/logger';
 
 // Use the default logger instance
 
+/**
+ * Compute the SHA Git assigns to a blob with the given content
+ * 
+ * @param content - Blob content
+ * @returns Git blob SHA-1
+ */
+export function getGitBlobSha(content: Buffer): string {
+  return createHash('sha1')
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest('hex');
+}
+
 /**
  * Type guard to check if an error is an AxiosError
  * @param error - The error to check
@@ -133,6 +148,36 @@ export type GitHubBlob = {
   encoding: 'base64' | 'utf-8';
 };
 
+/**
+ * GitHub release asset type
+ */
+export type GitHubReleaseAsset = {
+  id: number;
+  name: string;
+  size: number;
+  state: 'uploaded' | 'open';
+  content_type: string;
+  browser_download_url: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * GitHub release type
+ */
+export type GitHubRelease = {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  body: string | null;
+  draft: boolean;
+  html_url: string;
+  upload_url: string;
+  created_at: string;
+  published_at: string | null;
+  assets: GitHubReleaseAsset[];
+};
+
 /**
  * GitHub API client
  */
@@ -386,6 +431,23 @@ export class GitHubClient {
     }
   }
   
+  /**
+   * Delete a reference
+   * 
+   * @param repo - Repository name
+   * @param ref - Reference name, e.g. heads/backup/name
+   */
+  async deleteReference(repo: string, ref: string): Promise<void> {
+    try {
+      await this.api.delete(`/repos/${this.owner}/${repo}/git/refs/${ref}`);
+      
+      logger.info(`Deleted reference: ${repo}/${ref}`);
+    } catch (error: unknown) {
+      logger.error(`Error deleting reference: ${repo}/${ref}`, error);
+      throw error;
+    }
+  }
+  
   /**
    * Get a commit
    * 
@@ -498,9 +560,24 @@ export class GitHubClient {
     }
   }
   
+  /**
+   * Get the raw content of a blob
+   * 
+   * @param repo - Repository name
+   * @param sha - Blob SHA
+   * @returns Blob content
+   */
+  async getBlobContent(repo: string, sha: string): Promise<Buffer> {
+    const blob = await this.getBlob(repo, sha);
+    return Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf8');
+  }
+  
   /**
    * Create a new blob
    * 
+   * Binary content must be passed base64 encoded; 'utf-8' content is stored
+   * as text.
+   * 
    * @param repo - Repository name
    * @param content - Blob content
    * @param encoding - Content encoding
@@ -680,6 +757,225 @@ export class GitHubClient {
       throw error;
     }
   }
+
+  /**
+   * Create a release
+   * 
+   * The tag is created from the target branch when the release is
+   * published, so draft releases don't leave tags behind.
+   * 
+   * @param repo - Repository name
+   * @param release - Release tag, target branch, name, body and draft flag
+   * @returns Created release
+   */
+  async createRelease(repo: string, release: {
+    tag_name: string;
+    target_commitish?: string;
+    name?: string;
+    body?: string;
+    draft?: boolean;
+  }): Promise<GitHubRelease> {
+    try {
+      const response = await this.api.post(`/repos/${this.owner}/${repo}/releases`, release);
+  
+      logger.info(`Created release: ${repo}/${release.tag_name}`);
+  
+      return response.data;
+    } catch (error: unknown) {
+      logger.error(`Error creating release: ${repo}/${release.tag_name}`, error);
+      throw new Error(getGitHubErrorMessage(error, `creating release ${release.tag_name}`));
+    }
+  }
+  
+  /**
+   * Update a release
+   * 
+   * @param repo - Repository name
+   * @param releaseId - Release ID
+   * @param data - Fields to update
+   * @returns Updated release
+   */
+  async updateRelease(repo: string, releaseId: number, data: {
+    name?: string;
+    body?: string;
+    draft?: boolean;
+  }): Promise<GitHubRelease> {
+    try {
+      const response = await this.api.patch(`/repos/${this.owner}/${repo}/releases/${releaseId}`, data);
+      return response.data;
+    } catch (error: unknown) {
+      logger.error(`Error updating release: ${repo}/${releaseId}`, error);
+      throw new Error(getGitHubErrorMessage(error, `updating release ${releaseId}`));
+    }
+  }
+  
+  /**
+   * List all releases of a repository, following pagination
+   * 
+   * @param repo - Repository name
+   * @returns List of releases, newest first
+   */
+  async listReleases(repo: string): Promise<GitHubRelease[]> {
+    try {
+      const releases: GitHubRelease[] = [];
+  
+      for (let page = 1; ; page++) {
+        const response = await this.api.get(`/repos/${this.owner}/${repo}/releases`, {
+          params: {
+            per_page: 100,
+            page,
+          },
+        });
+  
+        releases.push(...response.data);
+  
+        if (response.data.length < 100) {
+          return releases;
+        }
+      }
+    } catch (error: unknown) {
+      logger.error(`Error listing releases: ${repo}`, error);
+      throw new Error(getGitHubErrorMessage(error, `listing releases of ${repo}`));
+    }
+  }
+  
+  /**
+   * Get a release, including drafts
+   * 
+   * @param repo - Repository name
+   * @param releaseId - Release ID
+   * @returns Release or null if it doesn't exist
+   */
+  async getRelease(repo: string, releaseId: number): Promise<GitHubRelease | null> {
+    try {
+      const response = await this.api.get(`/repos/${this.owner}/${repo}/releases/${releaseId}`);
+      return response.data;
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+  
+      logger.error(`Error getting release: ${repo}/${releaseId}`, error);
+      throw new Error(getGitHubErrorMessage(error, `getting release ${releaseId}`));
+    }
+  }
+  
+  /**
+   * Get a published release by its tag
+   * 
+   * @param repo - Repository name
+   * @param tag - Tag name
+   * @returns Release or null if no published release has the tag
+   */
+  async getReleaseByTag(repo: string, tag: string): Promise<GitHubRelease | null> {
+    try {
+      const response = await this.api.get(`/repos/${this.owner}/${repo}/releases/tags/${tag}`);
+      return response.data;
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+  
+      logger.error(`Error getting release: ${repo}/${tag}`, error);
+      throw new Error(getGitHubErrorMessage(error, `getting release ${tag}`));
+    }
+  }
+  
+  /**
+   * Delete a release
+   * 
+   * The release's tag is kept and has to be deleted separately.
+   * 
+   * @param repo - Repository name
+   * @param releaseId - Release ID
+   */
+  async deleteRelease(repo: string, releaseId: number): Promise<void> {
+    try {
+      await this.api.delete(`/repos/${this.owner}/${repo}/releases/${releaseId}`);
+  
+      logger.info(`Deleted release: ${repo}/${releaseId}`);
+    } catch (error: unknown) {
+      logger.error(`Error deleting release: ${repo}/${releaseId}`, error);
+      throw new Error(getGitHubErrorMessage(error, `deleting release ${releaseId}`));
+    }
+  }
+  
+  /**
+   * Upload a release asset
+   * 
+   * The content is streamed to the upload endpoint, so large assets are
+   * never held in memory.
+   * 
+   * @param uploadUrl - Upload URL of the release
+   * @param name - Asset name
+   * @param content - Asset content stream
+   * @param size - Content length in bytes
+   * @returns Uploaded asset
+   */
+  async uploadReleaseAsset(uploadUrl: string, name: string, content: Readable, size: number): Promise<GitHubReleaseAsset> {
+    try {
+      // Releases return the upload URL as a template, e.g. .../assets{?name,label}
+      const url = uploadUrl.replace(/\{[^}]*\}$/, '');
+  
+      const response = await this.api.post(url, content, {
+        params: { name },
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Length': size,
+        },
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+      });
+  
+      logger.info(`Uploaded release asset: ${name} (${size} bytes)`);
+  
+      return response.data;
+    } catch (error: unknown) {
+      logger.error(`Error uploading release asset: ${name}`, error);
+      throw new Error(getGitHubErrorMessage(error, `uploading release asset ${name}`));
+    }
+  }
+  
+  /**
+   * Delete a release asset
+   * 
+   * @param repo - Repository name
+   * @param assetId - Asset ID
+   */
+  async deleteReleaseAsset(repo: string, assetId: number): Promise<void> {
+    try {
+      await this.api.delete(`/repos/${this.owner}/${repo}/releases/assets/${assetId}`);
+  
+      logger.info(`Deleted release asset: ${repo}/${assetId}`);
+    } catch (error: unknown) {
+      logger.error(`Error deleting release asset: ${repo}/${assetId}`, error);
+      throw new Error(getGitHubErrorMessage(error, `deleting release asset ${assetId}`));
+    }
+  }
+  
+  /**
+   * Download a release asset
+   * 
+   * @param repo - Repository name
+   * @param assetId - Asset ID
+   * @returns Asset content stream
+   */
+  async downloadReleaseAsset(repo: string, assetId: number): Promise<Readable> {
+    try {
+      const response = await this.api.get(`/repos/${this.owner}/${repo}/releases/assets/${assetId}`, {
+        headers: {
+          Accept: 'application/octet-stream',
+        },
+        responseType: 'stream',
+        maxContentLength: Infinity,
+      });
+  
+      return response.data;
+    } catch (error: unknown) {
+      logger.error(`Error downloading release asset: ${repo}/${assetId}`, error);
+      throw new Error(getGitHubErrorMessage(error, `downloading release asset ${assetId}`));
+    }
+  }
 }
 
 export default GitHubClient;
\ No newline at end of file
@@ -6,6 +6,7 @@
 import { z } from 'zod';
 import logger from '../../utils/logger';
 import { BackupProviderFactory, BackupConfig, GitHubBackupConfig, isGitHubBackupConfig } from '../types';
+import { registerProvider } from '../registry';
 import { GitHubBackupProvider } from './provider';
 
 // Use the default logger instance
@@ -21,6 +22,7 @@ const githubConfigSchema = z.object({
   baseUrl: z.string().optional(),
   defaultBranch: z.string().optional().default('main'),
   prefix: z.string().optional(),
+  storageMode: z.enum(['branch', 'release']).optional().default('branch'),
 });
 
 /**
@@ -135,6 +137,17 @@ export class GitHubBackupProviderFactory implements BackupProviderFactory {
           required: false,
           defaultValue: 'wp-backup-',
         },
+        {
+          name: 'storageMode',
+          type: 'select',
+          label: 'Storage Mode',
+          required: false,
+          options: [
+            { value: 'branch', label: 'Backup branches (archives up to a few hundred MB)' },
+            { value: 'release', label: 'Release assets (large archives)' },
+          ],
+          defaultValue: 'branch',
+        },
       ],
     };
   }
@@ -194,7 +207,7 @@ export class GitHubBackupProviderFactory implements BackupProviderFactory {
   }
 }
 
-// Create singleton instance
-export const githubBackupProviderFactory = new GitHubBackupProviderFactory();
+// Create and register singleton instance
+export const githubBackupProviderFactory = registerProvider(new GitHubBackupProviderFactory());
 
 export default githubBackupProviderFactory;
\ No newline at end of file
@@ -5,35 +5,90 @@
  * for storing and managing WordPress site backups.
  */
 import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
 import path from 'path';
+import { createHash } from 'crypto';
 import fs from 'fs';
-import { Transform } from 'stream';
-import { createReadStream, createWriteStream } from 'fs';
+import { Readable, Transform } from 'stream';
+import { createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
-import archiver from 'archiver';
-import * as tar from 'tar';
 
 import logger from '../../utils/logger';
-import { BackupProvider, GitHubBackupConfig } from '../types';
-import { GitHubClient } from './client';
+import { BackupProvider, BackupMetadata, BackupPart, GitHubBackupConfig, PreparedArchive, StreamedArchive, UploadCheckpoint } from '../types';
+import { createStagingDir, readStreamInParts, spoolStreamInParts } from '../../utils/file-stream';
+import { createArchiveStream, extractArchive, getContentType, readArchiveEntry, toEntryName } from '../../utils/archive';
+import { GitHubClient, GitHubRelease, getGitBlobSha } from './client';
 
 // Use the default logger instance
 
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+
+// Keep parts well below GitHub's 100 MB blob limit
+const MAX_PART_SIZE = 10 * 1024 * 1024;
+
+// Release assets are spooled to a staging file one at a time while they are
+// uploaded; even 20 GB archives stay well below GitHub's limit on assets per release
+const MAX_ASSET_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Parts an interrupted upload left behind, and where to save new progress
+ */
+interface UploadProgress {
+  // Parts uploaded before the interruption, in order
+  uploaded: BackupPart[];
+  // Save the parts uploaded so far
+  save(parts: BackupPart[]): Promise<void>;
+}
+
 /**
- * Backup metadata type
+ * Create a pass-through stream that feeds everything it forwards into a hash
+ * 
+ * @param hash - Hash to update
+ * @returns Transform stream
  */
-interface BackupMetadata {
-  id: string;
-  siteId: string;
-  name: string;
-  created: string;
-  size?: number;
-  fileCount?: number;
-  changedFiles?: number;
-  type: 'full' | 'incremental' | 'differential';
-  parent?: string;
-  tags?: string[];
-  metadata: Record<string, any>;
+function createHashTap(hash: ReturnType<typeof createHash>): Transform {
+  return new Transform({
+    transform(chunk, encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * Fill in the metadata that is only known once a streamed archive is complete
+ * 
+ * @param metadata - Backup metadata
+ * @param archive - Uploaded archive
+ * @throws Error if the archive is empty
+ */
+async function completeMetadata(metadata: BackupMetadata, archive: StreamedArchive): Promise<void> {
+  const result = await archive.completed;
+  
+  if (result.size === 0) {
+    throw new Error('Failed to create backup archive');
+  }
+  
+  metadata.size = result.size;
+  metadata.fileCount = result.fileCount;
+  metadata.metadata = { ...metadata.metadata, ...result.metadata };
+}
+
+/**
+ * Read a stream into a buffer
+ * 
+ * @param stream - Stream to read
+ * @returns Stream content
+ */
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  
+  return Buffer.concat(chunks);
 }
 
 /**
@@ -43,7 +98,6 @@ export class GitHubBackupProvider implements BackupProvider {
   private config: GitHubBackupConfig;
   private client: GitHubClient | null = null;
   private initialized: boolean = false;
-  private tempDir: string = path.join(process.cwd(), 'temp');
   
   /**
    * Create a new GitHub backup provider
@@ -52,11 +106,6 @@ export class GitHubBackupProvider implements BackupProvider {
    */
   constructor(config: GitHubBackupConfig) {
     this.config = config;
-    
-    // Create temp directory if it doesn't exist
-    if (!fs.existsSync(this.tempDir)) {
-      fs.mkdirSync(this.tempDir, { recursive: true });
-    }
   }
   
   /**
@@ -73,6 +122,13 @@ export class GitHubBackupProvider implements BackupProvider {
     return this.config;
   }
   
+  /**
+   * Whether backups are stored as release assets instead of branches
+   */
+  private usesReleases(): boolean {
+    return this.config.settings.storageMode === 'release';
+  }
+  
   /**
    * Initialize the provider
    */
@@ -196,6 +252,9 @@ export class GitHubBackupProvider implements BackupProvider {
   
   /**
    * Create a backup
+   * 
+   * The archive is streamed into the upload: a shared archive is read from
+   * its file, otherwise the archive is created while it is uploaded.
    */
   async createBackup(options: {
     siteId: string;
@@ -203,6 +262,10 @@ export class GitHubBackupProvider implements BackupProvider {
     database?: boolean;
     destinations?: string[];
     metadata?: Record<string, any>;
+    backupId?: string;
+    archive?: PreparedArchive;
+    checkpoint?: UploadCheckpoint;
+    onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
   }): Promise<{
     id: string;
     success: boolean;
@@ -221,9 +284,45 @@ export class GitHubBackupProvider implements BackupProvider {
     size?: number;
     created: Date;
   }> {
+    const { archive, ...rest } = options;
+    
+    return this.createStreamedBackup({
+      ...rest,
+      archive: archive
+        ? { stream: fs.createReadStream(archive.path), completed: Promise.resolve(archive) }
+        : createArchiveStream(options.files),
+    });
+  }
+  
+  /**
+   * Create a backup from an archive that is streamed into the upload
+   * 
+   * Only one archive part is held in memory, or staged on disk for release
+   * assets, at a time, so the size of a backup is limited by neither memory
+   * nor free disk space. Progress is reported after
+   * every part; given the checkpoint of an interrupted upload, the backup
+   * keeps its name and parts that are already stored and unchanged aren't
+   * uploaded again.
+   */
+  async createStreamedBackup(options: {
+    siteId: string;
+    files: string[];
+    database?: boolean;
+    destinations?: string[];
+    metadata?: Record<string, any>;
+    backupId?: string;
+    archive: StreamedArchive;
+    checkpoint?: UploadCheckpoint;
+    onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
+  }): Promise<Awaited<ReturnType<BackupProvider['createBackup']>>> {
+    // Archive errors also fail the upload, which reports them
+    options.archive.completed.catch(() => undefined);
+    
     try {
       if (!this.client || !this.initialized) {
         if (!(await this.initialize())) {
+          options.archive.stream.destroy();
+          
           return {
             id: uuidv4(),
             success: false,
@@ -233,9 +332,15 @@ export class GitHubBackupProvider implements BackupProvider {
         }
       }
       
+      const useReleases = this.usesReleases();
+      const storageMode = useReleases ? 'release' : 'branch';
+      
+      // A checkpoint only helps if the storage mode didn't change since
+      const resumed = options.checkpoint?.session.storageMode === storageMode ? options.checkpoint : undefined;
+      
       // Generate backup ID
-      const backupId = uuidv4();
-      const created = new Date();
+      const backupId = options.backupId || uuidv4();
+      const created = resumed ? new Date(resumed.session.created) : new Date();
       
       // Get repository and branch configuration
       const baseRepo = this.config.settings.baseRepo || 'wordpress-backups';
@@ -246,136 +351,105 @@ export class GitHubBackupProvider implements BackupProvider {
       const timestamp = created.toISOString().replace(/[:.]/g, '-');
       const backupName = `${prefix}${options.siteId}-${timestamp}`;
       
-      // Create a new branch for this backup
+      // Create a new branch for this backup, or a release tagged with the same name
       const backupBranch = `backup/${backupName}`;
       
-      try {
-        await this.client!.createBranch(baseRepo, backupBranch, defaultBranch);
-      } catch (error: unknown) {
-        logger.error(`Error creating backup branch: ${backupBranch}`, error);
-        
-        return {
-          id: backupId,
-          success: false,
-          message: `Error creating backup branch: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          created,
-        };
-      }
-      
-      // Create backup archive
-      const tempArchivePath = path.join(this.tempDir, `${backupId}.tar.gz`);
-      const archiveSize = await this.createArchive(options.files, tempArchivePath);
-      
-      if (archiveSize === 0) {
-        logger.error(`Failed to create backup archive: ${tempArchivePath}`);
-        
-        return {
-          id: backupId,
-          success: false,
-          message: 'Failed to create backup archive',
-          created,
-        };
-      }
-      
-      // Upload archive to GitHub
-      // For large files, we need to split the archive into chunks
-      const maxChunkSize = 10 * 1024 * 1024; // 10MB
-      
-      if (archiveSize > maxChunkSize) {
-        // Upload large file in chunks
-        const chunks = await this.splitFileIntoChunks(tempArchivePath, maxChunkSize);
-        const chunkUploadResults = [];
-        
-        for (let i = 0; i < chunks.length; i++) {
-          const chunkPath = chunks[i];
-          const chunkContent = fs.readFileSync(chunkPath, 'utf8');
-          const destPath = `backups/${backupName}/archive.tar.gz.part${i + 1}`;
+      if (!useReleases) {
+        try {
+          const branchExists = resumed
+            ? await this.client!.getReference(baseRepo, `heads/${backupBranch}`).then(() => true, () => false)
+            : false;
           
-          try {
-            const uploadResult = await this.client!.createOrUpdateFile(
-              baseRepo,
-              destPath,
-              chunkContent,
-              `Add backup archive part ${i + 1} for ${backupName}`,
-              backupBranch
-            );
-            
-            chunkUploadResults.push(uploadResult);
-          } catch (error: unknown) {
-            logger.error(`Error uploading backup archive part ${i + 1}`, error);
-            
-            return {
-              id: backupId,
-              success: false,
-              message: `Error uploading backup archive part ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              created,
-            };
+          if (!branchExists) {
+            await this.client!.createBranch(baseRepo, backupBranch, defaultBranch);
           }
-          
-          // Clean up chunk file
-          fs.unlinkSync(chunkPath);
-        }
-      } else {
-        // Upload single file directly
-        const archiveContent = fs.readFileSync(tempArchivePath, 'utf8');
-        const destPath = `backups/${backupName}/archive.tar.gz`;
-        
-        try {
-          await this.client!.createOrUpdateFile(
-            baseRepo,
-            destPath,
-            archiveContent,
-            `Add backup archive for ${backupName}`,
-            backupBranch
-          );
         } catch (error: unknown) {
-          logger.error(`Error uploading backup archive`, error);
+          logger.error(`Error creating backup branch: ${backupBranch}`, error);
+          options.archive.stream.destroy();
           
           return {
             id: backupId,
             success: false,
-            message: `Error uploading backup archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            message: `Error creating backup branch: ${error instanceof Error ? error.message : 'Unknown error'}`,
             created,
           };
         }
       }
       
-      // Create backup metadata
+      // Create backup metadata; the archive details are filled in once it is uploaded
       const metadata: BackupMetadata = {
         id: backupId,
         siteId: options.siteId,
         name: backupName,
         created: created.toISOString(),
-        size: archiveSize,
-        fileCount: options.files.length,
         type: 'full',
         metadata: options.metadata || {},
       };
       
-      // Upload metadata
+      const saveCheckpoint = async (session: Record<string, any>, parts: BackupPart[]) => {
+        await options.onCheckpoint?.({ session: { storageMode, created: metadata.created, ...session }, parts: [...parts] });
+      };
+      
+      let location: { path: string; url: string };
+      
       try {
-        await this.client!.createOrUpdateFile(
-          baseRepo,
-          `backups/${backupName}/metadata.json`,
-          JSON.stringify(metadata, null, 2),
-          `Add backup metadata for ${backupName}`,
-          backupBranch
-        );
+        if (useReleases) {
+          const release = await this.createReleaseBackup(baseRepo, defaultBranch, metadata, options.archive, {
+            checkpoint: resumed,
+            save: saveCheckpoint,
+          });
+          
+          location = {
+            path: `releases/tag/${release.tag_name}`,
+            url: release.html_url,
+          };
+        } else {
+          // Record the branch before uploading, so it is found again after an interruption
+          if (!resumed) {
+            await saveCheckpoint({}, []);
+          }
+          
+          // Upload the archive parts as blobs, then commit them with the metadata
+          metadata.parts = await this.uploadArchiveParts(baseRepo, options.archive.stream, {
+            uploaded: resumed?.parts || [],
+            save: parts => saveCheckpoint({}, parts),
+          });
+          await completeMetadata(metadata, options.archive);
+          
+          const metadataBlob = await this.client!.createBlob(
+            baseRepo,
+            Buffer.from(JSON.stringify(metadata, null, 2)).toString('base64'),
+            'base64'
+          );
+          
+          await this.commitBackupFiles(baseRepo, backupBranch, `Add backup ${backupName}`, [
+            ...metadata.parts.map(part => ({ path: `backups/${backupName}/${part.name}`, sha: part.ref! })),
+            { path: `backups/${backupName}/metadata.json`, sha: metadataBlob.sha },
+          ]);
+          
+          location = {
+            path: `backups/${backupName}`,
+            url: `https://github.com/${this.config.settings.owner}/${baseRepo}/tree/${backupBranch}/backups/${backupName}`,
+          };
+        }
       } catch (error: unknown) {
-        logger.error(`Error uploading backup metadata`, error);
+        logger.error(`Error uploading backup: ${backupName}`, error);
+        options.archive.stream.destroy();
+        
+        // Don't leave a branch without a complete backup behind
+        if (!useReleases) {
+          await this.client!.deleteReference(baseRepo, `heads/${backupBranch}`).catch(() => undefined);
+        }
         
         return {
           id: backupId,
           success: false,
-          message: `Error uploading backup metadata: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          message: `Error uploading backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
           created,
         };
       }
       
-      // Clean up temporary files
-      if (fs.existsSync(tempArchivePath)) {
-        fs.unlinkSync(tempArchivePath);
-      }
+      const skippedFiles = (await options.archive.completed).errors || [];
       
       // Return success response
       return {
@@ -386,15 +460,22 @@ export class GitHubBackupProvider implements BackupProvider {
           {
             provider: 'github',
             destination: baseRepo,
-            path: `backups/${backupName}`,
-            url: `https://github.com/${this.config.settings.owner}/${baseRepo}/tree/${backupBranch}/backups/${backupName}`,
+            ...location,
           },
         ],
-        size: archiveSize,
+        // Files that couldn't be read are left out of the archive but don't fail the backup
+        errors: skippedFiles.length > 0
+          ? skippedFiles.map(error => ({
+              message: `Skipped ${error.path}: ${error.message}`,
+              details: error,
+            }))
+          : undefined,
+        size: metadata.size,
         created,
       };
     } catch (error: unknown) {
       logger.error('Error creating backup', error);
+      options.archive.stream.destroy();
       
       return {
         id: uuidv4(),
@@ -406,104 +487,360 @@ export class GitHubBackupProvider implements BackupProvider {
   }
   
   /**
-   * Create a backup archive
+   * Upload an archive as one or more Git blobs
    * 
-   * @param files - Files to include in the archive
-   * @param outputPath - Path to the output file
-   * @returns Archive size in bytes
+   * Archives larger than the part size are split into `archive.tar.gz.partN`
+   * blobs. Every blob SHA returned by GitHub is checked against the SHA
+   * computed locally, and the SHA-256 of each part is recorded for restores.
+   * Blobs of an interrupted upload stay in the repository, so parts whose
+   * blob SHA didn't change since are reused instead of uploaded again.
+   * 
+   * @param repo - Repository name
+   * @param archive - Archive stream
+   * @param progress - Parts of an interrupted upload and where to save progress
+   * @returns Uploaded parts
    */
-  private async createArchive(files: string[], outputPath: string): Promise<number> {
-    return new Promise((resolve, reject) => {
-      try {
-        // Create output stream
-        const output = createWriteStream(outputPath);
-        
-        // Create archive
-        const archive = archiver('tar', {
-          gzip: true,
-        });
-        
-        // Handle archive errors
-        archive.on('error', (err) => {
-          logger.error('Error creating archive', err);
-          reject(err);
-        });
+  private async uploadArchiveParts(repo: string, archive: Readable, progress: UploadProgress): Promise<BackupPart[]> {
+    const parts: BackupPart[] = [];
+    
+    await readStreamInParts(archive, MAX_PART_SIZE, async (chunk, index, last, sha256) => {
+      const name = index === 0 && last ? ARCHIVE_NAME : `${ARCHIVE_NAME}.part${index + 1}`;
+      const sha = getGitBlobSha(chunk);
+      const previous = progress.uploaded[index];
+      
+      if (previous?.name === name && previous.ref === sha) {
+        parts.push(previous);
+        return;
+      }
+      
+      const blob = await this.client!.createBlob(repo, chunk.toString('base64'), 'base64');
+      
+      if (blob.sha !== sha) {
+        throw new Error(`Checksum mismatch for uploaded part ${name}`);
+      }
+      
+      parts.push({ name, size: chunk.length, sha256, ref: blob.sha });
+      await progress.save(parts);
+    });
+    
+    return parts;
+  }
+  
+  /**
+   * Commit blobs to a branch in a single commit
+   * 
+   * @param repo - Repository name
+   * @param branch - Branch name
+   * @param message - Commit message
+   * @param files - Repository paths and blob SHAs to commit
+   * @returns Commit SHA
+   */
+  private async commitBackupFiles(
+    repo: string,
+    branch: string,
+    message: string,
+    files: { path: string; sha: string }[]
+  ): Promise<string> {
+    const ref = await this.client!.getReference(repo, `heads/${branch}`);
+    const parent = await this.client!.getCommit(repo, ref.object.sha);
+    
+    const tree = await this.client!.createTree(
+      repo,
+      files.map(file => ({
+        path: file.path,
+        mode: '100644' as const,
+        type: 'blob' as const,
+        sha: file.sha,
+      })),
+      parent.tree.sha
+    );
+    
+    const commit = await this.client!.createCommit(repo, message, tree.sha, [parent.sha]);
+    await this.client!.updateReference(repo, `heads/${branch}`, commit.sha);
+    
+    return commit.sha;
+  }
+  
+  /**
+   * Store a backup as a release with the archive parts and metadata as assets
+   * 
+   * The release stays a draft until every asset is uploaded, so listings
+   * never see incomplete backups. Publishing creates the `backup/<name>` tag
+   * on the target branch. A failed upload deletes the draft; the draft of an
+   * interrupted upload is filled up instead of creating another one.
+   * 
+   * @param repo - Repository name
+   * @param branch - Branch to tag
+   * @param metadata - Backup metadata; its parts and archive details are filled in
+   * @param archive - Archive to upload
+   * @param resume - Checkpoint of an interrupted upload and where to save progress
+   * @returns Published release
+   */
+  private async createReleaseBackup(
+    repo: string,
+    branch: string,
+    metadata: BackupMetadata,
+    archive: StreamedArchive,
+    resume: {
+      checkpoint?: UploadCheckpoint;
+      save(session: Record<string, any>, parts: BackupPart[]): Promise<void>;
+    }
+  ): Promise<GitHubRelease> {
+    const draft = resume.checkpoint?.session.releaseId
+      ? await this.client!.getRelease(repo, resume.checkpoint.session.releaseId)
+      : null;
+    
+    const release = draft?.draft ? draft : await this.client!.createRelease(repo, {
+      tag_name: `backup/${metadata.name}`,
+      target_commitish: branch,
+      name: metadata.name,
+      body: `Backup of site ${metadata.siteId} created ${metadata.created}`,
+      draft: true,
+    });
+    
+    const save = (parts: BackupPart[]) => resume.save({ releaseId: release.id }, parts);
+    let workDir: string | undefined;
+    
+    try {
+      workDir = await createStagingDir(metadata.id);
+      
+      if (release !== draft) {
+        // Record the draft before uploading, so it is found again after an interruption
+        await save([]);
+      }
+      
+      metadata.parts = await this.uploadReleaseAssets(repo, release, archive.stream, workDir, {
+        uploaded: release === draft ? resume.checkpoint!.parts : [],
+        save,
+      });
+      await completeMetadata(metadata, archive);
+      
+      const content = Buffer.from(JSON.stringify(metadata, null, 2));
+      await this.client!.uploadReleaseAsset(release.upload_url, METADATA_NAME, Readable.from([content]), content.length);
+      
+      return await this.client!.updateRelease(repo, release.id, { draft: false });
+    } catch (error: unknown) {
+      await this.client!.deleteRelease(repo, release.id).catch(() => undefined);
+      throw error;
+    } finally {
+      if (workDir) {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+  
+  /**
+   * Upload an archive to a release as one or more assets
+   * 
+   * Archives larger than the asset size are split into `archive.tar.gz.partN`
+   * assets. Each part is hashed while it is written to a staging file, which
+   * is streamed into the upload, and the size GitHub reports for the asset is
+   * checked against the bytes sent. Assets an interrupted upload left in the
+   * release are kept if their part didn't change since, every other asset is
+   * replaced.
+   * 
+   * @param repo - Repository name
+   * @param release - Draft release
+   * @param archive - Archive stream
+   * @param workDir - Directory to stage the parts in
+   * @param progress - Parts of an interrupted upload and where to save progress
+   * @returns Uploaded parts, referencing their asset IDs
+   */
+  private async uploadReleaseAssets(
+    repo: string,
+    release: GitHubRelease,
+    archive: Readable,
+    workDir: string,
+    progress: UploadProgress
+  ): Promise<BackupPart[]> {
+    const parts: BackupPart[] = [];
+    const stale = new Map(release.assets.map(asset => [asset.name, asset]));
+    
+    await spoolStreamInParts(archive, MAX_ASSET_SIZE, workDir, async (partPath, size, index, last, sha256) => {
+      const name = index === 0 && last ? ARCHIVE_NAME : `${ARCHIVE_NAME}.part${index + 1}`;
+      const previous = progress.uploaded[index];
+      const existing = stale.get(name);
+      stale.delete(name);
+      
+      if (existing && previous?.name === name && previous.ref === String(existing.id)
+          && previous.sha256 === sha256 && existing.size === size) {
+        parts.push(previous);
+        return;
+      }
+      
+      // Asset names are unique within a release
+      if (existing) {
+        await this.client!.deleteReleaseAsset(repo, existing.id);
+      }
+      
+      const asset = await this.client!.uploadReleaseAsset(release.upload_url, name, fs.createReadStream(partPath), size);
+      
+      if (asset.size !== size) {
+        throw new Error(`Size mismatch for uploaded part ${name}`);
+      }
+      
+      parts.push({ name, size, sha256, ref: String(asset.id) });
+      await progress.save(parts);
+    });
+    
+    // Parts the archive no longer has, or metadata of the interrupted upload
+    for (const asset of Array.from(stale.values())) {
+      await this.client!.deleteReleaseAsset(repo, asset.id);
+    }
+    
+    return parts;
+  }
+  
+  /**
+   * Get the published release of a backup
+   * 
+   * @param repo - Repository name
+   * @param backupName - Backup name
+   * @returns Release
+   */
+  private async getBackupRelease(repo: string, backupName: string): Promise<GitHubRelease> {
+    const release = await this.client!.getReleaseByTag(repo, `backup/${backupName}`);
+    
+    if (!release) {
+      throw new Error(`Release not found for backup: ${backupName}`);
+    }
+    
+    return release;
+  }
+  
+  /**
+   * Read the metadata asset of a backup release
+   * 
+   * @param repo - Repository name
+   * @param release - Backup release
+   * @returns Backup metadata
+   */
+  private async readReleaseMetadata(repo: string, release: GitHubRelease): Promise<BackupMetadata> {
+    const asset = release.assets.find(item => item.name === METADATA_NAME);
+    
+    if (!asset) {
+      throw new Error(`Missing metadata for release: ${release.tag_name}`);
+    }
+    
+    const content = await readStream(await this.client!.downloadReleaseAsset(repo, asset.id));
+    
+    return JSON.parse(content.toString('utf8')) as BackupMetadata;
+  }
+  
+  /**
+   * Read the metadata of a backup
+   * 
+   * @param repo - Repository name
+   * @param backupName - Backup name
+   * @returns Backup metadata
+   */
+  private async readMetadata(repo: string, backupName: string): Promise<BackupMetadata> {
+    if (this.usesReleases()) {
+      return this.readReleaseMetadata(repo, await this.getBackupRelease(repo, backupName));
+    }
+    
+    const metadata = await this.client!.getContents(
+      repo,
+      `backups/${backupName}/metadata.json`,
+      `backup/${backupName}`
+    );
+    
+    if (Array.isArray(metadata) || metadata.type !== 'file' || !metadata.content) {
+      throw new Error(`Invalid metadata for backup: ${backupName}`);
+    }
+    
+    return JSON.parse(Buffer.from(metadata.content, 'base64').toString('utf8')) as BackupMetadata;
+  }
+  
+  /**
+   * Download the archive parts of a backup and verify their checksums
+   * 
+   * @param repo - Repository name
+   * @param metadata - Backup metadata
+   * @param outputPath - Path to write the reassembled archive to
+   */
+  private async downloadArchive(repo: string, metadata: BackupMetadata, outputPath: string): Promise<void> {
+    if (!metadata.parts || metadata.parts.length === 0) {
+      throw new Error(`Backup has no recorded archive parts: ${metadata.name}`);
+    }
+    
+    if (this.usesReleases()) {
+      for (let index = 0; index < metadata.parts.length; index++) {
+        const part = metadata.parts[index];
+        const hash = createHash('sha256');
         
-        // Handle archive end
-        output.on('close', () => {
-          resolve(archive.pointer());
-        });
+        await pipeline(
+          await this.client!.downloadReleaseAsset(repo, Number(part.ref)),
+          createHashTap(hash),
+          createWriteStream(outputPath, { flags: index === 0 ? 'w' : 'a' })
+        );
         
-        // Pipe archive to output
-        archive.pipe(output);
+        if (hash.digest('hex') !== part.sha256) {
+          throw new Error(`Checksum mismatch for archive part ${part.name}`);
+        }
+      }
+      
+      return;
+    }
+    
+    const handle = await fs.promises.open(outputPath, 'w');
+    
+    try {
+      for (const part of metadata.parts) {
+        const content = await this.client!.getBlobContent(repo, part.ref!);
+        const checksum = createHash('sha256').update(content).digest('hex');
         
-        // Add files to archive
-        for (const file of files) {
-          // TODO: In a real implementation, we would add actual WordPress files here
-          // For now, we'll just add a placeholder file
-          archive.append(`This is a placeholder for ${file}`, { name: file });
+        if (checksum !== part.sha256) {
+          throw new Error(`Checksum mismatch for archive part ${part.name}`);
         }
         
-        // Finalize archive
-        archive.finalize();
-      } catch (error: unknown) {
-        logger.error('Error creating archive', error);
-        reject(error);
+        await handle.write(content);
       }
-    });
+    } finally {
+      await handle.close();
+    }
   }
   
   /**
-   * Split a file into chunks
+   * List the backups stored as published releases
    * 
-   * @param filePath - Path to the file
-   * @param chunkSize - Chunk size in bytes
-   * @returns List of chunk file paths
+   * @param repo - Repository name
+   * @param siteId - Only include backups of this site
+   * @returns Backups
    */
-  private async splitFileIntoChunks(filePath: string, chunkSize: number): Promise<string[]> {
-    return new Promise((resolve, reject) => {
+  private async listReleaseBackups(repo: string, siteId?: string): Promise<Awaited<ReturnType<GitHubBackupProvider['listBackups']>>['backups']> {
+    const releases = (await this.client!.listReleases(repo))
+      .filter(release => !release.draft && release.tag_name.startsWith('backup/'));
+    
+    const backups: Awaited<ReturnType<GitHubBackupProvider['listBackups']>>['backups'] = [];
+    
+    for (const release of releases) {
       try {
-        const stats = fs.statSync(filePath);
-        const fileSize = stats.size;
-        const numChunks = Math.ceil(fileSize / chunkSize);
-        const chunkPaths: string[] = [];
+        const metadata = await this.readReleaseMetadata(repo, release);
         
-        if (numChunks === 1) {
-          // File is small enough to be a single chunk
-          resolve([filePath]);
-          return;
+        if (siteId && metadata.siteId !== siteId) {
+          continue;
         }
         
-        // Create chunks
-        let currentChunk = 1;
-        let bytesRead = 0;
-        
-        // Create read stream
-        const readStream = createReadStream(filePath, {
-          highWaterMark: chunkSize,
-        });
-        
-        readStream.on('data', (chunk) => {
-          // Create chunk file
-          const chunkPath = `${filePath}.part${currentChunk}`;
-          fs.writeFileSync(chunkPath, chunk);
-          chunkPaths.push(chunkPath);
-          
-          bytesRead += chunk.length;
-          currentChunk++;
-        });
-        
-        readStream.on('end', () => {
-          resolve(chunkPaths);
-        });
-        
-        readStream.on('error', (error) => {
-          reject(error);
+        backups.push({
+          id: metadata.id,
+          siteId: metadata.siteId,
+          name: metadata.name,
+          destination: repo,
+          path: `releases/tag/${release.tag_name}`,
+          url: release.html_url,
+          size: metadata.size,
+          created: new Date(metadata.created),
+          metadata: metadata.metadata,
         });
       } catch (error: unknown) {
-        reject(error);
+        logger.error(`Error getting metadata for release: ${release.tag_name}`, error);
+        // Continue to next release
+        continue;
       }
-    });
+    }
+    
+    return backups;
   }
   
   /**
@@ -541,30 +878,6 @@ export class GitHubBackupProvider implements BackupProvider {
       const baseRepo = this.config.settings.baseRepo || 'wordpress-backups';
       const prefix = this.config.settings.prefix || 'wp-backup-';
       
-      // Get list of branches
-      let branches: string[] = [];
-      
-      try {
-        const refs = await this.client!.getReference(baseRepo, 'heads');
-        
-        if (Array.isArray(refs)) {
-          branches = refs
-            .filter(ref => ref.ref.startsWith('refs/heads/backup/'))
-            .map(ref => ref.ref.substring('refs/heads/'.length));
-        }
-      } catch (error: unknown) {
-        logger.error('Error getting branches', error);
-        return { backups: [], total: 0 };
-      }
-      
-      // Filter branches by site ID
-      if (options?.siteId) {
-        branches = branches.filter(branch => {
-          const parts = branch.split('/')[1].split('-');
-          return parts.length > 1 && parts[1] === options.siteId;
-        });
-      }
-      
       // Collect backup data
       const backups: {
         id: string;
@@ -578,45 +891,73 @@ export class GitHubBackupProvider implements BackupProvider {
         metadata?: Record<string, any>;
       }[] = [];
       
-      for (const branch of branches) {
+      if (this.usesReleases()) {
+        backups.push(...(await this.listReleaseBackups(baseRepo, options?.siteId)));
+      } else {
+        // Get list of branches
+        let branches: string[] = [];
+        
         try {
-          const backupName = branch.split('/')[1];
-          const metadataPath = `backups/${backupName}/metadata.json`;
+          const refs = await this.client!.getReference(baseRepo, 'heads');
           
-          // Get metadata file
-          const metadata = await this.client!.getContents(
-            baseRepo,
-            metadataPath,
-            branch
-          );
-          
-          if (!Array.isArray(metadata) && metadata.type === 'file' && metadata.content) {
-            // Parse metadata
-            const metadataJson = JSON.parse(
-              Buffer.from(metadata.content, 'base64').toString('utf8')
-            ) as BackupMetadata;
+          if (Array.isArray(refs)) {
+            branches = refs
+              .filter(ref => ref.ref.startsWith('refs/heads/backup/'))
+              .map(ref => ref.ref.substring('refs/heads/'.length));
+          }
+        } catch (error: unknown) {
+          logger.error('Error getting branches', error);
+          return { backups: [], total: 0 };
+        }
+        
+        // Filter branches by site ID
+        if (options?.siteId) {
+          branches = branches.filter(branch => {
+            const parts = branch.split('/')[1].split('-');
+            return parts.length > 1 && parts[1] === options.siteId;
+          });
+        }
+        
+        for (const branch of branches) {
+          try {
+            const backupName = branch.split('/')[1];
+            const metadataPath = `backups/${backupName}/metadata.json`;
             
-            // Filter by site ID if needed
-            if (options?.siteId && metadataJson.siteId !== options.siteId) {
-              continue;
-            }
+            // Get metadata file
+            const metadata = await this.client!.getContents(
+              baseRepo,
+              metadataPath,
+              branch
+            );
             
-            backups.push({
-              id: metadataJson.id,
-              siteId: metadataJson.siteId,
-              name: metadataJson.name,
-              destination: baseRepo,
-              path: `backups/${backupName}`,
-              url: `https://github.com/${this.config.settings.owner}/${baseRepo}/tree/${branch}/backups/${backupName}`,
-              size: metadataJson.size,
-              created: new Date(metadataJson.created),
-              metadata: metadataJson.metadata,
-            });
+            if (!Array.isArray(metadata) && metadata.type === 'file' && metadata.content) {
+              // Parse metadata
+              const metadataJson = JSON.parse(
+                Buffer.from(metadata.content, 'base64').toString('utf8')
+              ) as BackupMetadata;
+              
+              // Filter by site ID if needed
+              if (options?.siteId && metadataJson.siteId !== options.siteId) {
+                continue;
+              }
+              
+              backups.push({
+                id: metadataJson.id,
+                siteId: metadataJson.siteId,
+                name: metadataJson.name,
+                destination: baseRepo,
+                path: `backups/${backupName}`,
+                url: `https://github.com/${this.config.settings.owner}/${baseRepo}/tree/${branch}/backups/${backupName}`,
+                size: metadataJson.size,
+                created: new Date(metadataJson.created),
+                metadata: metadataJson.metadata,
+              });
+            }
+          } catch (error: unknown) {
+            logger.error(`Error getting metadata for branch: ${branch}`, error);
+            // Continue to next branch
+            continue;
           }
-        } catch (error: unknown) {
-          logger.error(`Error getting metadata for branch: ${branch}`, error);
-          // Continue to next branch
-          continue;
         }
       }
       
@@ -661,6 +1002,18 @@ export class GitHubBackupProvider implements BackupProvider {
     }
   }
   
+  /**
+   * Find a backup by ID among the listed backups
+   * 
+   * @param backupId - Backup ID
+   * @returns Listed backup or undefined if it doesn't exist
+   */
+  private async findBackup(backupId: string): Promise<Awaited<ReturnType<GitHubBackupProvider['listBackups']>>['backups'][number] | undefined> {
+    const { backups } = await this.listBackups();
+    
+    return backups.find(backup => backup.id === backupId);
+  }
+  
   /**
    * Get a specific backup
    */
@@ -707,6 +1060,21 @@ export class GitHubBackupProvider implements BackupProvider {
       
       // Get backup contents
       try {
+        if (this.usesReleases()) {
+          const release = await this.getBackupRelease(baseRepo, backup.name);
+          
+          return {
+            ...backup,
+            contents: release.assets.map(asset => ({
+              name: asset.name,
+              type: 'file' as const,
+              path: asset.name,
+              size: asset.size,
+              modified: new Date(asset.updated_at),
+            })),
+          };
+        }
+        
         const contents = await this.client!.getContents(
           baseRepo,
           `backups/${backup.name}`,
@@ -774,6 +1142,19 @@ export class GitHubBackupProvider implements BackupProvider {
       const branchName = `backup/${backup.name}`;
       
       try {
+        if (this.usesReleases()) {
+          // Deleting a release keeps its tag, so delete both
+          const release = await this.getBackupRelease(baseRepo, backup.name);
+          
+          await this.client!.deleteRelease(baseRepo, release.id);
+          await this.client!.deleteReference(baseRepo, `tags/${release.tag_name}`);
+          
+          return {
+            success: true,
+            message: `Backup deleted: ${backup.name}`,
+          };
+        }
+        
         // GitHub API doesn't have a direct "delete branch" method
         // We need to delete the reference
         await this.client!.deleteReference(
@@ -786,7 +1167,7 @@ export class GitHubBackupProvider implements BackupProvider {
           message: `Backup deleted: ${backup.name}`,
         };
       } catch (error: unknown) {
-        logger.error(`Error deleting backup branch: ${branchName}`, error);
+        logger.error(`Error deleting backup: ${branchName}`, error);
         
         return {
           success: false,
@@ -805,6 +1186,10 @@ export class GitHubBackupProvider implements BackupProvider {
   
   /**
    * Restore a backup
+   * 
+   * The archive parts are downloaded and reassembled in a scratch directory.
+   * Files are extracted into the requested destination directory, or into
+   * the scratch directory when no destination is given.
    */
   async restoreBackup(backupId: string, options: {
     destination?: string;
@@ -815,6 +1200,8 @@ export class GitHubBackupProvider implements BackupProvider {
     message?: string;
     details?: any;
   }> {
+    let workDir: string | undefined;
+    
     try {
       if (!this.client || !this.initialized) {
         if (!(await this.initialize())) {
@@ -825,8 +1212,7 @@ export class GitHubBackupProvider implements BackupProvider {
         }
       }
       
-      // Get backup details
-      const backup = await this.getBackup(backupId);
+      const backup = await this.findBackup(backupId);
       
       if (!backup) {
         return {
@@ -837,133 +1223,27 @@ export class GitHubBackupProvider implements BackupProvider {
       
       // Get repository configuration
       const baseRepo = this.config.settings.baseRepo || 'wordpress-backups';
+      const metadata = await this.readMetadata(baseRepo, backup.name);
       
-      // Get branch name
-      const branchName = `backup/${backup.name}`;
+      workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'github-restore-'));
+      const archivePath = path.join(workDir, ARCHIVE_NAME);
       
-      // Create temporary directory for restoration
-      const restoreDir = path.join(this.tempDir, `restore-${backupId}`);
+      await this.downloadArchive(baseRepo, metadata, archivePath);
       
-      if (!fs.existsSync(restoreDir)) {
-        fs.mkdirSync(restoreDir, { recursive: true });
-      }
+      const restoreDir = options.destination
+        ? path.resolve(options.destination)
+        : path.join(workDir, 'restore');
       
-      // Download archive
-      try {
-        const archivePath = `backups/${backup.name}/archive.tar.gz`;
-        const archiveDestPath = path.join(restoreDir, 'archive.tar.gz');
-        
-        // Check if the archive exists as a single file
-        try {
-          const archiveFile = await this.client!.getContents(
-            baseRepo,
-            archivePath,
-            branchName
-          );
-          
-          if (!Array.isArray(archiveFile) && archiveFile.type === 'file') {
-            // Download the file
-            const response = await this.downloadFile(backupId, archivePath);
-            
-            if (!response.success || !response.content) {
-              return {
-                success: false,
-                message: response.message || 'Failed to download backup archive',
-              };
-            }
-            
-            // Write content to file
-            fs.writeFileSync(archiveDestPath, response.content);
-          }
-        } catch (error: unknown) {
-          // Archive might be split into chunks
-          let foundChunks = false;
-          let chunkIndex = 1;
-          const archiveChunks: Buffer[] = [];
-          
-          while (true) {
-            try {
-              const chunkPath = `${archivePath}.part${chunkIndex}`;
-              const response = await this.downloadFile(backupId, chunkPath);
-              
-              if (!response.success || !response.content) {
-                break;
-              }
-              
-              foundChunks = true;
-              
-              // Add chunk to list
-              if (Buffer.isBuffer(response.content)) {
-                archiveChunks.push(response.content);
-              } else {
-                archiveChunks.push(Buffer.from(response.content));
-              }
-              
-              chunkIndex++;
-            } catch (error: unknown) {
-              break;
-            }
-          }
-          
-          if (!foundChunks) {
-            return {
-              success: false,
-              message: 'Failed to find backup archive',
-            };
-          }
-          
-          // Combine chunks and write to file
-          fs.writeFileSync(archiveDestPath, Buffer.concat(archiveChunks));
-        }
-        
-        // Extract archive
-        await tar.extract({
-          file: archiveDestPath,
-          cwd: restoreDir,
-        });
-        
-        // In a real implementation, we would copy the files to the destination
-        // For now, just log the files
-        const extractedFiles = fs.readdirSync(restoreDir);
-        
-        // Clean up
-        fs.unlinkSync(archiveDestPath);
-        
-        if (options.files && options.files.length > 0) {
-          // Filter files if needed
-          const filteredFiles = extractedFiles.filter(file => {
-            return options.files!.includes(file);
-          });
-          
-          return {
-            success: true,
-            message: `Backup restored: ${backup.name} (${filteredFiles.length} files)`,
-            details: {
-              files: filteredFiles,
-            },
-          };
-        }
-        
-        return {
-          success: true,
-          message: `Backup restored: ${backup.name} (${extractedFiles.length} files)`,
-          details: {
-            files: extractedFiles,
-          },
-        };
-      } catch (error: unknown) {
-        logger.error(`Error restoring backup: ${backupId}`, error);
-        
-        return {
-          success: false,
-          message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        };
-      } finally {
-        // Clean up restore directory
-        if (fs.existsSync(restoreDir)) {
-          fs.rmSync(restoreDir, { recursive: true, force: true });
-        }
-      }
+      const extractedFiles = await extractArchive(archivePath, restoreDir, options.files, metadata.metadata?.compression);
+      
+      return {
+        success: true,
+        message: `Backup restored: ${metadata.name} (${extractedFiles.length} files)`,
+        details: {
+          destination: options.destination ? restoreDir : undefined,
+          files: extractedFiles,
+        },
+      };
     } catch (error: unknown) {
       logger.error(`Error restoring backup: ${backupId}`, error);
       
@@ -971,11 +1251,19 @@ export class GitHubBackupProvider implements BackupProvider {
         success: false,
         message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
+    } finally {
+      // Clean up scratch directory
+      if (workDir) {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+      }
     }
   }
   
   /**
    * Download a file from a backup
+   * 
+   * The path may refer to the metadata or the archive stored for the backup,
+   * or to an entry inside the archive.
    */
   async downloadFile(backupId: string, filePath: string): Promise<{
     success: boolean;
@@ -984,6 +1272,8 @@ export class GitHubBackupProvider implements BackupProvider {
     size?: number;
     message?: string;
   }> {
+    let workDir: string | undefined;
+    
     try {
       if (!this.client || !this.initialized) {
         if (!(await this.initialize())) {
@@ -994,8 +1284,7 @@ export class GitHubBackupProvider implements BackupProvider {
         }
       }
       
-      // Get backup details
-      const backup = await this.getBackup(backupId);
+      const backup = await this.findBackup(backupId);
       
       if (!backup) {
         return {
@@ -1006,125 +1295,94 @@ export class GitHubBackupProvider implements BackupProvider {
       
       // Get repository configuration
       const baseRepo = this.config.settings.baseRepo || 'wordpress-backups';
+      const metadata = await this.readMetadata(baseRepo, backup.name);
+      const entryName = toEntryName(filePath);
+      let content: Buffer | null;
       
-      // Get branch name
-      const branchName = `backup/${backup.name}`;
-      
-      // Get file content
-      try {
-        const fileContent = await this.client!.getContents(
-          baseRepo,
-          filePath,
-          branchName
-        );
+      if (entryName === METADATA_NAME) {
+        // The metadata is stored the way it is serialized here
+        content = Buffer.from(JSON.stringify(metadata, null, 2));
+      } else {
+        workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'github-restore-'));
+        const archivePath = path.join(workDir, ARCHIVE_NAME);
         
-        if (Array.isArray(fileContent)) {
-          return {
-            success: false,
-            message: `Requested path is a directory: ${filePath}`,
-          };
-        }
+        await this.downloadArchive(baseRepo, metadata, archivePath);
         
-        if (fileContent.type !== 'file' || !fileContent.content) {
+        content = entryName === ARCHIVE_NAME
+          ? await fs.promises.readFile(archivePath)
+          : await readArchiveEntry(archivePath, entryName, metadata.metadata?.compression);
+      }
+      
+      if (!content) {
+        return {
+          success: false,
+          message: `File not found in backup: ${filePath}`,
+        };
+      }
+      
+      return {
+        success: true,
+        content,
+        contentType: getContentType(filePath),
+        size: content.length,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${backupId}/${filePath}`, error);
+      
+      return {
+        success: false,
+        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      // Clean up scratch directory
+      if (workDir) {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+  
+  /**
+   * Download the archive of a backup into a file
+   * 
+   * The archive parts are streamed into the file one after another and
+   * verified against their checksums.
+   */
+  async downloadArchiveToFile(backupId: string, outputPath: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      if (!this.client || !this.initialized) {
+        if (!(await this.initialize())) {
           return {
             success: false,
-            message: `Invalid file type or missing content: ${filePath}`,
+            message: 'Failed to initialize GitHub backup provider',
           };
         }
-        
-        // Decode content
-        const content = Buffer.from(fileContent.content, 'base64');
-        
-        // Determine content type based on file extension
-        const extension = path.extname(filePath).toLowerCase();
-        let contentType = 'application/octet-stream';
-        
-        switch (extension) {
-          case '.json':
-            contentType = 'application/json';
-            break;
-          case '.txt':
-            contentType = 'text/plain';
-            break;
-          case '.html':
-          case '.htm':
-            contentType = 'text/html';
-            break;
-          case '.css':
-            contentType = 'text/css';
-            break;
-          case '.js':
-            contentType = 'application/javascript';
-            break;
-          case '.png':
-            contentType = 'image/png';
-            break;
-          case '.jpg':
-          case '.jpeg':
-            contentType = 'image/jpeg';
-            break;
-          case '.gif':
-            contentType = 'image/gif';
-            break;
-          case '.svg':
-            contentType = 'image/svg+xml';
-            break;
-          case '.tar':
-            contentType = 'application/x-tar';
-            break;
-          case '.gz':
-          case '.gzip':
-            contentType = 'application/gzip';
-            break;
-          case '.zip':
-            contentType = 'application/zip';
-            break;
-        }
-        
-        return {
-          success: true,
-          content,
-          contentType,
-          size: content.length,
-        };
-      } catch (error: unknown) {
-        logger.error(`Error downloading file: ${filePath}`, error);
-        
+      }
+      
+      const backup = await this.findBackup(backupId);
+      
+      if (!backup) {
         return {
           success: false,
-          message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          message: `Backup not found: ${backupId}`,
         };
       }
+      
+      // Get repository configuration
+      const baseRepo = this.config.settings.baseRepo || 'wordpress-backups';
+      
+      await this.downloadArchive(baseRepo, await this.readMetadata(baseRepo, backup.name), outputPath);
+      
+      return { success: true };
     } catch (error: unknown) {
-      logger.error(`Error downloading file: ${backupId}/${filePath}`, error);
+      logger.error(`Error downloading archive: ${backupId}`, error);
       
       return {
         success: false,
-        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `Error downloading archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
     }
   }
 }
-
-// Add this method to GitHubClient
-declare module './client' {
-  interface GitHubClient {
-    deleteReference(repo: string, ref: string): Promise<void>;
-  }
-}
-
-// This function extends the GitHubClient class to add a deleteReference method
-// We'll use it through our GitHubProvider which has an instance of GitHubClient
-async function deleteReference(client: GitHubClient, repo: string, ref: string): Promise<void> {
-  try {
-    // Get the api instance and owner from the client through proper public APIs
-    const apiUrl = `/repos/${client.getOwner()}/${repo}/git/refs/${ref}`;
-    await client.makeApiCall('delete', apiUrl);
-    logger.info(`Deleted reference: ${repo}/${ref}`);
-  } catch (error: unknown) {
-    logger.error(`Error deleting reference: ${repo}/${ref}`, error);
-    throw error;
-  }
-};
-
-export default GitHubBackupProvider;
\ No newline at end of file
@@ -0,0 +1,583 @@
+/**
+ * Google Drive API Client
+ *
+ * This module provides a client for the Google Drive v3 API used by the
+ * Google Drive backup provider. Shared drives are supported by passing a
+ * drive ID, and expired access tokens are refreshed automatically.
+ */
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import logger from '../../utils/logger';
+import { countMatchingChunks, getFileSize, readFileInChunks } from '../../utils/file-stream';
+import { OAuthToken, tokenRefreshManager } from '../../TokenRefreshManager';
+import type { BackupPart, UploadSessionProgress } from '../types';
+
+// Use the default logger instance
+
+/**
+ * Resumable upload chunks must be a multiple of 256 KiB
+ */
+export const CHUNK_ALIGNMENT = 256 * 1024;
+
+/**
+ * MIME type of Drive folders
+ */
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+const FILE_FIELDS = 'id,name,mimeType,size,createdTime,modifiedTime,parents,appProperties';
+
+/**
+ * Google Drive file
+ */
+export type DriveFile = {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: string;
+  createdTime?: string;
+  modifiedTime?: string;
+  parents?: string[];
+  appProperties?: Record<string, string>;
+};
+
+/**
+ * Type guard to check if an error is an AxiosError
+ * @param error - The error to check
+ * @returns True if the error is an AxiosError
+ */
+function isAxiosError(error: unknown): error is AxiosError {
+  return error !== null &&
+         typeof error === 'object' &&
+         'isAxiosError' in error &&
+         (error as any).isAxiosError === true;
+}
+
+/**
+ * Utility function to extract meaningful error messages from Google Drive API errors
+ * @param error - The error to extract a message from
+ * @param context - Additional context for logging
+ * @returns A user-friendly error message
+ */
+function getDriveErrorMessage(error: unknown, context: string): string {
+  if (isAxiosError(error)) {
+    if (error.response) {
+      let data: any = error.response.data;
+
+      if (Buffer.isBuffer(data)) {
+        try {
+          data = JSON.parse(data.toString('utf8'));
+        } catch {
+          data = undefined;
+        }
+      }
+
+      if (data && typeof data === 'object' && data.error?.message) {
+        return `Google Drive API error (${error.response.status}): ${data.error.message}`;
+      }
+      return `Google Drive API error (${error.response.status})`;
+    }
+    if (error.request) {
+      return `Google Drive API request failed: No response received`;
+    }
+  }
+  return `Google Drive operation failed: ${context} - ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Escape a value for use inside a Drive search query string literal
+ */
+function escapeQuery(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * Google Drive API client
+ */
+export class GoogleDriveClient {
+  private token: OAuthToken;
+  private driveId?: string;
+  private apiUrl: string;
+  private uploadUrl: string;
+  private onTokenRefreshed?: (token: OAuthToken) => void;
+
+  /**
+   * Create a new Google Drive API client
+   *
+   * @param options - Client options
+   */
+  constructor(options: {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    driveId?: string;
+    apiUrl?: string;
+    uploadUrl?: string;
+    onTokenRefreshed?: (token: OAuthToken) => void;
+  }) {
+    this.token = {
+      access_token: options.accessToken,
+      refresh_token: options.refreshToken,
+      expires_at: options.expiresAt,
+    };
+    this.driveId = options.driveId || undefined;
+    this.apiUrl = options.apiUrl || 'https://www.googleapis.com/drive/v3';
+    this.uploadUrl = options.uploadUrl || 'https://www.googleapis.com/upload/drive/v3';
+    this.onTokenRefreshed = options.onTokenRefreshed;
+  }
+
+  /**
+   * Get the ID of the folder at the top of the drive
+   */
+  getDriveRootId(): string {
+    return this.driveId || 'root';
+  }
+
+  /**
+   * Refresh the access token
+   */
+  private async refreshToken(): Promise<void> {
+    logger.info('Google access token rejected, refreshing');
+
+    this.token = await tokenRefreshManager.refreshGoogleToken(this.token);
+    this.onTokenRefreshed?.(this.token);
+  }
+
+  /**
+   * Send an authenticated request, refreshing the token once on 401
+   *
+   * @param config - Request configuration
+   * @returns Axios response
+   */
+  private async request<T = any>(config: AxiosRequestConfig) {
+    const send = () => axios.request<T>({
+      ...config,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      params: {
+        supportsAllDrives: true,
+        ...config.params,
+      },
+      headers: {
+        ...config.headers,
+        Authorization: `Bearer ${this.token.access_token}`,
+      },
+    });
+
+    try {
+      return await send();
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 401 && this.token.refresh_token) {
+        await this.refreshToken();
+        return send();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Test the API connection
+   *
+   * @returns Test result with the account or shared drive details
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    try {
+      if (this.driveId) {
+        const response = await this.request({
+          method: 'GET',
+          url: `${this.apiUrl}/drives/${this.driveId}`,
+          params: { fields: 'id,name' },
+        });
+
+        return {
+          success: true,
+          message: `Successfully connected to shared drive ${response.data.name}`,
+          details: { drive: response.data.name },
+        };
+      }
+
+      const response = await this.request({
+        method: 'GET',
+        url: `${this.apiUrl}/about`,
+        params: { fields: 'user(emailAddress,displayName),storageQuota' },
+      });
+
+      return {
+        success: true,
+        message: `Successfully connected as ${response.data.user?.emailAddress || 'Google user'}`,
+        details: {
+          user: response.data.user?.emailAddress,
+          storageQuota: response.data.storageQuota,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error('Error testing Google Drive connection', error);
+
+      return {
+        success: false,
+        message: `Error testing Google Drive connection: ${getDriveErrorMessage(error, 'testing connection')}`,
+      };
+    }
+  }
+
+  /**
+   * Search for files
+   *
+   * @param query - Drive search query
+   * @returns Matching files
+   */
+  async listFiles(query: string): Promise<DriveFile[]> {
+    const files: DriveFile[] = [];
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.request<{ files: DriveFile[]; nextPageToken?: string }>({
+          method: 'GET',
+          url: `${this.apiUrl}/files`,
+          params: {
+            q: `${query} and trashed = false`,
+            fields: `nextPageToken,files(${FILE_FIELDS})`,
+            pageSize: 1000,
+            pageToken,
+            includeItemsFromAllDrives: true,
+            ...(this.driveId ? { corpora: 'drive', driveId: this.driveId } : { corpora: 'user' }),
+          },
+        });
+
+        files.push(...response.data.files);
+        pageToken = response.data.nextPageToken;
+      } while (pageToken);
+
+      return files;
+    } catch (error: unknown) {
+      logger.error('Error listing Google Drive files', error);
+      throw new Error(getDriveErrorMessage(error, 'listing files'));
+    }
+  }
+
+  /**
+   * Search for files by app property
+   *
+   * @param properties - App properties the files must have
+   * @returns Matching files
+   */
+  async findByProperties(properties: Record<string, string>): Promise<DriveFile[]> {
+    const query = Object.entries(properties)
+      .map(([key, value]) => `appProperties has { key='${escapeQuery(key)}' and value='${escapeQuery(value)}' }`)
+      .join(' and ');
+
+    return this.listFiles(query);
+  }
+
+  /**
+   * Find a folder by name inside a parent folder, creating it if needed
+   *
+   * @param parentId - Parent folder ID
+   * @param name - Folder name
+   * @param appProperties - App properties for a newly created folder
+   * @returns Folder ID
+   */
+  async ensureFolder(parentId: string, name: string, appProperties?: Record<string, string>): Promise<string> {
+    const existing = await this.listFiles(
+      `'${escapeQuery(parentId)}' in parents and name = '${escapeQuery(name)}' and mimeType = '${FOLDER_MIME_TYPE}'`
+    );
+
+    if (existing.length > 0) {
+      return existing[0].id;
+    }
+
+    try {
+      const response = await this.request<DriveFile>({
+        method: 'POST',
+        url: `${this.apiUrl}/files`,
+        params: { fields: FILE_FIELDS },
+        data: {
+          name,
+          mimeType: FOLDER_MIME_TYPE,
+          parents: [parentId],
+          appProperties,
+        },
+      });
+
+      return response.data.id;
+    } catch (error: unknown) {
+      logger.error(`Error creating folder: ${name}`, error);
+      throw new Error(getDriveErrorMessage(error, `creating folder ${name}`));
+    }
+  }
+
+  /**
+   * Start a resumable upload session
+   *
+   * @param metadata - File metadata
+   * @param size - Content size in bytes
+   * @returns Session URI
+   */
+  private async startResumableUpload(metadata: {
+    name: string;
+    parents: string[];
+    mimeType: string;
+    appProperties?: Record<string, string>;
+  }, size: number): Promise<string> {
+    const response = await this.request({
+      method: 'POST',
+      url: `${this.uploadUrl}/files`,
+      params: { uploadType: 'resumable', fields: FILE_FIELDS },
+      data: metadata,
+      headers: {
+        'Content-Type': 'application/json; charset=UTF-8',
+        'X-Upload-Content-Type': metadata.mimeType,
+        'X-Upload-Content-Length': String(size),
+      },
+    });
+
+    const location = response.headers.location;
+
+    if (!location) {
+      throw new Error('Missing upload session URI in response');
+    }
+
+    return String(location);
+  }
+
+  /**
+   * Upload a chunk to a resumable upload session
+   *
+   * @param sessionUri - Session URI
+   * @param chunk - Chunk content
+   * @param offset - Offset of the chunk in the file
+   * @param total - Total file size
+   * @returns The uploaded file once the last chunk is accepted
+   */
+  private async uploadChunk(sessionUri: string, chunk: Buffer, offset: number, total: number): Promise<DriveFile | undefined> {
+    const response = await this.request<DriveFile>({
+      method: 'PUT',
+      url: sessionUri,
+      data: chunk,
+      headers: {
+        'Content-Length': String(chunk.length),
+        'Content-Range': chunk.length > 0
+          ? `bytes ${offset}-${offset + chunk.length - 1}/${total}`
+          : `bytes */${total}`,
+      },
+      // 308 Resume Incomplete means the chunk was stored and more are expected
+      validateStatus: status => (status >= 200 && status < 300) || status === 308,
+    });
+
+    return response.status === 308 ? undefined : response.data;
+  }
+
+  /**
+   * Get how much of a file a resumable upload session received
+   *
+   * @param sessionUri - Session URI
+   * @param total - Total file size
+   * @returns Bytes received and the file once the upload completed, or null if the session is gone
+   */
+  private async getUploadStatus(sessionUri: string, total: number): Promise<{ offset: number; file?: DriveFile } | null> {
+    try {
+      const response = await this.request<DriveFile>({
+        method: 'PUT',
+        url: sessionUri,
+        headers: {
+          'Content-Length': '0',
+          'Content-Range': `bytes */${total}`,
+        },
+        validateStatus: status => (status >= 200 && status < 300) || status === 308,
+      });
+
+      if (response.status !== 308) {
+        return { offset: total, file: response.data };
+      }
+
+      // The Range header is missing until the session received its first byte
+      const range = String(response.headers.range || '').match(/^bytes=0-(\d+)$/);
+
+      return { offset: range ? Number(range[1]) + 1 : 0 };
+    } catch (error: unknown) {
+      logger.warn(`Upload session can't be resumed: ${getDriveErrorMessage(error, 'checking upload session')}`);
+      return null;
+    }
+  }
+
+  /**
+   * Upload a local file using a resumable upload session
+   *
+   * Given the session of an interrupted upload, the upload continues in it
+   * if the session received exactly the chunks that were saved and none of
+   * them changed since; otherwise a new session is started.
+   *
+   * @param parentId - Parent folder ID
+   * @param name - File name
+   * @param localPath - Local file to upload
+   * @param chunkSize - Chunk size in bytes (rounded to a multiple of 256 KiB)
+   * @param mimeType - Content type
+   * @param appProperties - App properties of the file
+   * @param progress - Session of an interrupted upload and where to save progress
+   * @returns The uploaded file
+   */
+  async uploadFile(
+    parentId: string,
+    name: string,
+    localPath: string,
+    chunkSize: number,
+    mimeType: string = 'application/octet-stream',
+    appProperties?: Record<string, string>,
+    progress?: UploadSessionProgress
+  ): Promise<DriveFile> {
+    const size = await getFileSize(localPath);
+    const alignedChunkSize = Math.max(CHUNK_ALIGNMENT, Math.floor(chunkSize / CHUNK_ALIGNMENT) * CHUNK_ALIGNMENT);
+
+    try {
+      const uploaded = progress?.uploaded || [];
+      const parts: BackupPart[] = [];
+
+      if (progress?.session && uploaded.length > 0) {
+        const status = await this.getUploadStatus(progress.session, size);
+
+        if (status?.file) {
+          // Completed just before the interruption, from an archive that may have changed since
+          await this.delete(status.file.id).catch(() => undefined);
+        } else if (status?.offset === uploaded.reduce((total, part) => total + part.size, 0)
+            && await countMatchingChunks(localPath, alignedChunkSize, uploaded) === uploaded.length) {
+          parts.push(...uploaded);
+        }
+      }
+
+      const sessionUri = parts.length > 0
+        ? progress!.session!
+        : await this.startResumableUpload({ name, parents: [parentId], mimeType, appProperties }, size);
+
+      if (size === 0) {
+        return (await this.uploadChunk(sessionUri, Buffer.alloc(0), 0, 0))!;
+      }
+
+      let offset = parts.reduce((total, part) => total + part.size, 0);
+      let file: DriveFile | undefined;
+
+      await readFileInChunks(localPath, alignedChunkSize, async (chunk, index) => {
+        file = await this.uploadChunk(sessionUri, chunk, offset, size);
+        offset += chunk.length;
+
+        if (!file) {
+          parts.push({ name: `part${index + 1}`, size: chunk.length, sha256: createHash('sha256').update(chunk).digest('hex') });
+          await progress?.save(sessionUri, parts);
+        }
+      }, parts.length);
+
+      if (!file) {
+        throw new Error('Upload session did not complete');
+      }
+
+      return file;
+    } catch (error: unknown) {
+      logger.error(`Error uploading file: ${name}`, error);
+      throw new Error(getDriveErrorMessage(error, `uploading file ${name}`));
+    }
+  }
+
+  /**
+   * Upload content in a single resumable request
+   *
+   * @param parentId - Parent folder ID
+   * @param name - File name
+   * @param content - File content
+   * @param mimeType - Content type
+   * @param appProperties - App properties of the file
+   * @returns The uploaded file
+   */
+  async uploadContent(
+    parentId: string,
+    name: string,
+    content: Buffer | string,
+    mimeType: string = 'application/octet-stream',
+    appProperties?: Record<string, string>
+  ): Promise<DriveFile> {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+
+    try {
+      const sessionUri = await this.startResumableUpload({ name, parents: [parentId], mimeType, appProperties }, data.length);
+      return (await this.uploadChunk(sessionUri, data, 0, data.length))!;
+    } catch (error: unknown) {
+      logger.error(`Error uploading file: ${name}`, error);
+      throw new Error(getDriveErrorMessage(error, `uploading file ${name}`));
+    }
+  }
+
+  /**
+   * Download a file into memory
+   *
+   * @param fileId - File ID
+   * @returns File content or null if the file doesn't exist
+   */
+  async download(fileId: string): Promise<Buffer | null> {
+    try {
+      const response = await this.request<ArrayBuffer>({
+        method: 'GET',
+        url: `${this.apiUrl}/files/${fileId}`,
+        params: { alt: 'media' },
+        responseType: 'arraybuffer',
+      });
+
+      return Buffer.from(response.data);
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+
+      logger.error(`Error downloading file: ${fileId}`, error);
+      throw new Error(getDriveErrorMessage(error, `downloading file ${fileId}`));
+    }
+  }
+
+  /**
+   * Download a file to a local path
+   *
+   * @param fileId - File ID
+   * @param localPath - Destination file path
+   */
+  async downloadToFile(fileId: string, localPath: string): Promise<void> {
+    try {
+      const response = await this.request({
+        method: 'GET',
+        url: `${this.apiUrl}/files/${fileId}`,
+        params: { alt: 'media' },
+        responseType: 'stream',
+      });
+
+      await pipeline(response.data as NodeJS.ReadableStream, createWriteStream(localPath));
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${fileId}`, error);
+      throw new Error(getDriveErrorMessage(error, `downloading file ${fileId}`));
+    }
+  }
+
+  /**
+   * Permanently delete a file or folder (folders are deleted with their contents)
+   *
+   * @param fileId - File ID
+   */
+  async delete(fileId: string): Promise<void> {
+    try {
+      await this.request({
+        method: 'DELETE',
+        url: `${this.apiUrl}/files/${fileId}`,
+      });
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return;
+      }
+
+      logger.error(`Error deleting file: ${fileId}`, error);
+      throw new Error(getDriveErrorMessage(error, `deleting file ${fileId}`));
+    }
+  }
+}
+
+export default GoogleDriveClient;
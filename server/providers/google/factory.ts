@@ -0,0 +1,200 @@
+/**
+ * Google Drive Backup Provider Factory
+ *
+ * This module defines the factory for creating Google Drive backup providers.
+ */
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { BackupProviderFactory, BackupConfig, isGoogleDriveBackupConfig } from '../types';
+import { registerProvider } from '../registry';
+import { GoogleDriveBackupProvider } from './provider';
+
+// Use the default logger instance
+
+/**
+ * Validation schema for Google Drive backup provider configuration
+ */
+const googleDriveConfigSchema = z.object({
+  accessToken: z.string().min(1, 'Access token is required'),
+  refreshToken: z.string().optional(),
+  expiresAt: z.number().optional(),
+  driveId: z.string().optional(),
+  folderId: z.string().optional(),
+  folderName: z.string().min(1, 'Folder name cannot be empty').optional(),
+  chunkSize: z.number().int().min(1, 'Chunk size must be at least 1 MB').max(256).optional(),
+  retentionCount: z.number().int().min(1, 'Keep at least one backup').optional(),
+});
+
+/**
+ * Google Drive Backup Provider Factory
+ */
+export class GoogleDriveBackupProviderFactory implements BackupProviderFactory {
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'google';
+  }
+
+  /**
+   * Get provider information
+   */
+  getInfo(): {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    features: Record<string, boolean>;
+    configFields: Array<{
+      name: string;
+      type: 'text' | 'password' | 'number' | 'boolean' | 'select';
+      label: string;
+      placeholder?: string;
+      required: boolean;
+      options?: { value: string; label: string }[];
+      defaultValue?: any;
+      validation?: {
+        pattern?: string;
+        min?: number;
+        max?: number;
+        message?: string;
+      };
+    }>;
+  } {
+    return {
+      id: 'google',
+      name: 'Google Drive',
+      description: 'Backup WordPress sites to Google Drive, including shared drives',
+      icon: 'google-drive',
+      features: {
+        incremental: false,
+        compression: true,
+        encryption: false,
+        versioning: true,
+        scheduling: true,
+        fileRestore: true,
+      },
+      configFields: [
+        {
+          name: 'accessToken',
+          type: 'password',
+          label: 'Access Token',
+          required: true,
+        },
+        {
+          name: 'refreshToken',
+          type: 'password',
+          label: 'Refresh Token',
+          required: false,
+          validation: {
+            message: 'Needed to renew access tokens automatically.',
+          },
+        },
+        {
+          name: 'driveId',
+          type: 'text',
+          label: 'Shared Drive ID',
+          placeholder: 'Leave empty to use My Drive',
+          required: false,
+        },
+        {
+          name: 'folderId',
+          type: 'text',
+          label: 'Backup Folder ID',
+          placeholder: 'Leave empty to create a folder by name',
+          required: false,
+        },
+        {
+          name: 'folderName',
+          type: 'text',
+          label: 'Backup Folder Name',
+          placeholder: 'e.g., WordPress Backups',
+          required: false,
+          defaultValue: 'WordPress Backups',
+        },
+        {
+          name: 'chunkSize',
+          type: 'number',
+          label: 'Upload Chunk Size (MB)',
+          required: false,
+          defaultValue: 8,
+          validation: {
+            min: 1,
+            max: 256,
+            message: 'Chunk size must be between 1 MB and 256 MB.',
+          },
+        },
+        {
+          name: 'retentionCount',
+          type: 'number',
+          label: 'Backups to Keep per Site',
+          placeholder: 'Leave empty to keep all backups',
+          required: false,
+          validation: {
+            min: 1,
+            message: 'Keep at least one backup.',
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Validate provider configuration
+   */
+  validateConfig(config: Record<string, any>): {
+    valid: boolean;
+    errors?: Record<string, string>;
+  } {
+    try {
+      // Validate configuration schema
+      const result = googleDriveConfigSchema.safeParse(config);
+
+      if (!result.success) {
+        // Format validation errors
+        const errors: Record<string, string> = {};
+
+        result.error.errors.forEach(error => {
+          const path = error.path.join('.');
+          errors[path] = error.message;
+        });
+
+        return {
+          valid: false,
+          errors,
+        };
+      }
+
+      return {
+        valid: true,
+      };
+    } catch (error: unknown) {
+      logger.error('Error validating Google Drive configuration', error);
+
+      return {
+        valid: false,
+        errors: {
+          '_': `Invalid configuration format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a new provider instance
+   */
+  createProvider(config: BackupConfig): GoogleDriveBackupProvider {
+    // Validate config type
+    if (!isGoogleDriveBackupConfig(config)) {
+      throw new Error('Invalid Google Drive backup configuration');
+    }
+
+    // Create provider
+    return new GoogleDriveBackupProvider(config);
+  }
+}
+
+// Create and register singleton instance
+export const googleDriveBackupProviderFactory = registerProvider(new GoogleDriveBackupProviderFactory());
+
+export default googleDriveBackupProviderFactory;
@@ -0,0 +1,796 @@
+/**
+ * Google Drive Backup Provider
+ *
+ * This module implements a backup provider that stores WordPress site backups
+ * in Google Drive, either in the user's own drive or in a shared drive.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import logger from '../../utils/logger';
+import { BackupProvider, BackupMetadata, GoogleDriveBackupConfig, PreparedArchive, UploadCheckpoint } from '../types';
+import { DriveFile, FOLDER_MIME_TYPE, GoogleDriveClient } from './client';
+import {
+  createArchive,
+  extractArchive,
+  getContentType,
+  listArchiveEntries,
+  readArchiveEntry,
+  toEntryName,
+} from '../../utils/archive';
+
+// Use the default logger instance
+
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+const DEFAULT_CHUNK_SIZE_MB = 8;
+
+/**
+ * App property keys used to find backups without walking the folder tree
+ */
+const PROPERTY_ROOT = 'wpBackupRoot';
+const PROPERTY_SITE = 'wpBackupSite';
+const PROPERTY_BACKUP = 'wpBackupId';
+const PROPERTY_PART = 'wpBackupPart';
+
+/**
+ * Google Drive backup provider
+ *
+ * Backups are stored as `<root folder>/site-<siteId>/<backupName>/` folders
+ * holding `archive.tar.gz` and `metadata.json`. Every file is tagged with app
+ * properties so backups can be found with a single search.
+ */
+export class GoogleDriveBackupProvider implements BackupProvider {
+  private config: GoogleDriveBackupConfig;
+  private client: GoogleDriveClient;
+  private rootFolderId?: string;
+  private initialized: boolean = false;
+
+  /**
+   * Create a new Google Drive backup provider
+   *
+   * @param config - Provider configuration
+   * @param client - Optional API client (mainly for testing)
+   */
+  constructor(config: GoogleDriveBackupConfig, client?: GoogleDriveClient) {
+    this.config = config;
+    this.client = client || new GoogleDriveClient({
+      accessToken: config.settings.accessToken,
+      refreshToken: config.settings.refreshToken,
+      expiresAt: config.settings.expiresAt,
+      driveId: config.settings.driveId,
+      onTokenRefreshed: (token) => {
+        // Keep the configuration in sync so the refreshed token is persisted with it
+        this.config.settings.accessToken = token.access_token;
+        this.config.settings.refreshToken = token.refresh_token;
+        this.config.settings.expiresAt = token.expires_at;
+        this.config.updated = new Date();
+      },
+    });
+  }
+
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'google';
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): GoogleDriveBackupConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the upload chunk size in bytes
+   */
+  private getChunkSize(): number {
+    return (this.config.settings.chunkSize || DEFAULT_CHUNK_SIZE_MB) * 1024 * 1024;
+  }
+
+  /**
+   * Get the ID of the folder under which all backups are stored
+   */
+  private async getRootFolderId(): Promise<string> {
+    if (!this.rootFolderId) {
+      this.rootFolderId = this.config.settings.folderId || await this.client.ensureFolder(
+        this.client.getDriveRootId(),
+        this.config.settings.folderName || 'WordPress Backups'
+      );
+    }
+
+    return this.rootFolderId;
+  }
+
+  /**
+   * Initialize the provider
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      if (this.initialized) {
+        return true;
+      }
+
+      const result = await this.client.testConnection();
+
+      if (!result.success) {
+        logger.error(`Google Drive is not accessible: ${result.message}`);
+        return false;
+      }
+
+      await this.getRootFolderId();
+
+      this.initialized = true;
+      logger.info('Google Drive backup provider initialized');
+
+      return true;
+    } catch (error: unknown) {
+      logger.error('Error initializing Google Drive backup provider', error);
+      return false;
+    }
+  }
+
+  /**
+   * Test the connection to Google Drive
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    return this.client.testConnection();
+  }
+
+  /**
+   * Create a backup
+   *
+   * Progress of resumable uploads is reported after every chunk; given the
+   * checkpoint of an interrupted upload, its resumable upload is continued.
+   */
+  async createBackup(options: {
+    siteId: string;
+    files: string[];
+    database?: boolean;
+    destinations?: string[];
+    metadata?: Record<string, any>;
+    backupId?: string;
+    archive?: PreparedArchive;
+    checkpoint?: UploadCheckpoint;
+    onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
+  }): Promise<{
+    id: string;
+    success: boolean;
+    message?: string;
+    locations?: {
+      provider: string;
+      destination: string;
+      path: string;
+      url?: string;
+    }[];
+    errors?: {
+      destination?: string;
+      message: string;
+      details?: any;
+    }[];
+    size?: number;
+    created: Date;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return {
+            id: uuidv4(),
+            success: false,
+            message: 'Failed to initialize Google Drive backup provider',
+            created: new Date(),
+          };
+        }
+      }
+
+      // A checkpoint only helps if it recorded a resumable upload
+      const resumed = options.checkpoint?.session.sessionUri ? options.checkpoint : undefined;
+
+      // Generate backup ID
+      const backupId = options.backupId || uuidv4();
+      const created = resumed ? new Date(resumed.session.created) : new Date();
+
+      // Prepare backup name
+      const timestamp = created.toISOString().replace(/[:.]/g, '-');
+      const backupName = `wp-backup-${options.siteId}-${timestamp}`;
+      const rootId = await this.getRootFolderId();
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gdrive-backup-'));
+      let backupFolderId: string | undefined;
+
+      try {
+        // Create the per-site folder hierarchy
+        const siteFolderId = await this.client.ensureFolder(rootId, `site-${options.siteId}`, {
+          [PROPERTY_ROOT]: rootId,
+          [PROPERTY_SITE]: options.siteId,
+        });
+        backupFolderId = await this.client.ensureFolder(siteFolderId, backupName, {
+          [PROPERTY_ROOT]: rootId,
+          [PROPERTY_SITE]: options.siteId,
+          [PROPERTY_BACKUP]: backupId,
+        });
+
+        // Create the archive locally, then upload it
+        // Reuse the archive shared with other destinations when one is given
+        const archivePath = options.archive?.path || path.join(workDir, ARCHIVE_NAME);
+        const archive = options.archive || await createArchive(options.files, archivePath);
+
+        await this.client.uploadFile(
+          backupFolderId,
+          ARCHIVE_NAME,
+          archivePath,
+          this.getChunkSize(),
+          'application/gzip',
+          { [PROPERTY_BACKUP]: backupId, [PROPERTY_PART]: 'archive' },
+          {
+            session: resumed?.session.sessionUri,
+            uploaded: resumed?.parts || [],
+            save: async (sessionUri, parts) => {
+              await options.onCheckpoint?.({ session: { created: created.toISOString(), sessionUri }, parts: [...parts] });
+            },
+          }
+        );
+
+        // Create backup metadata
+        const metadata: BackupMetadata = {
+          id: backupId,
+          siteId: options.siteId,
+          name: backupName,
+          created: created.toISOString(),
+          size: archive.size,
+          fileCount: archive.fileCount,
+          type: 'full',
+          metadata: options.metadata || {},
+        };
+
+        // Metadata is written last so incomplete backups are never listed
+        await this.client.uploadContent(
+          backupFolderId,
+          METADATA_NAME,
+          JSON.stringify(metadata, null, 2),
+          'application/json',
+          {
+            [PROPERTY_ROOT]: rootId,
+            [PROPERTY_SITE]: options.siteId,
+            [PROPERTY_BACKUP]: backupId,
+            [PROPERTY_PART]: 'metadata',
+          }
+        );
+
+        // Drop the oldest backups beyond the retention count
+        if (this.config.settings.retentionCount) {
+          await this.applyRetention(options.siteId, this.config.settings.retentionCount);
+        }
+
+        return {
+          id: backupId,
+          success: true,
+          message: `Backup created successfully: ${backupName}`,
+          locations: [
+            {
+              provider: 'google',
+              destination: this.config.settings.driveId || 'My Drive',
+              path: `site-${options.siteId}/${backupName}/${ARCHIVE_NAME}`,
+              url: `https://drive.google.com/drive/folders/${backupFolderId}`,
+            },
+          ],
+          size: archive.size,
+          created,
+        };
+      } catch (error: unknown) {
+        logger.error(`Error uploading backup: ${backupName}`, error);
+
+        // Don't leave incomplete backups behind
+        if (backupFolderId) {
+          await this.client.delete(backupFolderId).catch(() => undefined);
+        }
+
+        return {
+          id: backupId,
+          success: false,
+          message: `Error uploading backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          created,
+        };
+      } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    } catch (error: unknown) {
+      logger.error('Error creating backup', error);
+
+      return {
+        id: uuidv4(),
+        success: false,
+        message: `Error creating backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        created: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Delete the oldest backups of a site, keeping the newest ones
+   *
+   * @param siteId - Site ID
+   * @param keep - Number of backups to keep
+   * @returns IDs of the deleted backups
+   */
+  async applyRetention(siteId: string, keep: number): Promise<string[]> {
+    const backups = (await this.readAllMetadata(siteId))
+      .sort((a, b) => new Date(b.metadata.created).getTime() - new Date(a.metadata.created).getTime());
+    const deleted: string[] = [];
+
+    for (const { metadata, folderId } of backups.slice(Math.max(keep, 0))) {
+      try {
+        await this.client.delete(folderId);
+        deleted.push(metadata.id);
+      } catch (error: unknown) {
+        logger.error(`Error deleting backup during retention: ${metadata.id}`, error);
+      }
+    }
+
+    if (deleted.length > 0) {
+      logger.info(`Retention removed ${deleted.length} backup(s) for site ${siteId}`);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Read the metadata of every stored backup
+   *
+   * @param siteId - Optional site ID to restrict the search to
+   * @returns Backup metadata with the backup folder ID
+   */
+  private async readAllMetadata(siteId?: string): Promise<Array<{
+    metadata: BackupMetadata;
+    folderId: string;
+  }>> {
+    const files = await this.client.findByProperties({
+      [PROPERTY_ROOT]: await this.getRootFolderId(),
+      [PROPERTY_PART]: 'metadata',
+      ...(siteId ? { [PROPERTY_SITE]: siteId } : {}),
+    });
+    const results: Array<{ metadata: BackupMetadata; folderId: string }> = [];
+
+    for (const file of files) {
+      try {
+        const content = await this.client.download(file.id);
+
+        if (!content || !file.parents?.length) {
+          continue;
+        }
+
+        results.push({
+          metadata: JSON.parse(content.toString('utf8')) as BackupMetadata,
+          folderId: file.parents[0],
+        });
+      } catch (error: unknown) {
+        logger.warn(`Skipping backup without readable metadata: ${file.id}`);
+        continue;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find a backup by ID
+   *
+   * @param backupId - Backup ID
+   * @returns Backup metadata with the folder and archive file
+   */
+  private async findBackup(backupId: string): Promise<{
+    metadata: BackupMetadata;
+    folder: DriveFile;
+    archive?: DriveFile;
+  } | undefined> {
+    const files = await this.client.findByProperties({ [PROPERTY_BACKUP]: backupId });
+    const folder = files.find(file => file.mimeType === FOLDER_MIME_TYPE);
+    const metadataFile = files.find(file => file.appProperties?.[PROPERTY_PART] === 'metadata');
+
+    if (!folder || !metadataFile) {
+      return undefined;
+    }
+
+    const content = await this.client.download(metadataFile.id);
+
+    if (!content) {
+      return undefined;
+    }
+
+    return {
+      metadata: JSON.parse(content.toString('utf8')) as BackupMetadata,
+      folder,
+      archive: files.find(file => file.appProperties?.[PROPERTY_PART] === 'archive'),
+    };
+  }
+
+  /**
+   * Download the archive of a backup into a scratch directory
+   *
+   * @param archive - Archive file
+   * @returns Scratch directory and archive path
+   */
+  private async downloadArchive(archive: DriveFile | undefined): Promise<{
+    workDir: string;
+    archivePath: string;
+  }> {
+    if (!archive) {
+      throw new Error('Backup archive is missing');
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gdrive-restore-'));
+    const archivePath = path.join(workDir, ARCHIVE_NAME);
+
+    try {
+      await this.client.downloadToFile(archive.id, archivePath);
+    } catch (error: unknown) {
+      await fs.rm(workDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    return { workDir, archivePath };
+  }
+
+  /**
+   * List backups
+   */
+  async listBackups(options?: {
+    siteId?: string;
+    destination?: string;
+    limit?: number;
+    offset?: number;
+    sort?: 'created' | 'size';
+    order?: 'asc' | 'desc';
+  }): Promise<{
+    backups: {
+      id: string;
+      siteId: string;
+      name: string;
+      destination?: string;
+      path?: string;
+      url?: string;
+      size?: number;
+      created: Date;
+      metadata?: Record<string, any>;
+    }[];
+    total: number;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return { backups: [], total: 0 };
+        }
+      }
+
+      const backups = (await this.readAllMetadata(options?.siteId)).map(({ metadata, folderId }) => ({
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.config.settings.driveId || 'My Drive',
+        path: `site-${metadata.siteId}/${metadata.name}/${ARCHIVE_NAME}`,
+        url: `https://drive.google.com/drive/folders/${folderId}`,
+        size: metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      }));
+
+      // Sort backups
+      if (options?.sort) {
+        const sortField = options.sort;
+        const sortOrder = options.order === 'asc' ? 1 : -1;
+
+        backups.sort((a, b) => {
+          if (sortField === 'created') {
+            return sortOrder * (a.created.getTime() - b.created.getTime());
+          } else if (sortField === 'size') {
+            return sortOrder * ((a.size || 0) - (b.size || 0));
+          }
+
+          return 0;
+        });
+      } else {
+        // Default to sorting by created date, newest first
+        backups.sort((a, b) => b.created.getTime() - a.created.getTime());
+      }
+
+      // Apply pagination
+      let result = backups;
+
+      if (options?.offset != null || options?.limit != null) {
+        const offset = options?.offset || 0;
+        const limit = options?.limit || 10;
+
+        result = backups.slice(offset, offset + limit);
+      }
+
+      return {
+        backups: result,
+        total: backups.length,
+      };
+    } catch (error: unknown) {
+      logger.error('Error listing backups', error);
+      return { backups: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get a specific backup
+   */
+  async getBackup(backupId: string): Promise<{
+    id: string;
+    siteId: string;
+    name: string;
+    destination?: string;
+    path?: string;
+    url?: string;
+    contents?: {
+      name: string;
+      type: 'file' | 'directory';
+      path: string;
+      size?: number;
+      modified?: Date;
+    }[];
+    size?: number;
+    created: Date;
+    metadata?: Record<string, any>;
+  } | null> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return null;
+        }
+      }
+
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return null;
+      }
+
+      const { metadata, folder, archive } = found;
+      const backup = {
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.config.settings.driveId || 'My Drive',
+        path: `site-${metadata.siteId}/${metadata.name}/${ARCHIVE_NAME}`,
+        url: `https://drive.google.com/drive/folders/${folder.id}`,
+        size: archive?.size ? parseInt(archive.size, 10) : metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      };
+
+      // List archive contents
+      try {
+        const { workDir, archivePath } = await this.downloadArchive(archive);
+
+        try {
+          const entries = await listArchiveEntries(archivePath);
+
+          return {
+            ...backup,
+            contents: entries
+              .filter(entry => entry.type === 'file' || entry.type === 'directory')
+              .map(entry => ({
+                name: path.posix.basename(entry.path),
+                type: entry.type as 'file' | 'directory',
+                path: entry.path,
+                size: entry.size,
+                modified: entry.modified,
+              })),
+          };
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      } catch (error: unknown) {
+        logger.error(`Error reading backup archive: ${backupId}`, error);
+        // Return backup without contents
+      }
+
+      return backup;
+    } catch (error: unknown) {
+      logger.error(`Error getting backup: ${backupId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a backup
+   */
+  async deleteBackup(backupId: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      // Deleting the folder removes the archive and metadata with it
+      await this.client.delete(found.folder.id);
+
+      return {
+        success: true,
+        message: `Backup deleted: ${found.metadata.name}`,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error deleting backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error deleting backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Restore a backup
+   *
+   * Files are extracted into the requested destination directory, or into a
+   * scratch directory that is removed afterwards when no destination is given.
+   */
+  async restoreBackup(backupId: string, options: {
+    destination?: string;
+    files?: string[];
+    database?: boolean;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    let workDir: string | undefined;
+
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const downloaded = await this.downloadArchive(found.archive);
+      workDir = downloaded.workDir;
+
+      const restoreDir = options.destination
+        ? path.resolve(options.destination)
+        : path.join(workDir, 'restore');
+
+      const extractedFiles = await extractArchive(downloaded.archivePath, restoreDir, options.files);
+
+      return {
+        success: true,
+        message: `Backup restored: ${found.metadata.name} (${extractedFiles.length} files)`,
+        details: {
+          destination: options.destination ? restoreDir : undefined,
+          files: extractedFiles,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error(`Error restoring backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      // Clean up scratch directory
+      if (workDir) {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Download a file from a backup
+   *
+   * The path may refer to a file stored next to the archive (e.g.
+   * `metadata.json`) or to an entry inside the archive.
+   */
+  async downloadFile(backupId: string, filePath: string): Promise<{
+    success: boolean;
+    content?: Buffer | string;
+    contentType?: string;
+    size?: number;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const entryName = toEntryName(filePath);
+      let content: Buffer | null = null;
+
+      // Files stored next to the archive
+      if (entryName === METADATA_NAME) {
+        content = Buffer.from(JSON.stringify(found.metadata, null, 2));
+      } else if (entryName === ARCHIVE_NAME) {
+        content = found.archive ? await this.client.download(found.archive.id) : null;
+      } else {
+        const { workDir, archivePath } = await this.downloadArchive(found.archive);
+
+        try {
+          content = await readArchiveEntry(archivePath, entryName);
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      }
+
+      if (!content) {
+        return {
+          success: false,
+          message: `File not found in backup: ${filePath}`,
+        };
+      }
+
+      return {
+        success: true,
+        content,
+        contentType: getContentType(filePath),
+        size: content.length,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${backupId}/${filePath}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Download the archive of a backup into a file
+   *
+   * The archive is streamed into the file instead of being held in memory.
+   */
+  async downloadArchiveToFile(backupId: string, outputPath: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      if (!found.archive) {
+        throw new Error('Backup archive is missing');
+      }
+
+      await this.client.downloadToFile(found.archive.id, outputPath);
+
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`Error downloading archive: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
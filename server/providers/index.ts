@@ -0,0 +1,21 @@
+/**
+ * Backup Providers
+ *
+ * Loads every provider factory so it registers itself with the registry.
+ * To add a provider, create its directory with a factory that calls
+ * `registerProvider` and import the factory here. The factories are listed
+ * explicitly rather than found by scanning this directory, because the
+ * server is bundled into a single file for production, where the provider
+ * directories don't exist at runtime. A unit test checks that no provider
+ * directory is left out.
+ */
+import './github/factory';
+import './local/factory';
+import './s3/factory';
+import './dropbox/factory';
+import './google/factory';
+import './onedrive/factory';
+import './sftp/factory';
+import './webdav/factory';
+
+export * from './registry';
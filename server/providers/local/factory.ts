@@ -0,0 +1,164 @@
+/**
+ * Local Filesystem Backup Provider Factory
+ *
+ * This module defines the factory for creating local filesystem backup providers.
+ */
+import path from 'path';
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { BackupProviderFactory, BackupConfig, isLocalBackupConfig } from '../types';
+import { registerProvider } from '../registry';
+import { LocalBackupProvider } from './provider';
+
+// Use the default logger instance
+
+/**
+ * Validation schema for local filesystem backup provider configuration
+ */
+const localConfigSchema = z.object({
+  basePath: z
+    .string()
+    .min(1, 'Backup directory is required')
+    .refine(value => path.isAbsolute(value), 'Backup directory must be an absolute path'),
+  prefix: z.string().optional(),
+  createIfMissing: z.boolean().optional().default(true),
+});
+
+/**
+ * Local Filesystem Backup Provider Factory
+ */
+export class LocalBackupProviderFactory implements BackupProviderFactory {
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'local';
+  }
+
+  /**
+   * Get provider information
+   */
+  getInfo(): {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    features: Record<string, boolean>;
+    configFields: Array<{
+      name: string;
+      type: 'text' | 'password' | 'number' | 'boolean' | 'select';
+      label: string;
+      placeholder?: string;
+      required: boolean;
+      options?: { value: string; label: string }[];
+      defaultValue?: any;
+      validation?: {
+        pattern?: string;
+        min?: number;
+        max?: number;
+        message?: string;
+      };
+    }>;
+  } {
+    return {
+      id: 'local',
+      name: 'Local Storage',
+      description: 'Backup WordPress sites to a directory on the server or a mounted NAS',
+      icon: 'hard-drive',
+      features: {
+        incremental: false,
+        compression: true,
+        encryption: false,
+        versioning: true,
+        scheduling: true,
+        fileRestore: true,
+      },
+      configFields: [
+        {
+          name: 'basePath',
+          type: 'text',
+          label: 'Backup Directory',
+          placeholder: 'e.g., /var/backups/wordpress',
+          required: true,
+          validation: {
+            message: 'Backup directory must be an absolute path on the server.',
+          },
+        },
+        {
+          name: 'prefix',
+          type: 'text',
+          label: 'Backup Prefix',
+          placeholder: 'e.g., wp-backup-',
+          required: false,
+          defaultValue: 'wp-backup-',
+        },
+        {
+          name: 'createIfMissing',
+          type: 'boolean',
+          label: 'Create the directory if it does not exist',
+          required: false,
+          defaultValue: true,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Validate provider configuration
+   */
+  validateConfig(config: Record<string, any>): {
+    valid: boolean;
+    errors?: Record<string, string>;
+  } {
+    try {
+      // Validate configuration schema
+      const result = localConfigSchema.safeParse(config);
+
+      if (!result.success) {
+        // Format validation errors
+        const errors: Record<string, string> = {};
+
+        result.error.errors.forEach(error => {
+          const path = error.path.join('.');
+          errors[path] = error.message;
+        });
+
+        return {
+          valid: false,
+          errors,
+        };
+      }
+
+      return {
+        valid: true,
+      };
+    } catch (error: unknown) {
+      logger.error('Error validating local storage configuration', error);
+
+      return {
+        valid: false,
+        errors: {
+          '_': `Invalid configuration format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a new provider instance
+   */
+  createProvider(config: BackupConfig): LocalBackupProvider {
+    // Validate config type
+    if (!isLocalBackupConfig(config)) {
+      throw new Error('Invalid local storage backup configuration');
+    }
+
+    // Create provider
+    return new LocalBackupProvider(config);
+  }
+}
+
+// Create and register singleton instance
+export const localBackupProviderFactory = registerProvider(new LocalBackupProviderFactory());
+
+export default localBackupProviderFactory;
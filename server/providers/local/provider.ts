@@ -0,0 +1,712 @@
+/**
+ * Local Filesystem Backup Provider
+ *
+ * This module implements a backup provider that stores WordPress site backups
+ * in a directory on the server, such as a local disk or a mounted NAS path.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import logger from '../../utils/logger';
+import { BackupProvider, BackupMetadata, LocalBackupConfig, PreparedArchive } from '../types';
+import {
+  createArchive,
+  extractArchive,
+  getContentType,
+  listArchiveEntries,
+  readArchiveEntry,
+  toEntryName,
+} from '../../utils/archive';
+import { fileExists } from '../../utils/file-stream';
+
+// Use the default logger instance
+
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+// Site IDs and backup names become directory names below the base directory
+const SAFE_NAME = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+/**
+ * Local filesystem backup provider
+ */
+export class LocalBackupProvider implements BackupProvider {
+  private config: LocalBackupConfig;
+  private initialized: boolean = false;
+
+  /**
+   * Create a new local filesystem backup provider
+   *
+   * @param config - Provider configuration
+   */
+  constructor(config: LocalBackupConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'local';
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): LocalBackupConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the absolute base directory for backups
+   */
+  private getBasePath(): string {
+    return path.resolve(this.config.settings.basePath);
+  }
+
+  /**
+   * Get a directory below the base directory
+   *
+   * The names come from site IDs and backup names, so they may not contain
+   * separators or lead out of the base directory.
+   *
+   * @param names - Directory names below the base directory
+   */
+  private getDir(...names: string[]): string {
+    const basePath = this.getBasePath();
+    const dir = path.resolve(basePath, ...names);
+
+    if (names.some(name => !SAFE_NAME.test(name)) || !dir.startsWith(basePath + path.sep)) {
+      throw new Error(`Invalid backup path: ${names.join('/')}`);
+    }
+
+    return dir;
+  }
+
+  /**
+   * Get the directory of a backup
+   *
+   * @param siteId - Site ID
+   * @param backupName - Backup name
+   */
+  private getBackupDir(siteId: string, backupName: string): string {
+    return this.getDir(siteId, backupName);
+  }
+
+  /**
+   * Initialize the provider
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      if (this.initialized) {
+        return true;
+      }
+
+      const basePath = this.getBasePath();
+
+      if (!(await fileExists(basePath))) {
+        if (this.config.settings.createIfMissing === false) {
+          logger.error(`Backup directory doesn't exist: ${basePath}`);
+          return false;
+        }
+
+        logger.info(`Backup directory doesn't exist, creating: ${basePath}`);
+        await fs.mkdir(basePath, { recursive: true });
+      }
+
+      // Make sure the directory is writable before accepting backups
+      await fs.access(basePath, fs.constants.R_OK | fs.constants.W_OK);
+
+      this.initialized = true;
+      logger.info(`Local backup provider initialized for ${basePath}`);
+
+      return true;
+    } catch (error: unknown) {
+      logger.error('Error initializing local backup provider', error);
+      return false;
+    }
+  }
+
+  /**
+   * Test access to the backup directory
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    const basePath = this.getBasePath();
+
+    try {
+      if (!(await fileExists(basePath))) {
+        if (this.config.settings.createIfMissing === false) {
+          return {
+            success: false,
+            message: `Backup directory doesn't exist: ${basePath}`,
+          };
+        }
+
+        return {
+          success: true,
+          message: `Backup directory '${basePath}' doesn't exist but will be created.`,
+          details: {
+            path: basePath,
+            exists: false,
+            canCreate: true,
+          },
+        };
+      }
+
+      const stats = await fs.stat(basePath);
+
+      if (!stats.isDirectory()) {
+        return {
+          success: false,
+          message: `Backup path is not a directory: ${basePath}`,
+        };
+      }
+
+      await fs.access(basePath, fs.constants.R_OK | fs.constants.W_OK);
+
+      return {
+        success: true,
+        message: `Backup directory '${basePath}' is writable.`,
+        details: {
+          path: basePath,
+          exists: true,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error('Error testing local backup directory', error);
+
+      return {
+        success: false,
+        message: `Error accessing backup directory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Create a backup
+   */
+  async createBackup(options: {
+    siteId: string;
+    files: string[];
+    database?: boolean;
+    destinations?: string[];
+    metadata?: Record<string, any>;
+    backupId?: string;
+    archive?: PreparedArchive;
+  }): Promise<{
+    id: string;
+    success: boolean;
+    message?: string;
+    locations?: {
+      provider: string;
+      destination: string;
+      path: string;
+      url?: string;
+    }[];
+    errors?: {
+      destination?: string;
+      message: string;
+      details?: any;
+    }[];
+    size?: number;
+    created: Date;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return {
+            id: uuidv4(),
+            success: false,
+            message: 'Failed to initialize local backup provider',
+            created: new Date(),
+          };
+        }
+      }
+
+      // Generate backup ID
+      const backupId = options.backupId || uuidv4();
+      const created = new Date();
+      const prefix = this.config.settings.prefix || 'wp-backup-';
+
+      // Prepare backup name
+      const timestamp = created.toISOString().replace(/[:.]/g, '-');
+      const backupName = `${prefix}${options.siteId}-${timestamp}`;
+      const backupDir = this.getBackupDir(options.siteId, backupName);
+
+      try {
+        await fs.mkdir(backupDir, { recursive: true });
+
+        // Write the archive into a temporary name first so partial backups are never listed
+        const archivePath = path.join(backupDir, ARCHIVE_NAME);
+        const partialPath = `${archivePath}.partial`;
+        let archive: { size: number; fileCount: number };
+
+        if (options.archive) {
+          // Copy the archive shared with other destinations
+          await fs.copyFile(options.archive.path, partialPath);
+          archive = options.archive;
+        } else {
+          archive = await createArchive(options.files, partialPath);
+        }
+        await fs.rename(partialPath, archivePath);
+
+        // Create backup metadata
+        const metadata: BackupMetadata = {
+          id: backupId,
+          siteId: options.siteId,
+          name: backupName,
+          created: created.toISOString(),
+          size: archive.size,
+          fileCount: archive.fileCount,
+          type: 'full',
+          metadata: options.metadata || {},
+        };
+
+        await fs.writeFile(
+          path.join(backupDir, METADATA_NAME),
+          JSON.stringify(metadata, null, 2)
+        );
+
+        return {
+          id: backupId,
+          success: true,
+          message: `Backup created successfully: ${backupName}`,
+          locations: [
+            {
+              provider: 'local',
+              destination: this.getBasePath(),
+              path: backupDir,
+            },
+          ],
+          size: archive.size,
+          created,
+        };
+      } catch (error: unknown) {
+        logger.error(`Error writing backup: ${backupName}`, error);
+
+        // Don't leave incomplete backups behind
+        await fs.rm(backupDir, { recursive: true, force: true });
+
+        return {
+          id: backupId,
+          success: false,
+          message: `Error writing backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          created,
+        };
+      }
+    } catch (error: unknown) {
+      logger.error('Error creating backup', error);
+
+      return {
+        id: uuidv4(),
+        success: false,
+        message: `Error creating backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        created: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read the metadata of every stored backup
+   *
+   * @param siteId - Optional site ID to restrict the scan to
+   * @returns Backup metadata with the backup directory
+   */
+  private async readAllMetadata(siteId?: string): Promise<Array<{
+    metadata: BackupMetadata;
+    dir: string;
+  }>> {
+    const basePath = this.getBasePath();
+    const results: Array<{ metadata: BackupMetadata; dir: string }> = [];
+
+    if (!(await fileExists(basePath))) {
+      return results;
+    }
+
+    // Skips the scratch directory of restores as well
+    const siteDirs = siteId
+      ? [siteId]
+      : (await fs.readdir(basePath, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory() && SAFE_NAME.test(entry.name))
+        .map(entry => entry.name);
+
+    for (const siteDir of siteDirs) {
+      const sitePath = this.getDir(siteDir);
+
+      if (!(await fileExists(sitePath))) {
+        continue;
+      }
+
+      const backupDirs = (await fs.readdir(sitePath, { withFileTypes: true }))
+        .filter(entry => entry.isDirectory());
+
+      for (const backupDir of backupDirs) {
+        const dir = path.join(sitePath, backupDir.name);
+
+        try {
+          const content = await fs.readFile(path.join(dir, METADATA_NAME), 'utf8');
+          results.push({ metadata: JSON.parse(content) as BackupMetadata, dir });
+        } catch (error: unknown) {
+          logger.warn(`Skipping backup directory without readable metadata: ${dir}`);
+          continue;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find a backup by ID
+   *
+   * @param backupId - Backup ID
+   * @returns Backup metadata with the backup directory
+   */
+  private async findBackup(backupId: string): Promise<{
+    metadata: BackupMetadata;
+    dir: string;
+  } | undefined> {
+    const all = await this.readAllMetadata();
+    return all.find(item => item.metadata.id === backupId);
+  }
+
+  /**
+   * List backups
+   */
+  async listBackups(options?: {
+    siteId?: string;
+    destination?: string;
+    limit?: number;
+    offset?: number;
+    sort?: 'created' | 'size';
+    order?: 'asc' | 'desc';
+  }): Promise<{
+    backups: {
+      id: string;
+      siteId: string;
+      name: string;
+      destination?: string;
+      path?: string;
+      url?: string;
+      size?: number;
+      created: Date;
+      metadata?: Record<string, any>;
+    }[];
+    total: number;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return { backups: [], total: 0 };
+        }
+      }
+
+      const backups = (await this.readAllMetadata(options?.siteId)).map(({ metadata, dir }) => ({
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.getBasePath(),
+        path: dir,
+        size: metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      }));
+
+      // Sort backups
+      if (options?.sort) {
+        const sortField = options.sort;
+        const sortOrder = options.order === 'asc' ? 1 : -1;
+
+        backups.sort((a, b) => {
+          if (sortField === 'created') {
+            return sortOrder * (a.created.getTime() - b.created.getTime());
+          } else if (sortField === 'size') {
+            return sortOrder * ((a.size || 0) - (b.size || 0));
+          }
+
+          return 0;
+        });
+      } else {
+        // Default to sorting by created date, newest first
+        backups.sort((a, b) => b.created.getTime() - a.created.getTime());
+      }
+
+      // Apply pagination
+      let result = backups;
+
+      if (options?.offset != null || options?.limit != null) {
+        const offset = options?.offset || 0;
+        const limit = options?.limit || 10;
+
+        result = backups.slice(offset, offset + limit);
+      }
+
+      return {
+        backups: result,
+        total: backups.length,
+      };
+    } catch (error: unknown) {
+      logger.error('Error listing backups', error);
+      return { backups: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get a specific backup
+   */
+  async getBackup(backupId: string): Promise<{
+    id: string;
+    siteId: string;
+    name: string;
+    destination?: string;
+    path?: string;
+    url?: string;
+    contents?: {
+      name: string;
+      type: 'file' | 'directory';
+      path: string;
+      size?: number;
+      modified?: Date;
+    }[];
+    size?: number;
+    created: Date;
+    metadata?: Record<string, any>;
+  } | null> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return null;
+        }
+      }
+
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return null;
+      }
+
+      const { metadata, dir } = found;
+      const backup = {
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.getBasePath(),
+        path: dir,
+        size: metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      };
+
+      // List archive contents
+      try {
+        const entries = await listArchiveEntries(path.join(dir, ARCHIVE_NAME), metadata.metadata?.compression);
+
+        return {
+          ...backup,
+          contents: entries
+            .filter(entry => entry.type === 'file' || entry.type === 'directory')
+            .map(entry => ({
+              name: path.posix.basename(entry.path),
+              type: entry.type as 'file' | 'directory',
+              path: entry.path,
+              size: entry.size,
+              modified: entry.modified,
+            })),
+        };
+      } catch (error: unknown) {
+        logger.error(`Error reading backup archive: ${backupId}`, error);
+        // Return backup without contents
+      }
+
+      return backup;
+    } catch (error: unknown) {
+      logger.error(`Error getting backup: ${backupId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a backup
+   */
+  async deleteBackup(backupId: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      await fs.rm(found.dir, { recursive: true, force: true });
+
+      return {
+        success: true,
+        message: `Backup deleted: ${found.metadata.name}`,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error deleting backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error deleting backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Restore a backup
+   *
+   * Files are extracted into the requested destination directory, or into a
+   * scratch directory that is removed afterwards when no destination is given.
+   */
+  async restoreBackup(backupId: string, options: {
+    destination?: string;
+    files?: string[];
+    database?: boolean;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    // The scratch directory doesn't use the backup ID, which may point anywhere
+    const restoreDir = options.destination
+      ? path.resolve(options.destination)
+      : path.join(this.getBasePath(), '.restore', uuidv4());
+
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const extractedFiles = await extractArchive(
+        path.join(found.dir, ARCHIVE_NAME),
+        restoreDir,
+        options.files,
+        found.metadata.metadata?.compression
+      );
+
+      return {
+        success: true,
+        message: `Backup restored: ${found.metadata.name} (${extractedFiles.length} files)`,
+        details: {
+          destination: options.destination ? restoreDir : undefined,
+          files: extractedFiles,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error(`Error restoring backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      // Clean up scratch directory
+      if (!options.destination) {
+        await fs.rm(restoreDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Download a file from a backup
+   *
+   * The path may refer to a file stored next to the archive (e.g. `metadata.json`)
+   * or to an entry inside the archive.
+   */
+  async downloadFile(backupId: string, filePath: string): Promise<{
+    success: boolean;
+    content?: Buffer | string;
+    contentType?: string;
+    size?: number;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const entryName = toEntryName(filePath);
+      let content: Buffer | null = null;
+
+      // Files stored next to the archive
+      if (entryName === ARCHIVE_NAME || entryName === METADATA_NAME) {
+        content = await fs.readFile(path.join(found.dir, entryName));
+      } else {
+        content = await readArchiveEntry(path.join(found.dir, ARCHIVE_NAME), entryName, found.metadata.metadata?.compression);
+      }
+
+      if (!content) {
+        return {
+          success: false,
+          message: `File not found in backup: ${filePath}`,
+        };
+      }
+
+      return {
+        success: true,
+        content,
+        contentType: getContentType(filePath),
+        size: content.length,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${backupId}/${filePath}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Download the archive of a backup into a file
+   *
+   * The archive is streamed into the file instead of being held in memory.
+   */
+  async downloadArchiveToFile(backupId: string, outputPath: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      await fs.copyFile(path.join(found.dir, ARCHIVE_NAME), outputPath);
+
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`Error downloading archive: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
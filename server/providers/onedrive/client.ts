@@ -0,0 +1,486 @@
+/**
+ * Microsoft Graph Drive Client
+ *
+ * This module provides a client for OneDrive and SharePoint document
+ * libraries through the Microsoft Graph API. Expired access tokens are
+ * refreshed automatically through the token refresh manager.
+ */
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import logger from '../../utils/logger';
+import { countMatchingChunks, getFileSize, readFileInChunks } from '../../utils/file-stream';
+import { OAuthToken, tokenRefreshManager } from '../../TokenRefreshManager';
+import type { BackupPart, UploadSessionProgress } from '../types';
+
+// Use the default logger instance
+
+/**
+ * Upload session chunks must be a multiple of 320 KiB
+ */
+export const CHUNK_ALIGNMENT = 320 * 1024;
+
+/**
+ * Largest file Graph accepts in a simple PUT upload
+ */
+export const SIMPLE_UPLOAD_LIMIT = 4 * 1024 * 1024;
+
+/**
+ * Drive item
+ */
+export type DriveItem = {
+  id: string;
+  name: string;
+  size?: number;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+  webUrl?: string;
+  file?: { mimeType?: string };
+  folder?: { childCount?: number };
+};
+
+/**
+ * Type guard to check if an error is an AxiosError
+ * @param error - The error to check
+ * @returns True if the error is an AxiosError
+ */
+function isAxiosError(error: unknown): error is AxiosError {
+  return error !== null &&
+         typeof error === 'object' &&
+         'isAxiosError' in error &&
+         (error as any).isAxiosError === true;
+}
+
+/**
+ * Check whether an error is a 404 response
+ * @param error - The error to check
+ */
+function isNotFoundError(error: unknown): boolean {
+  return isAxiosError(error) && error.response?.status === 404;
+}
+
+/**
+ * Utility function to extract meaningful error messages from Graph API errors
+ * @param error - The error to extract a message from
+ * @param context - Additional context for logging
+ * @returns A user-friendly error message
+ */
+function getGraphErrorMessage(error: unknown, context: string): string {
+  if (isAxiosError(error)) {
+    if (error.response) {
+      let data: any = error.response.data;
+
+      if (Buffer.isBuffer(data)) {
+        try {
+          data = JSON.parse(data.toString('utf8'));
+        } catch {
+          data = undefined;
+        }
+      }
+
+      if (data && typeof data === 'object' && data.error?.message) {
+        return `Microsoft Graph error (${error.response.status}): ${data.error.message}`;
+      }
+      return `Microsoft Graph error (${error.response.status})`;
+    }
+    if (error.request) {
+      return `Microsoft Graph request failed: No response received`;
+    }
+  }
+  return `OneDrive operation failed: ${context} - ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Encode a drive path for use in a Graph URL
+ */
+function encodePath(itemPath: string): string {
+  return itemPath
+    .split('/')
+    .filter(Boolean)
+    .map(segment => encodeURIComponent(segment))
+    .join('/');
+}
+
+/**
+ * Microsoft Graph drive client
+ */
+export class OneDriveClient {
+  private token: OAuthToken;
+  private apiUrl: string;
+  private driveUrl: string;
+  private onTokenRefreshed?: (token: OAuthToken) => void;
+
+  /**
+   * Create a new Graph drive client
+   *
+   * The target drive is the user's OneDrive unless a SharePoint site and/or a
+   * document library (drive) ID is given.
+   *
+   * @param options - Client options
+   */
+  constructor(options: {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    siteId?: string;
+    driveId?: string;
+    apiUrl?: string;
+    onTokenRefreshed?: (token: OAuthToken) => void;
+  }) {
+    this.token = {
+      access_token: options.accessToken,
+      refresh_token: options.refreshToken,
+      expires_at: options.expiresAt,
+    };
+    this.apiUrl = options.apiUrl || 'https://graph.microsoft.com/v1.0';
+
+    if (options.driveId) {
+      this.driveUrl = `${this.apiUrl}/drives/${encodeURIComponent(options.driveId)}`;
+    } else if (options.siteId) {
+      this.driveUrl = `${this.apiUrl}/sites/${encodeURIComponent(options.siteId)}/drive`;
+    } else {
+      this.driveUrl = `${this.apiUrl}/me/drive`;
+    }
+
+    this.onTokenRefreshed = options.onTokenRefreshed;
+  }
+
+  /**
+   * Get the Graph URL of an item addressed by path
+   *
+   * @param itemPath - Path relative to the drive root
+   * @param suffix - Optional action or relationship, e.g. `content`
+   */
+  private itemUrl(itemPath: string, suffix?: string): string {
+    const encoded = encodePath(itemPath);
+
+    if (!encoded) {
+      return suffix ? `${this.driveUrl}/root/${suffix}` : `${this.driveUrl}/root`;
+    }
+
+    return suffix ? `${this.driveUrl}/root:/${encoded}:/${suffix}` : `${this.driveUrl}/root:/${encoded}`;
+  }
+
+  /**
+   * Refresh the access token
+   */
+  private async refreshToken(): Promise<void> {
+    logger.info('OneDrive access token rejected, refreshing');
+
+    this.token = await tokenRefreshManager.refreshOneDriveToken(this.token);
+    this.onTokenRefreshed?.(this.token);
+  }
+
+  /**
+   * Send an authenticated request, refreshing the token once on 401
+   *
+   * @param config - Request configuration
+   * @returns Axios response
+   */
+  private async request<T = any>(config: AxiosRequestConfig) {
+    const send = () => axios.request<T>({
+      ...config,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      headers: {
+        ...config.headers,
+        Authorization: `Bearer ${this.token.access_token}`,
+      },
+    });
+
+    try {
+      return await send();
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 401 && this.token.refresh_token) {
+        await this.refreshToken();
+        return send();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Test the API connection
+   *
+   * @returns Test result with the drive details
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    try {
+      const response = await this.request({
+        method: 'GET',
+        url: this.driveUrl,
+        params: { $select: 'id,name,driveType,quota,owner' },
+      });
+
+      return {
+        success: true,
+        message: `Successfully connected to ${response.data.name || 'OneDrive'}`,
+        details: {
+          driveId: response.data.id,
+          driveType: response.data.driveType,
+          quota: response.data.quota,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error('Error testing OneDrive connection', error);
+
+      return {
+        success: false,
+        message: `Error testing OneDrive connection: ${getGraphErrorMessage(error, 'testing connection')}`,
+      };
+    }
+  }
+
+  /**
+   * Get an item by path
+   *
+   * @param itemPath - Path relative to the drive root
+   * @returns The item or null if it doesn't exist
+   */
+  async getItem(itemPath: string): Promise<DriveItem | null> {
+    try {
+      const response = await this.request<DriveItem>({ method: 'GET', url: this.itemUrl(itemPath) });
+      return response.data;
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+
+      logger.error(`Error getting item: ${itemPath}`, error);
+      throw new Error(getGraphErrorMessage(error, `getting item ${itemPath}`));
+    }
+  }
+
+  /**
+   * List the children of a folder
+   *
+   * @param folderPath - Path relative to the drive root
+   * @returns Folder children, or an empty list if the folder doesn't exist
+   */
+  async listChildren(folderPath: string): Promise<DriveItem[]> {
+    const items: DriveItem[] = [];
+    let url: string | undefined = this.itemUrl(folderPath, 'children');
+
+    try {
+      while (url) {
+        const response: { data: { value: DriveItem[]; '@odata.nextLink'?: string } } = await this.request({
+          method: 'GET',
+          url,
+        });
+
+        items.push(...response.data.value);
+        url = response.data['@odata.nextLink'];
+      }
+
+      return items;
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return [];
+      }
+
+      logger.error(`Error listing folder: ${folderPath}`, error);
+      throw new Error(getGraphErrorMessage(error, `listing folder ${folderPath}`));
+    }
+  }
+
+  /**
+   * Upload content with a simple PUT request (up to 4 MB)
+   *
+   * @param itemPath - Path relative to the drive root
+   * @param content - File content
+   * @param contentType - Content type
+   */
+  async uploadContent(itemPath: string, content: Buffer | string, contentType: string = 'application/octet-stream'): Promise<DriveItem> {
+    try {
+      const response = await this.request<DriveItem>({
+        method: 'PUT',
+        url: this.itemUrl(itemPath, 'content'),
+        data: content,
+        headers: { 'Content-Type': contentType },
+      });
+
+      return response.data;
+    } catch (error: unknown) {
+      logger.error(`Error uploading file: ${itemPath}`, error);
+      throw new Error(getGraphErrorMessage(error, `uploading file ${itemPath}`));
+    }
+  }
+
+  /**
+   * Get how much of a file an upload session received
+   *
+   * @param uploadUrl - Upload URL of the session
+   * @returns Bytes received, or null if the session is gone
+   */
+  private async getUploadOffset(uploadUrl: string): Promise<number | null> {
+    try {
+      // The upload URL is pre-authenticated and must not receive the bearer token
+      const response = await axios.get<{ nextExpectedRanges?: string[] }>(uploadUrl);
+      const next = response.data.nextExpectedRanges?.[0]?.match(/^(\d+)-/);
+
+      return next ? Number(next[1]) : null;
+    } catch (error: unknown) {
+      logger.warn(`Upload session can't be resumed: ${getGraphErrorMessage(error, 'checking upload session')}`);
+      return null;
+    }
+  }
+
+  /**
+   * Upload a local file, using an upload session when it is larger than 4 MB
+   *
+   * Given the session of an interrupted upload, the upload continues in it
+   * if the session received exactly the chunks that were saved and none of
+   * them changed since; otherwise a new session is started.
+   *
+   * @param itemPath - Path relative to the drive root
+   * @param localPath - Local file to upload
+   * @param chunkSize - Chunk size in bytes (rounded to a multiple of 320 KiB)
+   * @param progress - Session of an interrupted upload and where to save progress
+   */
+  async uploadFile(
+    itemPath: string,
+    localPath: string,
+    chunkSize: number,
+    progress?: UploadSessionProgress
+  ): Promise<DriveItem> {
+    const size = await getFileSize(localPath);
+
+    if (size <= SIMPLE_UPLOAD_LIMIT) {
+      const chunks: Buffer[] = [];
+      await readFileInChunks(localPath, Math.max(size, 1), async (chunk) => {
+        chunks.push(chunk);
+      });
+      return this.uploadContent(itemPath, Buffer.concat(chunks));
+    }
+
+    const alignedChunkSize = Math.max(CHUNK_ALIGNMENT, Math.floor(chunkSize / CHUNK_ALIGNMENT) * CHUNK_ALIGNMENT);
+    const uploaded = progress?.uploaded || [];
+    const parts: BackupPart[] = [];
+    let uploadUrl: string | undefined;
+
+    try {
+      if (progress?.session && uploaded.length > 0
+          && await this.getUploadOffset(progress.session) === uploaded.reduce((total, part) => total + part.size, 0)
+          && await countMatchingChunks(localPath, alignedChunkSize, uploaded) === uploaded.length) {
+        parts.push(...uploaded);
+        uploadUrl = progress.session;
+      } else {
+        const session = await this.request<{ uploadUrl: string }>({
+          method: 'POST',
+          url: this.itemUrl(itemPath, 'createUploadSession'),
+          data: { item: { '@microsoft.graph.conflictBehavior': 'replace' } },
+        });
+        uploadUrl = session.data.uploadUrl;
+      }
+
+      let offset = parts.reduce((total, part) => total + part.size, 0);
+      let item: DriveItem | undefined;
+
+      await readFileInChunks(localPath, alignedChunkSize, async (chunk, index) => {
+        // The upload URL is pre-authenticated and must not receive the bearer token
+        const response = await axios.put<DriveItem>(uploadUrl!, chunk, {
+          maxBodyLength: Infinity,
+          headers: {
+            'Content-Length': String(chunk.length),
+            'Content-Range': `bytes ${offset}-${offset + chunk.length - 1}/${size}`,
+          },
+        });
+
+        offset += chunk.length;
+
+        if (response.status === 200 || response.status === 201) {
+          item = response.data;
+        } else {
+          parts.push({ name: `part${index + 1}`, size: chunk.length, sha256: createHash('sha256').update(chunk).digest('hex') });
+          await progress?.save(uploadUrl!, parts);
+        }
+      }, parts.length);
+
+      if (!item) {
+        throw new Error('Upload session did not complete');
+      }
+
+      return item;
+    } catch (error: unknown) {
+      logger.error(`Error uploading file in session: ${itemPath}`, error);
+
+      // Release the session so the partial upload is discarded
+      if (uploadUrl) {
+        await axios.delete(uploadUrl).catch(() => undefined);
+      }
+
+      throw new Error(getGraphErrorMessage(error, `uploading file ${itemPath}`));
+    }
+  }
+
+  /**
+   * Download a file into memory
+   *
+   * @param itemPath - Path relative to the drive root
+   * @returns File content or null if the file doesn't exist
+   */
+  async download(itemPath: string): Promise<Buffer | null> {
+    try {
+      const response = await this.request<ArrayBuffer>({
+        method: 'GET',
+        url: this.itemUrl(itemPath, 'content'),
+        responseType: 'arraybuffer',
+      });
+
+      return Buffer.from(response.data);
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+
+      logger.error(`Error downloading file: ${itemPath}`, error);
+      throw new Error(getGraphErrorMessage(error, `downloading file ${itemPath}`));
+    }
+  }
+
+  /**
+   * Download a file to a local path
+   *
+   * @param itemPath - Path relative to the drive root
+   * @param localPath - Destination file path
+   */
+  async downloadToFile(itemPath: string, localPath: string): Promise<void> {
+    try {
+      const response = await this.request({
+        method: 'GET',
+        url: this.itemUrl(itemPath, 'content'),
+        responseType: 'stream',
+      });
+
+      await pipeline(response.data as NodeJS.ReadableStream, createWriteStream(localPath));
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${itemPath}`, error);
+      throw new Error(getGraphErrorMessage(error, `downloading file ${itemPath}`));
+    }
+  }
+
+  /**
+   * Delete a file or folder (folders are deleted with their contents)
+   *
+   * @param itemPath - Path relative to the drive root
+   */
+  async delete(itemPath: string): Promise<void> {
+    try {
+      await this.request({ method: 'DELETE', url: this.itemUrl(itemPath) });
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return;
+      }
+
+      logger.error(`Error deleting item: ${itemPath}`, error);
+      throw new Error(getGraphErrorMessage(error, `deleting ${itemPath}`));
+    }
+  }
+}
+
+export default OneDriveClient;
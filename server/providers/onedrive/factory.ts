@@ -0,0 +1,191 @@
+/**
+ * OneDrive Backup Provider Factory
+ *
+ * This module defines the factory for creating OneDrive backup providers.
+ */
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { BackupProviderFactory, BackupConfig, isOneDriveBackupConfig } from '../types';
+import { registerProvider } from '../registry';
+import { OneDriveBackupProvider } from './provider';
+
+// Use the default logger instance
+
+/**
+ * Validation schema for OneDrive backup provider configuration
+ */
+const oneDriveConfigSchema = z.object({
+  accessToken: z.string().min(1, 'Access token is required'),
+  refreshToken: z.string().optional(),
+  expiresAt: z.number().optional(),
+  sharePointSiteId: z.string().optional(),
+  driveId: z.string().optional(),
+  rootPath: z
+    .string()
+    .regex(/^(\/[^/]+)*\/?$/, 'Folder must be an absolute path, e.g. /wordpress-backups')
+    .optional(),
+  chunkSize: z.number().int().min(1).max(60, 'Chunk size must be at most 60 MB').optional(),
+});
+
+/**
+ * OneDrive Backup Provider Factory
+ */
+export class OneDriveBackupProviderFactory implements BackupProviderFactory {
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'onedrive';
+  }
+
+  /**
+   * Get provider information
+   */
+  getInfo(): {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    features: Record<string, boolean>;
+    configFields: Array<{
+      name: string;
+      type: 'text' | 'password' | 'number' | 'boolean' | 'select';
+      label: string;
+      placeholder?: string;
+      required: boolean;
+      options?: { value: string; label: string }[];
+      defaultValue?: any;
+      validation?: {
+        pattern?: string;
+        min?: number;
+        max?: number;
+        message?: string;
+      };
+    }>;
+  } {
+    return {
+      id: 'onedrive',
+      name: 'OneDrive',
+      description: 'Backup WordPress sites to OneDrive or a SharePoint document library',
+      icon: 'onedrive',
+      features: {
+        incremental: false,
+        compression: true,
+        encryption: false,
+        versioning: true,
+        scheduling: true,
+        fileRestore: true,
+      },
+      configFields: [
+        {
+          name: 'accessToken',
+          type: 'password',
+          label: 'Access Token',
+          required: true,
+        },
+        {
+          name: 'refreshToken',
+          type: 'password',
+          label: 'Refresh Token',
+          required: false,
+          validation: {
+            message: 'Needed to renew access tokens automatically.',
+          },
+        },
+        {
+          name: 'sharePointSiteId',
+          type: 'text',
+          label: 'SharePoint Site ID',
+          placeholder: 'Leave empty to use your OneDrive',
+          required: false,
+        },
+        {
+          name: 'driveId',
+          type: 'text',
+          label: 'Document Library (Drive) ID',
+          placeholder: 'Leave empty to use the default library',
+          required: false,
+        },
+        {
+          name: 'rootPath',
+          type: 'text',
+          label: 'Backup Folder',
+          placeholder: 'e.g., /wordpress-backups',
+          required: false,
+          defaultValue: '/wordpress-backups',
+        },
+        {
+          name: 'chunkSize',
+          type: 'number',
+          label: 'Upload Chunk Size (MB)',
+          required: false,
+          defaultValue: 10,
+          validation: {
+            min: 1,
+            max: 60,
+            message: 'Chunk size must be between 1 MB and 60 MB.',
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Validate provider configuration
+   */
+  validateConfig(config: Record<string, any>): {
+    valid: boolean;
+    errors?: Record<string, string>;
+  } {
+    try {
+      // Validate configuration schema
+      const result = oneDriveConfigSchema.safeParse(config);
+
+      if (!result.success) {
+        // Format validation errors
+        const errors: Record<string, string> = {};
+
+        result.error.errors.forEach(error => {
+          const path = error.path.join('.');
+          errors[path] = error.message;
+        });
+
+        return {
+          valid: false,
+          errors,
+        };
+      }
+
+      return {
+        valid: true,
+      };
+    } catch (error: unknown) {
+      logger.error('Error validating OneDrive configuration', error);
+
+      return {
+        valid: false,
+        errors: {
+          '_': `Invalid configuration format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a new provider instance
+   */
+  createProvider(config: BackupConfig): OneDriveBackupProvider {
+    // Validate config type
+    if (!isOneDriveBackupConfig(config)) {
+      throw new Error('Invalid OneDrive backup configuration');
+    }
+
+    // Create provider
+    return new OneDriveBackupProvider(config);
+  }
+}
+
+// Create and register singleton instance
+export const oneDriveBackupProviderFactory = registerProvider(new OneDriveBackupProviderFactory());
+
+export default oneDriveBackupProviderFactory;
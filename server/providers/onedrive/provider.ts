@@ -0,0 +1,747 @@
+/**
+ * OneDrive Backup Provider
+ *
+ * This module implements a backup provider that stores WordPress site backups
+ * in OneDrive or in a SharePoint document library through Microsoft Graph.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import logger from '../../utils/logger';
+import { BackupProvider, BackupMetadata, OneDriveBackupConfig, PreparedArchive, UploadCheckpoint } from '../types';
+import { DriveItem, OneDriveClient } from './client';
+import {
+  createArchive,
+  extractArchive,
+  getContentType,
+  listArchiveEntries,
+  readArchiveEntry,
+  toEntryName,
+} from '../../utils/archive';
+
+// Use the default logger instance
+
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+const DEFAULT_CHUNK_SIZE_MB = 10;
+
+/**
+ * OneDrive backup provider
+ *
+ * Files are stored as `<rootPath>/<siteId>/<backupId>/archive.tar.gz` with a
+ * `metadata.json` file next to the archive. Paths are relative to the drive root.
+ */
+export class OneDriveBackupProvider implements BackupProvider {
+  private config: OneDriveBackupConfig;
+  private client: OneDriveClient;
+  private initialized: boolean = false;
+
+  /**
+   * Create a new OneDrive backup provider
+   *
+   * @param config - Provider configuration
+   * @param client - Optional API client (mainly for testing)
+   */
+  constructor(config: OneDriveBackupConfig, client?: OneDriveClient) {
+    this.config = config;
+    this.client = client || new OneDriveClient({
+      accessToken: config.settings.accessToken,
+      refreshToken: config.settings.refreshToken,
+      expiresAt: config.settings.expiresAt,
+      siteId: config.settings.sharePointSiteId,
+      driveId: config.settings.driveId,
+      onTokenRefreshed: (token) => {
+        // Keep the configuration in sync so the refreshed token is persisted with it
+        this.config.settings.accessToken = token.access_token;
+        this.config.settings.refreshToken = token.refresh_token;
+        this.config.settings.expiresAt = token.expires_at;
+        this.config.updated = new Date();
+      },
+    });
+  }
+
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'onedrive';
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): OneDriveBackupConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the folder under which all backups are stored
+   */
+  private getRootPath(): string {
+    const rootPath = (this.config.settings.rootPath ?? '/wordpress-backups').replace(/\/+$/, '');
+    return rootPath && !rootPath.startsWith('/') ? `/${rootPath}` : rootPath;
+  }
+
+  /**
+   * Get the folder of a backup
+   *
+   * @param siteId - Site ID
+   * @param backupId - Backup ID
+   */
+  private getBackupPath(siteId: string, backupId: string): string {
+    return `${this.getRootPath()}/${siteId}/${backupId}`;
+  }
+
+  /**
+   * Get the upload session chunk size in bytes
+   */
+  private getChunkSize(): number {
+    return (this.config.settings.chunkSize || DEFAULT_CHUNK_SIZE_MB) * 1024 * 1024;
+  }
+
+  /**
+   * Initialize the provider
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      if (this.initialized) {
+        return true;
+      }
+
+      const result = await this.client.testConnection();
+
+      if (!result.success) {
+        logger.error(`OneDrive is not accessible: ${result.message}`);
+        return false;
+      }
+
+      this.initialized = true;
+      logger.info('OneDrive backup provider initialized');
+
+      return true;
+    } catch (error: unknown) {
+      logger.error('Error initializing OneDrive backup provider', error);
+      return false;
+    }
+  }
+
+  /**
+   * Test the connection to OneDrive
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    const result = await this.client.testConnection();
+
+    return {
+      ...result,
+      details: result.success
+        ? {
+          ...result.details,
+          rootPath: this.getRootPath(),
+        }
+        : undefined,
+    };
+  }
+
+  /**
+   * Create a backup
+   *
+   * Progress of upload sessions is reported after every chunk; given the
+   * checkpoint of an interrupted upload, its upload session is continued.
+   */
+  async createBackup(options: {
+    siteId: string;
+    files: string[];
+    database?: boolean;
+    destinations?: string[];
+    metadata?: Record<string, any>;
+    backupId?: string;
+    archive?: PreparedArchive;
+    checkpoint?: UploadCheckpoint;
+    onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
+  }): Promise<{
+    id: string;
+    success: boolean;
+    message?: string;
+    locations?: {
+      provider: string;
+      destination: string;
+      path: string;
+      url?: string;
+    }[];
+    errors?: {
+      destination?: string;
+      message: string;
+      details?: any;
+    }[];
+    size?: number;
+    created: Date;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return {
+            id: uuidv4(),
+            success: false,
+            message: 'Failed to initialize OneDrive backup provider',
+            created: new Date(),
+          };
+        }
+      }
+
+      // A checkpoint only helps if it recorded an upload session
+      const resumed = options.checkpoint?.session.uploadUrl ? options.checkpoint : undefined;
+
+      // Generate backup ID
+      const backupId = options.backupId || uuidv4();
+      const created = resumed ? new Date(resumed.session.created) : new Date();
+
+      // Prepare backup name
+      const timestamp = created.toISOString().replace(/[:.]/g, '-');
+      const backupName = `wp-backup-${options.siteId}-${timestamp}`;
+      const backupPath = this.getBackupPath(options.siteId, backupId);
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'onedrive-backup-'));
+
+      try {
+        // Create the archive locally, then upload it
+        // Reuse the archive shared with other destinations when one is given
+        const archivePath = options.archive?.path || path.join(workDir, ARCHIVE_NAME);
+        const archive = options.archive || await createArchive(options.files, archivePath);
+
+        await this.client.uploadFile(`${backupPath}/${ARCHIVE_NAME}`, archivePath, this.getChunkSize(), {
+          session: resumed?.session.uploadUrl,
+          uploaded: resumed?.parts || [],
+          save: async (uploadUrl, parts) => {
+            await options.onCheckpoint?.({ session: { created: created.toISOString(), uploadUrl }, parts: [...parts] });
+          },
+        });
+
+        // Create backup metadata
+        const metadata: BackupMetadata = {
+          id: backupId,
+          siteId: options.siteId,
+          name: backupName,
+          created: created.toISOString(),
+          size: archive.size,
+          fileCount: archive.fileCount,
+          type: 'full',
+          metadata: options.metadata || {},
+        };
+
+        // Metadata is written last so incomplete backups are never listed
+        await this.client.uploadContent(
+          `${backupPath}/${METADATA_NAME}`,
+          JSON.stringify(metadata, null, 2)
+        );
+
+        return {
+          id: backupId,
+          success: true,
+          message: `Backup created successfully: ${backupName}`,
+          locations: [
+            {
+              provider: 'onedrive',
+              destination: this.getRootPath() || '/',
+              path: `${backupPath}/${ARCHIVE_NAME}`,
+            },
+          ],
+          size: archive.size,
+          created,
+        };
+      } catch (error: unknown) {
+        logger.error(`Error uploading backup: ${backupName}`, error);
+
+        // Don't leave incomplete backups behind
+        await this.client.delete(backupPath).catch(() => undefined);
+
+        return {
+          id: backupId,
+          success: false,
+          message: `Error uploading backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          created,
+        };
+      } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    } catch (error: unknown) {
+      logger.error('Error creating backup', error);
+
+      return {
+        id: uuidv4(),
+        success: false,
+        message: `Error creating backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        created: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read the metadata of a single backup folder
+   *
+   * @param folder - Backup folder path
+   * @returns Backup metadata with the archive item, or undefined if unreadable
+   */
+  private async readBackupFolder(folder: string): Promise<{
+    metadata: BackupMetadata;
+    folder: string;
+    archive?: DriveItem;
+  } | undefined> {
+    const children = await this.client.listChildren(folder);
+
+    if (!children.some(item => item.name === METADATA_NAME)) {
+      return undefined;
+    }
+
+    try {
+      const content = await this.client.download(`${folder}/${METADATA_NAME}`);
+
+      if (!content) {
+        return undefined;
+      }
+
+      return {
+        metadata: JSON.parse(content.toString('utf8')) as BackupMetadata,
+        folder,
+        archive: children.find(item => item.name === ARCHIVE_NAME),
+      };
+    } catch (error: unknown) {
+      logger.warn(`Skipping backup without readable metadata: ${folder}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the metadata of every stored backup
+   *
+   * @param siteId - Optional site ID to restrict the listing to
+   * @returns Backup metadata with the backup folder and archive item
+   */
+  private async readAllMetadata(siteId?: string): Promise<Array<{
+    metadata: BackupMetadata;
+    folder: string;
+    archive?: DriveItem;
+  }>> {
+    const root = this.getRootPath();
+    const siteIds = siteId
+      ? [siteId]
+      : (await this.client.listChildren(root)).filter(item => item.folder).map(item => item.name);
+    const results: Array<{ metadata: BackupMetadata; folder: string; archive?: DriveItem }> = [];
+
+    for (const site of siteIds) {
+      const backupFolders = (await this.client.listChildren(`${root}/${site}`)).filter(item => item.folder);
+
+      for (const backupFolder of backupFolders) {
+        const backup = await this.readBackupFolder(`${root}/${site}/${backupFolder.name}`);
+
+        if (backup) {
+          results.push(backup);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find a backup by ID
+   *
+   * @param backupId - Backup ID
+   * @returns Backup metadata with the backup folder
+   */
+  private async findBackup(backupId: string): Promise<{
+    metadata: BackupMetadata;
+    folder: string;
+    archive?: DriveItem;
+  } | undefined> {
+    const root = this.getRootPath();
+    const sites = (await this.client.listChildren(root)).filter(item => item.folder);
+
+    // Backup folders are named after the backup ID, so only one lookup per site is needed
+    for (const site of sites) {
+      const folder = `${root}/${site.name}/${backupId}`;
+
+      if (await this.client.getItem(folder)) {
+        return this.readBackupFolder(folder);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Download the archive of a backup into a scratch directory
+   *
+   * @param folder - Backup folder
+   * @returns Scratch directory and archive path
+   */
+  private async downloadArchive(folder: string): Promise<{
+    workDir: string;
+    archivePath: string;
+  }> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'onedrive-restore-'));
+    const archivePath = path.join(workDir, ARCHIVE_NAME);
+
+    try {
+      await this.client.downloadToFile(`${folder}/${ARCHIVE_NAME}`, archivePath);
+    } catch (error: unknown) {
+      await fs.rm(workDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    return { workDir, archivePath };
+  }
+
+  /**
+   * List backups
+   */
+  async listBackups(options?: {
+    siteId?: string;
+    destination?: string;
+    limit?: number;
+    offset?: number;
+    sort?: 'created' | 'size';
+    order?: 'asc' | 'desc';
+  }): Promise<{
+    backups: {
+      id: string;
+      siteId: string;
+      name: string;
+      destination?: string;
+      path?: string;
+      url?: string;
+      size?: number;
+      created: Date;
+      metadata?: Record<string, any>;
+    }[];
+    total: number;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return { backups: [], total: 0 };
+        }
+      }
+
+      const backups = (await this.readAllMetadata(options?.siteId)).map(({ metadata, folder, archive }) => ({
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.getRootPath() || '/',
+        path: `${folder}/${ARCHIVE_NAME}`,
+        size: archive?.size ?? metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      }));
+
+      // Sort backups
+      if (options?.sort) {
+        const sortField = options.sort;
+        const sortOrder = options.order === 'asc' ? 1 : -1;
+
+        backups.sort((a, b) => {
+          if (sortField === 'created') {
+            return sortOrder * (a.created.getTime() - b.created.getTime());
+          } else if (sortField === 'size') {
+            return sortOrder * ((a.size || 0) - (b.size || 0));
+          }
+
+          return 0;
+        });
+      } else {
+        // Default to sorting by created date, newest first
+        backups.sort((a, b) => b.created.getTime() - a.created.getTime());
+      }
+
+      // Apply pagination
+      let result = backups;
+
+      if (options?.offset != null || options?.limit != null) {
+        const offset = options?.offset || 0;
+        const limit = options?.limit || 10;
+
+        result = backups.slice(offset, offset + limit);
+      }
+
+      return {
+        backups: result,
+        total: backups.length,
+      };
+    } catch (error: unknown) {
+      logger.error('Error listing backups', error);
+      return { backups: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get a specific backup
+   */
+  async getBackup(backupId: string): Promise<{
+    id: string;
+    siteId: string;
+    name: string;
+    destination?: string;
+    path?: string;
+    url?: string;
+    contents?: {
+      name: string;
+      type: 'file' | 'directory';
+      path: string;
+      size?: number;
+      modified?: Date;
+    }[];
+    size?: number;
+    created: Date;
+    metadata?: Record<string, any>;
+  } | null> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return null;
+        }
+      }
+
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return null;
+      }
+
+      const { metadata, folder, archive } = found;
+      const backup = {
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.getRootPath() || '/',
+        path: `${folder}/${ARCHIVE_NAME}`,
+        url: archive?.webUrl,
+        size: archive?.size ?? metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      };
+
+      // List archive contents
+      try {
+        const { workDir, archivePath } = await this.downloadArchive(folder);
+
+        try {
+          const entries = await listArchiveEntries(archivePath);
+
+          return {
+            ...backup,
+            contents: entries
+              .filter(entry => entry.type === 'file' || entry.type === 'directory')
+              .map(entry => ({
+                name: path.posix.basename(entry.path),
+                type: entry.type as 'file' | 'directory',
+                path: entry.path,
+                size: entry.size,
+                modified: entry.modified,
+              })),
+          };
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      } catch (error: unknown) {
+        logger.error(`Error reading backup archive: ${backupId}`, error);
+        // Return backup without contents
+      }
+
+      return backup;
+    } catch (error: unknown) {
+      logger.error(`Error getting backup: ${backupId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a backup
+   */
+  async deleteBackup(backupId: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      // Deleting the folder removes the archive and metadata in one call
+      await this.client.delete(found.folder);
+
+      return {
+        success: true,
+        message: `Backup deleted: ${found.metadata.name}`,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error deleting backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error deleting backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Restore a backup
+   *
+   * Files are extracted into the requested destination directory, or into a
+   * scratch directory that is removed afterwards when no destination is given.
+   */
+  async restoreBackup(backupId: string, options: {
+    destination?: string;
+    files?: string[];
+    database?: boolean;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    let workDir: string | undefined;
+
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const downloaded = await this.downloadArchive(found.folder);
+      workDir = downloaded.workDir;
+
+      const restoreDir = options.destination
+        ? path.resolve(options.destination)
+        : path.join(workDir, 'restore');
+
+      const extractedFiles = await extractArchive(downloaded.archivePath, restoreDir, options.files);
+
+      return {
+        success: true,
+        message: `Backup restored: ${found.metadata.name} (${extractedFiles.length} files)`,
+        details: {
+          destination: options.destination ? restoreDir : undefined,
+          files: extractedFiles,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error(`Error restoring backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      // Clean up scratch directory
+      if (workDir) {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Download a file from a backup
+   *
+   * The path may refer to a file stored next to the archive (e.g.
+   * `metadata.json`) or to an entry inside the archive.
+   */
+  async downloadFile(backupId: string, filePath: string): Promise<{
+    success: boolean;
+    content?: Buffer | string;
+    contentType?: string;
+    size?: number;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const entryName = toEntryName(filePath);
+      let content: Buffer | null = null;
+
+      // Files stored next to the archive
+      if (entryName === ARCHIVE_NAME || entryName === METADATA_NAME) {
+        content = await this.client.download(`${found.folder}/${entryName}`);
+      } else {
+        const { workDir, archivePath } = await this.downloadArchive(found.folder);
+
+        try {
+          content = await readArchiveEntry(archivePath, entryName);
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      }
+
+      if (!content) {
+        return {
+          success: false,
+          message: `File not found in backup: ${filePath}`,
+        };
+      }
+
+      return {
+        success: true,
+        content,
+        contentType: getContentType(filePath),
+        size: content.length,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${backupId}/${filePath}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Download the archive of a backup into a file
+   *
+   * The archive is streamed into the file instead of being held in memory.
+   */
+  async downloadArchiveToFile(backupId: string, outputPath: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      await this.client.downloadToFile(`${found.folder}/${ARCHIVE_NAME}`, outputPath);
+
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`Error downloading archive: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
@@ -1,79 +1,159 @@
 /**
- * Simplified Backup Provider Registry
- * 
- * Direct access to backup providers with minimal abstraction.
- * This module provides a streamlined interface to available backup providers
- * without unnecessary complexity.
+ * Backup Provider Registry
+ *
+ * Provider factories register themselves here and are looked up by ID.
+ * The registry validates configurations before creating providers and keeps
+ * initialized provider instances cached per configuration.
  */
 import logger from '../utils/logger';
-import { BackupProvider, BackupConfig } from './types';
-import { githubBackupProviderFactory } from './github/factory';
+import { BackupProvider, BackupConfig, BackupProviderFactory } from './types';
 import { retry } from '../utils/retryStrategy';
 
-// Cache map for provider instances
-const providerCache = new Map<string, BackupProvider>();
+// Use the default logger instance
 
-// Initialize and log available providers
-logger.info('Registered provider: github');
+/**
+ * Provider information without configuration fields
+ */
+export type ProviderInfo = Omit<ReturnType<BackupProviderFactory['getInfo']>, 'configFields'>;
+
+/**
+ * Configuration field declared by a provider factory
+ */
+export type ProviderConfigField = ReturnType<BackupProviderFactory['getInfo']>['configFields'][number];
+
+/**
+ * Cached provider instance with the configuration it was created from
+ */
+interface CachedProvider {
+  provider: BackupProvider;
+  config: BackupConfig;
+  updated?: number;
+}
+
+// Registered provider factories by provider ID
+const factories = new Map<string, BackupProviderFactory>();
+
+// Cache map for provider instances by configuration ID
+const providerCache = new Map<string, CachedProvider>();
+
+/**
+ * Register a provider factory
+ *
+ * Factories call this when their module is loaded. Registering a factory
+ * with an existing ID replaces the previous one.
+ *
+ * @param factory - Provider factory
+ * @returns The registered factory
+ */
+export function registerProvider<T extends BackupProviderFactory>(factory: T): T {
+  const id = factory.getId();
+
+  if (factories.has(id)) {
+    logger.warn(`Replacing registered provider: ${id}`);
+  }
+
+  factories.set(id, factory);
+  logger.info(`Registered provider: ${id}`);
+
+  return factory;
+}
+
+/**
+ * Get a registered provider factory
+ *
+ * @param id - Provider ID
+ * @returns Provider factory or undefined if no factory is registered for the ID
+ */
+export function getProviderFactory(id: string): BackupProviderFactory | undefined {
+  return factories.get(id);
+}
+
+/**
+ * Validate provider settings with the provider's factory
+ *
+ * @param id - Provider ID
+ * @param settings - Provider settings
+ * @returns Validation result
+ */
+export function validateProviderConfig(id: string, settings: Record<string, any>): {
+  valid: boolean;
+  errors?: Record<string, string>;
+} {
+  const factory = factories.get(id);
+
+  if (!factory) {
+    return {
+      valid: false,
+      errors: {
+        provider: `Unknown provider: ${id}`,
+      },
+    };
+  }
+
+  return factory.validateConfig(settings || {});
+}
 
 /**
  * Get a provider instance with caching and guaranteed initialization
- * 
+ *
+ * Cached instances are reused until the configuration changes, i.e. a
+ * different configuration object with a different update time is passed.
+ *
  * @param config - Provider configuration
  * @returns Backup provider instance or undefined if provider not found
  */
 export async function getProvider(config: BackupConfig): Promise<BackupProvider | undefined> {
   try {
-    // Check if provider is already cached
-    if (providerCache.has(config.id)) {
-      return providerCache.get(config.id);
+    const updated = config.updated ? new Date(config.updated).getTime() : undefined;
+    const cached = providerCache.get(config.id);
+
+    // Check if provider is already cached for this configuration
+    if (cached) {
+      if (cached.config === config || (cached.updated !== undefined && cached.updated === updated)) {
+        return cached.provider;
+      }
+
+      invalidateProvider(config.id);
     }
-    
-    let provider: BackupProvider | undefined;
-    
-    // Direct provider mapping instead of factory lookup
-    switch (config.provider) {
-      case 'github':
-        provider = githubBackupProviderFactory.createProvider(config);
-        break;
-        
-      // Future providers can be added here
-      // case 'dropbox':
-      //   provider = dropboxBackupProviderFactory.createProvider(config);
-      //   break;
-        
-      default:
-        logger.error(`Provider type not found: ${config.provider}`);
-        return undefined;
+
+    const factory = factories.get(config.provider);
+
+    if (!factory) {
+      logger.error(`Provider type not found: ${config.provider}`);
+      return undefined;
     }
-    
-    // Cache provider instance
-    if (provider) {
-      try {
-        // Use retry utility to initialize the provider with resilience
-        const initResult = await retry(() => provider!.initialize(), {
-          maxRetries: 3,
-          initialDelay: 1000,
-          onRetry: (error, attempt) => {
-            logger.warn(`Retry initializing provider ${config.provider} (attempt ${attempt})`, { error });
-          }
-        });
-        
-        // Only cache if initialization was successful
-        if (initResult.result) {
-          providerCache.set(config.id, provider);
-          return provider;
-        } else {
-          logger.error(`Failed to initialize provider: ${config.provider}`);
-          return undefined;
+
+    const validation = factory.validateConfig(config.settings || {});
+
+    if (!validation.valid) {
+      logger.error(`Invalid configuration for provider: ${config.provider}`, { errors: validation.errors });
+      return undefined;
+    }
+
+    const provider = factory.createProvider(config);
+
+    try {
+      // Use retry utility to initialize the provider with resilience
+      const initResult = await retry(() => provider.initialize(), {
+        maxRetries: 3,
+        initialDelay: 1000,
+        onRetry: (error, attempt) => {
+          logger.warn(`Retry initializing provider ${config.provider} (attempt ${attempt})`, { error });
         }
-      } catch (initError) {
-        logger.error(`Error initializing provider: ${config.provider}`, { error: initError });
+      });
+
+      // Only cache if initialization was successful
+      if (initResult.result) {
+        providerCache.set(config.id, { provider, config, updated });
+        return provider;
+      } else {
+        logger.error(`Failed to initialize provider: ${config.provider}`);
         return undefined;
       }
+    } catch (initError) {
+      logger.error(`Error initializing provider: ${config.provider}`, { error: initError });
+      return undefined;
     }
-    
-    return provider;
   } catch (error: unknown) {
     logger.error(`Error creating provider: ${config.provider}`, { error });
     return undefined;
@@ -82,59 +162,34 @@ export async function getProvider(config: BackupConfig): Promise<BackupProvider
 
 /**
  * Get available provider types
- * 
+ *
  * @returns List of provider information
  */
-export function getAvailableProviders(): Array<{
-  id: string;
-  name: string;
-  description: string;
-  icon: string;
-  features: Record<string, boolean>;
-}> {
-  // Directly return provider information without factory layer
-  return [
-    {
-      id: 'github',
-      name: 'GitHub',
-      description: 'Backup to GitHub repository',
-      icon: 'github',
-      features: githubBackupProviderFactory.getInfo().features,
-    },
-    // Additional providers can be added here as they become available
-  ];
+export function getAvailableProviders(): ProviderInfo[] {
+  return Array.from(factories.values()).map(factory => {
+    const { configFields, ...info } = factory.getInfo();
+    return info;
+  });
 }
 
 /**
  * Get provider configuration fields
- * 
+ *
  * @param id - Provider ID
  * @returns Provider configuration fields
  */
-export function getProviderConfigurationFields(id: string): Array<{
-  name: string;
-  type: 'text' | 'password' | 'number' | 'boolean' | 'select';
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  options?: { value: string; label: string }[];
-  defaultValue?: any;
-  validation?: {
-    pattern?: string;
-    min?: number;
-    max?: number;
-    message?: string;
-  };
-}> | undefined {
-  // Direct mapping to provider configuration fields
-  switch (id) {
-    case 'github':
-      return githubBackupProviderFactory.getInfo().configFields;
-      
-    // Future providers can be added here
-    
-    default:
-      return undefined;
+export function getProviderConfigurationFields(id: string): ProviderConfigField[] | undefined {
+  return factories.get(id)?.getInfo().configFields;
+}
+
+/**
+ * Remove the cached provider instance of a configuration
+ *
+ * @param configId - Configuration ID
+ */
+export function invalidateProvider(configId: string): void {
+  if (providerCache.delete(configId)) {
+    logger.info(`Provider cache invalidated: ${configId}`);
   }
 }
 
@@ -147,4 +202,4 @@ export function clearProviderCache(): void {
 }
 
 // No default export - use named exports only
-// This ensures consistent module usage throughout the application
\ No newline at end of file
+// This ensures consistent module usage throughout the application
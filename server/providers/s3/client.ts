@@ -0,0 +1,697 @@
+/**
+ * S3-Compatible API Client
+ *
+ * This module provides a minimal client for S3-compatible object storage
+ * (AWS S3, Wasabi, Backblaze B2, MinIO, ...) using AWS Signature Version 4.
+ */
+import axios, { AxiosError, AxiosRequestConfig, ResponseType } from 'axios';
+import { createHash, createHmac } from 'crypto';
+import { createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import logger from '../../utils/logger';
+import { getFileSize, readFileInChunks } from '../../utils/file-stream';
+import type { BackupPart, UploadSessionProgress } from '../types';
+
+// Use the default logger instance
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+/**
+ * Minimum part size accepted by S3 for multipart uploads (except the last part)
+ */
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * S3 object summary
+ */
+export type S3Object = {
+  key: string;
+  size: number;
+  lastModified: Date;
+  etag?: string;
+};
+
+/**
+ * Request signing input
+ */
+export interface SignRequestInput {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  date?: Date;
+}
+
+/**
+ * Type guard to check if an error is an AxiosError
+ * @param error - The error to check
+ * @returns True if the error is an AxiosError
+ */
+function isAxiosError(error: unknown): error is AxiosError {
+  return error !== null &&
+         typeof error === 'object' &&
+         'isAxiosError' in error &&
+         (error as any).isAxiosError === true;
+}
+
+/**
+ * Read the text content of every occurrence of an XML tag
+ *
+ * S3 responses are small and flat enough that a full XML parser isn't needed.
+ *
+ * @param xml - XML document
+ * @param tag - Tag name
+ * @returns Tag contents
+ */
+function getXmlValues(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+  const values: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    values.push(decodeXml(match[1]));
+  }
+
+  return values;
+}
+
+/**
+ * Decode XML entities
+ */
+function decodeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Encode XML entities
+ */
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * URI-encode a string as required by Signature Version 4
+ *
+ * @param value - Value to encode
+ * @param encodeSlash - Whether to encode '/' characters
+ */
+function uriEncode(value: string, encodeSlash: boolean = true): string {
+  const encoded = encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+  return encodeSlash ? encoded : encoded.replace(/%2F/g, '/');
+}
+
+/**
+ * Utility function to extract meaningful error messages from S3 API errors
+ * @param error - The error to extract a message from
+ * @param context - Additional context for logging
+ * @returns A user-friendly error message
+ */
+function getS3ErrorMessage(error: unknown, context: string): string {
+  if (isAxiosError(error)) {
+    if (error.response) {
+      const data = error.response.data;
+      const body = Buffer.isBuffer(data) ? data.toString('utf8') : typeof data === 'string' ? data : '';
+      const code = getXmlValues(body, 'Code')[0];
+      const message = getXmlValues(body, 'Message')[0];
+
+      if (code || message) {
+        return `S3 API error (${error.response.status}): ${code || ''}${code && message ? ' - ' : ''}${message || ''}`;
+      }
+      return `S3 API error (${error.response.status})`;
+    }
+    if (error.request) {
+      return `S3 API request failed: No response received`;
+    }
+  }
+  return `S3 operation failed: ${context} - ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ *
+ * @param input - Request to sign
+ * @returns Headers to send, including the Authorization header
+ */
+export function signRequest(input: SignRequestInput): Record<string, string> {
+  const date = input.date || new Date();
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.substring(0, 8);
+
+  const headers: Record<string, string> = {
+    ...input.headers,
+    host: input.url.host,
+    'x-amz-content-sha256': input.payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  // Canonical headers are lowercased and sorted by name
+  const normalized = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), String(value).trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const canonicalHeaders = normalized.map(([name, value]) => `${name}:${value}\n`).join('');
+  const signedHeaders = normalized.map(([name]) => name).join(';');
+
+  // Canonical query string is sorted by parameter name
+  const canonicalQuery = Array.from(input.url.searchParams.entries())
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const canonicalUri = uriEncode(decodeURIComponent(input.url.pathname), false) || '/';
+
+  const canonicalRequest = [
+    input.method.toUpperCase(),
+    canonicalUri,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    input.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${input.region}/s3/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  const hmac = (key: Buffer | string, data: string) => createHmac('sha256', key).update(data).digest();
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${input.secretAccessKey}`, dateStamp), input.region), 's3'),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  // The host header is set by the HTTP client from the URL
+  const { host, ...requestHeaders } = headers;
+
+  return {
+    ...requestHeaders,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * S3-compatible API client
+ */
+export class S3Client {
+  private endpoint: URL;
+  private region: string;
+  private bucket: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+  private forcePathStyle: boolean;
+
+  /**
+   * Create a new S3 API client
+   *
+   * @param options - Client options
+   */
+  constructor(options: {
+    endpoint?: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    forcePathStyle?: boolean;
+  }) {
+    this.region = options.region || 'us-east-1';
+    this.endpoint = new URL(options.endpoint || `https://s3.${this.region}.amazonaws.com`);
+    this.bucket = options.bucket;
+    this.accessKeyId = options.accessKeyId;
+    this.secretAccessKey = options.secretAccessKey;
+    this.forcePathStyle = options.forcePathStyle ?? false;
+  }
+
+  /**
+   * Get the bucket name
+   * @returns The bucket name
+   */
+  public getBucket(): string {
+    return this.bucket;
+  }
+
+  /**
+   * Build the URL of an object (or of the bucket when no key is given)
+   *
+   * @param key - Object key
+   * @param query - Query parameters
+   */
+  public getObjectUrl(key: string = '', query: Record<string, string> = {}): URL {
+    const encodedKey = key.split('/').map(segment => uriEncode(segment)).join('/');
+    const basePath = this.endpoint.pathname.replace(/\/+$/, '');
+    const url = new URL(this.endpoint.toString());
+
+    if (this.forcePathStyle) {
+      url.pathname = `${basePath}/${this.bucket}${key ? `/${encodedKey}` : '/'}`;
+    } else {
+      url.hostname = `${this.bucket}.${this.endpoint.hostname}`;
+      url.pathname = `${basePath}/${encodedKey}`;
+    }
+
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+
+    return url;
+  }
+
+  /**
+   * Send a signed request
+   *
+   * @param method - HTTP method
+   * @param key - Object key
+   * @param options - Request options
+   * @returns Axios response
+   */
+  private async request(method: 'GET' | 'PUT' | 'POST' | 'DELETE' | 'HEAD', key: string, options: {
+    query?: Record<string, string>;
+    headers?: Record<string, string>;
+    body?: Buffer | string;
+    responseType?: ResponseType;
+  } = {}) {
+    const url = this.getObjectUrl(key, options.query);
+    const body = options.body;
+    const payloadHash = body !== undefined
+      ? createHash('sha256').update(body).digest('hex')
+      : EMPTY_PAYLOAD_HASH;
+
+    const headers = signRequest({
+      method,
+      url,
+      headers: options.headers || {},
+      payloadHash,
+      accessKeyId: this.accessKeyId,
+      secretAccessKey: this.secretAccessKey,
+      region: this.region,
+    });
+
+    const config: AxiosRequestConfig = {
+      method,
+      url: url.toString(),
+      headers,
+      data: body,
+      responseType: options.responseType || 'text',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      // Keep the signed payload exactly as it is
+      transformRequest: [(data: unknown) => data],
+    };
+
+    return axios.request(config);
+  }
+
+  /**
+   * Test the API connection by checking the bucket
+   *
+   * @returns Test result
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      await this.request('HEAD', '');
+
+      return {
+        success: true,
+        message: `Successfully connected to bucket ${this.bucket}`,
+      };
+    } catch (error: unknown) {
+      logger.error('Error testing S3 connection', error);
+
+      return {
+        success: false,
+        message: `Error testing S3 connection: ${getS3ErrorMessage(error, 'testing connection')}`,
+      };
+    }
+  }
+
+  /**
+   * Upload an object in a single request
+   *
+   * @param key - Object key
+   * @param body - Object content
+   * @param contentType - Content type
+   * @returns Object ETag
+   */
+  async putObject(key: string, body: Buffer | string, contentType: string = 'application/octet-stream'): Promise<string> {
+    try {
+      const response = await this.request('PUT', key, {
+        body,
+        headers: { 'content-type': contentType },
+      });
+
+      return String(response.headers.etag || '');
+    } catch (error: unknown) {
+      logger.error(`Error uploading object: ${key}`, error);
+      throw new Error(getS3ErrorMessage(error, `uploading object ${key}`));
+    }
+  }
+
+  /**
+   * Download an object into memory
+   *
+   * @param key - Object key
+   * @returns Object content or null if the object doesn't exist
+   */
+  async getObject(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.request('GET', key, { responseType: 'arraybuffer' });
+      return Buffer.from(response.data);
+    } catch (error: unknown) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+
+      logger.error(`Error downloading object: ${key}`, error);
+      throw new Error(getS3ErrorMessage(error, `downloading object ${key}`));
+    }
+  }
+
+  /**
+   * Download an object to a file
+   *
+   * @param key - Object key
+   * @param filePath - Destination file path
+   */
+  async downloadObject(key: string, filePath: string): Promise<void> {
+    try {
+      const response = await this.request('GET', key, { responseType: 'stream' });
+      await pipeline(response.data, createWriteStream(filePath));
+    } catch (error: unknown) {
+      logger.error(`Error downloading object: ${key}`, error);
+      throw new Error(getS3ErrorMessage(error, `downloading object ${key}`));
+    }
+  }
+
+  /**
+   * List all objects under a prefix
+   *
+   * @param prefix - Key prefix
+   * @returns Objects under the prefix
+   */
+  async listObjects(prefix: string): Promise<S3Object[]> {
+    const objects: S3Object[] = [];
+    let continuationToken: string | undefined;
+
+    try {
+      do {
+        const query: Record<string, string> = { 'list-type': '2', prefix };
+
+        if (continuationToken) {
+          query['continuation-token'] = continuationToken;
+        }
+
+        const response = await this.request('GET', '', { query });
+        const xml = String(response.data);
+
+        for (const contents of getXmlValues(xml, 'Contents')) {
+          objects.push({
+            key: getXmlValues(contents, 'Key')[0],
+            size: parseInt(getXmlValues(contents, 'Size')[0] || '0', 10),
+            lastModified: new Date(getXmlValues(contents, 'LastModified')[0]),
+            etag: getXmlValues(contents, 'ETag')[0],
+          });
+        }
+
+        continuationToken = getXmlValues(xml, 'IsTruncated')[0] === 'true'
+          ? getXmlValues(xml, 'NextContinuationToken')[0]
+          : undefined;
+      } while (continuationToken);
+
+      return objects;
+    } catch (error: unknown) {
+      logger.error(`Error listing objects: ${prefix}`, error);
+      throw new Error(getS3ErrorMessage(error, `listing objects ${prefix}`));
+    }
+  }
+
+  /**
+   * Delete objects on the server in batches
+   *
+   * @param keys - Object keys
+   */
+  async deleteObjects(keys: string[]): Promise<void> {
+    // S3 accepts at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      const batch = keys.slice(i, i + 1000);
+      const body = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Delete><Quiet>true</Quiet>',
+        ...batch.map(key => `<Object><Key>${encodeXml(key)}</Key></Object>`),
+        '</Delete>',
+      ].join('');
+
+      try {
+        const response = await this.request('POST', '', {
+          query: { delete: '' },
+          body,
+          headers: {
+            'content-type': 'application/xml',
+            'content-md5': createHash('md5').update(body).digest('base64'),
+          },
+        });
+
+        const failed = getXmlValues(String(response.data), 'Error');
+
+        if (failed.length > 0) {
+          throw new Error(`Failed to delete ${failed.length} object(s): ${getXmlValues(failed[0], 'Message')[0] || 'Unknown error'}`);
+        }
+      } catch (error: unknown) {
+        logger.error('Error deleting objects', error);
+        throw new Error(getS3ErrorMessage(error, 'deleting objects'));
+      }
+    }
+  }
+
+  /**
+   * Start a multipart upload
+   *
+   * @param key - Object key
+   * @param contentType - Content type
+   * @returns Upload ID
+   */
+  async createMultipartUpload(key: string, contentType: string = 'application/octet-stream'): Promise<string> {
+    try {
+      const response = await this.request('POST', key, {
+        query: { uploads: '' },
+        headers: { 'content-type': contentType },
+      });
+
+      const uploadId = getXmlValues(String(response.data), 'UploadId')[0];
+
+      if (!uploadId) {
+        throw new Error('Missing UploadId in response');
+      }
+
+      return uploadId;
+    } catch (error: unknown) {
+      logger.error(`Error starting multipart upload: ${key}`, error);
+      throw new Error(getS3ErrorMessage(error, `starting multipart upload ${key}`));
+    }
+  }
+
+  /**
+   * Upload a part of a multipart upload
+   *
+   * @param key - Object key
+   * @param uploadId - Upload ID
+   * @param partNumber - Part number (1-based)
+   * @param body - Part content
+   * @returns Part ETag
+   */
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+    try {
+      const response = await this.request('PUT', key, {
+        query: { partNumber: String(partNumber), uploadId },
+        body,
+      });
+
+      return String(response.headers.etag || '');
+    } catch (error: unknown) {
+      logger.error(`Error uploading part ${partNumber}: ${key}`, error);
+      throw new Error(getS3ErrorMessage(error, `uploading part ${partNumber} of ${key}`));
+    }
+  }
+
+  /**
+   * List the parts stored for a multipart upload
+   *
+   * @param key - Object key
+   * @param uploadId - Upload ID
+   * @returns ETags by part number
+   * @throws Error if the upload doesn't exist any more, e.g. because it was completed or aborted
+   */
+  async listParts(key: string, uploadId: string): Promise<Map<number, string>> {
+    const parts = new Map<number, string>();
+    let marker: string | undefined;
+
+    try {
+      do {
+        const query: Record<string, string> = { uploadId };
+
+        if (marker) {
+          query['part-number-marker'] = marker;
+        }
+
+        const response = await this.request('GET', key, { query });
+        const xml = String(response.data);
+
+        for (const part of getXmlValues(xml, 'Part')) {
+          parts.set(parseInt(getXmlValues(part, 'PartNumber')[0], 10), getXmlValues(part, 'ETag')[0] || '');
+        }
+
+        marker = getXmlValues(xml, 'IsTruncated')[0] === 'true'
+          ? getXmlValues(xml, 'NextPartNumberMarker')[0]
+          : undefined;
+      } while (marker);
+
+      return parts;
+    } catch (error: unknown) {
+      logger.error(`Error listing parts of multipart upload: ${key}`, error);
+      throw new Error(getS3ErrorMessage(error, `listing parts of ${key}`));
+    }
+  }
+
+  /**
+   * Complete a multipart upload
+   *
+   * @param key - Object key
+   * @param uploadId - Upload ID
+   * @param parts - Uploaded parts
+   */
+  async completeMultipartUpload(key: string, uploadId: string, parts: Array<{
+    partNumber: number;
+    etag: string;
+  }>): Promise<void> {
+    const body = [
+      '<CompleteMultipartUpload>',
+      ...parts.map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${encodeXml(part.etag)}</ETag></Part>`),
+      '</CompleteMultipartUpload>',
+    ].join('');
+
+    try {
+      const response = await this.request('POST', key, {
+        query: { uploadId },
+        body,
+        headers: { 'content-type': 'application/xml' },
+      });
+
+      // S3 can report an error with a 200 status for this operation
+      const xml = String(response.data);
+      if (xml.includes('<Error>')) {
+        throw new Error(getXmlValues(xml, 'Message')[0] || 'Unknown error');
+      }
+    } catch (error: unknown) {
+      logger.error(`Error completing multipart upload: ${key}`, error);
+      throw new Error(getS3ErrorMessage(error, `completing multipart upload ${key}`));
+    }
+  }
+
+  /**
+   * Abort a multipart upload
+   *
+   * @param key - Object key
+   * @param uploadId - Upload ID
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.request('DELETE', key, { query: { uploadId } });
+    } catch (error: unknown) {
+      logger.error(`Error aborting multipart upload: ${key}`, error);
+      throw new Error(getS3ErrorMessage(error, `aborting multipart upload ${key}`));
+    }
+  }
+
+  /**
+   * Upload a file, using a multipart upload when it is larger than one part
+   *
+   * Given the multipart upload an interrupted upload left behind, parts the
+   * server still has and that didn't change since aren't uploaded again.
+   *
+   * @param key - Object key
+   * @param filePath - File to upload
+   * @param partSize - Part size in bytes
+   * @param contentType - Content type
+   * @param progress - Multipart upload of an interrupted upload and where to save progress
+   */
+  async uploadFile(
+    key: string,
+    filePath: string,
+    partSize: number,
+    contentType: string = 'application/octet-stream',
+    progress?: UploadSessionProgress
+  ): Promise<void> {
+    const size = await getFileSize(filePath);
+    const effectivePartSize = Math.max(partSize, MIN_PART_SIZE);
+
+    if (size <= effectivePartSize) {
+      const chunks: Buffer[] = [];
+      await readFileInChunks(filePath, Math.max(size, 1), async (chunk) => {
+        chunks.push(chunk);
+      });
+      await this.putObject(key, Buffer.concat(chunks), contentType);
+      return;
+    }
+
+    // Parts of the interrupted upload are only reused while the server still has them
+    const stored = progress?.session
+      ? await this.listParts(key, progress.session).catch(() => null)
+      : null;
+    const uploadId = stored ? progress!.session! : await this.createMultipartUpload(key, contentType);
+    const parts: BackupPart[] = [];
+
+    try {
+      if (!stored) {
+        // Record the upload before uploading parts, so it is found again after an interruption
+        await progress?.save(uploadId, []);
+      }
+
+      await readFileInChunks(filePath, effectivePartSize, async (chunk, index) => {
+        const sha256 = createHash('sha256').update(chunk).digest('hex');
+        const previous = progress?.uploaded[index];
+
+        if (stored && previous && previous.sha256 === sha256 && previous.size === chunk.length
+            && stored.get(index + 1) === previous.ref) {
+          parts.push(previous);
+          return;
+        }
+
+        const etag = await this.uploadPart(key, uploadId, index + 1, chunk);
+        parts.push({ name: `part${index + 1}`, size: chunk.length, sha256, ref: etag });
+        await progress?.save(uploadId, parts);
+      });
+
+      await this.completeMultipartUpload(key, uploadId, parts.map((part, index) => ({
+        partNumber: index + 1,
+        etag: part.ref!,
+      })));
+    } catch (error: unknown) {
+      // Release the parts already stored on the server
+      await this.abortMultipartUpload(key, uploadId).catch(() => undefined);
+      throw error;
+    }
+  }
+}
+
+export default S3Client;
@@ -0,0 +1,212 @@
+/**
+ * S3-Compatible Backup Provider Factory
+ *
+ * This module defines the factory for creating S3-compatible backup providers.
+ */
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { BackupProviderFactory, BackupConfig, isS3BackupConfig } from '../types';
+import { registerProvider } from '../registry';
+import { S3BackupProvider } from './provider';
+
+// Use the default logger instance
+
+/**
+ * Validation schema for S3-compatible backup provider configuration
+ */
+const s3ConfigSchema = z.object({
+  endpoint: z.string().url('Endpoint must be a valid URL').optional().or(z.literal('')),
+  region: z.string().min(1, 'Region is required'),
+  bucket: z
+    .string()
+    .min(3, 'Bucket name must be at least 3 characters')
+    .max(63, 'Bucket name must be at most 63 characters')
+    .regex(/^[a-z0-9][a-z0-9.-]*[a-z0-9]$/, 'Bucket name can only contain lowercase letters, numbers, dots and hyphens'),
+  accessKeyId: z.string().min(1, 'Access key ID is required'),
+  secretAccessKey: z.string().min(1, 'Secret access key is required'),
+  forcePathStyle: z.boolean().optional().default(false),
+  prefix: z.string().optional(),
+  partSize: z.number().int().min(5, 'Part size must be at least 5 MB').max(5120).optional(),
+});
+
+/**
+ * S3-Compatible Backup Provider Factory
+ */
+export class S3BackupProviderFactory implements BackupProviderFactory {
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 's3';
+  }
+
+  /**
+   * Get provider information
+   */
+  getInfo(): {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    features: Record<string, boolean>;
+    configFields: Array<{
+      name: string;
+      type: 'text' | 'password' | 'number' | 'boolean' | 'select';
+      label: string;
+      placeholder?: string;
+      required: boolean;
+      options?: { value: string; label: string }[];
+      defaultValue?: any;
+      validation?: {
+        pattern?: string;
+        min?: number;
+        max?: number;
+        message?: string;
+      };
+    }>;
+  } {
+    return {
+      id: 's3',
+      name: 'S3-Compatible Storage',
+      description: 'Backup WordPress sites to Amazon S3 or any S3-compatible object storage such as MinIO, Wasabi or Backblaze B2',
+      icon: 'cloud',
+      features: {
+        incremental: false,
+        compression: true,
+        encryption: false,
+        versioning: true,
+        scheduling: true,
+        fileRestore: true,
+      },
+      configFields: [
+        {
+          name: 'endpoint',
+          type: 'text',
+          label: 'Endpoint URL',
+          placeholder: 'e.g., https://s3.us-east-1.amazonaws.com',
+          required: false,
+          validation: {
+            message: 'Leave empty to use Amazon S3 for the selected region.',
+          },
+        },
+        {
+          name: 'region',
+          type: 'text',
+          label: 'Region',
+          placeholder: 'e.g., us-east-1',
+          required: true,
+          defaultValue: 'us-east-1',
+        },
+        {
+          name: 'bucket',
+          type: 'text',
+          label: 'Bucket',
+          placeholder: 'e.g., my-wordpress-backups',
+          required: true,
+          validation: {
+            pattern: '^[a-z0-9][a-z0-9.-]*[a-z0-9]$',
+            message: 'Bucket name can only contain lowercase letters, numbers, dots and hyphens.',
+          },
+        },
+        {
+          name: 'accessKeyId',
+          type: 'text',
+          label: 'Access Key ID',
+          required: true,
+        },
+        {
+          name: 'secretAccessKey',
+          type: 'password',
+          label: 'Secret Access Key',
+          required: true,
+        },
+        {
+          name: 'forcePathStyle',
+          type: 'boolean',
+          label: 'Use path-style URLs (required by MinIO and most self-hosted servers)',
+          required: false,
+          defaultValue: false,
+        },
+        {
+          name: 'prefix',
+          type: 'text',
+          label: 'Key Prefix',
+          placeholder: 'e.g., wordpress-backups/',
+          required: false,
+          defaultValue: 'wordpress-backups/',
+        },
+        {
+          name: 'partSize',
+          type: 'number',
+          label: 'Multipart Part Size (MB)',
+          required: false,
+          defaultValue: 16,
+          validation: {
+            min: 5,
+            max: 5120,
+            message: 'Part size must be between 5 MB and 5120 MB.',
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Validate provider configuration
+   */
+  validateConfig(config: Record<string, any>): {
+    valid: boolean;
+    errors?: Record<string, string>;
+  } {
+    try {
+      // Validate configuration schema
+      const result = s3ConfigSchema.safeParse(config);
+
+      if (!result.success) {
+        // Format validation errors
+        const errors: Record<string, string> = {};
+
+        result.error.errors.forEach(error => {
+          const path = error.path.join('.');
+          errors[path] = error.message;
+        });
+
+        return {
+          valid: false,
+          errors,
+        };
+      }
+
+      return {
+        valid: true,
+      };
+    } catch (error: unknown) {
+      logger.error('Error validating S3 configuration', error);
+
+      return {
+        valid: false,
+        errors: {
+          '_': `Invalid configuration format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a new provider instance
+   */
+  createProvider(config: BackupConfig): S3BackupProvider {
+    // Validate config type
+    if (!isS3BackupConfig(config)) {
+      throw new Error('Invalid S3 backup configuration');
+    }
+
+    // Create provider
+    return new S3BackupProvider(config);
+  }
+}
+
+// Create and register singleton instance
+export const s3BackupProviderFactory = registerProvider(new S3BackupProviderFactory());
+
+export default s3BackupProviderFactory;
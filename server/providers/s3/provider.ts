@@ -0,0 +1,748 @@
+/**
+ * S3-Compatible Backup Provider
+ *
+ * This module implements a backup provider that stores WordPress site backups
+ * in an S3-compatible bucket (AWS S3, Wasabi, Backblaze B2, MinIO, ...).
+ */
+import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+
+import logger from '../../utils/logger';
+import { BackupProvider, BackupMetadata, S3BackupConfig, PreparedArchive, UploadCheckpoint } from '../types';
+import { S3Client, S3Object } from './client';
+import {
+  createArchive,
+  extractArchive,
+  getContentType,
+  listArchiveEntries,
+  readArchiveEntry,
+  toEntryName,
+} from '../../utils/archive';
+
+// Use the default logger instance
+
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+const DEFAULT_PART_SIZE_MB = 16;
+
+/**
+ * S3-compatible backup provider
+ *
+ * Objects are stored as `<prefix><siteId>/<backupId>/archive.tar.gz` with a
+ * `metadata.json` object next to the archive.
+ */
+export class S3BackupProvider implements BackupProvider {
+  private config: S3BackupConfig;
+  private client: S3Client;
+  private initialized: boolean = false;
+
+  /**
+   * Create a new S3-compatible backup provider
+   *
+   * @param config - Provider configuration
+   */
+  constructor(config: S3BackupConfig) {
+    this.config = config;
+    this.client = new S3Client({
+      endpoint: config.settings.endpoint,
+      region: config.settings.region,
+      bucket: config.settings.bucket,
+      accessKeyId: config.settings.accessKeyId,
+      secretAccessKey: config.settings.secretAccessKey,
+      forcePathStyle: config.settings.forcePathStyle,
+    });
+  }
+
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 's3';
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): S3BackupConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the key prefix under which all backups are stored
+   */
+  private getRootPrefix(): string {
+    const prefix = (this.config.settings.prefix ?? 'wordpress-backups/').replace(/^\/+/, '');
+    return prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+  }
+
+  /**
+   * Get the key prefix of a backup
+   *
+   * @param siteId - Site ID
+   * @param backupId - Backup ID
+   */
+  private getBackupPrefix(siteId: string, backupId: string): string {
+    return `${this.getRootPrefix()}${siteId}/${backupId}/`;
+  }
+
+  /**
+   * Get the multipart upload part size in bytes
+   */
+  private getPartSize(): number {
+    return (this.config.settings.partSize || DEFAULT_PART_SIZE_MB) * 1024 * 1024;
+  }
+
+  /**
+   * Initialize the provider
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      if (this.initialized) {
+        return true;
+      }
+
+      const result = await this.client.testConnection();
+
+      if (!result.success) {
+        logger.error(`S3 bucket is not accessible: ${result.message}`);
+        return false;
+      }
+
+      this.initialized = true;
+      logger.info(`S3 backup provider initialized for bucket ${this.config.settings.bucket}`);
+
+      return true;
+    } catch (error: unknown) {
+      logger.error('Error initializing S3 backup provider', error);
+      return false;
+    }
+  }
+
+  /**
+   * Test the connection to the bucket
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    const result = await this.client.testConnection();
+
+    return {
+      ...result,
+      details: result.success
+        ? {
+          bucket: this.config.settings.bucket,
+          endpoint: this.client.getObjectUrl().origin,
+          prefix: this.getRootPrefix(),
+        }
+        : undefined,
+    };
+  }
+
+  /**
+   * Create a backup
+   *
+   * Progress of multipart uploads is reported after every part; given the
+   * checkpoint of an interrupted upload, its multipart upload is continued.
+   */
+  async createBackup(options: {
+    siteId: string;
+    files: string[];
+    database?: boolean;
+    destinations?: string[];
+    metadata?: Record<string, any>;
+    backupId?: string;
+    archive?: PreparedArchive;
+    checkpoint?: UploadCheckpoint;
+    onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
+  }): Promise<{
+    id: string;
+    success: boolean;
+    message?: string;
+    locations?: {
+      provider: string;
+      destination: string;
+      path: string;
+      url?: string;
+    }[];
+    errors?: {
+      destination?: string;
+      message: string;
+      details?: any;
+    }[];
+    size?: number;
+    created: Date;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return {
+            id: uuidv4(),
+            success: false,
+            message: 'Failed to initialize S3 backup provider',
+            created: new Date(),
+          };
+        }
+      }
+
+      // A checkpoint only helps if it recorded a multipart upload
+      const resumed = options.checkpoint?.session.uploadId ? options.checkpoint : undefined;
+
+      // Generate backup ID
+      const backupId = options.backupId || uuidv4();
+      const created = resumed ? new Date(resumed.session.created) : new Date();
+
+      // Prepare backup name
+      const timestamp = created.toISOString().replace(/[:.]/g, '-');
+      const backupName = `wp-backup-${options.siteId}-${timestamp}`;
+      const backupPrefix = this.getBackupPrefix(options.siteId, backupId);
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 's3-backup-'));
+
+      try {
+        // Create the archive locally, then upload it
+        // Reuse the archive shared with other destinations when one is given
+        const archivePath = options.archive?.path || path.join(workDir, ARCHIVE_NAME);
+        const archive = options.archive || await createArchive(options.files, archivePath);
+
+        await this.client.uploadFile(
+          `${backupPrefix}${ARCHIVE_NAME}`,
+          archivePath,
+          this.getPartSize(),
+          'application/gzip',
+          {
+            session: resumed?.session.uploadId,
+            uploaded: resumed?.parts || [],
+            save: async (uploadId, parts) => {
+              await options.onCheckpoint?.({ session: { created: created.toISOString(), uploadId }, parts: [...parts] });
+            },
+          }
+        );
+
+        // Create backup metadata
+        const metadata: BackupMetadata = {
+          id: backupId,
+          siteId: options.siteId,
+          name: backupName,
+          created: created.toISOString(),
+          size: archive.size,
+          fileCount: archive.fileCount,
+          type: 'full',
+          metadata: options.metadata || {},
+        };
+
+        // Metadata is written last so incomplete backups are never listed
+        await this.client.putObject(
+          `${backupPrefix}${METADATA_NAME}`,
+          JSON.stringify(metadata, null, 2),
+          'application/json'
+        );
+
+        return {
+          id: backupId,
+          success: true,
+          message: `Backup created successfully: ${backupName}`,
+          locations: [
+            {
+              provider: 's3',
+              destination: this.config.settings.bucket,
+              path: `${backupPrefix}${ARCHIVE_NAME}`,
+              url: this.client.getObjectUrl(`${backupPrefix}${ARCHIVE_NAME}`).toString(),
+            },
+          ],
+          size: archive.size,
+          created,
+        };
+      } catch (error: unknown) {
+        logger.error(`Error uploading backup: ${backupName}`, error);
+
+        // Don't leave incomplete backups behind
+        await this.deleteObjectsUnder(backupPrefix).catch(() => undefined);
+
+        return {
+          id: backupId,
+          success: false,
+          message: `Error uploading backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          created,
+        };
+      } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    } catch (error: unknown) {
+      logger.error('Error creating backup', error);
+
+      return {
+        id: uuidv4(),
+        success: false,
+        message: `Error creating backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        created: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Delete every object under a key prefix
+   *
+   * @param prefix - Key prefix
+   */
+  private async deleteObjectsUnder(prefix: string): Promise<void> {
+    const objects = await this.client.listObjects(prefix);
+
+    if (objects.length > 0) {
+      await this.client.deleteObjects(objects.map(object => object.key));
+    }
+  }
+
+  /**
+   * Read the metadata of every stored backup
+   *
+   * @param siteId - Optional site ID to restrict the listing to
+   * @returns Backup metadata with the backup key prefix and archive object
+   */
+  private async readAllMetadata(siteId?: string): Promise<Array<{
+    metadata: BackupMetadata;
+    prefix: string;
+    archive?: S3Object;
+  }>> {
+    const root = this.getRootPrefix();
+    const objects = await this.client.listObjects(siteId ? `${root}${siteId}/` : root);
+    const archives = new Map(
+      objects
+        .filter(object => object.key.endsWith(`/${ARCHIVE_NAME}`))
+        .map(object => [object.key.slice(0, -ARCHIVE_NAME.length), object])
+    );
+    const results: Array<{ metadata: BackupMetadata; prefix: string; archive?: S3Object }> = [];
+
+    for (const object of objects.filter(item => item.key.endsWith(`/${METADATA_NAME}`))) {
+      const prefix = object.key.slice(0, -METADATA_NAME.length);
+
+      try {
+        const content = await this.client.getObject(object.key);
+
+        if (!content) {
+          continue;
+        }
+
+        results.push({
+          metadata: JSON.parse(content.toString('utf8')) as BackupMetadata,
+          prefix,
+          archive: archives.get(prefix),
+        });
+      } catch (error: unknown) {
+        logger.warn(`Skipping backup without readable metadata: ${prefix}`);
+        continue;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find a backup by ID
+   *
+   * @param backupId - Backup ID
+   * @returns Backup metadata with the backup key prefix
+   */
+  private async findBackup(backupId: string): Promise<{
+    metadata: BackupMetadata;
+    prefix: string;
+  } | undefined> {
+    const root = this.getRootPrefix();
+    const objects = await this.client.listObjects(root);
+    const metadataObject = objects.find(object =>
+      object.key.endsWith(`/${backupId}/${METADATA_NAME}`)
+    );
+
+    if (!metadataObject) {
+      return undefined;
+    }
+
+    const content = await this.client.getObject(metadataObject.key);
+
+    if (!content) {
+      return undefined;
+    }
+
+    return {
+      metadata: JSON.parse(content.toString('utf8')) as BackupMetadata,
+      prefix: metadataObject.key.slice(0, -METADATA_NAME.length),
+    };
+  }
+
+  /**
+   * Download the archive of a backup into a scratch directory
+   *
+   * @param prefix - Backup key prefix
+   * @returns Scratch directory and archive path
+   */
+  private async downloadArchive(prefix: string): Promise<{
+    workDir: string;
+    archivePath: string;
+  }> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 's3-restore-'));
+    const archivePath = path.join(workDir, ARCHIVE_NAME);
+
+    try {
+      await this.client.downloadObject(`${prefix}${ARCHIVE_NAME}`, archivePath);
+    } catch (error: unknown) {
+      await fs.rm(workDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    return { workDir, archivePath };
+  }
+
+  /**
+   * List backups
+   */
+  async listBackups(options?: {
+    siteId?: string;
+    destination?: string;
+    limit?: number;
+    offset?: number;
+    sort?: 'created' | 'size';
+    order?: 'asc' | 'desc';
+  }): Promise<{
+    backups: {
+      id: string;
+      siteId: string;
+      name: string;
+      destination?: string;
+      path?: string;
+      url?: string;
+      size?: number;
+      created: Date;
+      metadata?: Record<string, any>;
+    }[];
+    total: number;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return { backups: [], total: 0 };
+        }
+      }
+
+      const backups = (await this.readAllMetadata(options?.siteId)).map(({ metadata, prefix, archive }) => ({
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.config.settings.bucket,
+        path: `${prefix}${ARCHIVE_NAME}`,
+        url: this.client.getObjectUrl(`${prefix}${ARCHIVE_NAME}`).toString(),
+        size: archive?.size ?? metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      }));
+
+      // Sort backups
+      if (options?.sort) {
+        const sortField = options.sort;
+        const sortOrder = options.order === 'asc' ? 1 : -1;
+
+        backups.sort((a, b) => {
+          if (sortField === 'created') {
+            return sortOrder * (a.created.getTime() - b.created.getTime());
+          } else if (sortField === 'size') {
+            return sortOrder * ((a.size || 0) - (b.size || 0));
+          }
+
+          return 0;
+        });
+      } else {
+        // Default to sorting by created date, newest first
+        backups.sort((a, b) => b.created.getTime() - a.created.getTime());
+      }
+
+      // Apply pagination
+      let result = backups;
+
+      if (options?.offset != null || options?.limit != null) {
+        const offset = options?.offset || 0;
+        const limit = options?.limit || 10;
+
+        result = backups.slice(offset, offset + limit);
+      }
+
+      return {
+        backups: result,
+        total: backups.length,
+      };
+    } catch (error: unknown) {
+      logger.error('Error listing backups', error);
+      return { backups: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get a specific backup
+   */
+  async getBackup(backupId: string): Promise<{
+    id: string;
+    siteId: string;
+    name: string;
+    destination?: string;
+    path?: string;
+    url?: string;
+    contents?: {
+      name: string;
+      type: 'file' | 'directory';
+      path: string;
+      size?: number;
+      modified?: Date;
+    }[];
+    size?: number;
+    created: Date;
+    metadata?: Record<string, any>;
+  } | null> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return null;
+        }
+      }
+
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return null;
+      }
+
+      const { metadata, prefix } = found;
+      const backup = {
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.config.settings.bucket,
+        path: `${prefix}${ARCHIVE_NAME}`,
+        url: this.client.getObjectUrl(`${prefix}${ARCHIVE_NAME}`).toString(),
+        size: metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      };
+
+      // List archive contents
+      try {
+        const { workDir, archivePath } = await this.downloadArchive(prefix);
+
+        try {
+          const entries = await listArchiveEntries(archivePath);
+
+          return {
+            ...backup,
+            contents: entries
+              .filter(entry => entry.type === 'file' || entry.type === 'directory')
+              .map(entry => ({
+                name: path.posix.basename(entry.path),
+                type: entry.type as 'file' | 'directory',
+                path: entry.path,
+                size: entry.size,
+                modified: entry.modified,
+              })),
+          };
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      } catch (error: unknown) {
+        logger.error(`Error reading backup archive: ${backupId}`, error);
+        // Return backup without contents
+      }
+
+      return backup;
+    } catch (error: unknown) {
+      logger.error(`Error getting backup: ${backupId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a backup
+   *
+   * All objects of the backup are removed with a single server-side
+   * multi-object delete request.
+   */
+  async deleteBackup(backupId: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      await this.deleteObjectsUnder(found.prefix);
+
+      return {
+        success: true,
+        message: `Backup deleted: ${found.metadata.name}`,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error deleting backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error deleting backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Restore a backup
+   *
+   * Files are extracted into the requested destination directory, or into a
+   * scratch directory that is removed afterwards when no destination is given.
+   */
+  async restoreBackup(backupId: string, options: {
+    destination?: string;
+    files?: string[];
+    database?: boolean;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    let workDir: string | undefined;
+
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const downloaded = await this.downloadArchive(found.prefix);
+      workDir = downloaded.workDir;
+
+      const restoreDir = options.destination
+        ? path.resolve(options.destination)
+        : path.join(workDir, 'restore');
+
+      const extractedFiles = await extractArchive(downloaded.archivePath, restoreDir, options.files);
+
+      return {
+        success: true,
+        message: `Backup restored: ${found.metadata.name} (${extractedFiles.length} files)`,
+        details: {
+          destination: options.destination ? restoreDir : undefined,
+          files: extractedFiles,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error(`Error restoring backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      // Clean up scratch directory
+      if (workDir) {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Download a file from a backup
+   *
+   * The path may refer to an object stored next to the archive (e.g.
+   * `metadata.json`) or to an entry inside the archive.
+   */
+  async downloadFile(backupId: string, filePath: string): Promise<{
+    success: boolean;
+    content?: Buffer | string;
+    contentType?: string;
+    size?: number;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      const entryName = toEntryName(filePath);
+      let content: Buffer | null = null;
+
+      // Objects stored next to the archive
+      if (entryName === ARCHIVE_NAME || entryName === METADATA_NAME) {
+        content = await this.client.getObject(`${found.prefix}${entryName}`);
+      } else {
+        const { workDir, archivePath } = await this.downloadArchive(found.prefix);
+
+        try {
+          content = await readArchiveEntry(archivePath, entryName);
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      }
+
+      if (!content) {
+        return {
+          success: false,
+          message: `File not found in backup: ${filePath}`,
+        };
+      }
+
+      return {
+        success: true,
+        content,
+        contentType: getContentType(filePath),
+        size: content.length,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${backupId}/${filePath}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Download the archive of a backup into a file
+   *
+   * The archive is streamed into the file instead of being held in memory.
+   */
+  async downloadArchiveToFile(backupId: string, outputPath: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const found = await this.findBackup(backupId);
+
+      if (!found) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      await this.client.downloadObject(`${found.prefix}${ARCHIVE_NAME}`, outputPath);
+
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`Error downloading archive: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
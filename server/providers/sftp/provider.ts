@@ -0,0 +1,816 @@
+/**
+ * SFTP Backup Provider
+ *
+ * This module implements a backup provider that stores WordPress site backups
+ * on a remote server over SFTP, with password or private key authentication
+ * and optional host key pinning.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import SftpClient from 'ssh2-sftp-client';
+
+import logger from '../../utils/logger';
+import { BackupProvider, BackupMetadata, SftpBackupConfig, PreparedArchive } from '../types';
+import {
+  createArchive,
+  extractArchive,
+  getContentType,
+  listArchiveEntries,
+  readArchiveEntry,
+  toEntryName,
+} from '../../utils/archive';
+
+// Use the default logger instance
+
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+
+/**
+ * Check a server host key against a pinned fingerprint
+ *
+ * Accepts OpenSSH style SHA-256 fingerprints (`SHA256:base64`) and legacy
+ * colon-separated MD5 fingerprints (`aa:bb:...`).
+ *
+ * @param key - Raw host key sent by the server
+ * @param fingerprint - Pinned fingerprint
+ * @returns True if the key matches the fingerprint
+ */
+export function matchesHostKey(key: Buffer, fingerprint: string): boolean {
+  const expected = fingerprint.trim();
+
+  if (/^sha256:/i.test(expected)) {
+    const actual = createHash('sha256').update(key).digest('base64').replace(/=+$/, '');
+    return actual === expected.slice(7).replace(/=+$/, '');
+  }
+
+  const actual = createHash('md5').update(key).digest('hex');
+  return actual === expected.replace(/^md5:/i, '').replace(/:/g, '').toLowerCase();
+}
+
+/**
+ * Restore the line breaks of a PEM private key
+ *
+ * Keys pasted into single-line form fields arrive with their line breaks
+ * stripped or replaced by spaces, which the key parser rejects.
+ *
+ * @param key - Private key as entered
+ * @returns Private key in PEM layout
+ */
+export function normalizePrivateKey(key: string): string {
+  const match = key.trim().match(/^(-----BEGIN [A-Z0-9 ]+-----)\s*([\s\S]+?)\s*(-----END [A-Z0-9 ]+-----)$/);
+
+  // Keys with PEM headers (e.g. Proc-Type) cannot be re-wrapped reliably
+  if (!match || match[2].includes('\n') || match[2].includes(':')) {
+    return key;
+  }
+
+  return [match[1], ...match[2].split(/\s+/), match[3], ''].join('\n');
+}
+
+/**
+ * SFTP backup provider
+ *
+ * Files are stored as `<basePath>/<siteId>/<backupId>/archive.tar.gz` with a
+ * `metadata.json` file next to the archive.
+ */
+export class SftpBackupProvider implements BackupProvider {
+  private config: SftpBackupConfig;
+  private initialized: boolean = false;
+
+  /**
+   * Create a new SFTP backup provider
+   *
+   * @param config - Provider configuration
+   */
+  constructor(config: SftpBackupConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'sftp';
+  }
+
+  /**
+   * Get provider configuration
+   */
+  getConfig(): SftpBackupConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the remote base directory for backups
+   */
+  private getBasePath(): string {
+    return path.posix.normalize(this.config.settings.basePath || '.').replace(/\/+$/, '') || '/';
+  }
+
+  /**
+   * Get the remote directory of a backup
+   *
+   * @param siteId - Site ID
+   * @param backupId - Backup ID
+   */
+  private getBackupDir(siteId: string, backupId: string): string {
+    return path.posix.join(this.getBasePath(), siteId, backupId);
+  }
+
+  /**
+   * Open a connection, run an operation and close the connection again
+   *
+   * @param operation - Operation to run with the connected client
+   * @returns Result of the operation
+   */
+  private async withClient<T>(operation: (client: SftpClient) => Promise<T>): Promise<T> {
+    const { settings } = this.config;
+    const client = new SftpClient();
+    let hostKeyRejected = false;
+
+    try {
+      await client.connect({
+        host: settings.host,
+        port: settings.port || 22,
+        username: settings.username,
+        password: settings.password || undefined,
+        privateKey: settings.privateKey ? normalizePrivateKey(settings.privateKey) : undefined,
+        passphrase: settings.passphrase || undefined,
+        readyTimeout: 20000,
+        hostVerifier: settings.hostKeyFingerprint
+          ? (key: Buffer) => {
+            hostKeyRejected = !matchesHostKey(key, settings.hostKeyFingerprint!);
+            return !hostKeyRejected;
+          }
+          : undefined,
+      });
+    } catch (error: unknown) {
+      if (hostKeyRejected) {
+        throw new Error(`Host key of ${settings.host} does not match the pinned fingerprint`);
+      }
+      throw error;
+    }
+
+    try {
+      return await operation(client);
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Initialize the provider
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      if (this.initialized) {
+        return true;
+      }
+
+      await this.withClient(async (client) => {
+        if (!(await client.exists(this.getBasePath()))) {
+          logger.info(`Remote backup directory doesn't exist, creating: ${this.getBasePath()}`);
+          await client.mkdir(this.getBasePath(), true);
+        }
+      });
+
+      this.initialized = true;
+      logger.info(`SFTP backup provider initialized for ${this.config.settings.host}`);
+
+      return true;
+    } catch (error: unknown) {
+      logger.error('Error initializing SFTP backup provider', error);
+      return false;
+    }
+  }
+
+  /**
+   * Test the connection to the server
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    try {
+      const exists = await this.withClient(client => client.exists(this.getBasePath()));
+
+      return {
+        success: true,
+        message: exists
+          ? `Connected to ${this.config.settings.host}, backup directory '${this.getBasePath()}' exists.`
+          : `Connected to ${this.config.settings.host}, backup directory '${this.getBasePath()}' will be created.`,
+        details: {
+          host: this.config.settings.host,
+          path: this.getBasePath(),
+          exists: exists !== false,
+          hostKeyPinned: !!this.config.settings.hostKeyFingerprint,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error('Error testing SFTP connection', error);
+
+      return {
+        success: false,
+        message: `Error connecting to SFTP server: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Create a backup
+   */
+  async createBackup(options: {
+    siteId: string;
+    files: string[];
+    database?: boolean;
+    destinations?: string[];
+    metadata?: Record<string, any>;
+    backupId?: string;
+    archive?: PreparedArchive;
+  }): Promise<{
+    id: string;
+    success: boolean;
+    message?: string;
+    locations?: {
+      provider: string;
+      destination: string;
+      path: string;
+      url?: string;
+    }[];
+    errors?: {
+      destination?: string;
+      message: string;
+      details?: any;
+    }[];
+    size?: number;
+    created: Date;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return {
+            id: uuidv4(),
+            success: false,
+            message: 'Failed to initialize SFTP backup provider',
+            created: new Date(),
+          };
+        }
+      }
+
+      // Generate backup ID
+      const backupId = options.backupId || uuidv4();
+      const created = new Date();
+
+      // Prepare backup name
+      const timestamp = created.toISOString().replace(/[:.]/g, '-');
+      const backupName = `wp-backup-${options.siteId}-${timestamp}`;
+      const backupDir = this.getBackupDir(options.siteId, backupId);
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sftp-backup-'));
+
+      try {
+        // Create the archive locally, then upload it
+        // Reuse the archive shared with other destinations when one is given
+        const archivePath = options.archive?.path || path.join(workDir, ARCHIVE_NAME);
+        const archive = options.archive || await createArchive(options.files, archivePath);
+
+        // Create backup metadata
+        const metadata: BackupMetadata = {
+          id: backupId,
+          siteId: options.siteId,
+          name: backupName,
+          created: created.toISOString(),
+          size: archive.size,
+          fileCount: archive.fileCount,
+          type: 'full',
+          metadata: options.metadata || {},
+        };
+
+        await this.withClient(async (client) => {
+          try {
+            await client.mkdir(backupDir, true);
+
+            // Upload under a temporary name first so partial archives are never used
+            await client.fastPut(archivePath, `${backupDir}/${ARCHIVE_NAME}.partial`);
+            await client.rename(`${backupDir}/${ARCHIVE_NAME}.partial`, `${backupDir}/${ARCHIVE_NAME}`);
+
+            // Metadata is written last so incomplete backups are never listed
+            await client.put(
+              Buffer.from(JSON.stringify(metadata, null, 2)),
+              `${backupDir}/${METADATA_NAME}`
+            );
+          } catch (error: unknown) {
+            // Don't leave incomplete backups behind
+            await client.rmdir(backupDir, true).catch(() => undefined);
+            throw error;
+          }
+        });
+
+        return {
+          id: backupId,
+          success: true,
+          message: `Backup created successfully: ${backupName}`,
+          locations: [
+            {
+              provider: 'sftp',
+              destination: this.config.settings.host,
+              path: `${backupDir}/${ARCHIVE_NAME}`,
+            },
+          ],
+          size: archive.size,
+          created,
+        };
+      } catch (error: unknown) {
+        logger.error(`Error uploading backup: ${backupName}`, error);
+
+        return {
+          id: backupId,
+          success: false,
+          message: `Error uploading backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          created,
+        };
+      } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    } catch (error: unknown) {
+      logger.error('Error creating backup', error);
+
+      return {
+        id: uuidv4(),
+        success: false,
+        message: `Error creating backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        created: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Read the metadata of every stored backup
+   *
+   * @param client - Connected client
+   * @param siteId - Optional site ID to restrict the scan to
+   * @returns Backup metadata with the backup directory
+   */
+  private async readAllMetadata(client: SftpClient, siteId?: string): Promise<Array<{
+    metadata: BackupMetadata;
+    dir: string;
+  }>> {
+    const basePath = this.getBasePath();
+    const results: Array<{ metadata: BackupMetadata; dir: string }> = [];
+
+    if (!(await client.exists(basePath))) {
+      return results;
+    }
+
+    const siteDirs = siteId
+      ? [siteId]
+      : (await client.list(basePath)).filter(entry => entry.type === 'd').map(entry => entry.name);
+
+    for (const siteDir of siteDirs) {
+      const sitePath = path.posix.join(basePath, siteDir);
+
+      if (!(await client.exists(sitePath))) {
+        continue;
+      }
+
+      const backupDirs = (await client.list(sitePath)).filter(entry => entry.type === 'd');
+
+      for (const backupDir of backupDirs) {
+        const dir = path.posix.join(sitePath, backupDir.name);
+
+        try {
+          const content = await client.get(`${dir}/${METADATA_NAME}`) as Buffer;
+          results.push({ metadata: JSON.parse(content.toString('utf8')) as BackupMetadata, dir });
+        } catch (error: unknown) {
+          logger.warn(`Skipping backup directory without readable metadata: ${dir}`);
+          continue;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find a backup by ID
+   *
+   * @param client - Connected client
+   * @param backupId - Backup ID
+   * @returns Backup metadata with the backup directory
+   */
+  private async findBackup(client: SftpClient, backupId: string): Promise<{
+    metadata: BackupMetadata;
+    dir: string;
+  } | undefined> {
+    const basePath = this.getBasePath();
+
+    if (!(await client.exists(basePath))) {
+      return undefined;
+    }
+
+    // Backup directories are named after the backup ID, so only one lookup per site is needed
+    for (const site of (await client.list(basePath)).filter(entry => entry.type === 'd')) {
+      const dir = path.posix.join(basePath, site.name, backupId);
+
+      if (await client.exists(`${dir}/${METADATA_NAME}`)) {
+        const content = await client.get(`${dir}/${METADATA_NAME}`) as Buffer;
+        return { metadata: JSON.parse(content.toString('utf8')) as BackupMetadata, dir };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Download the archive of a backup into a scratch directory
+   *
+   * @param client - Connected client
+   * @param dir - Remote backup directory
+   * @returns Scratch directory and archive path
+   */
+  private async downloadArchive(client: SftpClient, dir: string): Promise<{
+    workDir: string;
+    archivePath: string;
+  }> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sftp-restore-'));
+    const archivePath = path.join(workDir, ARCHIVE_NAME);
+
+    try {
+      await client.fastGet(`${dir}/${ARCHIVE_NAME}`, archivePath);
+    } catch (error: unknown) {
+      await fs.rm(workDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    return { workDir, archivePath };
+  }
+
+  /**
+   * List backups
+   */
+  async listBackups(options?: {
+    siteId?: string;
+    destination?: string;
+    limit?: number;
+    offset?: number;
+    sort?: 'created' | 'size';
+    order?: 'asc' | 'desc';
+  }): Promise<{
+    backups: {
+      id: string;
+      siteId: string;
+      name: string;
+      destination?: string;
+      path?: string;
+      url?: string;
+      size?: number;
+      created: Date;
+      metadata?: Record<string, any>;
+    }[];
+    total: number;
+  }> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return { backups: [], total: 0 };
+        }
+      }
+
+      const all = await this.withClient(client => this.readAllMetadata(client, options?.siteId));
+      const backups = all.map(({ metadata, dir }) => ({
+        id: metadata.id,
+        siteId: metadata.siteId,
+        name: metadata.name,
+        destination: this.config.settings.host,
+        path: `${dir}/${ARCHIVE_NAME}`,
+        size: metadata.size,
+        created: new Date(metadata.created),
+        metadata: metadata.metadata,
+      }));
+
+      // Sort backups
+      if (options?.sort) {
+        const sortField = options.sort;
+        const sortOrder = options.order === 'asc' ? 1 : -1;
+
+        backups.sort((a, b) => {
+          if (sortField === 'created') {
+            return sortOrder * (a.created.getTime() - b.created.getTime());
+          } else if (sortField === 'size') {
+            return sortOrder * ((a.size || 0) - (b.size || 0));
+          }
+
+          return 0;
+        });
+      } else {
+        // Default to sorting by created date, newest first
+        backups.sort((a, b) => b.created.getTime() - a.created.getTime());
+      }
+
+      // Apply pagination
+      let result = backups;
+
+      if (options?.offset != null || options?.limit != null) {
+        const offset = options?.offset || 0;
+        const limit = options?.limit || 10;
+
+        result = backups.slice(offset, offset + limit);
+      }
+
+      return {
+        backups: result,
+        total: backups.length,
+      };
+    } catch (error: unknown) {
+      logger.error('Error listing backups', error);
+      return { backups: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get a specific backup
+   */
+  async getBackup(backupId: string): Promise<{
+    id: string;
+    siteId: string;
+    name: string;
+    destination?: string;
+    path?: string;
+    url?: string;
+    contents?: {
+      name: string;
+      type: 'file' | 'directory';
+      path: string;
+      size?: number;
+      modified?: Date;
+    }[];
+    size?: number;
+    created: Date;
+    metadata?: Record<string, any>;
+  } | null> {
+    try {
+      if (!this.initialized) {
+        if (!(await this.initialize())) {
+          return null;
+        }
+      }
+
+      return await this.withClient(async (client) => {
+        const found = await this.findBackup(client, backupId);
+
+        if (!found) {
+          return null;
+        }
+
+        const { metadata, dir } = found;
+        const backup = {
+          id: metadata.id,
+          siteId: metadata.siteId,
+          name: metadata.name,
+          destination: this.config.settings.host,
+          path: `${dir}/${ARCHIVE_NAME}`,
+          size: metadata.size,
+          created: new Date(metadata.created),
+          metadata: metadata.metadata,
+        };
+
+        // List archive contents
+        try {
+          const { workDir, archivePath } = await this.downloadArchive(client, dir);
+
+          try {
+            const entries = await listArchiveEntries(archivePath);
+
+            return {
+              ...backup,
+              contents: entries
+                .filter(entry => entry.type === 'file' || entry.type === 'directory')
+                .map(entry => ({
+                  name: path.posix.basename(entry.path),
+                  type: entry.type as 'file' | 'directory',
+                  path: entry.path,
+                  size: entry.size,
+                  modified: entry.modified,
+                })),
+            };
+          } finally {
+            await fs.rm(workDir, { recursive: true, force: true });
+          }
+        } catch (error: unknown) {
+          logger.error(`Error reading backup archive: ${backupId}`, error);
+          // Return backup without contents
+        }
+
+        return backup;
+      });
+    } catch (error: unknown) {
+      logger.error(`Error getting backup: ${backupId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a backup
+   */
+  async deleteBackup(backupId: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      return await this.withClient(async (client) => {
+        const found = await this.findBackup(client, backupId);
+
+        if (!found) {
+          return {
+            success: false,
+            message: `Backup not found: ${backupId}`,
+          };
+        }
+
+        await client.rmdir(found.dir, true);
+
+        return {
+          success: true,
+          message: `Backup deleted: ${found.metadata.name}`,
+        };
+      });
+    } catch (error: unknown) {
+      logger.error(`Error deleting backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error deleting backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Restore a backup
+   *
+   * Files are extracted into the requested destination directory, or into a
+   * scratch directory that is removed afterwards when no destination is given.
+   */
+  async restoreBackup(backupId: string, options: {
+    destination?: string;
+    files?: string[];
+    database?: boolean;
+  }): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    let workDir: string | undefined;
+
+    try {
+      const downloaded = await this.withClient(async (client) => {
+        const found = await this.findBackup(client, backupId);
+        return found ? { found, ...(await this.downloadArchive(client, found.dir)) } : undefined;
+      });
+
+      if (!downloaded) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      workDir = downloaded.workDir;
+
+      const restoreDir = options.destination
+        ? path.resolve(options.destination)
+        : path.join(workDir, 'restore');
+
+      const extractedFiles = await extractArchive(downloaded.archivePath, restoreDir, options.files);
+
+      return {
+        success: true,
+        message: `Backup restored: ${downloaded.found.metadata.name} (${extractedFiles.length} files)`,
+        details: {
+          destination: options.destination ? restoreDir : undefined,
+          files: extractedFiles,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error(`Error restoring backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      // Clean up scratch directory
+      if (workDir) {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Download a file from a backup
+   *
+   * The path may refer to a file stored next to the archive (e.g.
+   * `metadata.json`) or to an entry inside the archive.
+   */
+  async downloadFile(backupId: string, filePath: string): Promise<{
+    success: boolean;
+    content?: Buffer | string;
+    contentType?: string;
+    size?: number;
+    message?: string;
+  }> {
+    try {
+      const entryName = toEntryName(filePath);
+
+      const result = await this.withClient(async (client) => {
+        const found = await this.findBackup(client, backupId);
+
+        if (!found) {
+          return undefined;
+        }
+
+        // Files stored next to the archive
+        if (entryName === ARCHIVE_NAME || entryName === METADATA_NAME) {
+          return { content: await client.get(`${found.dir}/${entryName}`) as Buffer };
+        }
+
+        const { workDir, archivePath } = await this.downloadArchive(client, found.dir);
+
+        try {
+          return { content: await readArchiveEntry(archivePath, entryName) };
+        } finally {
+          await fs.rm(workDir, { recursive: true, force: true });
+        }
+      });
+
+      if (!result) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      if (!result.content) {
+        return {
+          success: false,
+          message: `File not found in backup: ${filePath}`,
+        };
+      }
+
+      return {
+        success: true,
+        content: result.content,
+        contentType: getContentType(filePath),
+        size: result.content.length,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${backupId}/${filePath}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Download the archive of a backup into a file
+   *
+   * The archive is streamed into the file instead of being held in memory.
+   */
+  async downloadArchiveToFile(backupId: string, outputPath: string): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      const downloaded = await this.withClient(async (client) => {
+        const found = await this.findBackup(client, backupId);
+
+        if (!found) {
+          return false;
+        }
+
+        await client.fastGet(`${found.dir}/${ARCHIVE_NAME}`, outputPath);
+        return true;
+      });
+
+      if (!downloaded) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`,
+        };
+      }
+
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`Error downloading archive: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+}
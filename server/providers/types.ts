@@ -4,6 +4,8 @@
  * This module defines the common interfaces and types for backup providers
  * to ensure consistent implementation across different providers.
  */
+import type { Readable } from 'stream';
+import type { CompressionOptions } from '../utils/file-stream';
 
 /**
  * Base backup configuration shared by all provider types
@@ -15,6 +17,8 @@ export interface BaseBackupConfig {
   active: boolean;
   created: Date;
   updated: Date;
+  // Provider specific settings; `deduplicate: true` stores backups in a deduplicating repository,
+  // `encrypt: true` encrypts archives with per-site keys before upload
   settings: Record<string, any>;
   schedule?: {
     frequency: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
@@ -32,6 +36,8 @@ export interface BaseBackupConfig {
     include?: string[];
     exclude?: string[];
   };
+  // Codec and level of the archives, gzip with its default level if missing
+  compression?: CompressionOptions;
 }
 
 /**
@@ -44,6 +50,91 @@ export type BackupConfig = BaseBackupConfig;
  */
 export type BackupType = 'full' | 'incremental' | 'differential';
 
+/**
+ * Backup metadata stored alongside each backup archive
+ */
+export interface BackupMetadata {
+  id: string;
+  siteId: string;
+  name: string;
+  created: string;
+  size?: number;
+  fileCount?: number;
+  changedFiles?: number;
+  type: BackupType;
+  parent?: string;
+  tags?: string[];
+  parts?: BackupPart[];
+  metadata: Record<string, any>;
+}
+
+/**
+ * Stored part of a backup archive
+ */
+export interface BackupPart {
+  name: string;
+  size: number;
+  sha256: string;
+  // Provider specific reference to the stored part, e.g. a Git blob SHA
+  ref?: string;
+}
+
+/**
+ * Archive built once and uploaded to several destinations
+ */
+export interface PreparedArchive {
+  path: string;
+  size: number;
+  // SHA-256 of the archive
+  checksum?: string;
+  fileCount: number;
+  // Files that couldn't be read and were left out
+  errors?: {
+    path: string;
+    message: string;
+  }[];
+}
+
+/**
+ * Archive uploaded while it is created, without staging it on disk
+ */
+export interface StreamedArchive {
+  // Compressed archive
+  stream: Readable;
+  // Resolves once the archive is complete, with metadata that depends on its contents
+  completed: Promise<Omit<PreparedArchive, 'path'> & {
+    metadata?: Record<string, any>;
+  }>;
+}
+
+/**
+ * Progress of an upload, saved so an interrupted backup can resume it
+ *
+ * GitHub, S3, Dropbox, Google Drive and OneDrive save and resume
+ * checkpoints. Backups stored with other providers, or encrypted before
+ * upload, upload their whole archive again when they resume.
+ */
+export interface UploadCheckpoint {
+  // Provider specific upload session, e.g. the draft release being filled
+  session: Record<string, any>;
+  // Parts uploaded so far, in order
+  parts: BackupPart[];
+}
+
+/**
+ * Upload session an interrupted upload left behind, and where to save new progress
+ *
+ * Passed to the clients of providers that upload large files in sessions.
+ */
+export interface UploadSessionProgress {
+  // Session of the interrupted upload, e.g. an S3 upload ID
+  session?: string;
+  // Chunks it stored, in order
+  uploaded: BackupPart[];
+  // Save the session and the chunks stored so far
+  save(session: string, parts: BackupPart[]): Promise<void>;
+}
+
 /**
  * Interface for backup providers
  */
@@ -81,6 +172,12 @@ export interface BackupProvider {
     database?: boolean;
     destinations?: string[];
     metadata?: Record<string, any>;
+    backupId?: string;
+    archive?: PreparedArchive;
+    // Progress of an interrupted upload of this backup; providers that can't resume uploads (local, SFTP, WebDAV) ignore it
+    checkpoint?: UploadCheckpoint;
+    // Called whenever the upload progressed, with everything needed to resume it
+    onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
   }): Promise<{
     id: string;
     success: boolean;
@@ -100,6 +197,25 @@ export interface BackupProvider {
     created: Date;
   }>;
   
+  /**
+   * Create a backup from an archive that is streamed into the upload
+   * 
+   * Optional; callers stage the archive in a file for providers without it.
+   */
+  createStreamedBackup?(options: Omit<Parameters<BackupProvider['createBackup']>[0], 'archive'> & {
+    archive: StreamedArchive;
+  }): ReturnType<BackupProvider['createBackup']>;
+  
+  /**
+   * Download the archive of a backup into a file
+   * 
+   * Optional; callers read the archive through downloadFile for providers without it.
+   */
+  downloadArchiveToFile?(backupId: string, outputPath: string): Promise<{
+    success: boolean;
+    message?: string;
+  }>;
+  
   /**
    * List backups
    */
@@ -241,6 +357,8 @@ export interface GitHubBackupConfig extends BaseBackupConfig {
     baseUrl?: string;
     defaultBranch?: string;
     prefix?: string;
+    // 'branch' commits each backup to its own branch, 'release' uploads it as release assets
+    storageMode?: 'branch' | 'release';
   };
 }
 
@@ -249,4 +367,154 @@ export interface GitHubBackupConfig extends BaseBackupConfig {
  */
 export function isGitHubBackupConfig(config: BackupConfig): config is GitHubBackupConfig {
   return config.provider === 'github';
-}
\ No newline at end of file
+}
+
+/**
+ * Local filesystem specific provider types
+ */
+export interface LocalBackupConfig extends BaseBackupConfig {
+  settings: {
+    basePath: string;
+    prefix?: string;
+    createIfMissing?: boolean;
+  };
+}
+
+/**
+ * Export type guard for local filesystem configs
+ */
+export function isLocalBackupConfig(config: BackupConfig): config is LocalBackupConfig {
+  return config.provider === 'local';
+}
+
+/**
+ * S3-compatible storage specific provider types
+ */
+export interface S3BackupConfig extends BaseBackupConfig {
+  settings: {
+    endpoint?: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    forcePathStyle?: boolean;
+    prefix?: string;
+    partSize?: number;
+  };
+}
+
+/**
+ * Export type guard for S3-compatible storage configs
+ */
+export function isS3BackupConfig(config: BackupConfig): config is S3BackupConfig {
+  return config.provider === 's3';
+}
+
+/**
+ * Dropbox specific provider types
+ */
+export interface DropboxBackupConfig extends BaseBackupConfig {
+  settings: {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    rootPath?: string;
+    chunkSize?: number;
+  };
+}
+
+/**
+ * Export type guard for Dropbox configs
+ */
+export function isDropboxBackupConfig(config: BackupConfig): config is DropboxBackupConfig {
+  return config.provider === 'dropbox';
+}
+
+/**
+ * Google Drive specific provider types
+ */
+export interface GoogleDriveBackupConfig extends BaseBackupConfig {
+  settings: {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    driveId?: string;
+    folderId?: string;
+    folderName?: string;
+    chunkSize?: number;
+    retentionCount?: number;
+  };
+}
+
+/**
+ * Export type guard for Google Drive configs
+ */
+export function isGoogleDriveBackupConfig(config: BackupConfig): config is GoogleDriveBackupConfig {
+  return config.provider === 'google';
+}
+
+/**
+ * OneDrive / SharePoint specific provider types
+ */
+export interface OneDriveBackupConfig extends BaseBackupConfig {
+  settings: {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    sharePointSiteId?: string;
+    driveId?: string;
+    rootPath?: string;
+    chunkSize?: number;
+  };
+}
+
+/**
+ * Export type guard for OneDrive configs
+ */
+export function isOneDriveBackupConfig(config: BackupConfig): config is OneDriveBackupConfig {
+  return config.provider === 'onedrive';
+}
+
+/**
+ * SFTP specific provider types
+ */
+export interface SftpBackupConfig extends BaseBackupConfig {
+  settings: {
+    host: string;
+    port?: number;
+    username: string;
+    password?: string;
+    privateKey?: string;
+    passphrase?: string;
+    hostKeyFingerprint?: string;
+    basePath: string;
+  };
+}
+
+/**
+ * Export type guard for SFTP configs
+ */
+export function isSftpBackupConfig(config: BackupConfig): config is SftpBackupConfig {
+  return config.provider === 'sftp';
+}
+
+/**
+ * WebDAV specific provider types
+ */
+export interface WebDavBackupConfig extends BaseBackupConfig {
+  settings: {
+    url: string;
+    username: string;
+    password: string;
+    rootPath?: string;
+    chunking?: 'stream' | 'nextcloud';
+    chunkSize?: number;
+  };
+}
+
+/**
+ * Export type guard for WebDAV configs
+ */
+export function isWebDavBackupConfig(config: BackupConfig): config is WebDavBackupConfig {
+  return config.provider === 'webdav';
+}
@@ -0,0 +1,465 @@
+/**
+ * WebDAV Client
+ *
+ * This module provides a minimal WebDAV client (Nextcloud, ownCloud, Apache
+ * mod_dav, ...) with basic authentication and chunked uploads.
+ */
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import logger from '../../utils/logger';
+import { getFileSize, readFileInChunks } from '../../utils/file-stream';
+
+// Use the default logger instance
+
+/**
+ * Smallest chunk accepted by Nextcloud chunked uploads (except the last chunk)
+ */
+export const MIN_NEXTCLOUD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * WebDAV resource
+ */
+export type WebDavEntry = {
+  name: string;
+  href: string;
+  type: 'file' | 'directory';
+  size?: number;
+  modified?: Date;
+};
+
+/**
+ * Type guard to check if an error is an AxiosError
+ * @param error - The error to check
+ * @returns True if the error is an AxiosError
+ */
+function isAxiosError(error: unknown): error is AxiosError {
+  return error !== null &&
+         typeof error === 'object' &&
+         'isAxiosError' in error &&
+         (error as any).isAxiosError === true;
+}
+
+/**
+ * Check whether an error is a 404 response
+ * @param error - The error to check
+ */
+function isNotFoundError(error: unknown): boolean {
+  return isAxiosError(error) && error.response?.status === 404;
+}
+
+/**
+ * Utility function to extract meaningful error messages from WebDAV errors
+ * @param error - The error to extract a message from
+ * @param context - Additional context for logging
+ * @returns A user-friendly error message
+ */
+function getWebDavErrorMessage(error: unknown, context: string): string {
+  if (isAxiosError(error)) {
+    if (error.response) {
+      const data = error.response.data;
+      const body = Buffer.isBuffer(data) ? data.toString('utf8') : typeof data === 'string' ? data : '';
+      const message = getXmlValues(body, 'message')[0];
+
+      if (message) {
+        return `WebDAV error (${error.response.status}): ${message}`;
+      }
+      return `WebDAV error (${error.response.status}${error.response.statusText ? ` ${error.response.statusText}` : ''})`;
+    }
+    if (error.request) {
+      return `WebDAV request failed: No response received`;
+    }
+  }
+  return `WebDAV operation failed: ${context} - ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Read the content of every occurrence of an XML element, ignoring namespace prefixes
+ *
+ * @param xml - XML document
+ * @param tag - Local element name
+ * @returns Element contents
+ */
+function getXmlValues(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g');
+  const values: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    values.push(match[1].trim());
+  }
+
+  return values;
+}
+
+/**
+ * Encode a remote path for use in a URL
+ */
+function encodePath(remotePath: string): string {
+  return remotePath
+    .split('/')
+    .filter(Boolean)
+    .map(segment => encodeURIComponent(segment))
+    .join('/');
+}
+
+/**
+ * WebDAV client
+ */
+export class WebDavClient {
+  private baseUrl: string;
+  private username: string;
+  private password: string;
+
+  /**
+   * Create a new WebDAV client
+   *
+   * @param options - Client options
+   */
+  constructor(options: {
+    url: string;
+    username: string;
+    password: string;
+  }) {
+    this.baseUrl = options.url.replace(/\/+$/, '');
+    this.username = options.username;
+    this.password = options.password;
+  }
+
+  /**
+   * Get the URL of a remote path
+   *
+   * @param remotePath - Path relative to the base URL
+   */
+  getUrl(remotePath: string = ''): string {
+    const encoded = encodePath(remotePath);
+    return encoded ? `${this.baseUrl}/${encoded}` : `${this.baseUrl}/`;
+  }
+
+  /**
+   * Send an authenticated request
+   *
+   * @param config - Request configuration
+   * @returns Axios response
+   */
+  private async request<T = any>(config: AxiosRequestConfig) {
+    return axios.request<T>({
+      ...config,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      auth: {
+        username: this.username,
+        password: this.password,
+      },
+    });
+  }
+
+  /**
+   * Run a PROPFIND request
+   *
+   * @param url - Resource URL
+   * @param depth - PROPFIND depth
+   * @returns Resources in the response
+   */
+  private async propfind(url: string, depth: 0 | 1): Promise<WebDavEntry[]> {
+    const response = await this.request<string>({
+      method: 'PROPFIND',
+      url,
+      headers: {
+        Depth: String(depth),
+        'Content-Type': 'application/xml; charset=utf-8',
+      },
+      data: '<?xml version="1.0" encoding="utf-8"?>' +
+        '<d:propfind xmlns:d="DAV:"><d:prop>' +
+        '<d:resourcetype/><d:getcontentlength/><d:getlastmodified/>' +
+        '</d:prop></d:propfind>',
+      responseType: 'text',
+    });
+
+    return getXmlValues(String(response.data), 'response').map((entry) => {
+      const href = getXmlValues(entry, 'href')[0] || '';
+      const decoded = decodeURIComponent(href).replace(/\/+$/, '');
+      const isCollection = /<(?:[\w-]+:)?collection\s*\/>/.test(entry);
+      const size = getXmlValues(entry, 'getcontentlength')[0];
+      const modified = getXmlValues(entry, 'getlastmodified')[0];
+
+      return {
+        name: decoded.substring(decoded.lastIndexOf('/') + 1),
+        href,
+        type: isCollection ? 'directory' : 'file',
+        size: size ? parseInt(size, 10) : undefined,
+        modified: modified ? new Date(modified) : undefined,
+      } as WebDavEntry;
+    });
+  }
+
+  /**
+   * Test the connection to the server
+   *
+   * @returns Test result
+   */
+  async testConnection(): Promise<{
+    success: boolean;
+    message?: string;
+  }> {
+    try {
+      await this.propfind(this.getUrl(), 0);
+
+      return {
+        success: true,
+        message: `Successfully connected to ${this.baseUrl}`,
+      };
+    } catch (error: unknown) {
+      logger.error('Error testing WebDAV connection', error);
+
+      return {
+        success: false,
+        message: `Error testing WebDAV connection: ${getWebDavErrorMessage(error, 'testing connection')}`,
+      };
+    }
+  }
+
+  /**
+   * Check whether a resource exists
+   *
+   * @param remotePath - Path relative to the base URL
+   */
+  async exists(remotePath: string): Promise<boolean> {
+    try {
+      await this.propfind(this.getUrl(remotePath), 0);
+      return true;
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return false;
+      }
+
+      logger.error(`Error checking resource: ${remotePath}`, error);
+      throw new Error(getWebDavErrorMessage(error, `checking ${remotePath}`));
+    }
+  }
+
+  /**
+   * List the members of a collection
+   *
+   * @param remotePath - Path relative to the base URL
+   * @returns Collection members, or an empty list if the collection doesn't exist
+   */
+  async list(remotePath: string): Promise<WebDavEntry[]> {
+    try {
+      // The first response describes the collection itself
+      return (await this.propfind(`${this.getUrl(remotePath).replace(/\/+$/, '')}/`, 1)).slice(1);
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return [];
+      }
+
+      logger.error(`Error listing collection: ${remotePath}`, error);
+      throw new Error(getWebDavErrorMessage(error, `listing ${remotePath}`));
+    }
+  }
+
+  /**
+   * Create a collection and any missing parents
+   *
+   * @param remotePath - Path relative to the base URL
+   */
+  async ensureCollection(remotePath: string): Promise<void> {
+    const segments = remotePath.split('/').filter(Boolean);
+
+    for (let i = 1; i <= segments.length; i++) {
+      const current = segments.slice(0, i).join('/');
+
+      try {
+        await this.request({ method: 'MKCOL', url: `${this.getUrl(current)}/` });
+      } catch (error: unknown) {
+        // 405 Method Not Allowed means the collection already exists
+        if (isAxiosError(error) && error.response?.status === 405) {
+          continue;
+        }
+
+        logger.error(`Error creating collection: ${current}`, error);
+        throw new Error(getWebDavErrorMessage(error, `creating collection ${current}`));
+      }
+    }
+  }
+
+  /**
+   * Upload content in a single request
+   *
+   * @param remotePath - Path relative to the base URL
+   * @param content - File content
+   * @param contentType - Content type
+   */
+  async putContent(remotePath: string, content: Buffer | string, contentType: string = 'application/octet-stream'): Promise<void> {
+    try {
+      await this.request({
+        method: 'PUT',
+        url: this.getUrl(remotePath),
+        data: content,
+        headers: { 'Content-Type': contentType },
+      });
+    } catch (error: unknown) {
+      logger.error(`Error uploading file: ${remotePath}`, error);
+      throw new Error(getWebDavErrorMessage(error, `uploading file ${remotePath}`));
+    }
+  }
+
+  /**
+   * Upload a local file
+   *
+   * In `stream` mode the file is sent as a single PUT with chunked transfer
+   * encoding. In `nextcloud` mode the Nextcloud chunked upload protocol is
+   * used, which survives proxies that limit request sizes.
+   *
+   * @param remotePath - Path relative to the base URL
+   * @param localPath - Local file to upload
+   * @param options - Upload options
+   */
+  async putFile(remotePath: string, localPath: string, options: {
+    chunking?: 'stream' | 'nextcloud';
+    chunkSize?: number;
+  } = {}): Promise<void> {
+    if (options.chunking === 'nextcloud') {
+      return this.putFileInChunks(remotePath, localPath, options.chunkSize || MIN_NEXTCLOUD_CHUNK_SIZE);
+    }
+
+    try {
+      await this.request({
+        method: 'PUT',
+        url: this.getUrl(remotePath),
+        data: createReadStream(localPath),
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Transfer-Encoding': 'chunked',
+        },
+      });
+    } catch (error: unknown) {
+      logger.error(`Error uploading file: ${remotePath}`, error);
+      throw new Error(getWebDavErrorMessage(error, `uploading file ${remotePath}`));
+    }
+  }
+
+  /**
+   * Upload a local file with the Nextcloud chunked upload protocol
+   *
+   * @param remotePath - Path relative to the base URL
+   * @param localPath - Local file to upload
+   * @param chunkSize - Chunk size in bytes
+   */
+  private async putFileInChunks(remotePath: string, localPath: string, chunkSize: number): Promise<void> {
+    const match = this.baseUrl.match(/^(.*\/remote\.php\/dav)\/files\/([^/]+)/);
+
+    if (!match) {
+      throw new Error('Nextcloud chunked uploads need a URL of the form https://host/remote.php/dav/files/<user>/');
+    }
+
+    const size = await getFileSize(localPath);
+    const destination = this.getUrl(remotePath);
+    const uploadUrl = `${match[1]}/uploads/${match[2]}/web-file-upload-${uuidv4()}`;
+
+    try {
+      await this.request({
+        method: 'MKCOL',
+        url: uploadUrl,
+        headers: { Destination: destination },
+      });
+
+      await readFileInChunks(localPath, Math.max(chunkSize, MIN_NEXTCLOUD_CHUNK_SIZE), async (chunk, index) => {
+        await this.request({
+          method: 'PUT',
+          url: `${uploadUrl}/${String(index + 1).padStart(5, '0')}`,
+          data: chunk,
+          headers: {
+            Destination: destination,
+            'OC-Total-Length': String(size),
+          },
+        });
+      });
+
+      // Assemble the chunks into the destination file
+      await this.request({
+        method: 'MOVE',
+        url: `${uploadUrl}/.file`,
+        headers: {
+          Destination: destination,
+          'OC-Total-Length': String(size),
+          Overwrite: 'T',
+        },
+      });
+    } catch (error: unknown) {
+      logger.error(`Error uploading file in chunks: ${remotePath}`, error);
+
+      // Discard uploaded chunks
+      await this.request({ method: 'DELETE', url: uploadUrl }).catch(() => undefined);
+
+      throw new Error(getWebDavErrorMessage(error, `uploading file ${remotePath}`));
+    }
+  }
+
+  /**
+   * Download a file into memory
+   *
+   * @param remotePath - Path relative to the base URL
+   * @returns File content or null if the file doesn't exist
+   */
+  async get(remotePath: string): Promise<Buffer | null> {
+    try {
+      const response = await this.request<ArrayBuffer>({
+        method: 'GET',
+        url: this.getUrl(remotePath),
+        responseType: 'arraybuffer',
+      });
+
+      return Buffer.from(response.data);
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+
+      logger.error(`Error downloading file: ${remotePath}`, error);
+      throw new Error(getWebDavErrorMessage(error, `downloading file ${remotePath}`));
+    }
+  }
+
+  /**
+   * Download a file to a local path
+   *
+   * @param remotePath - Path relative to the base URL
+   * @param localPath - Destination file path
+   */
+  async getToFile(remotePath: string, localPath: string): Promise<void> {
+    try {
+      const response = await this.request({
+        method: 'GET',
+        url: this.getUrl(remotePath),
+        responseType: 'stream',
+      });
+
+      await pipeline(response.data as NodeJS.ReadableStream, createWriteStream(localPath));
+    } catch (error: unknown) {
+      logger.error(`Error downloading file: ${remotePath}`, error);
+      throw new Error(getWebDavErrorMessage(error, `downloading file ${remotePath}`));
+    }
+  }
+
+  /**
+   * Delete a file or collection (collections are deleted with their members)
+   *
+   * @param remotePath - Path relative to the base URL
+   */
+  async delete(remotePath: string): Promise<void> {
+    try {
+      await this.request({ method: 'DELETE', url: this.getUrl(remotePath) });
+    } catch (error: unknown) {
+      if (isNotFoundError(error)) {
+        return;
+      }
+
+      logger.error(`Error deleting resource: ${remotePath}`, error);
+      throw new Error(getWebDavErrorMessage(error, `deleting ${remotePath}`));
+    }
+  }
+}
+
+export default WebDavClient;
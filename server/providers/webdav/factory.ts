@@ -0,0 +1,191 @@
+/**
+ * WebDAV Backup Provider Factory
+ *
+ * This module defines the factory for creating WebDAV backup providers.
+ */
+import { z } from 'zod';
+import logger from '../../utils/logger';
+import { BackupProviderFactory, BackupConfig, isWebDavBackupConfig } from '../types';
+import { registerProvider } from '../registry';
+import { WebDavBackupProvider } from './provider';
+
+// Use the default logger instance
+
+/**
+ * Validation schema for WebDAV backup provider configuration
+ */
+const webdavConfigSchema = z.object({
+  url: z.string().url('Server URL must be a valid URL'),
+  username: z.string().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+  rootPath: z
+    .string()
+    .regex(/^(\/[^/]+)*\/?$/, 'Folder must be an absolute path, e.g. /wordpress-backups')
+    .optional(),
+  chunking: z.enum(['stream', 'nextcloud']).optional(),
+  chunkSize: z.number().int().min(5, 'Chunk size must be at least 5 MB').max(1024).optional(),
+});
+
+/**
+ * WebDAV Backup Provider Factory
+ */
+export class WebDavBackupProviderFactory implements BackupProviderFactory {
+  /**
+   * Get provider ID
+   */
+  getId(): string {
+    return 'webdav';
+  }
+
+  /**
+   * Get provider information
+   */
+  getInfo(): {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    features: Record<string, boolean>;
+    configFields: Array<{
+      name: string;
+      type: 'text' | 'password' | 'number' | 'boolean' | 'select';
+      label: string;
+      placeholder?: string;
+      required: boolean;
+      options?: { value: string; label: string }[];
+      defaultValue?: any;
+      validation?: {
+        pattern?: string;
+        min?: number;
+        max?: number;
+        message?: string;
+      };
+    }>;
+  } {
+    return {
+      id: 'webdav',
+      name: 'WebDAV',
+      description: 'Backup WordPress sites to Nextcloud, ownCloud or any WebDAV share',
+      icon: 'globe',
+      features: {
+        incremental: false,
+        compression: true,
+        encryption: false,
+        versioning: true,
+        scheduling: true,
+        fileRestore: true,
+      },
+      configFields: [
+        {
+          name: 'url',
+          type: 'text',
+          label: 'Server URL',
+          placeholder: 'e.g., https://cloud.example.com/remote.php/dav/files/alice',
+          required: true,
+        },
+        {
+          name: 'username',
+          type: 'text',
+          label: 'Username',
+          required: true,
+        },
+        {
+          name: 'password',
+          type: 'password',
+          label: 'Password or App Password',
+          required: true,
+        },
+        {
+          name: 'rootPath',
+          type: 'text',
+          label: 'Backup Folder',
+          placeholder: 'e.g., /wordpress-backups',
+          required: false,
+          defaultValue: '/wordpress-backups',
+        },
+        {
+          name: 'chunking',
+          type: 'select',
+          label: 'Upload Mode',
+          required: false,
+          options: [
+            { value: 'stream', label: 'Chunked transfer encoding' },
+            { value: 'nextcloud', label: 'Nextcloud chunked upload' },
+          ],
+          defaultValue: 'stream',
+        },
+        {
+          name: 'chunkSize',
+          type: 'number',
+          label: 'Upload Chunk Size (MB)',
+          required: false,
+          defaultValue: 10,
+          validation: {
+            min: 5,
+            max: 1024,
+            message: 'Chunk size must be at least 5 MB (Nextcloud uploads only).',
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Validate provider configuration
+   */
+  validateConfig(config: Record<string, any>): {
+    valid: boolean;
+    errors?: Record<string, string>;
+  } {
+    try {
+      // Validate configuration schema
+      const result = webdavConfigSchema.safeParse(config);
+
+      if (!result.success) {
+        // Format validation errors
+        const errors: Record<string, string> = {};
+
+        result.error.errors.forEach(error => {
+          const path = error.path.join('.');
+          errors[path] = error.message;
+        });
+
+        return {
+          valid: false,
+          errors,
+        };
+      }
+
+      return {
+        valid: true,
+      };
+    } catch (error: unknown) {
+      logger.error('Error validating WebDAV configuration', error);
+
+      return {
+        valid: false,
+        errors: {
+          '_': `Invalid configuration format: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    }
+  }
+
+  /**
+   * Create a new provider instance
+   */
+  createProvider(config: BackupConfig): WebDavBackupProvider {
+    // Validate config type
+    if (!isWebDavBackupConfig(config)) {
+      throw new Error('Invalid WebDAV backup configuration');
+    }
+
+    // Create provider
+    return new WebDavBackupProvider(config);
+  }
+}
+
+// Create and register singleton instance
+export const webDavBackupProviderFactory = registerProvider(new WebDavBackupProviderFactory());
+
+export default webDavBackupProviderFactory;
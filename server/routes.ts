@@ -1,6 +1,6 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage, createStorage, IStorage } from "./storage";
+import { storage, IStorage } from "./storage";
 import { 
   insertSiteSchema, 
   insertStorageProviderSchema,
@@ -8,30 +8,29 @@ import {
   insertBackupSchema,
   insertFeedbackSchema,
   incrementalBackupSchema,
+  restoreBackupChainSchema,
   updateBackupStatusSchema
 } from "@shared/schema";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 import { authRouter } from "./auth";
 import path from "path";
 import fs from "fs";
+import { v4 as uuidv4 } from "uuid";
 import backupRoutes from "./routes/backup-routes";
+import jobRoutes from "./routes/job-routes";
+import { backupService } from "./services/backup-service";
+import { jobQueue } from "./services/job-queue";
 import logger from "./utils/logger";
+import { changesTiming, getNextRuns, getScheduleTimeZone, getScheduleTimingError, type ScheduleTiming } from "./utils/schedule";
 import dropboxRoutes from "./routes/dropbox";
 import { handleOAuthCallback, initiateOAuthFlow } from "./security/oauth";
 
 // Use the default logger instance
 
 export async function registerRoutes(app: Express): Promise<void> {
-  // Initialize storage implementation
-  let dbStorage: IStorage = storage; // Start with default storage
-  
-  try {
-    // Try to create PostgreSQL storage implementation
-    dbStorage = await createStorage();
-    logger.info('Storage implementation initialized successfully');
-  } catch (error) {
-    logger.error('Failed to initialize database storage, using fallback in-memory storage', { error });
-  }
+  // Share the storage instance with the backup scheduler, so schedules
+  // created here are picked up even with in-memory storage
+  const dbStorage: IStorage = storage;
   
   // API information route
   app.get('/api', (req, res) => {
@@ -145,6 +144,10 @@ export async function registerRoutes(app: Express): Promise<void> {
   app.use('/api/backups', backupRoutes); // Also register under 'backups' endpoint for frontend compatibility
   logger.info('Backup provider routes registered');
   
+  // Register job queue routes
+  app.use('/api/jobs', jobRoutes);
+  logger.info('Job routes registered');
+  
   // Register Dropbox provider routes
   app.use('/api/dropbox', dropboxRoutes);
   logger.info('Dropbox provider routes registered');
@@ -239,6 +242,47 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // New backups of the site are encrypted with a new key; older backups keep theirs
+  app.post("/api/sites/:id/encryption-key/rotate", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid site ID" });
+      }
+
+      const site = await dbStorage.getSite(id);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+
+      const keyId = await backupService.rotateEncryptionKey(String(site.id));
+      res.status(201).json({ keyId });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to rotate encryption key" });
+    }
+  });
+
+  // Reports of the site's restore drills, newest first
+  app.get("/api/sites/:id/restore-drills", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid site ID" });
+      }
+
+      const site = await dbStorage.getSite(id);
+      if (!site) {
+        return res.status(404).json({ message: "Site not found" });
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const drills = await dbStorage.listRestoreDrillsBySiteId(id, limit);
+      res.json(drills);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch restore drills" });
+    }
+  });
+
   // Direct OAuth token to storage provider API route
   app.post("/api/oauth-tokens/save", async (req, res) => {
     try {
@@ -447,9 +491,69 @@ export async function registerRoutes(app: Express): Promise<void> {
     }
   });
 
+  // Preview the next run times of a schedule
+  const schedulePreviewSchema = insertBackupScheduleSchema.pick({
+    frequency: true,
+    dayOfWeek: true,
+    dayOfMonth: true,
+    hourOfDay: true,
+    minuteOfHour: true,
+    cronExpression: true,
+    timeZone: true,
+  }).extend({
+    count: z.coerce.number().int().min(1).max(50).default(5),
+  });
+
+  const sendSchedulePreview = (res: Response, timing: ScheduleTiming, count: number) => {
+    const timingError = getScheduleTimingError(timing);
+    if (timingError) {
+      return res.status(400).json({ message: timingError });
+    }
+
+    res.json({
+      timeZone: getScheduleTimeZone(timing),
+      runs: getNextRuns(timing, new Date(), count),
+    });
+  };
+
+  app.post("/api/backup-schedules/preview", async (req, res) => {
+    try {
+      const { count, ...timing } = schedulePreviewSchema.parse(req.body);
+      sendSchedulePreview(res, timing, count);
+    } catch (err) {
+      handleZodError(err, res);
+    }
+  });
+
+  app.get("/api/backup-schedules/:id/preview", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid backup schedule ID" });
+      }
+
+      const { count } = schedulePreviewSchema.pick({ count: true }).parse(req.query);
+
+      const schedule = await dbStorage.getBackupSchedule(id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Backup schedule not found" });
+      }
+
+      sendSchedulePreview(res, schedule, count);
+    } catch (err) {
+      handleZodError(err, res);
+    }
+  });
+
   app.post("/api/backup-schedules", async (req, res) => {
     try {
       const scheduleData = insertBackupScheduleSchema.parse(req.body);
+
+      const timingError = getScheduleTimingError(scheduleData);
+      if (timingError) {
+        return res.status(400).json({ message: timingError });
+      }
+
       const schedule = await dbStorage.createBackupSchedule(scheduleData);
       res.status(201).json(schedule);
     } catch (err) {
@@ -465,6 +569,19 @@ export async function registerRoutes(app: Express): Promise<void> {
       }
 
       const scheduleData = insertBackupScheduleSchema.partial().parse(req.body);
+
+      if (changesTiming(scheduleData)) {
+        const existingSchedule = await dbStorage.getBackupSchedule(id);
+        if (!existingSchedule) {
+          return res.status(404).json({ message: "Backup schedule not found" });
+        }
+
+        const timingError = getScheduleTimingError({ ...existingSchedule, ...scheduleData });
+        if (timingError) {
+          return res.status(400).json({ message: timingError });
+        }
+      }
+
       const schedule = await dbStorage.updateBackupSchedule(id, scheduleData);
       
       if (!schedule) {
@@ -547,14 +664,20 @@ export async function registerRoutes(app: Express): Promise<void> {
       const validatedData = incrementalBackupSchema.parse(req.body);
       
       // First, get the latest full backup for the site
-      const latestFullBackup = await dbStorage.getLatestFullBackup(validatedData.siteId);
+      const latestFullBackup = await dbStorage.getLatestFullBackup(validatedData.siteId, validatedData.configurationId);
       
       if (!latestFullBackup) {
         return res.status(400).json({
-          message: "No full backup found for this site. Please perform a full backup first."
+          message: "No full backup found for this site and configuration. Please perform a full backup first."
         });
       }
       
+      const configuration = await backupService.getConfiguration(validatedData.configurationId);
+      
+      if (!configuration) {
+        return res.status(404).json({ message: "Backup configuration not found" });
+      }
+      
       // Create an incremental backup with reference to the full backup
       const backup = await dbStorage.createBackup({
         siteId: validatedData.siteId,
@@ -562,16 +685,32 @@ export async function registerRoutes(app: Express): Promise<void> {
         status: "pending",
         type: "incremental",
         parentBackupId: latestFullBackup.id,
+        configurationId: validatedData.configurationId,
+        externalId: uuidv4(),
         startedAt: new Date()
       });
       
-      res.status(201).json(backup);
+      // The job compares the files with the previous backup and records the changed files
+      await jobQueue.enqueue({
+        type: "backup",
+        siteId: validatedData.siteId,
+        provider: configuration.provider,
+        payload: {
+          configurationId: validatedData.configurationId,
+          siteId: String(validatedData.siteId),
+          files: validatedData.paths,
+          metadata: { type: "incremental", backupId: backup.id },
+          backupId: backup.id
+        }
+      });
+      
+      res.status(202).json(backup);
     } catch (err) {
       handleZodError(err, res);
     }
   });
   
-  // Get backup chain (full backup + all incremental backups)
+  // Get backup chain (full backup + all incremental and differential backups)
   app.get("/api/backups/:id/chain", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -589,6 +728,155 @@ export async function registerRoutes(app: Express): Promise<void> {
       res.status(500).json({ message: "Failed to fetch backup chain" });
     }
   });
+  
+  // Restore a backup together with the backups of its chain it builds on
+  app.post("/api/backups/:id/restore", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid backup ID" });
+      }
+      
+      const validatedData = restoreBackupChainSchema.parse(req.body);
+      
+      const backup = await dbStorage.getBackup(id);
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      
+      if (!backup.configurationId || !backup.externalId) {
+        return res.status(400).json({ message: "Backup wasn't stored through a backup configuration" });
+      }
+      
+      const configuration = await backupService.getConfiguration(backup.configurationId);
+      
+      // Restores take precedence over routine backups
+      const job = await jobQueue.enqueue({
+        type: "restore",
+        priority: 10,
+        siteId: backup.siteId,
+        provider: configuration?.provider ?? null,
+        payload: {
+          configurationId: backup.configurationId,
+          backupId: backup.externalId,
+          chainId: backup.id,
+          ...validatedData
+        }
+      });
+      
+      res.status(202).json(job);
+    } catch (err) {
+      handleZodError(err, res);
+    }
+  });
+
+  // Merge a backup chain into a synthetic full backup in the background
+  app.post("/api/backups/:id/synthesize", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid backup ID" });
+      }
+      
+      const backup = await dbStorage.getBackup(id);
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      
+      if (!backup.configurationId || !backup.externalId) {
+        return res.status(400).json({ message: "Backup wasn't stored through a backup configuration" });
+      }
+      
+      if (backup.type === "full") {
+        return res.status(400).json({ message: "Backup is already a full backup" });
+      }
+      
+      const configuration = await backupService.getConfiguration(backup.configurationId);
+      
+      const job = await jobQueue.enqueue({
+        type: "synthesize",
+        siteId: backup.siteId,
+        provider: configuration?.provider ?? null,
+        payload: { backupId: backup.id }
+      });
+      
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to queue synthetic full backup" });
+    }
+  });
+
+  // Download a backup from its provider again and check it against the recorded checksums
+  app.post("/api/backups/:id/verify", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid backup ID" });
+      }
+      
+      const backup = await dbStorage.getBackup(id);
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      
+      if (!backup.configurationId || !backup.externalId) {
+        return res.status(400).json({ message: "Backup wasn't stored through a backup configuration" });
+      }
+      
+      if (backup.status !== "completed") {
+        return res.status(400).json({ message: "Only completed backups can be verified" });
+      }
+      
+      const configuration = await backupService.getConfiguration(backup.configurationId);
+      
+      const job = await jobQueue.enqueue({
+        type: "verify",
+        siteId: backup.siteId,
+        provider: configuration?.provider ?? null,
+        payload: { configurationId: backup.configurationId, backupId: backup.externalId, backupRowId: backup.id }
+      });
+      
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to queue backup verification" });
+    }
+  });
+
+  // Restore a backup into a sandbox in the background and store a drill report for its site
+  app.post("/api/backups/:id/drill", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid backup ID" });
+      }
+      
+      const backup = await dbStorage.getBackup(id);
+      if (!backup) {
+        return res.status(404).json({ message: "Backup not found" });
+      }
+      
+      if (!backup.configurationId || !backup.externalId) {
+        return res.status(400).json({ message: "Backup wasn't stored through a backup configuration" });
+      }
+      
+      if (backup.status !== "completed") {
+        return res.status(400).json({ message: "Only completed backups can be drilled" });
+      }
+      
+      const configuration = await backupService.getConfiguration(backup.configurationId);
+      
+      const job = await jobQueue.enqueue({
+        type: "drill",
+        siteId: backup.siteId,
+        provider: configuration?.provider ?? null,
+        payload: { backupId: backup.id }
+      });
+      
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to queue restore drill" });
+    }
+  });
 
   app.put("/api/backups/:id/status", async (req, res) => {
     try {
@@ -6,10 +6,14 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
 import logger from '../utils/logger';
+import { AppError, ErrorCodes } from '../utils/error-handler';
 import { backupService } from '../services/backup-service';
+import { jobQueue } from '../services/job-queue';
 import { pool } from '../db';
 import { processDropboxToken } from '../providers/dropbox';
+import { compressionCodecs } from '../utils/file-stream';
 
 // Use the default logger instance
 const router = Router();
@@ -42,6 +46,12 @@ const createConfigSchema = z.object({
       exclude: z.array(z.string()).optional(),
     })
     .optional(),
+  compression: z
+    .object({
+      codec: z.enum(compressionCodecs),
+      level: z.number().int().optional(),
+    })
+    .optional(),
 });
 
 const updateConfigSchema = createConfigSchema.partial();
@@ -52,12 +62,20 @@ const createBackupSchema = z.object({
   database: z.boolean().optional(),
   destinations: z.array(z.string()).optional(),
   metadata: z.record(z.unknown()).optional(),
+  priority: z.number().int().optional(),
 });
 
 const restoreBackupSchema = z.object({
   destination: z.string().optional(),
   files: z.array(z.string()).optional(),
   database: z.boolean().optional(),
+  priority: z.number().int().optional(),
+});
+
+const pruneBackupsSchema = z.object({
+  siteId: z.string().optional(),
+  keep: z.number().int().min(1).optional(),
+  priority: z.number().int().optional(),
 });
 
 // Get all backup providers
@@ -115,9 +133,9 @@ router.post('/providers/test', async (req: Request, res: Response) => {
 });
 
 // Get all backup configurations
-router.get('/configurations', (req: Request, res: Response) => {
+router.get('/configurations', async (req: Request, res: Response) => {
   try {
-    const configurations = backupService.getAllConfigurations();
+    const configurations = await backupService.getAllConfigurations();
     res.json({ success: true, configurations });
   } catch (error) {
     logger.error('Error getting backup configurations', error);
@@ -130,10 +148,10 @@ router.get('/configurations', (req: Request, res: Response) => {
 });
 
 // Get a backup configuration
-router.get('/configurations/:id', (req: Request, res: Response) => {
+router.get('/configurations/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const configuration = backupService.getConfiguration(id);
+    const configuration = await backupService.getConfiguration(id);
 
     if (!configuration) {
       return res.status(404).json({
@@ -154,7 +172,7 @@ router.get('/configurations/:id', (req: Request, res: Response) => {
 });
 
 // Create a backup configuration
-router.post('/configurations', (req: Request, res: Response) => {
+router.post('/configurations', async (req: Request, res: Response) => {
   try {
     // Validate request body
     const validationResult = createConfigSchema.safeParse(req.body);
@@ -168,10 +186,18 @@ router.post('/configurations', (req: Request, res: Response) => {
     }
 
     // Create configurationnnnn
-    const configuration = backupService.createConfiguration(validationResult.data);
+    const configuration = await backupService.createConfiguration(validationResult.data);
 
     res.status(201).json({ success: true, configuration });
   } catch (error) {
+    if (error instanceof AppError && error.code === ErrorCodes.VALIDATION_ERROR) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+        errors: error.details,
+      });
+    }
+
     logger.error('Error creating backup configuration', error);
     res.status(500).json({
       success: false,
@@ -182,7 +208,7 @@ router.post('/configurations', (req: Request, res: Response) => {
 });
 
 // Update a backup configuration
-router.patch('/configurations/:id', (req: Request, res: Response) => {
+router.patch('/configurations/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -198,7 +224,7 @@ router.patch('/configurations/:id', (req: Request, res: Response) => {
     }
     //stestst
     // Update configuration
-    const configuration = backupService.updateConfiguration(id, validationResult.data);
+    const configuration = await backupService.updateConfiguration(id, validationResult.data);
 
     if (!configuration) {
       return res.status(404).json({
@@ -209,6 +235,14 @@ router.patch('/configurations/:id', (req: Request, res: Response) => {
 
     res.json({ success: true, configuration });
   } catch (error) {
+    if (error instanceof AppError && error.code === ErrorCodes.VALIDATION_ERROR) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+        errors: error.details,
+      });
+    }
+
     logger.error(`Error updating backup configuration: ${req.params.id}`, error);
     res.status(500).json({
       success: false,
@@ -219,10 +253,10 @@ router.patch('/configurations/:id', (req: Request, res: Response) => {
 });
 
 // Delete a backup configuration
-router.delete('/configurations/:id', (req: Request, res: Response) => {
+router.delete('/configurations/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const result = backupService.deleteConfiguration(id);
+    const result = await backupService.deleteConfiguration(id);
 
     if (!result) {
       return res.status(404).json({
@@ -242,7 +276,7 @@ router.delete('/configurations/:id', (req: Request, res: Response) => {
   }
 });
 
-// Create a backup
+// Queue a backup
 router.post('/configurations/:id/backups', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -258,27 +292,30 @@ router.post('/configurations/:id/backups', async (req: Request, res: Response) =
       });
     }
 
-    // Create backup
-    const result = await backupService.createBackup(id, validationResult.data);
+    const configuration = await backupService.getConfiguration(id);
 
-    if (!result.success) {
-      // If it's a configuration not found error
-      if (result.message?.includes('Configuration not found')) {
-        return res.status(404).json({
-          success: false,
-          message: result.message,
-        });
-      }
-
-      // Other errors
-      return res.status(400).json({
+    if (!configuration) {
+      return res.status(404).json({
         success: false,
-        message: result.message,
-        errors: result.errors,
+        message: `Configuration not found: ${id}`,
       });
     }
 
-    res.json(result);
+    const { priority, ...options } = validationResult.data;
+    const siteId = Number(options.siteId);
+    // Assigned up front, so the destinations of the backup can be followed while it runs
+    const backupId = uuidv4();
+
+    // The backup runs in the job queue; its progress is available from /api/jobs
+    const job = await jobQueue.enqueue({
+      type: 'backup',
+      priority,
+      siteId: Number.isInteger(siteId) ? siteId : null,
+      provider: configuration.provider,
+      payload: { configurationId: id, ...options, externalId: backupId },
+    });
+
+    res.status(202).json({ success: true, job, backupId });
   } catch (error) {
     logger.error(`Error creating backup: ${req.params.id}`, error);
     res.status(500).json({
@@ -354,6 +391,77 @@ router.get('/configurations/:configId/backups/:backupId', async (req: Request, r
   }
 });
 
+// Get the per-destination status of a backup
+router.get('/configurations/:configId/backups/:backupId/destinations', async (req: Request, res: Response) => {
+  try {
+    const { configId, backupId } = req.params;
+    const run = await backupService.getBackupRun(backupId);
+
+    if (!run || run.configId !== configId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Backup destinations not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      status: run.status,
+      destinations: run.destinations,
+    });
+  } catch (error) {
+    logger.error(
+      `Error getting backup destinations: ${req.params.configId}/${req.params.backupId}`,
+      error
+    );
+    res.status(500).json({
+      success: false,
+      message: 'Error getting backup destinations',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Retry the failed destinations of a backup
+router.post('/configurations/:configId/backups/:backupId/retry', async (req: Request, res: Response) => {
+  try {
+    const { configId, backupId } = req.params;
+    const run = await backupService.getBackupRun(backupId);
+
+    if (!run || run.configId !== configId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Backup destinations not found',
+      });
+    }
+
+    const result = await backupService.retryFailedDestinations(backupId);
+
+    if (!result!.success) {
+      return res.status(400).json(result);
+    }
+
+    res.status(result!.status === 'partial' ? 207 : 200).json(result);
+  } catch (error) {
+    if (error instanceof AppError && error.code === ErrorCodes.CONFLICT) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error(
+      `Error retrying backup destinations: ${req.params.configId}/${req.params.backupId}`,
+      error
+    );
+    res.status(500).json({
+      success: false,
+      message: 'Error retrying backup destinations',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // Delete a backup
 router.delete(
   '/configurations/:configId/backups/:backupId',
@@ -392,7 +500,7 @@ router.delete(
   }
 );
 
-// Restore a backup
+// Queue a restore of a backup
 router.post(
   '/configurations/:configId/backups/:backupId/restore',
   async (req: Request, res: Response) => {
@@ -410,26 +518,26 @@ router.post(
         });
       }
 
-      // Restore backup
-      const result = await backupService.restoreBackup(configId, backupId, validationResult.data);
-
-      if (!result.success) {
-        // If it's a configuration not found error
-        if (result.message?.includes('Configuration not found')) {
-          return res.status(404).json({
-            success: false,
-            message: result.message,
-          });
-        }
+      const configuration = await backupService.getConfiguration(configId);
 
-        // Other errors
-        return res.status(400).json({
+      if (!configuration) {
+        return res.status(404).json({
           success: false,
-          message: result.message,
+          message: `Configuration not found: ${configId}`,
         });
       }
 
-      res.json(result);
+      const { priority, ...options } = validationResult.data;
+
+      // Restores take precedence over routine backups unless told otherwise
+      const job = await jobQueue.enqueue({
+        type: 'restore',
+        priority: priority ?? 10,
+        provider: configuration.provider,
+        payload: { configurationId: configId, backupId, ...options },
+      });
+
+      res.status(202).json({ success: true, job });
     } catch (error) {
       logger.error(`Error restoring backup: ${req.params.configId}/${req.params.backupId}`, error);
       res.status(500).json({
@@ -441,6 +549,87 @@ router.post(
   }
 );
 
+// Queue a verification of a backup
+router.post(
+  '/configurations/:configId/backups/:backupId/verify',
+  async (req: Request, res: Response) => {
+    try {
+      const { configId, backupId } = req.params;
+      const configuration = await backupService.getConfiguration(configId);
+
+      if (!configuration) {
+        return res.status(404).json({
+          success: false,
+          message: `Configuration not found: ${configId}`,
+        });
+      }
+
+      const job = await jobQueue.enqueue({
+        type: 'verify',
+        provider: configuration.provider,
+        payload: { configurationId: configId, backupId },
+      });
+
+      res.status(202).json({ success: true, job });
+    } catch (error) {
+      logger.error(`Error verifying backup: ${req.params.configId}/${req.params.backupId}`, error);
+      res.status(500).json({
+        success: false,
+        message: 'Error verifying backup',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+// Queue pruning backups beyond the retention policy
+router.post('/configurations/:id/prune', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const validationResult = pruneBackupsSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid prune data',
+        errors: validationResult.error.errors,
+      });
+    }
+
+    const configuration = await backupService.getConfiguration(id);
+
+    if (!configuration) {
+      return res.status(404).json({
+        success: false,
+        message: `Configuration not found: ${id}`,
+      });
+    }
+
+    const { priority, ...options } = validationResult.data;
+    const siteId = Number(options.siteId);
+
+    // Pruning can wait for backups and restores
+    const job = await jobQueue.enqueue({
+      type: 'prune',
+      priority: priority ?? -10,
+      siteId: options.siteId && Number.isInteger(siteId) ? siteId : null,
+      provider: configuration.provider,
+      payload: { configurationId: id, ...options },
+    });
+
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    logger.error(`Error pruning backups: ${req.params.id}`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Error pruning backups',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // Download a file from a backup
 router.get(
   '/configurations/:configId/backups/:backupId/files',
@@ -0,0 +1,111 @@
+/**
+ * Job API Routes
+ *
+ * This module defines the API routes for inspecting and cancelling queued,
+ * running and finished jobs.
+ */
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import logger from '../utils/logger';
+import { AppError, ErrorCodes } from '../utils/error-handler';
+import { storage } from '../storage';
+import { jobQueue } from '../services/job-queue';
+import { jobStatuses, jobTypes } from '@shared/schema';
+
+// Use the default logger instance
+const router = Router();
+
+// Validation schemas
+const listJobsSchema = z.object({
+  // Comma-separated, e.g. "queued,running"
+  status: z
+    .string()
+    .transform(value => value.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(jobStatuses)))
+    .optional(),
+  type: z.enum(jobTypes).optional(),
+  siteId: z.coerce.number().int().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+// List jobs, newest first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const validationResult = listJobsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid job filter',
+        errors: validationResult.error.errors,
+      });
+    }
+
+    const jobs = await storage.listJobs(validationResult.data);
+    res.json({ success: true, jobs });
+  } catch (error) {
+    logger.error('Error listing jobs', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error listing jobs',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Get a job
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const job = isNaN(id) ? undefined : await storage.getJob(id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: `Job not found: ${req.params.id}`,
+      });
+    }
+
+    res.json({ success: true, job });
+  } catch (error) {
+    logger.error(`Error getting job: ${req.params.id}`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Error getting job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Cancel a queued or running job
+router.post('/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const job = isNaN(id) ? undefined : await jobQueue.cancel(id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: `Job not found: ${req.params.id}`,
+      });
+    }
+
+    res.json({ success: true, job });
+  } catch (error) {
+    if (error instanceof AppError && error.code === ErrorCodes.CONFLICT) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    logger.error(`Error cancelling job: ${req.params.id}`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Error cancelling job',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
@@ -4,7 +4,9 @@
  * This module provides encryption and decryption utilities for sensitive data,
  * using industry-standard algorithms and practices.
  */
-import { createCipheriv, createDecipheriv, randomBytes, scrypt, createHash } from 'crypto';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, createHash, type DecipherGCM } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { pipeline, Transform } from 'stream';
 import { promisify } from 'util';
 import logger from '../utils/logger';
 
@@ -19,9 +21,12 @@ const SCRYPT_KEYLEN = 32; // 256 bits for AES-256
 const SCRYPT_SALT_LENGTH = 32;
 // Minimal memory requirements for constrained environments like Replit
 const SCRYPT_OPTIONS = { N: 4096, r: 4, p: 1 };
+// Header of encrypted files, followed by the IV, the encrypted data and the authentication tag
+const FILE_MAGIC = Buffer.from('MCBENC1');
 
 // Promisify scrypt
 const scryptAsync = promisify(scrypt);
+const pipelineAsync = promisify(pipeline);
 
 /**
  * Get the encryption key
@@ -177,6 +182,211 @@ export async function decryptObject<T>(encryptedData: string): Promise<T> {
   }
 }
 
+/**
+ * Generate a data key for file encryption
+ *
+ * @returns Random 256-bit key
+ */
+export function generateDataKey(): Buffer {
+  return randomBytes(SCRYPT_KEYLEN);
+}
+
+/**
+ * Wrap a data key with the master key
+ *
+ * The master key is derived from the encryption key in the environment,
+ * the same way as for any other encrypted data.
+ *
+ * @param key - Data key
+ * @returns Wrapped key
+ */
+export async function wrapKey(key: Buffer): Promise<string> {
+  return encrypt(key.toString('base64'));
+}
+
+/**
+ * Unwrap a data key wrapped with the master key
+ *
+ * @param wrappedKey - Wrapped key
+ * @returns Data key
+ */
+export async function unwrapKey(wrappedKey: string): Promise<Buffer> {
+  return Buffer.from(await decrypt(wrappedKey), 'base64');
+}
+
+/**
+ * Create a stream that encrypts with a data key
+ *
+ * Every stream uses a new IV. The output has the layout of encrypted files,
+ * so it can be decrypted with decryptBuffer.
+ *
+ * @param key - Data key
+ * @returns Stream of the encrypted content
+ */
+export function createEncryptStream(key: Buffer): Transform {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, cipher.update(chunk));
+    },
+    flush(callback) {
+      this.push(cipher.final());
+      callback(null, cipher.getAuthTag());
+    },
+  });
+
+  stream.push(Buffer.concat([FILE_MAGIC, iv]));
+
+  return stream;
+}
+
+/**
+ * Get the size of encrypted content
+ *
+ * @param size - Size of the content before encryption
+ * @returns Size of the encrypted content, with its header and authentication tag
+ */
+export function getEncryptedSize(size: number): number {
+  return FILE_MAGIC.length + IV_LENGTH + size + AUTH_TAG_LENGTH;
+}
+
+/**
+ * Encrypt a file with a data key
+ *
+ * The file is streamed, so large archives aren't read into memory.
+ *
+ * @param inputPath - File to encrypt
+ * @param outputPath - Path to the encrypted file
+ * @param key - Data key
+ * @returns Size of the encrypted file
+ */
+export async function encryptFile(inputPath: string, outputPath: string, key: Buffer): Promise<number> {
+  try {
+    await pipelineAsync(
+      createReadStream(inputPath),
+      createEncryptStream(key),
+      createWriteStream(outputPath)
+    );
+
+    return (await fs.stat(outputPath)).size;
+  } catch (error) {
+    logger.error('File encryption failed', error);
+    throw error;
+  }
+}
+
+/**
+ * Decrypt the content of a file encrypted with encryptFile
+ *
+ * @param data - Encrypted content
+ * @param key - Data key
+ * @returns Decrypted content
+ * @throws Error if the content isn't encrypted or was modified
+ */
+export function decryptBuffer(data: Buffer, key: Buffer): Buffer {
+  try {
+    const headerLength = FILE_MAGIC.length + IV_LENGTH;
+
+    if (data.length < headerLength + AUTH_TAG_LENGTH || !data.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC)) {
+      throw new Error('Invalid encrypted data format');
+    }
+
+    const iv = data.subarray(FILE_MAGIC.length, headerLength);
+    const authTag = data.subarray(data.length - AUTH_TAG_LENGTH);
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(data.subarray(headerLength, data.length - AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  } catch (error) {
+    logger.error('Decryption failed', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a stream that decrypts content encrypted with a data key
+ *
+ * The header and IV are read from the start of the stream, and the last
+ * bytes are held back until the end because they are the authentication tag.
+ * The stream fails if the content isn't encrypted or was modified.
+ *
+ * @param key - Data key
+ * @returns Stream of the decrypted content
+ */
+export function createDecryptStream(key: Buffer): Transform {
+  const headerLength = FILE_MAGIC.length + IV_LENGTH;
+  let decipher: DecipherGCM | null = null;
+  let pending = Buffer.alloc(0);
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        pending = Buffer.concat([pending, chunk]);
+
+        if (!decipher) {
+          if (pending.length < headerLength) {
+            return callback();
+          }
+          if (!pending.subarray(0, FILE_MAGIC.length).equals(FILE_MAGIC)) {
+            throw new Error('Invalid encrypted data format');
+          }
+          decipher = createDecipheriv(ALGORITHM, key, pending.subarray(FILE_MAGIC.length, headerLength));
+          pending = pending.subarray(headerLength);
+        }
+
+        if (pending.length <= AUTH_TAG_LENGTH) {
+          return callback();
+        }
+
+        const data = pending.subarray(0, pending.length - AUTH_TAG_LENGTH);
+        pending = pending.subarray(pending.length - AUTH_TAG_LENGTH);
+        callback(null, decipher.update(data));
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        if (!decipher || pending.length < AUTH_TAG_LENGTH) {
+          throw new Error('Invalid encrypted data format');
+        }
+
+        decipher.setAuthTag(pending);
+        callback(null, decipher.final());
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+/**
+ * Decrypt a file encrypted with encryptFile
+ *
+ * The file is streamed, so large archives aren't read into memory.
+ *
+ * @param inputPath - Encrypted file
+ * @param outputPath - Path to the decrypted file
+ * @param key - Data key
+ * @throws Error if the file isn't encrypted or was modified
+ */
+export async function decryptFile(inputPath: string, outputPath: string, key: Buffer): Promise<void> {
+  try {
+    await pipelineAsync(
+      createReadStream(inputPath),
+      createDecryptStream(key),
+      createWriteStream(outputPath)
+    );
+  } catch (error) {
+    logger.error('File decryption failed', error);
+    throw error;
+  }
+}
+
 /**
  * Generate a secure random token
  *
@@ -0,0 +1,514 @@
+/**
+ * Archive Encryption
+ *
+ * This module encrypts backup archives before they leave the server. Every
+ * site has a data key that is stored wrapped by the master key, and the ID
+ * of the key is recorded in the metadata of each backup, so a site's key can
+ * be rotated while older backups stay readable with the key they were
+ * created with.
+ *
+ * EncryptedProvider wraps any backup provider: archives, including the file
+ * manifest inside them, are encrypted with AES-256-GCM before upload, and
+ * restores and downloads decrypt them again. Backups without encryption
+ * metadata are passed through unchanged.
+ *
+ * Providers that stream uploads get the archive encrypted on its way into
+ * the upload. Encrypted uploads don't save checkpoints, and an interrupted
+ * one is uploaded again in full: the IV of the interrupted upload can't be
+ * reused, because the archive is rebuilt and GCM must never encrypt
+ * different content under the same IV, and under a new IV none of the
+ * uploaded parts match any more.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { pipeline } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import { AppError, ErrorCodes } from '../utils/error-handler';
+import { createArchive, extractArchive, getContentType, listArchiveEntries, readArchiveEntry, toEntryName } from '../utils/archive';
+import { createStagingDir, type CompressionCodec } from '../utils/file-stream';
+import {
+  createEncryptStream,
+  decryptFile,
+  encryptFile,
+  generateDataKey,
+  getEncryptedSize,
+  unwrapKey,
+  wrapKey,
+} from '../security/encryption';
+import { storage as defaultStorage, type IStorage } from '../storage';
+import type { BackupConfig, BackupProvider } from '../providers/types';
+
+// Use the default logger instance
+
+// Files every provider stores for a backup
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+
+/**
+ * Encryption details recorded in the metadata of a backup
+ */
+export interface ArchiveEncryption {
+  algorithm: 'aes-256-gcm';
+  keyId: string;
+}
+
+/**
+ * Per-site data keys wrapped by the master key
+ */
+export class ArchiveKeyring {
+  private storage: IStorage;
+  // Unwrapped data keys by key ID
+  private keys: Map<string, Buffer>;
+  // Lookups of active keys in progress by site ID
+  private activeKeys: Map<string, Promise<{ id: string; key: Buffer }>>;
+
+  /**
+   * Create a keyring
+   *
+   * @param keyStorage - Storage with the wrapped keys
+   */
+  constructor(keyStorage: IStorage = defaultStorage) {
+    this.storage = keyStorage;
+    this.keys = new Map();
+    this.activeKeys = new Map();
+  }
+
+  /**
+   * Get the key new backups of a site are encrypted with
+   *
+   * A key is created for sites that don't have one yet. Concurrent lookups
+   * for a site share one lookup, so backups to several destinations at once
+   * don't each create an active key.
+   *
+   * @param siteId - Site ID
+   * @returns Key ID and data key
+   */
+  async getActiveKey(siteId: string): Promise<{ id: string; key: Buffer }> {
+    const pending = this.activeKeys.get(siteId);
+
+    if (pending) {
+      return pending;
+    }
+
+    const lookup = this.findActiveKey(siteId).finally(() => this.activeKeys.delete(siteId));
+    this.activeKeys.set(siteId, lookup);
+
+    return lookup;
+  }
+
+  /**
+   * Get the active key of a site, creating one if it has none
+   *
+   * @param siteId - Site ID
+   * @returns Key ID and data key
+   */
+  private async findActiveKey(siteId: string): Promise<{ id: string; key: Buffer }> {
+    const active = await this.storage.getActiveEncryptionKey(siteId);
+
+    if (!active) {
+      return this.rotateKey(siteId);
+    }
+
+    return { id: active.id, key: await this.getKey(active.id) };
+  }
+
+  /**
+   * Get a data key by ID
+   *
+   * @param keyId - Key ID from the metadata of a backup
+   * @returns Data key
+   * @throws AppError if the key doesn't exist
+   */
+  async getKey(keyId: string): Promise<Buffer> {
+    const cached = this.keys.get(keyId);
+
+    if (cached) {
+      return cached;
+    }
+
+    const record = await this.storage.getEncryptionKey(keyId);
+
+    if (!record) {
+      throw new AppError(ErrorCodes.NOT_FOUND, `Encryption key not found: ${keyId}`);
+    }
+
+    const key = await unwrapKey(record.wrappedKey);
+    this.keys.set(keyId, key);
+
+    return key;
+  }
+
+  /**
+   * Create a new key for a site
+   *
+   * New backups use the new key; the site's older keys are kept to decrypt
+   * the backups created with them.
+   *
+   * @param siteId - Site ID
+   * @returns Key ID and data key
+   */
+  async rotateKey(siteId: string): Promise<{ id: string; key: Buffer }> {
+    const key = generateDataKey();
+    const record = await this.storage.createEncryptionKey({
+      id: uuidv4(),
+      siteId,
+      wrappedKey: await wrapKey(key),
+      active: true,
+    });
+
+    this.keys.set(record.id, key);
+    logger.info(`Created encryption key for site ${siteId}`, { keyId: record.id });
+
+    return { id: record.id, key };
+  }
+}
+
+/**
+ * Backup provider that encrypts archives before they are uploaded
+ */
+export class EncryptedProvider implements BackupProvider {
+  private provider: BackupProvider;
+  private keyring: ArchiveKeyring;
+  // Only set when the wrapped provider streams uploads
+  createStreamedBackup?: BackupProvider['createStreamedBackup'];
+
+  /**
+   * Encrypt the archives of a provider
+   *
+   * @param provider - Provider that stores the encrypted archives
+   * @param keyring - Keyring with the sites' data keys
+   */
+  constructor(provider: BackupProvider, keyring: ArchiveKeyring) {
+    this.provider = provider;
+    this.keyring = keyring;
+
+    if (provider.createStreamedBackup) {
+      this.createStreamedBackup = options => this.createEncryptedStreamedBackup(options);
+    }
+  }
+
+  getId(): string {
+    return this.provider.getId();
+  }
+
+  getConfig(): BackupConfig {
+    return this.provider.getConfig();
+  }
+
+  initialize(): Promise<boolean> {
+    return this.provider.initialize();
+  }
+
+  testConnection(): ReturnType<BackupProvider['testConnection']> {
+    return this.provider.testConnection();
+  }
+
+  listBackups(options?: Parameters<BackupProvider['listBackups']>[0]): ReturnType<BackupProvider['listBackups']> {
+    return this.provider.listBackups(options);
+  }
+
+  deleteBackup(backupId: string): ReturnType<BackupProvider['deleteBackup']> {
+    return this.provider.deleteBackup(backupId);
+  }
+
+  /**
+   * Create a backup with an encrypted archive
+   *
+   * The archive is built from the files when none is passed. The metadata
+   * records the algorithm and the ID of the site's data key.
+   */
+  async createBackup(options: Parameters<BackupProvider['createBackup']>[0]): Promise<Awaited<ReturnType<BackupProvider['createBackup']>>> {
+    const workDir = await createStagingDir(options.backupId || uuidv4());
+
+    try {
+      const { id: keyId, key } = await this.keyring.getActiveKey(options.siteId);
+      const archive = options.archive || {
+        path: path.join(workDir, ARCHIVE_NAME),
+        ...await createArchive(options.files, path.join(workDir, ARCHIVE_NAME)),
+      };
+      const encryptedPath = path.join(workDir, `${ARCHIVE_NAME}.enc`);
+      const size = await encryptFile(archive.path, encryptedPath, key);
+      const encryption: ArchiveEncryption = { algorithm: 'aes-256-gcm', keyId };
+
+      return await this.provider.createBackup({
+        ...options,
+        archive: { ...archive, path: encryptedPath, size },
+        metadata: { ...options.metadata, encryption },
+        // Every attempt is encrypted under a new IV, so there is no progress to resume
+        checkpoint: undefined,
+        onCheckpoint: undefined,
+      });
+    } catch (error: unknown) {
+      logger.error('Error encrypting backup archive', error);
+
+      return {
+        id: options.backupId || uuidv4(),
+        success: false,
+        message: `Error encrypting backup archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        created: new Date(),
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Create a backup from a streamed archive, encrypting it on its way into the upload
+   *
+   * The size the archive completes with is that of the encrypted archive.
+   */
+  private async createEncryptedStreamedBackup(
+    options: Parameters<NonNullable<BackupProvider['createStreamedBackup']>>[0]
+  ): Promise<Awaited<ReturnType<BackupProvider['createBackup']>>> {
+    try {
+      const { id: keyId, key } = await this.keyring.getActiveKey(options.siteId);
+      const encryption: ArchiveEncryption = { algorithm: 'aes-256-gcm', keyId };
+      // Errors of the archive reach the upload through the encrypted stream
+      const encrypted = pipeline(options.archive.stream, createEncryptStream(key), () => undefined);
+
+      return await this.provider.createStreamedBackup!({
+        ...options,
+        archive: {
+          stream: encrypted,
+          completed: options.archive.completed.then(details => ({ ...details, size: getEncryptedSize(details.size) })),
+        },
+        metadata: { ...options.metadata, encryption },
+        // Every attempt is encrypted under a new IV, so there is no progress to resume
+        checkpoint: undefined,
+        onCheckpoint: undefined,
+      });
+    } catch (error: unknown) {
+      logger.error('Error encrypting backup archive', error);
+      options.archive.stream.destroy();
+
+      return {
+        id: options.backupId || uuidv4(),
+        success: false,
+        message: `Error encrypting backup archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        created: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Get a backup, listing the contents of encrypted archives
+   */
+  async getBackup(backupId: string): Promise<Awaited<ReturnType<BackupProvider['getBackup']>>> {
+    const backup = await this.provider.getBackup(backupId);
+    const encryption = backup?.metadata?.encryption as ArchiveEncryption | undefined;
+
+    if (!backup || !encryption) {
+      return backup;
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'encrypted-backup-'));
+
+    try {
+      const archivePath = path.join(workDir, ARCHIVE_NAME);
+      await this.downloadArchive(backupId, encryption, archivePath);
+      const entries = await listArchiveEntries(archivePath, backup.metadata?.compression);
+
+      return {
+        ...backup,
+        contents: entries
+          .filter(entry => entry.type === 'file' || entry.type === 'directory')
+          .map(entry => ({
+            name: path.posix.basename(entry.path),
+            type: entry.type as 'file' | 'directory',
+            path: entry.path,
+            size: entry.size,
+            modified: entry.modified,
+          })),
+      };
+    } catch (error: unknown) {
+      logger.error(`Error reading encrypted backup archive: ${backupId}`, error);
+      return { ...backup, contents: undefined };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Restore a backup, decrypting its archive first
+   */
+  async restoreBackup(
+    backupId: string,
+    options: Parameters<BackupProvider['restoreBackup']>[1]
+  ): Promise<Awaited<ReturnType<BackupProvider['restoreBackup']>>> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'encrypted-backup-'));
+
+    try {
+      const metadata = await this.getMetadata(backupId);
+
+      if (!metadata?.encryption) {
+        return await this.provider.restoreBackup(backupId, options);
+      }
+
+      const archivePath = path.join(workDir, ARCHIVE_NAME);
+      await this.downloadArchive(backupId, metadata.encryption, archivePath);
+      const restoreDir = options.destination ? path.resolve(options.destination) : path.join(workDir, 'restore');
+      const extractedFiles = await extractArchive(archivePath, restoreDir, options.files, metadata.compression);
+
+      return {
+        success: true,
+        message: `Backup restored: ${backupId} (${extractedFiles.length} files)`,
+        details: {
+          destination: options.destination ? restoreDir : undefined,
+          files: extractedFiles,
+        },
+      };
+    } catch (error: unknown) {
+      logger.error(`Error restoring encrypted backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error restoring backup: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Download a file from a backup, decrypting the archive or its entries
+   */
+  async downloadFile(backupId: string, filePath: string): Promise<Awaited<ReturnType<BackupProvider['downloadFile']>>> {
+    const entryName = toEntryName(filePath);
+
+    if (entryName === METADATA_NAME) {
+      return this.provider.downloadFile(backupId, filePath);
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'encrypted-backup-'));
+
+    try {
+      const metadata = await this.getMetadata(backupId);
+
+      if (!metadata?.encryption) {
+        return await this.provider.downloadFile(backupId, filePath);
+      }
+
+      const archivePath = path.join(workDir, ARCHIVE_NAME);
+      await this.downloadArchive(backupId, metadata.encryption, archivePath);
+      const content = entryName === ARCHIVE_NAME
+        ? await fs.readFile(archivePath)
+        : await readArchiveEntry(archivePath, entryName, metadata.compression);
+
+      if (!content) {
+        return {
+          success: false,
+          message: `File not found in backup: ${filePath}`,
+        };
+      }
+
+      return {
+        success: true,
+        content,
+        contentType: getContentType(filePath),
+        size: content.length,
+      };
+    } catch (error: unknown) {
+      logger.error(`Error downloading file from encrypted backup: ${backupId}/${filePath}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Download the archive of a backup to a file, decrypting encrypted archives
+   */
+  async downloadArchiveToFile(backupId: string, outputPath: string): Promise<{ success: boolean; message?: string; }> {
+    try {
+      const metadata = await this.getMetadata(backupId);
+
+      if (!metadata?.encryption) {
+        if (this.provider.downloadArchiveToFile) {
+          return await this.provider.downloadArchiveToFile(backupId, outputPath);
+        }
+
+        const result = await this.provider.downloadFile(backupId, ARCHIVE_NAME);
+
+        if (!result.success || !result.content) {
+          return { success: false, message: result.message || `Archive not found: ${backupId}` };
+        }
+
+        await fs.writeFile(outputPath, result.content);
+
+        return { success: true };
+      }
+
+      await this.downloadArchive(backupId, metadata.encryption, outputPath);
+
+      return { success: true };
+    } catch (error: unknown) {
+      logger.error(`Error downloading encrypted backup archive: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error downloading archive: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Read the metadata of a backup, with its encryption details and compression codec
+   *
+   * @param backupId - Backup ID
+   * @returns Metadata or null if the backup has none
+   */
+  private async getMetadata(backupId: string): Promise<{
+    encryption?: ArchiveEncryption;
+    compression?: CompressionCodec;
+  } | null> {
+    const result = await this.provider.downloadFile(backupId, METADATA_NAME);
+
+    if (!result.success || !result.content) {
+      return null;
+    }
+
+    return JSON.parse(result.content.toString()).metadata || null;
+  }
+
+  /**
+   * Download and decrypt the archive of a backup
+   *
+   * The encrypted archive is written next to the output and decrypted as a
+   * stream, so large archives aren't read into memory.
+   *
+   * @param backupId - Backup ID
+   * @param encryption - Encryption details of the backup
+   * @param outputPath - Path to write the decrypted archive to
+   */
+  private async downloadArchive(backupId: string, encryption: ArchiveEncryption, outputPath: string): Promise<void> {
+    const encryptedPath = `${outputPath}.enc`;
+
+    try {
+      if (this.provider.downloadArchiveToFile) {
+        const result = await this.provider.downloadArchiveToFile(backupId, encryptedPath);
+
+        if (!result.success) {
+          throw new Error(result.message || `Archive not found: ${backupId}`);
+        }
+      } else {
+        const result = await this.provider.downloadFile(backupId, ARCHIVE_NAME);
+
+        if (!result.success || !result.content) {
+          throw new Error(result.message || `Archive not found: ${backupId}`);
+        }
+
+        await fs.writeFile(encryptedPath, result.content);
+      }
+
+      await decryptFile(encryptedPath, outputPath, await this.keyring.getKey(encryption.keyId));
+    } finally {
+      await fs.rm(encryptedPath, { force: true });
+    }
+  }
+}
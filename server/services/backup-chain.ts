@@ -0,0 +1,417 @@
+/**
+ * Backup Chains
+ *
+ * This module creates full, differential and incremental backups with a
+ * file manifest on top of any backup provider, and restores a chain of them.
+ *
+ * Every archive contains a manifest describing all files of the site at the
+ * time of the backup. Other archives than full ones only contain the files
+ * that are new or changed since their parent, and their manifest lists the
+ * files that were removed. Differential backups use the full backup as
+ * their parent and incremental backups the backup before them. Restoring a
+ * chain applies the full backup and then every following backup in order.
+ *
+ * A synthetic full backup merges a chain into a single archive without
+ * reading the site again. It records the backup whose state it reproduces,
+ * so backups that were built on that one can be applied on top of it.
+ *
+ * The metadata of every backup records the SHA-256 of its archive, and the
+ * manifest the SHA-256 of every file, so a backup can be downloaded again
+ * and verified end to end.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import { extractArchive, toEntryName } from '../utils/archive';
+import {
+  countManifestFiles,
+  createManifestArchive,
+  createManifestArchiveStream,
+  MANIFEST_ENTRY_NAME,
+  type FileManifest,
+} from '../utils/file-manifest';
+import {
+  calculateFileChecksum,
+  createStagingDir,
+  DEFAULT_COMPRESSION,
+  fileExists,
+  type CompressionOptions,
+} from '../utils/file-stream';
+import type { BackupProvider, BackupType, UploadCheckpoint } from '../providers/types';
+
+// Use the default logger instance
+
+// Files every provider stores for a backup
+const ARCHIVE_NAME = 'archive.tar.gz';
+const METADATA_NAME = 'metadata.json';
+
+/**
+ * Backups with file manifests stored through one provider
+ */
+export class BackupChain {
+  private provider: BackupProvider;
+
+  /**
+   * Create backup chains on top of a provider
+   *
+   * @param provider - Provider that stores the archives
+   */
+  constructor(provider: BackupProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Create a backup with a manifest
+   *
+   * Without a parent every file is archived. With a parent only the files
+   * that changed since the parent's manifest are. Providers that can upload
+   * an archive while it is created get it streamed, other providers get it
+   * staged in a temporary file.
+   *
+   * @param options - Backup options, with the backup type, the ID of the parent backup, the compression and the checkpoint of an interrupted upload
+   * @returns Provider result with the manifest and the archive checksums of the backup, missing if the archive wasn't completed
+   * @throws Error if the parent's manifest can't be read
+   */
+  async createBackup(options: {
+    siteId: string;
+    files: string[];
+    database?: boolean;
+    metadata?: Record<string, any>;
+    backupId?: string;
+    type?: BackupType;
+    parent?: string;
+    compression?: CompressionOptions;
+    checkpoint?: UploadCheckpoint;
+    onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
+  }): Promise<Awaited<ReturnType<BackupProvider['createBackup']>> & {
+    manifest?: FileManifest;
+    checksums?: Record<string, string>;
+  }> {
+    const previous = options.parent ? await this.getManifest(options.parent) : undefined;
+
+    if (options.parent && !previous) {
+      throw new Error(`Manifest of parent backup not found: ${options.parent}`);
+    }
+
+    const manifestOptions = {
+      type: options.type,
+      parent: options.parent,
+      previous: previous || undefined,
+      compression: options.compression,
+    };
+    const codec = (options.compression || DEFAULT_COMPRESSION).codec;
+    const backupId = options.backupId || uuidv4();
+
+    if (this.provider.createStreamedBackup) {
+      const archive = await createManifestArchiveStream(options.files, manifestOptions);
+      let manifest: FileManifest | undefined;
+      let checksums: Record<string, string> | undefined;
+
+      const result = await this.provider.createStreamedBackup({
+        siteId: options.siteId,
+        files: options.files,
+        database: options.database,
+        backupId,
+        metadata: { ...options.metadata, compression: codec },
+        checkpoint: options.checkpoint,
+        onCheckpoint: options.onCheckpoint,
+        archive: {
+          stream: archive.stream,
+          completed: archive.completed.then(({ manifest: completedManifest, ...details }) => {
+            manifest = completedManifest;
+            checksums = { [ARCHIVE_NAME]: details.checksum };
+
+            return {
+              ...details,
+              metadata: {
+                type: manifest.type,
+                parent: manifest.parent,
+                checksums,
+                ...countManifestFiles(manifest),
+              },
+            };
+          }),
+        },
+      });
+
+      return { ...result, manifest, checksums };
+    }
+
+    const workDir = await createStagingDir(backupId);
+    const archivePath = path.join(workDir, ARCHIVE_NAME);
+
+    try {
+      const { manifest, ...archive } = await createManifestArchive(options.files, archivePath, manifestOptions);
+
+      const checksums = { [ARCHIVE_NAME]: archive.checksum };
+      const result = await this.provider.createBackup({
+        siteId: options.siteId,
+        files: options.files,
+        database: options.database,
+        backupId,
+        archive: { path: archivePath, ...archive },
+        checkpoint: options.checkpoint,
+        onCheckpoint: options.onCheckpoint,
+        metadata: {
+          ...options.metadata,
+          type: manifest.type,
+          parent: manifest.parent,
+          compression: codec,
+          checksums,
+          ...countManifestFiles(manifest),
+        },
+      });
+
+      return { ...result, manifest, checksums };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Read the manifest of a backup
+   *
+   * @param backupId - Backup ID
+   * @returns Manifest or null if the backup has none, e.g. because it predates manifests
+   */
+  async getManifest(backupId: string): Promise<FileManifest | null> {
+    const result = await this.provider.downloadFile(backupId, MANIFEST_ENTRY_NAME);
+
+    if (!result.success || !result.content) {
+      return null;
+    }
+
+    return JSON.parse(result.content.toString()) as FileManifest;
+  }
+
+  /**
+   * Restore a chain of backups
+   *
+   * The chain has to start with a full backup and every following backup
+   * has to build on the one before it. Files removed in a later backup are
+   * removed from the destination again.
+   *
+   * @param backupIds - Backup IDs, the full backup first
+   * @param destination - Directory to restore into
+   * @param files - Optional entries (files or directories) to restore
+   * @returns Names of the entries in the restored state
+   */
+  async restore(backupIds: string[], destination: string, files?: string[]): Promise<string[]> {
+    const root = path.resolve(destination);
+    const wanted = files && files.length > 0 ? files.map(toEntryName) : null;
+    const isWanted = (name: string) => !wanted || wanted.some(file => name === file || name.startsWith(`${file}/`));
+    let manifest: FileManifest | null = null;
+
+    await fs.mkdir(root, { recursive: true });
+
+    for (let index = 0; index < backupIds.length; index++) {
+      const backupId = backupIds[index];
+      const parent = index > 0 ? backupIds[index - 1] : undefined;
+      const replaced = manifest?.replaces;
+
+      manifest = await this.getManifest(backupId);
+
+      if (!manifest) {
+        throw new Error(`Manifest not found: ${backupId}`);
+      }
+
+      if (manifest.parent !== parent && !(replaced && manifest.parent === replaced)) {
+        throw new Error(parent
+          ? `Backup ${backupId} doesn't build on ${parent}`
+          : `Backup chain doesn't start with a full backup: ${backupId}`);
+      }
+
+      // Removed entries go first, as entries that changed type are restored again afterwards
+      for (const name of manifest.deleted.filter(isWanted)) {
+        const target = path.resolve(root, name);
+
+        if (target === root || !target.startsWith(`${root}${path.sep}`)) {
+          throw new Error(`Manifest entry outside the destination: ${name}`);
+        }
+
+        await fs.rm(target, { recursive: true, force: true });
+      }
+
+      if (manifest.changed.some(isWanted)) {
+        const result = await this.provider.restoreBackup(backupId, { destination: root, files: wanted || undefined });
+
+        if (!result.success) {
+          throw new Error(result.message || `Failed to restore backup: ${backupId}`);
+        }
+      }
+
+      logger.info(`Applied backup ${backupId} of chain`, {
+        type: manifest.type,
+        changed: manifest.changed.length,
+        deleted: manifest.deleted.length
+      });
+    }
+
+    await fs.rm(path.join(root, MANIFEST_ENTRY_NAME), { force: true });
+
+    return manifest ? manifest.entries.map(entry => entry.path).filter(isWanted) : [];
+  }
+
+  /**
+   * Merge a chain of backups into a synthetic full backup
+   *
+   * The chain is restored into a temporary directory and archived again
+   * under the same entry names, so the site isn't contacted.
+   *
+   * @param backupIds - Backup IDs, the full backup first
+   * @param options - Site ID, metadata, ID and compression of the new backup
+   * @returns Provider result with the manifest and the archive checksums of the synthetic backup
+   */
+  async synthesize(backupIds: string[], options: {
+    siteId: string;
+    metadata?: Record<string, any>;
+    backupId?: string;
+    compression?: CompressionOptions;
+  }): Promise<Awaited<ReturnType<BackupProvider['createBackup']>> & {
+    manifest: FileManifest;
+    checksums: Record<string, string>;
+  }> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backup-chain-'));
+    const restoreDir = path.join(workDir, 'restore');
+    const archivePath = path.join(workDir, ARCHIVE_NAME);
+
+    try {
+      const names = await this.restore(backupIds, restoreDir);
+      const known = new Set(names);
+
+      // Archive the top-level entries, their children are walked again
+      const files = names.filter(name => !known.has(path.posix.dirname(name)));
+
+      const { manifest, ...archive } = await createManifestArchive(files, archivePath, {
+        type: 'full',
+        replaces: backupIds[backupIds.length - 1],
+        cwd: restoreDir,
+        compression: options.compression,
+      });
+
+      const checksums = { [ARCHIVE_NAME]: archive.checksum };
+      const result = await this.provider.createBackup({
+        siteId: options.siteId,
+        files,
+        backupId: options.backupId || uuidv4(),
+        archive: { path: archivePath, ...archive },
+        metadata: {
+          ...options.metadata,
+          type: manifest.type,
+          replaces: manifest.replaces,
+          compression: (options.compression || DEFAULT_COMPRESSION).codec,
+          checksums,
+          ...countManifestFiles(manifest),
+        },
+      });
+
+      logger.info(`Merged ${backupIds.length} backups into synthetic full backup`, {
+        backupId: result.id,
+        replaces: manifest.replaces
+      });
+
+      return { ...result, manifest, checksums };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Verify a backup against the checksums recorded when it was created
+   *
+   * The archive is downloaded again into a file and compared with the
+   * SHA-256 in the metadata, so it is never held in memory as a whole. It is
+   * then extracted to compare every file it contains with the hash in its
+   * manifest. Backups that predate archive checksums are only checked
+   * against their manifest.
+   *
+   * @param backupId - Backup ID
+   * @returns Number of checked archives and files and the names of those that didn't match
+   * @throws Error if the backup can't be downloaded or extracted
+   */
+  async verify(backupId: string): Promise<{ archives: number; files: number; mismatches: string[] }> {
+    const metadataResult = await this.provider.downloadFile(backupId, METADATA_NAME);
+
+    if (!metadataResult.success || !metadataResult.content) {
+      throw new Error(metadataResult.message || `Metadata not found: ${backupId}`);
+    }
+
+    const metadata = JSON.parse(metadataResult.content.toString()).metadata || {};
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backup-chain-'));
+    const archivePath = path.join(workDir, ARCHIVE_NAME);
+    const extractDir = path.join(workDir, 'files');
+
+    try {
+      await this.downloadArchive(backupId, archivePath);
+
+      const expected: string | undefined = metadata.checksums?.[ARCHIVE_NAME];
+
+      if (expected && await calculateFileChecksum(archivePath) !== expected) {
+        return { archives: 1, files: 0, mismatches: [ARCHIVE_NAME] };
+      }
+
+      await extractArchive(archivePath, extractDir, undefined, metadata.compression);
+
+      const manifestPath = path.join(extractDir, MANIFEST_ENTRY_NAME);
+
+      if (!await fileExists(manifestPath)) {
+        throw new Error(`Manifest not found: ${backupId}`);
+      }
+
+      const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf8')) as FileManifest;
+      const changed = new Set(manifest.changed);
+      const files = manifest.entries.filter(entry => entry.type === 'file' && entry.hash && changed.has(entry.path));
+      const mismatches: string[] = [];
+
+      for (const entry of files) {
+        const filePath = path.join(extractDir, entry.path);
+
+        if (!await fileExists(filePath) || await calculateFileChecksum(filePath) !== entry.hash) {
+          mismatches.push(entry.path);
+        }
+      }
+
+      logger.info(`Verified backup ${backupId}`, {
+        archive: expected ? 'checked' : 'no checksum',
+        files: files.length,
+        mismatches: mismatches.length
+      });
+
+      return { archives: expected ? 1 : 0, files: files.length, mismatches };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Download the archive of a backup into a file
+   *
+   * Providers that can't stream the archive into the file hand it over in
+   * memory instead.
+   *
+   * @param backupId - Backup ID
+   * @param outputPath - Path to write the archive to
+   * @throws Error if the archive can't be downloaded
+   */
+  private async downloadArchive(backupId: string, outputPath: string): Promise<void> {
+    if (this.provider.downloadArchiveToFile) {
+      const result = await this.provider.downloadArchiveToFile(backupId, outputPath);
+
+      if (!result.success) {
+        throw new Error(result.message || `Archive not found: ${backupId}`);
+      }
+
+      return;
+    }
+
+    const result = await this.provider.downloadFile(backupId, ARCHIVE_NAME);
+
+    if (!result.success || !result.content) {
+      throw new Error(result.message || `Archive not found: ${backupId}`);
+    }
+
+    await fs.writeFile(outputPath, result.content);
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Backup Scheduler
+ *
+ * This module queues the backups of backup schedules in the background. Due
+ * schedules are claimed in storage before they are queued, so restarts and
+ * concurrent schedulers never fire the same run twice.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import logger from '../utils/logger';
+import { getNextRun } from '../utils/schedule';
+import { storage, type IStorage } from '../storage';
+import { backupService, type BackupService } from './backup-service';
+import { jobQueue, type JobQueue } from './job-queue';
+import type { Backup, BackupSchedule, CatchUpPolicy } from '@shared/schema';
+
+// Use the default logger instance
+
+/**
+ * Backup scheduler options
+ */
+export interface BackupSchedulerOptions {
+  /** How often to check for due schedules in milliseconds (default: 60000ms) */
+  interval?: number;
+
+  /** How late a run may start before it counts as missed in milliseconds (default: 300000ms) */
+  gracePeriod?: number;
+
+  /** Maximum number of missed runs to catch up on with the run_all policy (default: 24) */
+  maxCatchUpRuns?: number;
+}
+
+/**
+ * Default options for the backup scheduler
+ */
+const DEFAULT_OPTIONS: Required<BackupSchedulerOptions> = {
+  interval: 60 * 1000, // 1 minute
+  gracePeriod: 5 * 60 * 1000, // 5 minutes
+  maxCatchUpRuns: 24
+};
+
+/**
+ * Backup scheduler that queues the backups of due backup schedules
+ *
+ * Every scheduled run creates a backups row and queues a backup job for the
+ * backup configuration linked to the schedule. Runs missed while the server was
+ * down are handled by the schedule's catch-up policy:
+ * - skip: missed runs are dropped
+ * - run_once: one backup covers all missed runs
+ * - run_all: one backup per missed run, up to maxCatchUpRuns
+ *
+ * Schedules with a drill frequency also drill every drillFrequency-th
+ * scheduled backup; its backup job queues the restore drill once the backup
+ * completed.
+ */
+export class BackupScheduler {
+  private storage: IStorage;
+  private backupService: BackupService;
+  private jobQueue: JobQueue;
+  private options: Required<BackupSchedulerOptions>;
+  private timer?: NodeJS.Timeout;
+  private running: Set<number>;
+
+  /**
+   * Create a new backup scheduler
+   *
+   * @param scheduleStorage - Storage with the schedules and backups
+   * @param service - Backup service with the backup configurations
+   * @param queue - Job queue that runs the backups
+   * @param options - Scheduler options
+   */
+  constructor(
+    scheduleStorage: IStorage = storage,
+    service: BackupService = backupService,
+    queue: JobQueue = jobQueue,
+    options: BackupSchedulerOptions = {}
+  ) {
+    this.storage = scheduleStorage;
+    this.backupService = service;
+    this.jobQueue = queue;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.running = new Set();
+  }
+
+  /**
+   * Start checking for due schedules
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info('Starting backup scheduler', { interval: this.options.interval });
+
+    this.timer = setInterval(() => void this.tick(), this.options.interval);
+    this.timer.unref();
+
+    void this.tick();
+  }
+
+  /**
+   * Stop checking for due schedules
+   *
+   * Backups that are already queued still run.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+
+      logger.info('Backup scheduler stopped');
+    }
+  }
+
+  /**
+   * Queue the backups of all schedules that are due
+   *
+   * @param now - Current time
+   * @returns Backups created by this check, pending until their jobs run
+   */
+  async tick(now: Date = new Date()): Promise<Backup[]> {
+    let schedules: BackupSchedule[];
+
+    try {
+      schedules = await this.storage.listBackupSchedules();
+    } catch (error: unknown) {
+      logger.error('Error listing backup schedules', error);
+      return [];
+    }
+
+    const due = schedules.filter(schedule =>
+      schedule.enabled &&
+      !this.running.has(schedule.id) &&
+      (!schedule.nextRun || new Date(schedule.nextRun) <= now)
+    );
+
+    const results = await Promise.all(due.map(schedule => this.runSchedule(schedule, now)));
+
+    return results.flat();
+  }
+
+  /**
+   * Claim a due schedule and queue the backups it is due for
+   *
+   * @param schedule - Due schedule
+   * @param now - Current time
+   * @returns Created backups
+   */
+  private async runSchedule(schedule: BackupSchedule, now: Date): Promise<Backup[]> {
+    this.running.add(schedule.id);
+
+    try {
+      const expectedNextRun = schedule.nextRun ? new Date(schedule.nextRun) : null;
+      const nextRun = getNextRun(schedule, now);
+
+      // Schedules without a next run yet are only scheduled, not run
+      const runs = expectedNextRun ? this.getRunsToExecute(schedule, expectedNextRun, now) : [];
+
+      const claimed = await this.storage.claimBackupSchedule(schedule.id, expectedNextRun, {
+        lastRun: runs.length > 0 ? now : schedule.lastRun,
+        nextRun,
+      });
+
+      if (!claimed) {
+        logger.info(`Backup schedule already claimed: ${schedule.id}`);
+        return [];
+      }
+
+      if (runs.length === 0) {
+        logger.info(`Backup schedule ${schedule.id} next runs at ${nextRun.toISOString()}`);
+        return [];
+      }
+
+      const backups: Backup[] = [];
+
+      // Missed runs are caught up one after another, as jobs of one site run one at a time
+      for (const scheduledFor of runs) {
+        backups.push(await this.queueBackup(claimed, scheduledFor));
+      }
+
+      return backups;
+    } catch (error: unknown) {
+      logger.error(`Error running backup schedule: ${schedule.id}`, error);
+      return [];
+    } finally {
+      this.running.delete(schedule.id);
+    }
+  }
+
+  /**
+   * Get the scheduled times to run a backup for, oldest first
+   *
+   * @param schedule - Due schedule
+   * @param firstRun - First scheduled time that hasn't run
+   * @param now - Current time
+   * @returns Scheduled times, depending on the catch-up policy
+   */
+  private getRunsToExecute(schedule: BackupSchedule, firstRun: Date, now: Date): Date[] {
+    const dueRuns: Date[] = [];
+
+    for (let run = firstRun; run <= now; run = getNextRun(schedule, run)) {
+      dueRuns.push(run);
+    }
+
+    // The latest run isn't missed while it is within the grace period
+    const latest = dueRuns[dueRuns.length - 1];
+    const onTime = now.getTime() - latest.getTime() <= this.options.gracePeriod ? [latest] : [];
+    const missed = onTime.length > 0 ? dueRuns.slice(0, -1) : dueRuns;
+
+    if (missed.length === 0) {
+      return onTime;
+    }
+
+    const policy = (schedule.catchUpPolicy || 'run_once') as CatchUpPolicy;
+
+    logger.info(`Backup schedule ${schedule.id} missed ${missed.length} runs`, { policy });
+
+    switch (policy) {
+      case 'skip':
+        return onTime;
+      case 'run_all':
+        return [...missed, ...onTime].slice(-this.options.maxCatchUpRuns);
+      default:
+        return [dueRuns[dueRuns.length - 1]];
+    }
+  }
+
+  /**
+   * Queue one scheduled backup
+   *
+   * @param schedule - Claimed schedule
+   * @param scheduledFor - Scheduled time of the run
+   * @returns Pending backup, or the failed backup if it can't be queued
+   */
+  private async queueBackup(schedule: BackupSchedule, scheduledFor: Date): Promise<Backup> {
+    const { type, parentBackupId } = await this.getBackupType(schedule);
+
+    const backup = await this.storage.createBackup({
+      siteId: schedule.siteId,
+      storageProviderId: schedule.storageProviderId,
+      status: 'pending',
+      type,
+      parentBackupId,
+      configurationId: schedule.configurationId,
+      externalId: uuidv4(),
+      startedAt: new Date(),
+    });
+
+    logger.info(`Queueing scheduled backup ${backup.id}`, {
+      scheduleId: schedule.id,
+      siteId: schedule.siteId,
+      scheduledFor: scheduledFor.toISOString(),
+    });
+
+    const fail = async (message: string): Promise<Backup> => {
+      logger.error(`Scheduled backup failed: ${backup.id}`, { scheduleId: schedule.id, message });
+      return (await this.storage.updateBackupStatus(backup.id, 'failed', undefined, message)) || backup;
+    };
+
+    if (!schedule.configurationId) {
+      return fail('Schedule has no backup configuration');
+    }
+
+    if (!schedule.paths?.length) {
+      return fail('Schedule has no paths to back up');
+    }
+
+    try {
+      const config = await this.backupService.getConfiguration(schedule.configurationId);
+      const drill = await this.isDrillDue(schedule, backup);
+
+      await this.jobQueue.enqueue({
+        type: 'backup',
+        siteId: schedule.siteId,
+        provider: config?.provider ?? null,
+        payload: {
+          configurationId: schedule.configurationId,
+          siteId: String(schedule.siteId),
+          files: schedule.paths,
+          metadata: {
+            type,
+            backupId: backup.id,
+            scheduleId: schedule.id,
+            scheduledFor: scheduledFor.toISOString(),
+          },
+          backupId: backup.id,
+          drill,
+        },
+      });
+
+      return backup;
+    } catch (error: unknown) {
+      return fail(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  /**
+   * Check whether a scheduled backup is due for a restore drill
+   *
+   * A drill is due once drillFrequency backups of the schedule's
+   * configuration were started since the site's latest drill.
+   *
+   * @param schedule - Schedule
+   * @param backup - Backup that is about to be queued
+   * @returns Whether the backup's job should queue a drill once it completed
+   */
+  private async isDrillDue(schedule: BackupSchedule, backup: Backup): Promise<boolean> {
+    if (!schedule.drillFrequency) {
+      return false;
+    }
+
+    // A drill that can't be planned doesn't fail the backup
+    try {
+      const [latest] = await this.storage.listRestoreDrillsBySiteId(schedule.siteId, 1);
+      const since = (await this.storage.listBackupsBySiteId(schedule.siteId)).filter(candidate =>
+        candidate.configurationId === schedule.configurationId &&
+        (!latest || new Date(candidate.startedAt).getTime() > new Date(latest.startedAt).getTime())
+      );
+
+      if (since.length < schedule.drillFrequency) {
+        return false;
+      }
+
+      logger.info(`Restore drill of scheduled backup ${backup.id} is due`, { scheduleId: schedule.id });
+
+      return true;
+    } catch (error: unknown) {
+      logger.error(`Error checking for a restore drill of backup ${backup.id}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Decide whether a scheduled backup is full, differential or incremental
+   *
+   * Incremental and differential schedules take a full backup when the site
+   * has none yet in the schedule's configuration or after
+   * fullBackupFrequency backups building on it. Incremental schedules take a
+   * differential backup instead after differentialBackupFrequency
+   * incrementals, so restores never need more than the full backup, the
+   * latest differential and the incrementals since then.
+   *
+   * @param schedule - Schedule
+   * @returns Backup type and the full backup it builds on
+   */
+  private async getBackupType(schedule: BackupSchedule): Promise<{ type: string; parentBackupId: number | null }> {
+    if (schedule.backupType !== 'incremental' && schedule.backupType !== 'differential') {
+      return { type: schedule.backupType, parentBackupId: null };
+    }
+
+    const latestFull = schedule.configurationId
+      ? await this.storage.getLatestFullBackup(schedule.siteId, schedule.configurationId)
+      : undefined;
+
+    if (!latestFull) {
+      return { type: 'full', parentBackupId: null };
+    }
+
+    const dependents = (await this.storage.getBackupChain(latestFull.id)).slice(1);
+
+    if (schedule.fullBackupFrequency && dependents.length >= schedule.fullBackupFrequency) {
+      return { type: 'full', parentBackupId: null };
+    }
+
+    if (schedule.backupType === 'incremental' && schedule.differentialBackupFrequency) {
+      const types = dependents.map(backup => backup.type);
+      const sinceDifferential = types.length - 1 - types.lastIndexOf('differential');
+
+      if (sinceDifferential >= schedule.differentialBackupFrequency) {
+        return { type: 'differential', parentBackupId: latestFull.id };
+      }
+    }
+
+    return { type: schedule.backupType, parentBackupId: latestFull.id };
+  }
+}
+
+// Create singleton instance
+export const backupScheduler = new BackupScheduler();
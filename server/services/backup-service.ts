@@ -5,74 +5,260 @@
  * coordinating between the API routes and the provider implementations.
  */
 import { v4 as uuidv4 } from 'uuid';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
 import logger from '../utils/logger';
-import { BackupConfig, BackupProvider } from '../providers/types';
-import * as providerRegistry from '../providers/registry';
+import { AppError, ErrorCodes } from '../utils/error-handler';
+import { countManifestFiles, createManifestArchive } from '../utils/file-manifest';
+import { createStagingDir, DEFAULT_COMPRESSION, validateCompression, type CompressionOptions } from '../utils/file-stream';
+import { encryptObject, decryptObject } from '../security/encryption';
+import { BackupConfig, BackupProvider, BackupType, PreparedArchive, UploadCheckpoint } from '../providers/types';
+import * as providerRegistry from '../providers';
+import { storage, type IStorage } from '../storage';
+import { DedupRepository } from './dedup-repository';
+import { ArchiveKeyring, EncryptedProvider } from './archive-encryption';
+import { BackupChain } from './backup-chain';
+import type { Backup, BackupConfiguration, InsertBackupConfiguration, InsertBackupRunRecord } from '@shared/schema';
 
 // Use the default logger instance
 
+/**
+ * How long the staged archive of a backup with failed destinations is kept
+ * after its upload settled, in milliseconds
+ */
+export const STAGED_ARCHIVE_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Upload state of one destination of a backup
+ */
+export interface BackupDestinationStatus {
+  configId: string;
+  provider?: string;
+  status: 'pending' | 'uploading' | 'completed' | 'failed';
+  attempts: number;
+  location?: {
+    provider: string;
+    destination: string;
+    path: string;
+    url?: string;
+  };
+  error?: string;
+  completed?: Date;
+}
+
+/**
+ * A backup uploaded to several destinations
+ *
+ * Runs are persisted in storage, so their status can be read and failed
+ * destinations retried after a restart. The archive is kept on disk while
+ * any destination has failed so the failed destinations can be retried
+ * without archiving the site again, until it expires after
+ * STAGED_ARCHIVE_TTL. Retries after that archive the site again.
+ */
+export interface BackupRun {
+  id: string;
+  configId: string;
+  siteId: string;
+  status: 'in_progress' | 'completed' | 'partial' | 'failed';
+  options: {
+    files: string[];
+    database?: boolean;
+    metadata?: Record<string, any>;
+    compression?: CompressionOptions;
+  };
+  destinations: BackupDestinationStatus[];
+  archive?: PreparedArchive;
+  size?: number;
+  fileCount?: number;
+  // SHA-256 of the archive by name
+  checksums?: Record<string, string>;
+  created: Date;
+  updated: Date;
+}
+
+/**
+ * Result of creating a backup
+ */
+export interface BackupResult {
+  id: string;
+  success: boolean;
+  message?: string;
+  locations?: {
+    provider: string;
+    destination: string;
+    path: string;
+    url?: string;
+  }[];
+  errors?: {
+    destination?: string;
+    message: string;
+    details?: any;
+  }[];
+  size?: number;
+  fileCount?: number;
+  changedFiles?: number;
+  // SHA-256 of every stored archive by name
+  checksums?: Record<string, string>;
+  created: Date;
+  status?: BackupRun['status'];
+  destinations?: BackupDestinationStatus[];
+}
+
 /**
  * Backup service for managing backup configurations and operations
+ *
+ * Configurations are persisted through the storage layer with their provider
+ * settings encrypted, and cached in memory once loaded.
  */
 export class BackupService {
+  private storage: IStorage;
   private configStore: Map<string, BackupConfig>;
+  private configsLoaded: Promise<void>;
+  // Runs this process is uploading right now
+  private backupRuns: Map<string, BackupRun>;
+  private archiveCleanup?: { timer: NodeJS.Timeout; at: number };
+  private keyring: ArchiveKeyring;
   
   /**
    * Create a new backup service
+   * 
+   * @param configStorage - Storage to persist configurations in
    */
-  constructor() {
+  constructor(configStorage: IStorage = storage) {
+    this.storage = configStorage;
     this.configStore = new Map();
+    this.backupRuns = new Map();
+    this.keyring = new ArchiveKeyring(configStorage);
     
-    // Load configurations from storage in a real implementation
-    this.loadConfigurations();
+    this.configsLoaded = this.loadConfigurations();
   }
   
   /**
    * Load backup configurations from storage
+   * 
+   * Configurations whose settings can't be decrypted, e.g. after the
+   * encryption key changed, are skipped.
    */
-  private loadConfigurations(): void {
-    // In a real implementation, this would load from a database
-    // For now, we're using an in-memory store
+  private async loadConfigurations(): Promise<void> {
     logger.info('Loading backup configurations');
     
-    // Add sample configuration if needed for testing
-    // this.addSampleConfiguration();
+    try {
+      const records = await this.storage.listBackupConfigurations();
+      
+      for (const record of records) {
+        try {
+          this.configStore.set(record.id, await this.fromRecord(record));
+        } catch (error: unknown) {
+          logger.error(`Error loading configuration: ${record.id}`, error);
+        }
+      }
+      
+      logger.info(`Loaded ${this.configStore.size} backup configurations`);
+    } catch (error: unknown) {
+      logger.error('Error loading backup configurations', error);
+    }
   }
   
   /**
-   * Add a sample configuration for testing
+   * Convert a configuration into a storage record with encrypted settings
+   * 
+   * @param config - Backup configuration
+   * @returns Storage record
    */
-  private addSampleConfiguration(): void {
-    // This is just for development/testing
-    const sampleConfig: BackupConfig = {
-      id: 'sample-github-config',
-      provider: 'github',
-      name: 'GitHub Backup',
-      active: true,
-      settings: {
-        token: 'sample-token',
-        owner: 'sample-owner',
-        baseRepo: 'backup-repository',
-        defaultBranch: 'main'
-      },
-      schedule: {
-        frequency: 'daily',
-        hour: 3,
-        minute: 0
-      },
-      retention: {
-        count: 10,
-        days: 30
-      },
-      filters: {
-        include: ['wp-content/themes/**', 'wp-content/plugins/**'],
-        exclude: ['wp-content/cache/**', 'wp-content/uploads/backups/**']
-      },
-      created: new Date(),
-      updated: new Date()
+  private async toRecord(config: BackupConfig): Promise<InsertBackupConfiguration> {
+    return {
+      id: config.id,
+      provider: config.provider,
+      name: config.name,
+      active: config.active,
+      settings: await encryptObject(config.settings),
+      schedule: config.schedule ?? null,
+      retention: config.retention ?? null,
+      filters: config.filters ?? null,
+      compression: config.compression ?? null,
+    };
+  }
+  
+  /**
+   * Convert a storage record into a configuration with decrypted settings
+   * 
+   * @param record - Storage record
+   * @returns Backup configuration
+   */
+  private async fromRecord(record: BackupConfiguration): Promise<BackupConfig> {
+    return {
+      id: record.id,
+      provider: record.provider,
+      name: record.name,
+      active: record.active,
+      settings: await decryptObject<Record<string, any>>(record.settings),
+      schedule: (record.schedule ?? undefined) as BackupConfig['schedule'],
+      retention: (record.retention ?? undefined) as BackupConfig['retention'],
+      filters: (record.filters ?? undefined) as BackupConfig['filters'],
+      compression: (record.compression ?? undefined) as BackupConfig['compression'],
+      created: new Date(record.createdAt),
+      updated: new Date(record.updatedAt),
     };
+  }
+
+  /**
+   * Validate provider settings, throwing if they are rejected by the provider
+   * 
+   * @param provider - Provider ID
+   * @param settings - Provider settings
+   */
+  private assertValidSettings(provider: string, settings: Record<string, any>): void {
+    const validation = providerRegistry.validateProviderConfig(provider, settings);
+    
+    if (!validation.valid) {
+      throw new AppError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Invalid ${provider} configuration`,
+        validation.errors
+      );
+    }
+  }
+
+  /**
+   * Validate archive compression options, throwing if they can't be used
+   * 
+   * @param compression - Compression options
+   */
+  private assertValidCompression(compression?: CompressionOptions): void {
+    const error = compression && validateCompression(compression);
     
-    this.configStore.set(sampleConfig.id, sampleConfig);
+    if (error) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, error);
+    }
+  }
+
+  /**
+   * Check whether a configuration stores backups in a deduplicating repository
+   * 
+   * @param config - Backup configuration
+   * @returns Whether backups are stored as snapshots
+   */
+  private isDeduplicated(config: BackupConfig): boolean {
+    return config.settings?.deduplicate === true;
+  }
+
+  /**
+   * Get the provider of a configuration
+   * 
+   * Providers of configurations with `encrypt: true` in their settings are
+   * wrapped, so archives are encrypted before upload and decrypted on the
+   * way back.
+   * 
+   * @param config - Backup configuration
+   * @returns Initialized provider or undefined if initialization failed
+   */
+  private async getProvider(config: BackupConfig): Promise<BackupProvider | undefined> {
+    const provider = await providerRegistry.getProvider(config);
+    
+    return provider && config.settings?.encrypt === true
+      ? new EncryptedProvider(provider, this.keyring)
+      : provider;
   }
 
   /**
@@ -80,7 +266,8 @@ export class BackupService {
    * 
    * @returns List of backup configurations
    */
-  getAllConfigurations(): BackupConfig[] {
+  async getAllConfigurations(): Promise<BackupConfig[]> {
+    await this.configsLoaded;
     return Array.from(this.configStore.values());
   }
   
@@ -90,7 +277,8 @@ export class BackupService {
    * @param id - Configuration ID
    * @returns Backup configuration
    */
-  getConfiguration(id: string): BackupConfig | undefined {
+  async getConfiguration(id: string): Promise<BackupConfig | undefined> {
+    await this.configsLoaded;
     return this.configStore.get(id);
   }
   
@@ -99,20 +287,28 @@ export class BackupService {
    * 
    * @param config - Backup configuration
    * @returns Created backup configuration
+   * @throws AppError if the provider rejects the settings
    */
-  createConfiguration(config: Omit<BackupConfig, 'id' | 'created' | 'updated'>): BackupConfig {
+  async createConfiguration(config: Omit<BackupConfig, 'id' | 'created' | 'updated'>): Promise<BackupConfig> {
+    this.assertValidSettings(config.provider, config.settings);
+    this.assertValidCompression(config.compression);
+    await this.configsLoaded;
+    
     // Generate a unique ID
     const id = uuidv4();
     
-    // Create the configuration
+    // Persist the configuration, then cache it with the stored timestamps
+    const record = await this.storage.createBackupConfiguration(
+      await this.toRecord({ ...config, id, created: new Date(), updated: new Date() })
+    );
+    
     const newConfig: BackupConfig = {
       ...config,
       id,
-      created: new Date(),
-      updated: new Date()
+      created: new Date(record.createdAt),
+      updated: new Date(record.updatedAt)
     };
     
-    // Store the configuration
     this.configStore.set(id, newConfig);
     
     logger.info(`Created configuration: ${id}`, { provider: newConfig.provider });
@@ -126,8 +322,11 @@ export class BackupService {
    * @param id - Configuration ID
    * @param config - Updated backup configuration
    * @returns Updated backup configuration
+   * @throws AppError if the provider rejects the updated settings
    */
-  updateConfiguration(id: string, config: Partial<Omit<BackupConfig, 'id' | 'created' | 'updated'>>): BackupConfig | undefined {
+  async updateConfiguration(id: string, config: Partial<Omit<BackupConfig, 'id' | 'created' | 'updated'>>): Promise<BackupConfig | undefined> {
+    await this.configsLoaded;
+    
     // Get existing configuration
     const existingConfig = this.configStore.get(id);
     
@@ -143,8 +342,25 @@ export class BackupService {
       updated: new Date()
     };
     
-    // Store the updated configuration
+    if (config.provider !== undefined || config.settings !== undefined) {
+      this.assertValidSettings(updatedConfig.provider, updatedConfig.settings);
+    }
+    
+    this.assertValidCompression(config.compression);
+    
+    const record = await this.storage.updateBackupConfiguration(id, await this.toRecord(updatedConfig));
+    
+    if (!record) {
+      logger.warn(`Configuration not found in storage: ${id}`);
+      this.configStore.delete(id);
+      return undefined;
+    }
+    
+    updatedConfig.updated = new Date(record.updatedAt);
+    
+    // Store the updated configuration and drop the provider built from the old one
     this.configStore.set(id, updatedConfig);
+    providerRegistry.invalidateProvider(id);
     
     logger.info(`Updated configuration: ${id}`);
     
@@ -157,7 +373,9 @@ export class BackupService {
    * @param id - Configuration ID
    * @returns True if deletion was successful
    */
-  deleteConfiguration(id: string): boolean {
+  async deleteConfiguration(id: string): Promise<boolean> {
+    await this.configsLoaded;
+    
     // Check if configuration exists
     if (!this.configStore.has(id)) {
       logger.warn(`Configuration not found: ${id}`);
@@ -165,9 +383,11 @@ export class BackupService {
     }
     
     // Delete the configuration
-    const result = this.configStore.delete(id);
+    const result = await this.storage.deleteBackupConfiguration(id);
     
     if (result) {
+      this.configStore.delete(id);
+      providerRegistry.invalidateProvider(id);
       logger.info(`Deleted configuration: ${id}`);
     }
     
@@ -186,8 +406,18 @@ export class BackupService {
     details?: any;
   }> {
     try {
+      const validation = providerRegistry.validateProviderConfig(config.provider, config.settings);
+      
+      if (!validation.valid) {
+        return {
+          success: false,
+          message: `Invalid ${config.provider} configuration`,
+          details: validation.errors
+        };
+      }
+      
       // Get provider instance
-      const provider = await providerRegistry.getProvider(config);
+      const provider = await this.getProvider(config);
       
       if (!provider) {
         return {
@@ -213,13 +443,7 @@ export class BackupService {
    * 
    * @returns List of available provider types
    */
-  getAvailableProviders(): Array<{
-    id: string;
-    name: string;
-    description: string;
-    icon: string;
-    features: Record<string, boolean>;
-  }> {
+  getAvailableProviders(): providerRegistry.ProviderInfo[] {
     return providerRegistry.getAvailableProviders();
   }
   
@@ -229,27 +453,20 @@ export class BackupService {
    * @param providerId - Provider ID
    * @returns Provider configuration fields
    */
-  getProviderConfigurationFields(providerId: string): Array<{
-    name: string;
-    type: 'text' | 'password' | 'number' | 'boolean' | 'select';
-    label: string;
-    placeholder?: string;
-    required: boolean;
-    options?: { value: string; label: string }[];
-    defaultValue?: any;
-    validation?: {
-      pattern?: string;
-      min?: number;
-      max?: number;
-      message?: string;
-    };
-  }> | undefined {
+  getProviderConfigurationFields(providerId: string): providerRegistry.ProviderConfigField[] | undefined {
     return providerRegistry.getProviderConfigurationFields(providerId);
   }
   
   /**
    * Create a backup
    * 
+   * Incremental and differential backups only store the files that changed
+   * since the parent backup, which has to be stored with the same
+   * configuration. Backups stored with one configuration report the
+   * progress of their upload, and resume it from a checkpoint. Backups
+   * uploaded to several configurations are always full backups, and none of
+   * the configurations may deduplicate.
+   * 
    * @param configId - Configuration ID
    * @param options - Backup options
    * @returns Backup result
@@ -262,28 +479,16 @@ export class BackupService {
       database?: boolean;
       destinations?: string[];
       metadata?: Record<string, any>;
+      backupId?: string;
+      type?: BackupType;
+      parent?: string;
+      checkpoint?: UploadCheckpoint;
+      onCheckpoint?: (checkpoint: UploadCheckpoint) => Promise<void>;
     }
-  ): Promise<{
-    id: string;
-    success: boolean;
-    message?: string;
-    locations?: {
-      provider: string;
-      destination: string;
-      path: string;
-      url?: string;
-    }[];
-    errors?: {
-      destination?: string;
-      message: string;
-      details?: any;
-    }[];
-    size?: number;
-    created: Date;
-  }> {
+  ): Promise<BackupResult> {
     try {
       // Get configuration
-      const config = this.configStore.get(configId);
+      const config = await this.getConfiguration(configId);
       
       if (!config) {
         return {
@@ -294,8 +499,39 @@ export class BackupService {
         };
       }
       
+      // Fan out when the backup goes to other configurations as well
+      const destinations = Array.from(new Set([configId, ...(options.destinations || [])]));
+      
+      if (destinations.length > 1) {
+        // Fanned-out archives are uploaded as they are, without a parent or a repository
+        if (options.parent || (options.type && options.type !== 'full')) {
+          return {
+            id: options.backupId || uuidv4(),
+            success: false,
+            message: 'Incremental backups can only be stored with one configuration',
+            created: new Date()
+          };
+        }
+        
+        const deduplicated = destinations.find(destination => {
+          const destinationConfig = this.configStore.get(destination);
+          return destinationConfig !== undefined && this.isDeduplicated(destinationConfig);
+        });
+        
+        if (deduplicated) {
+          return {
+            id: options.backupId || uuidv4(),
+            success: false,
+            message: `Deduplicating configurations can only store backups alone: ${deduplicated}`,
+            created: new Date()
+          };
+        }
+        
+        return await this.createFanOutBackup(configId, destinations, options);
+      }
+      
       // Get provider instance - already initialized by registry
-      const provider = await providerRegistry.getProvider(config);
+      const provider = await this.getProvider(config);
       
       if (!provider) {
         return {
@@ -306,14 +542,29 @@ export class BackupService {
         };
       }
       
+      // Deduplicating configurations store snapshots instead of archives, which never store unchanged files
+      if (this.isDeduplicated(config)) {
+        return await this.createSnapshot(configId, new DedupRepository(provider, this.storage), {
+          ...options,
+          snapshotId: options.backupId
+        });
+      }
+      
       // Create backup
-      const result = await provider.createBackup(options);
+      const { manifest, ...result } = await new BackupChain(provider).createBackup({
+        ...options,
+        compression: config.compression
+      });
+      // The manifest is missing when the upload ended before the archive was complete
+      const counts = manifest ? countManifestFiles(manifest) : undefined;
       
       if (result.success) {
         logger.info(`Backup created: ${result.id}`, {
           configId,
           provider: config.provider,
-          siteId: options.siteId
+          siteId: options.siteId,
+          type: manifest?.type,
+          ...counts
         });
       } else {
         logger.error(`Backup failed: ${configId}`, {
@@ -323,7 +574,11 @@ export class BackupService {
         });
       }
       
-      return result;
+      return {
+        ...result,
+        fileCount: counts?.fileCount,
+        changedFiles: counts?.changedFiles
+      };
     } catch (error: unknown) {
       logger.error(`Error creating backup: ${configId}`, error);
       
@@ -336,6 +591,486 @@ export class BackupService {
     }
   }
   
+  /**
+   * Create a backup as a snapshot in a deduplicating repository
+   * 
+   * @param configId - Configuration ID
+   * @param repository - Repository of the configuration
+   * @param options - Backup options
+   * @returns Backup result, sized by the data the snapshot added
+   */
+  private async createSnapshot(
+    configId: string,
+    repository: DedupRepository,
+    options: {
+      siteId: string;
+      files: string[];
+      metadata?: Record<string, any>;
+      snapshotId?: string;
+    }
+  ): Promise<BackupResult> {
+    const manifest = await repository.createSnapshot(options);
+    
+    logger.info(`Snapshot created: ${manifest.id}`, {
+      configId,
+      siteId: options.siteId,
+      size: manifest.size,
+      storedSize: manifest.storedSize
+    });
+    
+    return {
+      id: manifest.id,
+      success: true,
+      message: `Snapshot created: ${manifest.fileCount} files, ${manifest.storedSize} of ${manifest.size} bytes stored`,
+      errors: manifest.errors.length > 0
+        ? manifest.errors.map(error => ({ message: `Skipped ${error.path}: ${error.message}` }))
+        : undefined,
+      size: manifest.storedSize,
+      fileCount: manifest.fileCount,
+      created: new Date(manifest.created)
+    };
+  }
+  
+  /**
+   * Create a backup once and upload it to several configurations in parallel
+   * 
+   * @param configId - Configuration ID that owns the backup
+   * @param destinations - Configuration IDs to upload to, including the owner
+   * @param options - Backup options
+   * @returns Backup result with the status of every destination
+   */
+  private async createFanOutBackup(
+    configId: string,
+    destinations: string[],
+    options: {
+      siteId: string;
+      files: string[];
+      database?: boolean;
+      metadata?: Record<string, any>;
+      backupId?: string;
+    }
+  ): Promise<BackupResult> {
+    // A backup job that runs again continues the run of its earlier attempt
+    const existing = options.backupId ? await this.loadBackupRun(options.backupId) : undefined;
+    
+    if (existing) {
+      if (this.backupRuns.has(existing.id)) {
+        throw new AppError(ErrorCodes.CONFLICT, `Backup is still uploading: ${existing.id}`);
+      }
+      
+      this.backupRuns.set(existing.id, existing);
+      
+      return this.uploadPendingDestinations(existing);
+    }
+    
+    const created = new Date();
+    const compression = this.configStore.get(configId)?.compression || DEFAULT_COMPRESSION;
+    const run: BackupRun = {
+      id: options.backupId || uuidv4(),
+      configId,
+      siteId: options.siteId,
+      status: 'in_progress',
+      options: {
+        files: options.files,
+        database: options.database,
+        metadata: { ...options.metadata, compression: compression.codec },
+        compression,
+      },
+      destinations: destinations.map(destination => ({
+        configId: destination,
+        provider: this.configStore.get(destination)?.provider,
+        status: 'pending',
+        attempts: 0,
+      })),
+      created,
+      updated: created,
+    };
+    
+    await this.storage.createBackupRun({
+      ...this.toBackupRunRecord(run),
+      createdAt: created,
+    });
+    this.backupRuns.set(run.id, run);
+    
+    return this.uploadPendingDestinations(run);
+  }
+  
+  /**
+   * Upload a backup run to all destinations that haven't completed yet
+   * 
+   * The run has to be in the active runs; it is removed from them once it
+   * settled.
+   * 
+   * @param run - Backup run
+   * @returns Backup result with the status of every destination
+   */
+  private async uploadPendingDestinations(run: BackupRun): Promise<BackupResult> {
+    try {
+      return await this.uploadRun(run);
+    } finally {
+      this.backupRuns.delete(run.id);
+    }
+  }
+  
+  /**
+   * Upload a backup run and record the status of its destinations
+   * 
+   * @param run - Backup run
+   * @returns Backup result with the status of every destination
+   */
+  private async uploadRun(run: BackupRun): Promise<BackupResult> {
+    const pending = run.destinations.filter(destination => destination.status !== 'completed');
+    
+    run.status = 'in_progress';
+    pending.forEach(destination => {
+      destination.status = 'pending';
+    });
+    await this.saveBackupRun(run);
+    
+    try {
+      // Archive the site once for all destinations
+      if (!run.archive) {
+        const workDir = await createStagingDir(run.id);
+        const archivePath = path.join(workDir, 'archive.tar.gz');
+        
+        try {
+          const { manifest, ...archive } = await createManifestArchive(run.options.files, archivePath, {
+            compression: run.options.compression
+          });
+          run.archive = { path: archivePath, ...archive };
+          run.fileCount = countManifestFiles(manifest).fileCount;
+          run.size = archive.size;
+          run.checksums = { [path.basename(archivePath)]: archive.checksum };
+        } catch (error: unknown) {
+          await fs.rm(workDir, { recursive: true, force: true });
+          throw error;
+        }
+      }
+      
+      await Promise.all(pending.map(destination => this.uploadToDestination(run, destination)));
+    } catch (error: unknown) {
+      logger.error(`Error creating backup archive: ${run.id}`, error);
+      
+      pending
+        .filter(destination => destination.status !== 'completed')
+        .forEach(destination => {
+          destination.status = 'failed';
+          destination.error = `Error creating backup archive: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        });
+    }
+    
+    const completed = run.destinations.filter(destination => destination.status === 'completed').length;
+    
+    if (completed === run.destinations.length) {
+      run.status = 'completed';
+    } else {
+      run.status = completed > 0 ? 'partial' : 'failed';
+    }
+    
+    run.updated = new Date();
+    
+    // Keep the archive only while failed destinations may still be retried
+    if (run.status === 'completed' && run.archive) {
+      await fs.rm(path.dirname(run.archive.path), { recursive: true, force: true });
+      run.archive = undefined;
+    }
+    
+    await this.saveBackupRun(run);
+    
+    if (run.archive) {
+      this.scheduleArchiveCleanup(run.updated.getTime() + STAGED_ARCHIVE_TTL);
+    }
+    
+    logger.info(`Backup ${run.id} uploaded to ${completed} of ${run.destinations.length} destinations`, {
+      siteId: run.siteId,
+      status: run.status,
+    });
+    
+    return this.toBackupResult(run);
+  }
+  
+  /**
+   * Upload the archive of a backup run to one destination
+   * 
+   * @param run - Backup run
+   * @param destination - Destination to upload to
+   */
+  private async uploadToDestination(run: BackupRun, destination: BackupDestinationStatus): Promise<void> {
+    destination.status = 'uploading';
+    destination.attempts++;
+    destination.error = undefined;
+    
+    try {
+      const config = await this.getConfiguration(destination.configId);
+      
+      if (!config) {
+        throw new Error(`Configuration not found: ${destination.configId}`);
+      }
+      
+      const provider = await this.getProvider(config);
+      
+      if (!provider) {
+        throw new Error(`Provider not found or initialization failed: ${config.provider}`);
+      }
+      
+      destination.provider = config.provider;
+      
+      const result = await provider.createBackup({
+        siteId: run.siteId,
+        files: run.options.files,
+        database: run.options.database,
+        metadata: { ...run.options.metadata, checksums: run.checksums },
+        backupId: run.id,
+        archive: run.archive,
+      });
+      
+      if (!result.success) {
+        throw new Error(result.message || 'Upload failed');
+      }
+      
+      destination.status = 'completed';
+      destination.location = result.locations?.[0];
+      destination.completed = new Date();
+    } catch (error: unknown) {
+      logger.error(`Error uploading backup ${run.id} to ${destination.configId}`, error);
+      
+      destination.status = 'failed';
+      destination.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+  
+  /**
+   * Build the backup result of a backup run
+   * 
+   * @param run - Backup run
+   * @returns Backup result
+   */
+  private toBackupResult(run: BackupRun): BackupResult {
+    const completed = run.destinations.filter(destination => destination.status === 'completed');
+    const failed = run.destinations.filter(destination => destination.status === 'failed');
+    
+    return {
+      id: run.id,
+      success: completed.length > 0,
+      message: failed.length === 0
+        ? `Backup uploaded to ${completed.length} destinations`
+        : `Backup uploaded to ${completed.length} of ${run.destinations.length} destinations`,
+      locations: completed
+        .filter(destination => destination.location)
+        .map(destination => destination.location!),
+      errors: failed.map(destination => ({
+        destination: destination.configId,
+        message: destination.error || 'Upload failed',
+      })),
+      size: run.size,
+      fileCount: run.fileCount,
+      checksums: run.checksums,
+      created: run.created,
+      status: run.status,
+      destinations: run.destinations.map(destination => ({ ...destination })),
+    };
+  }
+  
+  /**
+   * Record the state of a backup run in storage
+   * 
+   * @param run - Backup run
+   */
+  private async saveBackupRun(run: BackupRun): Promise<void> {
+    await this.storage.updateBackupRun(run.id, this.toBackupRunRecord(run));
+  }
+  
+  /**
+   * Build the storage record of a backup run
+   * 
+   * @param run - Backup run
+   * @returns Record without its timestamps
+   */
+  private toBackupRunRecord(run: BackupRun): Omit<InsertBackupRunRecord, 'createdAt'> {
+    return {
+      id: run.id,
+      configurationId: run.configId,
+      siteId: run.siteId,
+      status: run.status,
+      options: run.options,
+      destinations: run.destinations.map(destination => ({ ...destination })),
+      archive: run.archive ? { ...run.archive } : null,
+      size: run.size ?? null,
+      fileCount: run.fileCount ?? null,
+      checksums: run.checksums ?? null,
+    };
+  }
+  
+  /**
+   * Load a backup run from the active runs or from storage
+   * 
+   * Stored runs that are still in progress were interrupted by a restart,
+   * so their unfinished destinations count as failed.
+   * 
+   * @param backupId - Backup ID
+   * @returns Backup run or undefined if the backup wasn't fanned out
+   */
+  private async loadBackupRun(backupId: string): Promise<BackupRun | undefined> {
+    const active = this.backupRuns.get(backupId);
+    
+    if (active) {
+      return active;
+    }
+    
+    const record = await this.storage.getBackupRun(backupId);
+    
+    if (!record) {
+      return undefined;
+    }
+    
+    const run: BackupRun = {
+      id: record.id,
+      configId: record.configurationId,
+      siteId: record.siteId,
+      status: record.status as BackupRun['status'],
+      options: record.options as BackupRun['options'],
+      destinations: record.destinations as BackupDestinationStatus[],
+      archive: (record.archive as PreparedArchive | null) || undefined,
+      size: record.size ?? undefined,
+      fileCount: record.fileCount ?? undefined,
+      checksums: (record.checksums as Record<string, string> | null) || undefined,
+      created: new Date(record.createdAt),
+      updated: new Date(record.updatedAt),
+    };
+    
+    if (run.status === 'in_progress') {
+      run.destinations
+        .filter(destination => destination.status !== 'completed')
+        .forEach(destination => {
+          destination.status = 'failed';
+          destination.error = 'Interrupted by a server restart';
+        });
+      run.status = run.destinations.some(destination => destination.status === 'completed') ? 'partial' : 'failed';
+    }
+    
+    return run;
+  }
+  
+  /**
+   * Get the status of a backup uploaded to several destinations
+   * 
+   * @param backupId - Backup ID
+   * @returns Backup run or undefined if the backup wasn't fanned out
+   */
+  async getBackupRun(backupId: string): Promise<BackupRun | undefined> {
+    return this.loadBackupRun(backupId);
+  }
+  
+  /**
+   * Remove the staged archives of backup runs that expired
+   * 
+   * Archives are kept for STAGED_ARCHIVE_TTL after their run settled. The
+   * next cleanup is scheduled for the archive that expires first.
+   * 
+   * @param now - Current time
+   * @returns Number of removed archives
+   */
+  async removeExpiredArchives(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    let nextExpiry: number | undefined;
+    
+    try {
+      const runs = await this.storage.listBackupRunsByStatus(['partial', 'failed']);
+      
+      for (const record of runs) {
+        const archive = record.archive as PreparedArchive | null;
+        
+        if (!archive || this.backupRuns.has(record.id)) {
+          continue;
+        }
+        
+        const expiry = new Date(record.updatedAt).getTime() + STAGED_ARCHIVE_TTL;
+        
+        if (expiry > now.getTime()) {
+          nextExpiry = Math.min(nextExpiry ?? expiry, expiry);
+          continue;
+        }
+        
+        await fs.rm(path.dirname(archive.path), { recursive: true, force: true });
+        await this.storage.updateBackupRun(record.id, { archive: null });
+        removed++;
+      }
+    } catch (error: unknown) {
+      logger.error('Error removing expired backup archives', error);
+    }
+    
+    if (removed > 0) {
+      logger.info(`Removed ${removed} expired backup archives`);
+    }
+    
+    if (nextExpiry !== undefined) {
+      this.scheduleArchiveCleanup(nextExpiry);
+    }
+    
+    return removed;
+  }
+  
+  /**
+   * Schedule the removal of expired archives
+   * 
+   * An earlier scheduled cleanup is kept, as it reschedules itself for the
+   * archives that expire later.
+   * 
+   * @param at - Time the next archive expires in milliseconds
+   */
+  private scheduleArchiveCleanup(at: number): void {
+    if (this.archiveCleanup && this.archiveCleanup.at <= at) {
+      return;
+    }
+    
+    if (this.archiveCleanup) {
+      clearTimeout(this.archiveCleanup.timer);
+    }
+    
+    const timer = setTimeout(() => {
+      this.archiveCleanup = undefined;
+      void this.removeExpiredArchives();
+    }, Math.max(at - Date.now(), 0));
+    timer.unref();
+    
+    this.archiveCleanup = { timer, at };
+  }
+  
+  /**
+   * Retry the failed destinations of a backup
+   * 
+   * Completed destinations are left alone. The archive is reused when it is
+   * still on disk and archived again from the files of the stored run
+   * otherwise.
+   * 
+   * @param backupId - Backup ID
+   * @returns Backup result, or undefined if the backup wasn't fanned out
+   */
+  async retryFailedDestinations(backupId: string): Promise<BackupResult | undefined> {
+    const run = await this.loadBackupRun(backupId);
+    
+    if (!run) {
+      logger.warn(`Backup run not found: ${backupId}`);
+      return undefined;
+    }
+    
+    if (this.backupRuns.has(run.id)) {
+      throw new AppError(ErrorCodes.CONFLICT, `Backup is still uploading: ${backupId}`);
+    }
+    
+    if (run.status === 'completed') {
+      return this.toBackupResult(run);
+    }
+    
+    if (run.archive && !(await fs.stat(run.archive.path).catch(() => null))) {
+      run.archive = undefined;
+    }
+    
+    this.backupRuns.set(run.id, run);
+    
+    return this.uploadPendingDestinations(run);
+  }
+  
   /**
    * List backups
    * 
@@ -369,7 +1104,7 @@ export class BackupService {
   }> {
     try {
       // Get configuration
-      const config = this.configStore.get(configId);
+      const config = await this.getConfiguration(configId);
       
       if (!config) {
         logger.warn(`Configuration not found: ${configId}`);
@@ -377,7 +1112,7 @@ export class BackupService {
       }
       
       // Get provider instance - already initialized by registry
-      const provider = await providerRegistry.getProvider(config);
+      const provider = await this.getProvider(config);
       
       if (!provider) {
         logger.warn(`Provider not found or initialization failed: ${config.provider}`);
@@ -385,7 +1120,15 @@ export class BackupService {
       }
       
       // List backups
-      return await provider.listBackups(options);
+      const result = await provider.listBackups(options);
+      
+      // Packs of a deduplicating repository aren't backups by themselves
+      if (this.isDeduplicated(config)) {
+        const backups = result.backups.filter(backup => backup.metadata?.repository !== 'pack');
+        return { backups, total: result.total - (result.backups.length - backups.length) };
+      }
+      
+      return result;
     } catch (error: unknown) {
       logger.error(`Error listing backups: ${configId}`, error);
       return { backups: [], total: 0 };
@@ -422,7 +1165,7 @@ export class BackupService {
   } | null> {
     try {
       // Get configuration
-      const config = this.configStore.get(configId);
+      const config = await this.getConfiguration(configId);
       
       if (!config) {
         logger.warn(`Configuration not found: ${configId}`);
@@ -430,7 +1173,7 @@ export class BackupService {
       }
       
       // Get provider instance - already initialized by registry
-      const provider = await providerRegistry.getProvider(config);
+      const provider = await this.getProvider(config);
       
       if (!provider) {
         logger.warn(`Provider not found or initialization failed: ${config.provider}`);
@@ -461,7 +1204,7 @@ export class BackupService {
   }> {
     try {
       // Get configuration
-      const config = this.configStore.get(configId);
+      const config = await this.getConfiguration(configId);
       
       if (!config) {
         return {
@@ -471,7 +1214,7 @@ export class BackupService {
       }
       
       // Get provider instance - already initialized by registry
-      const provider = await providerRegistry.getProvider(config);
+      const provider = await this.getProvider(config);
       
       if (!provider) {
         return {
@@ -480,8 +1223,13 @@ export class BackupService {
         };
       }
       
+      // Snapshots release their chunks for pruning
+      const repository = this.isDeduplicated(config) ? new DedupRepository(provider, this.storage) : undefined;
+      
       // Delete backup
-      const result = await provider.deleteBackup(backupId);
+      const result = repository && await repository.getSnapshot(backupId)
+        ? await repository.deleteSnapshot(backupId)
+        : await provider.deleteBackup(backupId);
       
       if (result.success) {
         logger.info(`Backup deleted: ${configId}/${backupId}`);
@@ -525,7 +1273,7 @@ export class BackupService {
   }> {
     try {
       // Get configuration
-      const config = this.configStore.get(configId);
+      const config = await this.getConfiguration(configId);
       
       if (!config) {
         return {
@@ -535,7 +1283,7 @@ export class BackupService {
       }
       
       // Get provider instance - already initialized by registry
-      const provider = await providerRegistry.getProvider(config);
+      const provider = await this.getProvider(config);
       
       if (!provider) {
         return {
@@ -544,8 +1292,12 @@ export class BackupService {
         };
       }
       
+      const repository = this.isDeduplicated(config) ? new DedupRepository(provider, this.storage) : undefined;
+      
       // Restore backup
-      const result = await provider.restoreBackup(backupId, options);
+      const result = repository && await repository.getSnapshot(backupId)
+        ? await this.restoreSnapshot(repository, backupId, options)
+        : await provider.restoreBackup(backupId, options);
       
       if (result.success) {
         logger.info(`Backup restored: ${configId}/${backupId}`, {
@@ -570,6 +1322,409 @@ export class BackupService {
     }
   }
   
+  /**
+   * Verify a backup end to end
+   * 
+   * The backup is downloaded from the provider again and its archive and
+   * files are compared with the SHA-256 checksums recorded when it was
+   * created. Snapshots of deduplicating repositories are restored into a
+   * scratch directory, which checks the hash of every chunk.
+   * 
+   * @param configId - Configuration ID
+   * @param backupId - Backup ID
+   * @returns Verification result with the number of checked archives and files
+   */
+  async verifyBackup(configId: string, backupId: string): Promise<{
+    success: boolean;
+    message?: string;
+    details?: {
+      archives: number;
+      files: number;
+      mismatches: string[];
+    };
+  }> {
+    try {
+      const config = await this.getConfiguration(configId);
+      
+      if (!config) {
+        return {
+          success: false,
+          message: `Configuration not found: ${configId}`
+        };
+      }
+      
+      const provider = await this.getProvider(config);
+      
+      if (!provider) {
+        return {
+          success: false,
+          message: `Provider not found or initialization failed: ${config.provider}`
+        };
+      }
+      
+      const repository = this.isDeduplicated(config) ? new DedupRepository(provider, this.storage) : undefined;
+      
+      if (repository && await repository.getSnapshot(backupId)) {
+        const { details } = await this.restoreSnapshot(repository, backupId, {});
+        
+        return {
+          success: true,
+          message: `Backup verified: ${backupId} (${details.files.length} files)`,
+          details: { archives: 0, files: details.files.length, mismatches: [] }
+        };
+      }
+      
+      const details = await new BackupChain(provider).verify(backupId);
+      
+      if (details.mismatches.length > 0) {
+        logger.warn(`Backup failed verification: ${configId}/${backupId}`, { mismatches: details.mismatches });
+        
+        return {
+          success: false,
+          message: `Backup failed verification: ${details.mismatches.length} checksums don't match`,
+          details
+        };
+      }
+      
+      return {
+        success: true,
+        message: `Backup verified: ${backupId} (${details.files} files)`,
+        details
+      };
+    } catch (error: unknown) {
+      logger.error(`Error verifying backup: ${configId}/${backupId}`, error);
+      
+      return {
+        success: false,
+        message: `Error verifying backup: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+  
+  /**
+   * Restore a snapshot of a deduplicating repository
+   * 
+   * Without a destination the snapshot is restored into a scratch directory
+   * and removed again, which checks that every chunk can be read.
+   * 
+   * @param repository - Repository of the configuration
+   * @param snapshotId - Snapshot ID
+   * @param options - Restore options
+   * @returns Restore result
+   */
+  private async restoreSnapshot(
+    repository: DedupRepository,
+    snapshotId: string,
+    options: {
+      destination?: string;
+      files?: string[];
+    }
+  ): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    const restoreDir = options.destination || await fs.mkdtemp(path.join(os.tmpdir(), 'snapshot-restore-'));
+    
+    try {
+      const files = await repository.restoreSnapshot(snapshotId, restoreDir, options.files);
+      
+      return {
+        success: true,
+        message: `Snapshot restored: ${snapshotId} (${files.length} files)`,
+        details: {
+          destination: options.destination,
+          files
+        }
+      };
+    } finally {
+      if (!options.destination) {
+        await fs.rm(restoreDir, { recursive: true, force: true });
+      }
+    }
+  }
+  
+  /**
+   * Pick the backups of a chain that restore one of them
+   *
+   * @param chain - Backups of the chain, oldest first
+   * @param target - Backup to restore
+   * @returns Backups to apply, the full backup first
+   */
+  private selectChainBackups(chain: Backup[], target: Backup): Backup[] {
+    // A differential backup contains every change since the full backup, so nothing in between is needed
+    return chain
+      .filter(backup =>
+        backup.id === target.id ||
+        (backup.status === 'completed' && new Date(backup.startedAt).getTime() <= new Date(target.startedAt).getTime())
+      )
+      .reduce<Backup[]>((needed, backup) =>
+        backup.type === 'differential' ? [...needed.slice(0, 1), backup] : [...needed, backup], []);
+  }
+
+  /**
+   * Restore a backup together with the backups it builds on
+   *
+   * The chain comes from the backups table: the full backup, the latest
+   * completed differential backup and every completed incremental backup
+   * since then up to the requested one, oldest first.
+   * Without a destination the chain is restored into a scratch directory
+   * and removed again, which checks that every backup can be applied.
+   *
+   * @param backupId - ID of the backups row to restore
+   * @param options - Restore options
+   * @returns Restore result
+   */
+  async restoreBackupChain(
+    backupId: number,
+    options: {
+      destination?: string;
+      files?: string[];
+    }
+  ): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    try {
+      const chain = await this.storage.getBackupChain(backupId);
+      const target = chain.find(backup => backup.id === backupId);
+
+      if (!target) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`
+        };
+      }
+
+      const backups = this.selectChainBackups(chain, target);
+      const unrestorable = backups.find(backup =>
+        !backup.externalId || !backup.configurationId || backup.configurationId !== target.configurationId
+      );
+
+      if (target.status !== 'completed' || unrestorable) {
+        return {
+          success: false,
+          message: `Backup ${unrestorable?.id ?? target.id} of the chain can't be restored`
+        };
+      }
+
+      const config = await this.getConfiguration(target.configurationId!);
+      const provider = config && await this.getProvider(config);
+
+      if (!provider) {
+        return {
+          success: false,
+          message: `Configuration not found or initialization failed: ${target.configurationId}`
+        };
+      }
+
+      const restoreDir = options.destination || await fs.mkdtemp(path.join(os.tmpdir(), 'chain-restore-'));
+
+      try {
+        const files = await new BackupChain(provider).restore(
+          backups.map(backup => backup.externalId!),
+          restoreDir,
+          options.files
+        );
+
+        logger.info(`Backup chain restored: ${backupId}`, {
+          backups: backups.map(backup => backup.id),
+          destination: options.destination
+        });
+
+        return {
+          success: true,
+          message: `Backup chain restored: ${backups.length} backups (${files.length} files)`,
+          details: {
+            destination: options.destination,
+            backups: backups.map(backup => backup.id),
+            files
+          }
+        };
+      } finally {
+        if (!options.destination) {
+          await fs.rm(restoreDir, { recursive: true, force: true });
+        }
+      }
+    } catch (error: unknown) {
+      logger.error(`Error restoring backup chain: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error restoring backup chain: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Merge a backup and the backups it builds on into a synthetic full backup
+   *
+   * The chain is restored from the provider and archived again as a new
+   * full backup, without contacting the site. The new backups row takes the
+   * start time of the merged backup, and later incremental backups of the
+   * chain are moved onto it, so the old chain isn't needed any more and
+   * retention can remove it.
+   *
+   * @param backupId - ID of the backups row to merge up to
+   * @returns Result with the ID of the new backups row
+   */
+  async synthesizeFullBackup(backupId: number): Promise<{
+    success: boolean;
+    message?: string;
+    details?: any;
+  }> {
+    try {
+      const chain = await this.storage.getBackupChain(backupId);
+      const target = chain.find(backup => backup.id === backupId);
+
+      if (!target) {
+        return {
+          success: false,
+          message: `Backup not found: ${backupId}`
+        };
+      }
+
+      const backups = this.selectChainBackups(chain, target);
+      const unrestorable = backups.find(backup =>
+        !backup.externalId || !backup.configurationId || backup.configurationId !== target.configurationId
+      );
+
+      if (target.status !== 'completed' || unrestorable) {
+        return {
+          success: false,
+          message: `Backup ${unrestorable?.id ?? target.id} of the chain can't be restored`
+        };
+      }
+
+      if (backups.length < 2) {
+        return {
+          success: false,
+          message: `Backup ${target.id} doesn't build on other backups`
+        };
+      }
+
+      // Later backups build on the merged one, except differential backups, which build on the old full backup
+      const later = chain.filter(backup =>
+        new Date(backup.startedAt).getTime() > new Date(target.startedAt).getTime()
+      );
+      const differential = later.find(backup => backup.type === 'differential');
+
+      if (differential) {
+        return {
+          success: false,
+          message: `Differential backup ${differential.id} builds on the chain after backup ${target.id}`
+        };
+      }
+
+      const config = await this.getConfiguration(target.configurationId!);
+      const provider = config && await this.getProvider(config);
+
+      if (!provider) {
+        return {
+          success: false,
+          message: `Configuration not found or initialization failed: ${target.configurationId}`
+        };
+      }
+
+      const synthetic = await this.storage.createBackup({
+        siteId: target.siteId,
+        storageProviderId: target.storageProviderId,
+        status: 'in_progress',
+        type: 'full',
+        configurationId: target.configurationId,
+        externalId: uuidv4(),
+        startedAt: target.startedAt,
+      });
+
+      try {
+        const result = await new BackupChain(provider).synthesize(
+          backups.map(backup => backup.externalId!),
+          {
+            siteId: String(target.siteId),
+            backupId: synthetic.externalId!,
+            metadata: { synthetic: true },
+            compression: config?.compression
+          }
+        );
+
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to store synthetic backup');
+        }
+
+        const { fileCount, changedFiles } = countManifestFiles(result.manifest);
+        await this.storage.updateBackup(synthetic.id, { checksums: result.checksums });
+        await this.storage.updateBackupStatus(synthetic.id, 'completed', result.size, undefined, fileCount, changedFiles);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await this.storage.updateBackupStatus(synthetic.id, 'failed', undefined, message);
+        throw error;
+      }
+
+      for (const backup of later) {
+        await this.storage.updateBackup(backup.id, { parentBackupId: synthetic.id });
+      }
+
+      logger.info(`Synthetic full backup created: ${synthetic.id}`, {
+        backups: backups.map(backup => backup.id),
+        reparented: later.map(backup => backup.id)
+      });
+
+      return {
+        success: true,
+        message: `Synthetic full backup created from ${backups.length} backups`,
+        details: {
+          backupId: synthetic.id,
+          backups: backups.map(backup => backup.id),
+          reparented: later.map(backup => backup.id)
+        }
+      };
+    } catch (error: unknown) {
+      logger.error(`Error creating synthetic full backup: ${backupId}`, error);
+
+      return {
+        success: false,
+        message: `Error creating synthetic full backup: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * Remove chunks and packs no snapshot uses any more from a deduplicating repository
+   * 
+   * @param configId - Configuration ID
+   * @returns Pruned chunks and packs or null if the configuration doesn't deduplicate
+   */
+  async pruneRepository(configId: string): Promise<{ chunks: number; packs: number; size: number } | null> {
+    const config = await this.getConfiguration(configId);
+    
+    if (!config || !this.isDeduplicated(config)) {
+      return null;
+    }
+    
+    const provider = await this.getProvider(config);
+    
+    if (!provider) {
+      throw new Error(`Provider not found or initialization failed: ${config.provider}`);
+    }
+    
+    return new DedupRepository(provider, this.storage).prune();
+  }
+
+  /**
+   * Rotate the key a site's backups are encrypted with
+   * 
+   * Backups created from now on use the new key. Older backups record the
+   * ID of the key they were encrypted with and stay readable.
+   * 
+   * @param siteId - Site ID
+   * @returns ID of the new key
+   */
+  async rotateEncryptionKey(siteId: string): Promise<string> {
+    const { id } = await this.keyring.rotateKey(siteId);
+    return id;
+  }
+  
   /**
    * Download a file from a backup
    * 
@@ -591,7 +1746,7 @@ export class BackupService {
   }> {
     try {
       // Get configuration
-      const config = this.configStore.get(configId);
+      const config = await this.getConfiguration(configId);
       
       if (!config) {
         return {
@@ -601,7 +1756,7 @@ export class BackupService {
       }
       
       // Get provider instance - already initialized by registry
-      const provider = await providerRegistry.getProvider(config);
+      const provider = await this.getProvider(config);
       
       if (!provider) {
         return {
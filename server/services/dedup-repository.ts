@@ -0,0 +1,719 @@
+/**
+ * Deduplicating Backup Repository
+ *
+ * This module stores backups as snapshots of content-defined chunks on top
+ * of any backup provider. Each chunk is stored once per configuration, keyed
+ * by its SHA-256 hash, so unchanged files cost nothing in later backups.
+ *
+ * Everything is stored as regular provider backups:
+ * - packs: archives of new chunks, stored under the `repository` site
+ * - snapshots: an archive with a `manifest.json` describing the files of a
+ *   backup and the chunks they are made of, stored under the backed up site
+ *
+ * The chunk index lives in storage and counts the snapshots referencing each
+ * chunk. Deleting a snapshot releases its chunks and pruning removes chunks
+ * no snapshot uses any more, along with packs that have no chunks left.
+ */
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs, Stats } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import * as tar from 'tar';
+import logger from '../utils/logger';
+import { toEntryName, extractArchive, type ArchiveError } from '../utils/archive';
+import { chunkStream, type ChunkerOptions } from '../utils/chunker';
+import { storage, type IStorage } from '../storage';
+import type { BackupProvider, PreparedArchive } from '../providers/types';
+
+// Use the default logger instance
+
+/**
+ * Site ID that packs are stored under
+ */
+export const REPOSITORY_SITE_ID = 'repository';
+
+const MANIFEST_NAME = 'manifest.json';
+const ARCHIVE_NAME = 'archive.tar.gz';
+const MANIFEST_VERSION = 1;
+
+/**
+ * File, directory or symlink in a snapshot
+ */
+export interface SnapshotEntry {
+  path: string;
+  type: 'file' | 'directory' | 'symlink';
+  mode: number;
+  mtime: string;
+  size: number;
+  /** Chunk hashes that make up the file content, in order */
+  chunks?: string[];
+  /** Link target of symlinks */
+  target?: string;
+}
+
+/**
+ * Manifest describing one backup in the repository
+ */
+export interface SnapshotManifest {
+  version: number;
+  id: string;
+  siteId: string;
+  created: string;
+  metadata: Record<string, any>;
+  /** Total size of the files in bytes */
+  size: number;
+  /** Size of the packs this snapshot added to the repository in bytes */
+  storedSize: number;
+  fileCount: number;
+  entries: SnapshotEntry[];
+  /** Files that couldn't be read and were left out */
+  errors: ArchiveError[];
+}
+
+/**
+ * Deduplicating repository options
+ */
+export interface DedupRepositoryOptions {
+  /** Chunk sizes */
+  chunker?: ChunkerOptions;
+
+  /** Size of new chunks to collect before storing them as a pack in bytes (default: 16 MiB) */
+  packSize?: number;
+
+  /** Number of new chunks to look up in the index at once (default: 64) */
+  lookupBatchSize?: number;
+}
+
+/**
+ * Default options for the repository
+ */
+const DEFAULT_OPTIONS: Required<Omit<DedupRepositoryOptions, 'chunker'>> = {
+  packSize: 16 * 1024 * 1024, // 16 MiB
+  lookupBatchSize: 64
+};
+
+/**
+ * State of a snapshot being written
+ */
+interface SnapshotWriter {
+  workDir: string;
+  /** Chunks this snapshot holds a reference to */
+  referenced: Set<string>;
+  /** Chunks waiting to be looked up in the index */
+  pending: Map<string, Buffer>;
+  /** New chunks collected for the next pack */
+  pack: Map<string, number>;
+  packSize: number;
+  storedSize: number;
+}
+
+/**
+ * Hash chunk content
+ *
+ * @param data - Chunk content
+ * @returns Hex encoded SHA-256 hash
+ */
+function hashChunk(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Deduplicating repository stored through a backup provider
+ */
+export class DedupRepository {
+  private provider: BackupProvider;
+  private storage: IStorage;
+  private options: Required<Omit<DedupRepositoryOptions, 'chunker'>>;
+  private chunkerOptions: ChunkerOptions;
+
+  /**
+   * Create a repository on top of a provider
+   *
+   * @param provider - Initialized provider that stores packs and snapshots
+   * @param indexStorage - Storage with the chunk index
+   * @param options - Repository options
+   */
+  constructor(provider: BackupProvider, indexStorage: IStorage = storage, options: DedupRepositoryOptions = {}) {
+    this.provider = provider;
+    this.storage = indexStorage;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.chunkerOptions = options.chunker || {};
+  }
+
+  /**
+   * Configuration ID that keys the chunk index
+   */
+  private get configurationId(): string {
+    return this.provider.getConfig().id;
+  }
+
+  /**
+   * Back up files as a new snapshot
+   *
+   * Directories are walked recursively. As in archives, symlinks below the
+   * given paths are stored as links and files that can't be read are
+   * skipped and reported in the manifest.
+   *
+   * @param options - Site, files and metadata of the backup
+   * @returns Manifest of the stored snapshot
+   * @throws Error if chunks or the manifest can't be stored
+   */
+  async createSnapshot(options: {
+    siteId: string;
+    files: string[];
+    metadata?: Record<string, any>;
+    snapshotId?: string;
+  }): Promise<SnapshotManifest> {
+    const writer: SnapshotWriter = {
+      workDir: await fs.mkdtemp(path.join(os.tmpdir(), 'dedup-snapshot-')),
+      referenced: new Set(),
+      pending: new Map(),
+      pack: new Map(),
+      packSize: 0,
+      storedSize: 0
+    };
+
+    const manifest: SnapshotManifest = {
+      version: MANIFEST_VERSION,
+      id: options.snapshotId || uuidv4(),
+      siteId: options.siteId,
+      created: new Date().toISOString(),
+      metadata: options.metadata || {},
+      size: 0,
+      storedSize: 0,
+      fileCount: 0,
+      entries: [],
+      errors: []
+    };
+
+    try {
+      for (const file of options.files) {
+        await this.addPath(writer, manifest, file, toEntryName(file), [], true);
+      }
+
+      await this.flushPending(writer);
+      await this.storePack(writer);
+
+      // Chunks of files that failed halfway aren't part of the snapshot
+      const used = new Set(manifest.entries.flatMap(entry => entry.chunks || []));
+      const unused = Array.from(writer.referenced).filter(hash => !used.has(hash));
+
+      await this.storage.releaseRepositoryChunks(this.configurationId, unused);
+      unused.forEach(hash => writer.referenced.delete(hash));
+
+      manifest.storedSize = writer.storedSize;
+      await this.storeManifest(writer, manifest);
+
+      logger.info(`Snapshot stored: ${manifest.id}`, {
+        siteId: manifest.siteId,
+        files: manifest.fileCount,
+        size: manifest.size,
+        storedSize: manifest.storedSize
+      });
+
+      return manifest;
+    } catch (error: unknown) {
+      logger.error(`Error storing snapshot: ${manifest.id}`, error);
+
+      // Let pruning clean up the chunks stored so far
+      try {
+        await this.storage.releaseRepositoryChunks(this.configurationId, Array.from(writer.referenced));
+      } catch (releaseError: unknown) {
+        logger.error(`Error releasing chunks of snapshot: ${manifest.id}`, releaseError);
+      }
+
+      throw error;
+    } finally {
+      await fs.rm(writer.workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Add a file, directory or symlink to a snapshot
+   *
+   * @param writer - Snapshot being written
+   * @param manifest - Manifest being written
+   * @param filePath - Path on disk
+   * @param name - Entry name in the snapshot
+   * @param ancestors - Real paths of the directories above, to detect loops
+   * @param follow - Whether to follow a symlink at this path
+   */
+  private async addPath(
+    writer: SnapshotWriter,
+    manifest: SnapshotManifest,
+    filePath: string,
+    name: string,
+    ancestors: string[],
+    follow = false
+  ): Promise<void> {
+    let stats: Stats;
+
+    try {
+      stats = follow ? await fs.stat(filePath) : await fs.lstat(filePath);
+    } catch (error: unknown) {
+      this.skipFile(manifest, filePath, error);
+      return;
+    }
+
+    const entry: SnapshotEntry = {
+      path: name,
+      type: 'file',
+      mode: stats.mode & 0o7777,
+      mtime: stats.mtime.toISOString(),
+      size: 0
+    };
+
+    if (stats.isSymbolicLink()) {
+      try {
+        manifest.entries.push({ ...entry, type: 'symlink', target: await fs.readlink(filePath) });
+      } catch (error: unknown) {
+        this.skipFile(manifest, filePath, error);
+      }
+    } else if (stats.isDirectory()) {
+      let realPath: string;
+      let children: string[];
+
+      try {
+        realPath = await fs.realpath(filePath);
+
+        if (ancestors.includes(realPath)) {
+          throw new Error('Symlink loop detected');
+        }
+
+        children = (await fs.readdir(filePath)).sort();
+      } catch (error: unknown) {
+        this.skipFile(manifest, filePath, error);
+        return;
+      }
+
+      manifest.entries.push({ ...entry, type: 'directory' });
+
+      for (const child of children) {
+        await this.addPath(writer, manifest, path.join(filePath, child), `${name}/${child}`, [...ancestors, realPath]);
+      }
+    } else if (stats.isFile()) {
+      const chunks: string[] = [];
+      let size = 0;
+      let reading = true;
+
+      try {
+        const handle = await fs.open(filePath, 'r');
+        const stream = handle.createReadStream({ highWaterMark: 1024 * 1024 });
+
+        for await (const chunk of chunkStream(stream, this.chunkerOptions)) {
+          reading = false;
+          chunks.push(await this.addChunk(writer, chunk));
+          size += chunk.length;
+          reading = true;
+        }
+      } catch (error: unknown) {
+        // Errors storing chunks end the snapshot, read errors only skip the file
+        if (!reading) {
+          throw error;
+        }
+
+        this.skipFile(manifest, filePath, error);
+        return;
+      }
+
+      manifest.entries.push({ ...entry, size, chunks });
+      manifest.size += size;
+      manifest.fileCount++;
+    } else {
+      this.skipFile(manifest, filePath, new Error('Unsupported file type'));
+    }
+  }
+
+  /**
+   * Record a file that was left out of a snapshot
+   *
+   * @param manifest - Manifest being written
+   * @param filePath - Path on disk
+   * @param error - Reason
+   */
+  private skipFile(manifest: SnapshotManifest, filePath: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    logger.warn(`Skipping file: ${filePath}`, { error: message });
+    manifest.errors.push({ path: filePath, message });
+  }
+
+  /**
+   * Add a chunk to a snapshot
+   *
+   * @param writer - Snapshot being written
+   * @param data - Chunk content
+   * @returns Chunk hash
+   */
+  private async addChunk(writer: SnapshotWriter, data: Buffer): Promise<string> {
+    const hash = hashChunk(data);
+
+    if (writer.referenced.has(hash) || writer.pending.has(hash) || writer.pack.has(hash)) {
+      return hash;
+    }
+
+    writer.pending.set(hash, data);
+
+    if (writer.pending.size >= this.options.lookupBatchSize) {
+      await this.flushPending(writer);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Reference pending chunks the repository already has and add the others to the next pack
+   *
+   * @param writer - Snapshot being written
+   */
+  private async flushPending(writer: SnapshotWriter): Promise<void> {
+    if (writer.pending.size === 0) {
+      return;
+    }
+
+    const existing = await this.storage.referenceRepositoryChunks(this.configurationId, Array.from(writer.pending.keys()));
+
+    for (const chunk of existing) {
+      writer.referenced.add(chunk.hash);
+      writer.pending.delete(chunk.hash);
+    }
+
+    for (const [hash, data] of Array.from(writer.pending)) {
+      await fs.mkdir(path.join(writer.workDir, 'pack'), { recursive: true });
+      await fs.writeFile(path.join(writer.workDir, 'pack', hash), data);
+
+      writer.pack.set(hash, data.length);
+      writer.packSize += data.length;
+      writer.pending.delete(hash);
+
+      if (writer.packSize >= this.options.packSize) {
+        await this.storePack(writer);
+      }
+    }
+  }
+
+  /**
+   * Store the collected new chunks as a pack and add them to the index
+   *
+   * @param writer - Snapshot being written
+   */
+  private async storePack(writer: SnapshotWriter): Promise<void> {
+    if (writer.pack.size === 0) {
+      return;
+    }
+
+    const packDir = path.join(writer.workDir, 'pack');
+    const hashes = Array.from(writer.pack.keys());
+    const archive = await this.createArchive(packDir, hashes, path.join(writer.workDir, 'pack.tar.gz'));
+    const packId = uuidv4();
+
+    const result = await this.provider.createBackup({
+      siteId: REPOSITORY_SITE_ID,
+      files: [],
+      backupId: packId,
+      archive,
+      metadata: { repository: 'pack', chunks: hashes.length }
+    });
+
+    if (!result.success) {
+      throw new Error(`Error storing pack: ${result.message || 'Unknown error'}`);
+    }
+
+    await this.storage.addRepositoryChunks(hashes.map(hash => ({
+      configurationId: this.configurationId,
+      hash,
+      packId,
+      size: writer.pack.get(hash)!,
+      refCount: 1
+    })));
+
+    hashes.forEach(hash => writer.referenced.add(hash));
+    writer.storedSize += archive.size;
+
+    logger.info(`Pack stored: ${packId}`, { chunks: hashes.length, size: archive.size });
+
+    writer.pack.clear();
+    writer.packSize = 0;
+    await fs.rm(packDir, { recursive: true, force: true });
+    await fs.rm(archive.path, { force: true });
+  }
+
+  /**
+   * Store the manifest of a snapshot
+   *
+   * @param writer - Snapshot being written
+   * @param manifest - Complete manifest
+   */
+  private async storeManifest(writer: SnapshotWriter, manifest: SnapshotManifest): Promise<void> {
+    const manifestDir = path.join(writer.workDir, 'manifest');
+
+    await fs.mkdir(manifestDir, { recursive: true });
+    await fs.writeFile(path.join(manifestDir, MANIFEST_NAME), JSON.stringify(manifest));
+
+    const archive = await this.createArchive(manifestDir, [MANIFEST_NAME], path.join(writer.workDir, 'manifest.tar.gz'));
+
+    const result = await this.provider.createBackup({
+      siteId: manifest.siteId,
+      files: [],
+      backupId: manifest.id,
+      archive: { ...archive, fileCount: manifest.fileCount },
+      metadata: { ...manifest.metadata, repository: 'snapshot', size: manifest.size }
+    });
+
+    if (!result.success) {
+      throw new Error(`Error storing snapshot manifest: ${result.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Create a tar.gz archive of files in a directory, named relative to it
+   *
+   * @param dir - Directory with the files
+   * @param names - File names in the directory
+   * @param outputPath - Path to the output file
+   * @returns Archive to pass to the provider
+   */
+  private async createArchive(dir: string, names: string[], outputPath: string): Promise<PreparedArchive> {
+    await tar.c({ gzip: true, portable: true, cwd: dir, file: outputPath }, names);
+
+    const { size } = await fs.stat(outputPath);
+    return { path: outputPath, size, fileCount: names.length };
+  }
+
+  /**
+   * Get the manifest of a snapshot
+   *
+   * @param snapshotId - Snapshot ID
+   * @returns Manifest or null if the backup isn't a snapshot of this repository
+   */
+  async getSnapshot(snapshotId: string): Promise<SnapshotManifest | null> {
+    const result = await this.provider.downloadFile(snapshotId, MANIFEST_NAME);
+
+    if (!result.success || !result.content) {
+      return null;
+    }
+
+    const manifest = JSON.parse(result.content.toString()) as SnapshotManifest;
+
+    if (manifest.version !== MANIFEST_VERSION) {
+      throw new Error(`Unsupported snapshot manifest version: ${manifest.version}`);
+    }
+
+    return manifest;
+  }
+
+  /**
+   * List the snapshots of a site, newest first
+   *
+   * @param siteId - Optional site ID
+   * @returns Provider backups that are snapshots
+   */
+  async listSnapshots(siteId?: string): Promise<Awaited<ReturnType<BackupProvider['listBackups']>>['backups']> {
+    const { backups } = await this.provider.listBackups({ siteId, sort: 'created', order: 'desc' });
+
+    return backups.filter(backup => backup.metadata?.repository === 'snapshot');
+  }
+
+  /**
+   * Restore the files of a snapshot
+   *
+   * Every chunk is checked against its hash before it is written.
+   *
+   * @param snapshotId - Snapshot ID
+   * @param destination - Directory to restore into
+   * @param files - Optional entries (files or directories) to restore
+   * @returns Restored entry names
+   * @throws Error if the snapshot or one of its chunks can't be read
+   */
+  async restoreSnapshot(snapshotId: string, destination: string, files?: string[]): Promise<string[]> {
+    const manifest = await this.getSnapshot(snapshotId);
+
+    if (!manifest) {
+      throw new Error(`Snapshot not found: ${snapshotId}`);
+    }
+
+    const wanted = files && files.length > 0 ? files.map(toEntryName) : null;
+    const entries = manifest.entries.filter(entry =>
+      !wanted || wanted.some(file => entry.path === file || entry.path.startsWith(`${file}/`))
+    );
+
+    const hashes = Array.from(new Set(entries.flatMap(entry => entry.chunks || [])));
+    const packIds = new Map(
+      (await this.storage.getRepositoryChunks(this.configurationId, hashes)).map(chunk => [chunk.hash, chunk.packId])
+    );
+
+    const missing = hashes.filter(hash => !packIds.has(hash));
+
+    if (missing.length > 0) {
+      throw new Error(`Snapshot ${snapshotId} has ${missing.length} chunks missing from the repository`);
+    }
+
+    const root = path.resolve(destination);
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dedup-restore-'));
+    const packs = new Map<string, Promise<string | null>>();
+
+    const readChunk = async (hash: string): Promise<Buffer> => {
+      const packId = packIds.get(hash)!;
+
+      if (!packs.has(packId)) {
+        packs.set(packId, this.downloadPack(packId, workDir));
+      }
+
+      const packDir = await packs.get(packId)!;
+      let data: Buffer;
+
+      if (packDir) {
+        data = await fs.readFile(path.join(packDir, hash));
+      } else {
+        // Providers that can't download whole archives still serve single entries
+        const result = await this.provider.downloadFile(packId, hash);
+
+        if (!result.success || !result.content) {
+          throw new Error(`Chunk ${hash} not found in pack ${packId}`);
+        }
+
+        data = Buffer.from(result.content);
+      }
+
+      if (hashChunk(data) !== hash) {
+        throw new Error(`Chunk ${hash} in pack ${packId} is corrupt`);
+      }
+
+      return data;
+    };
+
+    try {
+      await fs.mkdir(root, { recursive: true });
+
+      for (const entry of entries) {
+        const target = path.resolve(root, entry.path);
+
+        if (target !== root && !target.startsWith(`${root}${path.sep}`)) {
+          throw new Error(`Snapshot entry outside the destination: ${entry.path}`);
+        }
+
+        await fs.mkdir(entry.type === 'directory' ? target : path.dirname(target), { recursive: true });
+
+        if (entry.type === 'symlink') {
+          await fs.rm(target, { force: true });
+          await fs.symlink(entry.target!, target);
+          continue;
+        }
+
+        if (entry.type === 'file') {
+          const handle = await fs.open(target, 'w');
+
+          try {
+            for (const hash of entry.chunks || []) {
+              await handle.write(await readChunk(hash));
+            }
+          } finally {
+            await handle.close();
+          }
+        }
+
+        await fs.chmod(target, entry.mode);
+      }
+
+      // Writing files changes the modification time of their directories, so restore those last
+      for (const entry of [...entries].reverse()) {
+        if (entry.type !== 'symlink') {
+          const mtime = new Date(entry.mtime);
+          await fs.utimes(path.resolve(root, entry.path), mtime, mtime);
+        }
+      }
+
+      return entries.map(entry => entry.path);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Download and extract a pack
+   *
+   * @param packId - Pack ID
+   * @param workDir - Scratch directory
+   * @returns Directory with the chunk files or null if the provider can't download the archive
+   */
+  private async downloadPack(packId: string, workDir: string): Promise<string | null> {
+    const result = await this.provider.downloadFile(packId, ARCHIVE_NAME);
+
+    if (!result.success || !result.content) {
+      return null;
+    }
+
+    const archivePath = path.join(workDir, `${packId}.tar.gz`);
+    const packDir = path.join(workDir, packId);
+
+    await fs.writeFile(archivePath, result.content);
+    await extractArchive(archivePath, packDir);
+    await fs.rm(archivePath, { force: true });
+
+    return packDir;
+  }
+
+  /**
+   * Delete a snapshot and release its chunks
+   *
+   * The chunks stay in the repository until the next prune.
+   *
+   * @param snapshotId - Snapshot ID
+   * @returns Deletion result
+   */
+  async deleteSnapshot(snapshotId: string): Promise<{ success: boolean; message?: string }> {
+    const manifest = await this.getSnapshot(snapshotId);
+
+    if (!manifest) {
+      return { success: false, message: `Snapshot not found: ${snapshotId}` };
+    }
+
+    const result = await this.provider.deleteBackup(snapshotId);
+
+    if (!result.success) {
+      return result;
+    }
+
+    const hashes = new Set(manifest.entries.flatMap(entry => entry.chunks || []));
+    await this.storage.releaseRepositoryChunks(this.configurationId, Array.from(hashes));
+
+    logger.info(`Snapshot deleted: ${snapshotId}`, { chunks: hashes.size });
+
+    return { success: true, message: `Snapshot deleted: ${snapshotId}` };
+  }
+
+  /**
+   * Remove chunks that no snapshot uses and packs without chunks
+   *
+   * Chunks are removed from the index first, so a backup running at the
+   * same time either references a chunk before it is removed or stores it
+   * again. Packs that still hold chunks in use are kept whole.
+   *
+   * @returns Number of removed chunks and packs and the chunk bytes freed
+   */
+  async prune(): Promise<{ chunks: number; packs: number; size: number }> {
+    const removed = await this.storage.deleteUnreferencedRepositoryChunks(this.configurationId);
+    const remaining = new Set(await this.storage.listRepositoryPackIds(this.configurationId));
+    const emptyPacks = Array.from(new Set(removed.map(chunk => chunk.packId))).filter(packId => !remaining.has(packId));
+
+    let packs = 0;
+
+    for (const packId of emptyPacks) {
+      const result = await this.provider.deleteBackup(packId);
+
+      if (result.success) {
+        packs++;
+      } else {
+        // The pack no longer holds chunks in the index, so it is only wasted space
+        logger.warn(`Failed to delete pack: ${packId}`, { message: result.message });
+      }
+    }
+
+    const size = removed.reduce((total, chunk) => total + chunk.size, 0);
+
+    logger.info(`Repository pruned: ${this.configurationId}`, { chunks: removed.length, packs, size });
+
+    return { chunks: removed.length, packs, size };
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * Job Handlers
+ *
+ * This module runs the job types of the job queue through the backup
+ * service: backups, restores, verifications, prunes, synthetic full backups
+ * and restore drills.
+ */
+import logger from '../utils/logger';
+import { AppError, ErrorCodes } from '../utils/error-handler';
+import { removeStagingDirs } from '../utils/file-stream';
+import { storage, type IStorage } from '../storage';
+import type { UploadCheckpoint } from '../providers/types';
+import type { Backup } from '@shared/schema';
+import { backupService, type BackupService } from './backup-service';
+import { jobQueue, type JobQueue } from './job-queue';
+import { RestoreDrillRunner } from './restore-drill';
+
+// Use the default logger instance
+
+/**
+ * Error of backups that were interrupted and can't be resumed
+ */
+export const INTERRUPTED_BACKUP_ERROR = 'Interrupted by a server restart and not resumed';
+
+/**
+ * Payload of a backup job
+ */
+export interface BackupJobPayload {
+  configurationId: string;
+  siteId: string;
+  files: string[];
+  database?: boolean;
+  destinations?: string[];
+  metadata?: Record<string, any>;
+  /** Backups row to keep up to date with the job */
+  backupId?: number;
+  /** Backup ID at the provider, when it was assigned before the job ran */
+  externalId?: string;
+  /** Queue a restore drill of the backups row once the backup completed */
+  drill?: boolean;
+}
+
+/**
+ * Payload of a restore job
+ */
+export interface RestoreJobPayload {
+  configurationId: string;
+  backupId: string;
+  /** Backups row whose chain is restored, instead of the single backup */
+  chainId?: number;
+  destination?: string;
+  files?: string[];
+  database?: boolean;
+}
+
+/**
+ * Payload of a verify job
+ */
+export interface VerifyJobPayload {
+  configurationId: string;
+  backupId: string;
+  /** Backups row to record the verification on */
+  backupRowId?: number;
+}
+
+/**
+ * Payload of a prune job
+ */
+export interface PruneJobPayload {
+  configurationId: string;
+  siteId?: string;
+  /** Number of backups to keep, instead of the configuration's retention count */
+  keep?: number;
+}
+
+/**
+ * Payload of a synthesize job
+ */
+export interface SynthesizeJobPayload {
+  /** Backups row whose chain is merged into a synthetic full backup */
+  backupId: number;
+}
+
+/**
+ * Payload of a restore drill job
+ */
+export interface DrillJobPayload {
+  /** Backups row to restore into a sandbox */
+  backupId: number;
+}
+
+/**
+ * Turn a failed backup service result into an error
+ *
+ * Missing configurations are permanent failures, anything else is retried.
+ *
+ * @param message - Failure message
+ * @returns Error to fail the job with
+ */
+function toJobError(message: string = 'Unknown error'): Error {
+  if (message.includes('Configuration not found')) {
+    return new AppError(ErrorCodes.NOT_FOUND, message);
+  }
+
+  return new Error(message);
+}
+
+/**
+ * Find the backup an incremental or differential backup builds on
+ *
+ * Differential backups build on the full backup of their chain, so they
+ * contain every change since then. Incremental backups build on the latest
+ * completed backup of their chain and only contain the changes since that.
+ *
+ * @param handlerStorage - Storage with the backups rows
+ * @param backup - Backups row of the backup
+ * @returns Backup ID at the provider or undefined for full backups
+ */
+async function getParentBackupId(handlerStorage: IStorage, backup: Backup): Promise<string | undefined> {
+  if ((backup.type !== 'incremental' && backup.type !== 'differential') || !backup.parentBackupId) {
+    return undefined;
+  }
+
+  const chain = await handlerStorage.getBackupChain(backup.parentBackupId);
+  const completed = chain
+    .filter(candidate => candidate.id !== backup.id && candidate.status === 'completed')
+    .filter(candidate => new Date(candidate.startedAt).getTime() <= new Date(backup.startedAt).getTime());
+  const parent = backup.type === 'differential'
+    ? completed.find(candidate => candidate.type === 'full')
+    : completed.pop();
+
+  if (!parent?.externalId || parent.configurationId !== backup.configurationId) {
+    throw new AppError(ErrorCodes.NOT_FOUND, `No completed backup to build ${backup.type} backup ${backup.id} on`);
+  }
+
+  return parent.externalId;
+}
+
+/**
+ * Find the backups that kept backups build on
+ *
+ * Parents are followed up to the full backup. A synthetic full backup
+ * stands in for the backup it replaces, so the chain it was merged from
+ * isn't needed by the backups built on top of it.
+ *
+ * @param kept - Backups that are kept
+ * @param backups - Every backup at the provider
+ * @returns Backup IDs that can't be deleted
+ */
+function getNeededParents(
+  kept: { id: string; metadata?: Record<string, any> }[],
+  backups: { id: string; metadata?: Record<string, any> }[]
+): Set<string> {
+  const byId = new Map(backups.map(backup => [backup.id, backup]));
+  const replacements = new Map(backups
+    .filter(backup => backup.metadata?.replaces)
+    .map(backup => [backup.metadata!.replaces as string, backup.id]));
+  const needed = new Set<string>();
+
+  for (const backup of kept) {
+    let parent: string | undefined = backup.metadata?.parent;
+
+    while (parent && !needed.has(parent)) {
+      const replacement = replacements.get(parent);
+
+      if (replacement) {
+        needed.add(replacement);
+        break;
+      }
+
+      needed.add(parent);
+      parent = byId.get(parent)?.metadata?.parent;
+    }
+  }
+
+  return needed;
+}
+
+/**
+ * Register the handlers of all job types
+ *
+ * @param queue - Queue to register the handlers with
+ * @param service - Backup service that does the work
+ * @param handlerStorage - Storage with the backups rows of backup jobs
+ */
+export function registerJobHandlers(
+  queue: JobQueue = jobQueue,
+  service: BackupService = backupService,
+  handlerStorage: IStorage = storage
+): void {
+  const drills = new RestoreDrillRunner(handlerStorage, service);
+
+  queue.registerHandler('backup', async (job, signal) => {
+    const { configurationId, backupId, externalId, drill, ...options } = job.payload as BackupJobPayload;
+
+    if (signal.aborted) {
+      return;
+    }
+
+    const backup = backupId ? await handlerStorage.getBackup(backupId) : undefined;
+
+    if (backupId) {
+      await handlerStorage.updateBackupStatus(backupId, 'in_progress');
+    }
+
+    let parent: string | undefined;
+
+    try {
+      parent = backup ? await getParentBackupId(handlerStorage, backup) : undefined;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await handlerStorage.updateBackupStatus(backupId!, 'failed', undefined, message);
+      throw error;
+    }
+
+    const result = await service.createBackup(configurationId, {
+      ...options,
+      backupId: backup?.externalId || externalId,
+      type: backup?.type === 'incremental' || backup?.type === 'differential' ? backup.type : undefined,
+      parent,
+      // An upload that was interrupted by a restart continues where it stopped
+      checkpoint: (backup?.checkpoint as UploadCheckpoint | null) || undefined,
+      onCheckpoint: backupId
+        ? async checkpoint => {
+            // A lost checkpoint only means more to upload after a restart
+            await handlerStorage.updateBackup(backupId, { checkpoint }).catch((error: unknown) => {
+              logger.warn(`Error saving upload checkpoint of backup ${backupId}`, error);
+            });
+          }
+        : undefined,
+    });
+
+    // Failed uploads are cleaned up by the provider, so only interrupted ones are resumed
+    if (backupId) {
+      await handlerStorage.updateBackup(backupId, { checkpoint: null });
+    }
+
+    if (!result.success) {
+      const message = result.message || result.errors?.map(error => error.message).join('; ') || 'Backup failed';
+
+      if (backupId) {
+        await handlerStorage.updateBackupStatus(backupId, 'failed', undefined, message);
+      }
+
+      throw toJobError(message);
+    }
+
+    if (backupId) {
+      if (result.checksums) {
+        await handlerStorage.updateBackup(backupId, { checksums: result.checksums });
+      }
+
+      await handlerStorage.updateBackupStatus(backupId, 'completed', result.size, undefined, result.fileCount, result.changedFiles);
+
+      // Queued only now, so the drill can't run before the backup it restores
+      if (drill) {
+        // The backup is stored, so a drill that can't be queued doesn't fail it
+        await queue.enqueue({
+          type: 'drill',
+          siteId: job.siteId,
+          provider: job.provider,
+          payload: { backupId },
+        }).catch((error: unknown) => {
+          logger.error(`Error queueing restore drill of backup ${backupId}`, error);
+        });
+      }
+    }
+
+    return { id: result.id, size: result.size, status: result.status, changedFiles: result.changedFiles };
+  });
+
+  queue.registerHandler('restore', async (job, signal) => {
+    const { configurationId, backupId, chainId, ...options } = job.payload as RestoreJobPayload;
+
+    if (signal.aborted) {
+      return;
+    }
+
+    const result = chainId
+      ? await service.restoreBackupChain(chainId, options)
+      : await service.restoreBackup(configurationId, backupId, options);
+
+    if (!result.success) {
+      throw toJobError(result.message);
+    }
+
+    return { message: result.message, details: result.details };
+  });
+
+  queue.registerHandler('verify', async (job, signal) => {
+    const { configurationId, backupId, backupRowId } = job.payload as VerifyJobPayload;
+
+    if (signal.aborted) {
+      return;
+    }
+
+    const result = await service.verifyBackup(configurationId, backupId);
+
+    if (!result.success) {
+      throw toJobError(result.message);
+    }
+
+    const verifiedAt = new Date();
+
+    if (backupRowId) {
+      await handlerStorage.updateBackup(backupRowId, { verifiedAt });
+    }
+
+    return { ...result.details, verifiedAt: verifiedAt.toISOString() };
+  });
+
+  queue.registerHandler('prune', async (job, signal) => {
+    const { configurationId, siteId, keep } = job.payload as PruneJobPayload;
+
+    const config = await service.getConfiguration(configurationId);
+
+    if (!config) {
+      throw new AppError(ErrorCodes.NOT_FOUND, `Configuration not found: ${configurationId}`);
+    }
+
+    const count = keep ?? config.retention?.count;
+    const days = config.retention?.days;
+
+    const { backups } = count || days
+      ? await service.listBackups(configurationId, { siteId, sort: 'created', order: 'desc', limit: 1000 })
+      : { backups: [] };
+    const cutoff = days ? Date.now() - days * 24 * 60 * 60 * 1000 : -Infinity;
+
+    // The newest backup is always kept
+    const candidates = backups
+      .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime())
+      .filter((backup, index) => index > 0 && ((count && index >= count) || new Date(backup.created).getTime() < cutoff));
+    const needed = getNeededParents(backups.filter(backup => !candidates.includes(backup)), backups);
+    const expired = candidates.filter(backup => !needed.has(backup.id));
+
+    const deleted: string[] = [];
+
+    for (const backup of expired) {
+      if (signal.aborted) {
+        break;
+      }
+
+      const result = await service.deleteBackup(configurationId, backup.id);
+
+      if (!result.success) {
+        throw toJobError(result.message);
+      }
+
+      deleted.push(backup.id);
+    }
+
+    logger.info(`Pruned ${deleted.length} backups: ${configurationId}`, { siteId, count, days });
+
+    // Deleted snapshots leave chunks behind in deduplicating repositories
+    const repository = signal.aborted ? null : await service.pruneRepository(configurationId);
+
+    return { deleted, repository };
+  });
+
+  queue.registerHandler('synthesize', async (job, signal) => {
+    const { backupId } = job.payload as SynthesizeJobPayload;
+
+    if (signal.aborted) {
+      return;
+    }
+
+    const result = await service.synthesizeFullBackup(backupId);
+
+    if (!result.success) {
+      throw toJobError(result.message);
+    }
+
+    return { message: result.message, details: result.details };
+  });
+
+  queue.registerHandler('drill', async (job, signal) => {
+    const { backupId } = job.payload as DrillJobPayload;
+
+    if (signal.aborted) {
+      return;
+    }
+
+    const drill = await drills.run(backupId);
+
+    return { drillId: drill.id, status: drill.status, checks: drill.checks, duration: drill.duration };
+  });
+}
+
+/**
+ * Resume or fail the backups a server restart interrupted
+ *
+ * Has to run before the job queue starts. Backups whose job will run again
+ * go back to pending and resume their upload from its checkpoint; the job
+ * queue requeues interrupted jobs that have attempts left. Every other
+ * interrupted backup is marked failed. Archives the backups staged are
+ * removed either way, since resumed backups build their archive again.
+ *
+ * GitHub, S3, Dropbox, Google Drive and OneDrive uploads save checkpoints,
+ * unless the archive is encrypted. Other backups have none and start their
+ * upload over; the partial archives they leave are never listed, e.g. local
+ * backups keep them under a .partial name.
+ *
+ * @param handlerStorage - Storage with the backups rows and the jobs
+ * @returns Backups rows that are resumed and that were marked failed
+ */
+export async function recoverInterruptedBackups(
+  handlerStorage: IStorage = storage
+): Promise<{ resumed: Backup[]; failed: Backup[] }> {
+  const recovered: { resumed: Backup[]; failed: Backup[] } = { resumed: [], failed: [] };
+
+  try {
+    const interrupted = await handlerStorage.listBackupsByStatus(['in_progress']);
+
+    if (interrupted.length === 0) {
+      return recovered;
+    }
+
+    const jobs = await handlerStorage.listJobs({ type: 'backup', status: ['queued', 'running'], limit: 1000 });
+    const resumable = new Set(jobs
+      .filter(job => job.status === 'queued' || (job.attempts < job.maxAttempts && !job.cancelRequested))
+      .map(job => (job.payload as BackupJobPayload).backupId));
+
+    for (const backup of interrupted) {
+      if (backup.externalId) {
+        await removeStagingDirs(backup.externalId);
+      }
+
+      if (resumable.has(backup.id)) {
+        const checkpoint = backup.checkpoint as UploadCheckpoint | null;
+
+        logger.info(`Resuming interrupted backup ${backup.id}`, { uploadedParts: checkpoint?.parts.length ?? 0 });
+
+        recovered.resumed.push((await handlerStorage.updateBackupStatus(backup.id, 'pending'))!);
+      } else {
+        logger.warn(`Marking interrupted backup ${backup.id} as failed`);
+
+        await handlerStorage.updateBackup(backup.id, { checkpoint: null });
+        recovered.failed.push((await handlerStorage.updateBackupStatus(backup.id, 'failed', undefined, INTERRUPTED_BACKUP_ERROR))!);
+      }
+    }
+  } catch (error: unknown) {
+    logger.error('Error recovering interrupted backups', error);
+  }
+
+  return recovered;
+}
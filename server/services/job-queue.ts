@@ -0,0 +1,465 @@
+/**
+ * Job Queue
+ *
+ * This module runs backups, restores, verifications and prunes as jobs
+ * stored in the database, so queued work survives restarts. Jobs run by
+ * priority within per-provider and per-site concurrency limits, failed
+ * attempts are retried with exponential backoff and jobs can be cancelled.
+ */
+import logger from '../utils/logger';
+import { calculateBackoffDelay, type RetryOptions } from '../utils/retryStrategy';
+import { AppError, ErrorCodes } from '../utils/error-handler';
+import { storage, type IStorage } from '../storage';
+import type { InsertJob, Job, JobType } from '@shared/schema';
+
+// Use the default logger instance
+
+/**
+ * Runs a job and returns its result
+ *
+ * Handlers should stop when the signal is aborted, which happens when the
+ * job is cancelled. Errors fail the attempt, which is retried unless the
+ * error is permanent.
+ */
+export type JobHandler = (job: Job, signal: AbortSignal) => Promise<Record<string, any> | void>;
+
+/**
+ * Backoff options for retrying failed attempts
+ */
+export type JobRetryOptions = Required<Omit<RetryOptions, 'maxRetries' | 'retryableError' | 'onRetry'>>;
+
+/**
+ * Job queue options
+ */
+export interface JobQueueOptions {
+  /** How often to check for queued jobs in milliseconds (default: 5000ms) */
+  interval?: number;
+
+  /** Maximum number of jobs running at once (default: 4) */
+  concurrency?: number;
+
+  /** Maximum number of jobs running at once per provider type (default: 2) */
+  perProvider?: number;
+
+  /** Maximum number of jobs running at once per site (default: 1) */
+  perSite?: number;
+
+  /** Backoff between attempts of a failed job */
+  retry?: Partial<JobRetryOptions>;
+}
+
+/**
+ * Default options for the job queue
+ */
+const DEFAULT_OPTIONS: Required<Omit<JobQueueOptions, 'retry'>> & { retry: JobRetryOptions } = {
+  interval: 5 * 1000, // 5 seconds
+  concurrency: 4,
+  perProvider: 2,
+  perSite: 1,
+  retry: {
+    initialDelay: 30 * 1000, // 30 seconds
+    maxDelay: 30 * 60 * 1000, // 30 minutes
+    backoffFactor: 2,
+    useJitter: true
+  }
+};
+
+/**
+ * Error codes of failures that won't go away by retrying
+ */
+const PERMANENT_ERROR_CODES = new Set<string>([
+  ErrorCodes.BAD_REQUEST,
+  ErrorCodes.UNAUTHORIZED,
+  ErrorCodes.FORBIDDEN,
+  ErrorCodes.NOT_FOUND,
+  ErrorCodes.VALIDATION_ERROR,
+  ErrorCodes.CONFLICT
+]);
+
+/**
+ * Job running in this process
+ */
+interface ActiveJob {
+  controller: AbortController;
+  promise: Promise<void>;
+}
+
+/**
+ * Queue that runs jobs from storage
+ *
+ * Jobs are claimed in storage before they run, so each attempt runs once.
+ * The queue assumes it is the only worker on its storage: jobs still marked
+ * running when it starts were interrupted and are queued again.
+ */
+export class JobQueue {
+  private storage: IStorage;
+  private options: Required<Omit<JobQueueOptions, 'retry'>> & { retry: JobRetryOptions };
+  private handlers: Map<JobType, JobHandler>;
+  private active: Map<number, ActiveJob>;
+  private timer?: NodeJS.Timeout;
+  private polling: boolean;
+
+  /**
+   * Create a new job queue
+   *
+   * @param jobStorage - Storage with the jobs
+   * @param options - Queue options
+   */
+  constructor(jobStorage: IStorage = storage, options: JobQueueOptions = {}) {
+    this.storage = jobStorage;
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      retry: { ...DEFAULT_OPTIONS.retry, ...options.retry }
+    };
+    this.handlers = new Map();
+    this.active = new Map();
+    this.polling = false;
+  }
+
+  /**
+   * Register the handler that runs jobs of a type
+   *
+   * @param type - Job type
+   * @param handler - Job handler
+   */
+  registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue
+   *
+   * @param job - Job to add
+   * @returns Queued job
+   */
+  async enqueue(job: InsertJob): Promise<Job> {
+    const queued = await this.storage.createJob(job);
+
+    logger.info(`Job queued: ${queued.id}`, {
+      type: queued.type,
+      priority: queued.priority,
+      siteId: queued.siteId,
+      provider: queued.provider
+    });
+
+    // Start it right away if there is room
+    if (this.timer) {
+      void this.poll();
+    }
+
+    return queued;
+  }
+
+  /**
+   * Cancel a job
+   *
+   * Queued jobs are cancelled right away. Running jobs are asked to stop
+   * and are marked cancelled once their handler returns.
+   *
+   * @param id - Job ID
+   * @returns Updated job or undefined if it doesn't exist
+   * @throws AppError if the job has already finished
+   */
+  async cancel(id: number): Promise<Job | undefined> {
+    const job = await this.storage.getJob(id);
+
+    if (!job) {
+      return undefined;
+    }
+
+    if (job.status === 'queued') {
+      logger.info(`Job cancelled: ${id}`);
+
+      return this.storage.updateJob(id, {
+        status: 'cancelled',
+        cancelRequested: true,
+        completedAt: new Date()
+      });
+    }
+
+    if (job.status !== 'running') {
+      throw new AppError(ErrorCodes.CONFLICT, `Job ${id} is already ${job.status}`);
+    }
+
+    logger.info(`Cancelling running job: ${id}`);
+
+    const updated = await this.storage.updateJob(id, { cancelRequested: true });
+    this.active.get(id)?.controller.abort();
+
+    return updated;
+  }
+
+  /**
+   * Start running queued jobs
+   *
+   * Jobs left running by a previous process are queued again first.
+   */
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    logger.info('Starting job queue', {
+      interval: this.options.interval,
+      concurrency: this.options.concurrency
+    });
+
+    try {
+      await this.recoverInterruptedJobs();
+    } catch (error: unknown) {
+      logger.error('Error recovering interrupted jobs', error);
+    }
+
+    this.timer = setInterval(() => void this.poll(), this.options.interval);
+    this.timer.unref();
+
+    void this.poll();
+  }
+
+  /**
+   * Stop starting new jobs
+   *
+   * Jobs that are already running are not interrupted.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+
+      logger.info('Job queue stopped');
+    }
+  }
+
+  /**
+   * Wait until the jobs running in this process have finished
+   */
+  async idle(): Promise<void> {
+    while (this.active.size > 0) {
+      await Promise.all(Array.from(this.active.values()).map(job => job.promise));
+    }
+  }
+
+  /**
+   * Start queued jobs that are due, as far as the concurrency limits allow
+   *
+   * @param now - Current time
+   * @returns Started jobs
+   */
+  async poll(now: Date = new Date()): Promise<Job[]> {
+    // Overlapping polls would count the same running jobs twice
+    if (this.polling) {
+      return [];
+    }
+
+    this.polling = true;
+
+    try {
+      const [queued, running] = await Promise.all([
+        this.storage.listJobs({ status: ['queued'], limit: 1000 }),
+        this.storage.listJobs({ status: ['running'], limit: 1000 })
+      ]);
+
+      // Pass on cancellations requested through another queue instance
+      for (const job of running) {
+        if (job.cancelRequested) {
+          this.active.get(job.id)?.controller.abort();
+        }
+      }
+
+      const providerCounts = new Map<string, number>();
+      const siteCounts = new Map<number, number>();
+      const count = (job: Job, change: number) => {
+        if (job.provider) providerCounts.set(job.provider, (providerCounts.get(job.provider) ?? 0) + change);
+        if (job.siteId !== null) siteCounts.set(job.siteId, (siteCounts.get(job.siteId) ?? 0) + change);
+      };
+
+      running.forEach(job => count(job, 1));
+      let total = running.length;
+
+      // Highest priority first, then oldest first
+      const due = queued
+        .filter(job => new Date(job.runAt) <= now)
+        .sort((a, b) =>
+          b.priority - a.priority ||
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() ||
+          a.id - b.id
+        );
+
+      const started: Job[] = [];
+
+      for (const job of due) {
+        if (total >= this.options.concurrency) {
+          break;
+        }
+
+        // Jobs waiting for a busy provider or site don't hold up others
+        if (job.provider && (providerCounts.get(job.provider) ?? 0) >= this.options.perProvider) {
+          continue;
+        }
+
+        if (job.siteId !== null && (siteCounts.get(job.siteId) ?? 0) >= this.options.perSite) {
+          continue;
+        }
+
+        const claimed = await this.storage.claimJob(job.id);
+
+        if (!claimed) {
+          continue;
+        }
+
+        count(claimed, 1);
+        total++;
+        started.push(claimed);
+        this.run(claimed);
+      }
+
+      return started;
+    } catch (error: unknown) {
+      logger.error('Error polling job queue', error);
+      return [];
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Run a claimed job in the background
+   *
+   * @param job - Claimed job
+   */
+  private run(job: Job): void {
+    const controller = new AbortController();
+
+    const promise = this.execute(job, controller.signal).finally(() => {
+      this.active.delete(job.id);
+
+      // A slot opened up for the next job
+      if (this.timer) {
+        void this.poll();
+      }
+    });
+
+    this.active.set(job.id, { controller, promise });
+  }
+
+  /**
+   * Run one attempt of a job and record the outcome
+   *
+   * @param job - Claimed job
+   * @param signal - Aborted when the job is cancelled
+   */
+  private async execute(job: Job, signal: AbortSignal): Promise<void> {
+    logger.info(`Running job ${job.id}`, { type: job.type, attempt: job.attempts, maxAttempts: job.maxAttempts });
+
+    try {
+      const handler = this.handlers.get(job.type as JobType);
+
+      if (!handler) {
+        throw new AppError(ErrorCodes.BAD_REQUEST, `No handler for job type: ${job.type}`);
+      }
+
+      const result = await handler(job, signal);
+
+      if (signal.aborted) {
+        await this.finishCancelled(job);
+        return;
+      }
+
+      await this.storage.updateJob(job.id, {
+        status: 'completed',
+        result: result || null,
+        error: null,
+        completedAt: new Date()
+      });
+
+      logger.info(`Job completed: ${job.id}`, { type: job.type });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      try {
+        if (signal.aborted) {
+          await this.finishCancelled(job);
+        } else if (job.attempts < job.maxAttempts && this.isRetryable(error)) {
+          const delay = calculateBackoffDelay(job.attempts - 1, {
+            ...this.options.retry,
+            maxRetries: job.maxAttempts - 1
+          });
+
+          await this.storage.updateJob(job.id, {
+            status: 'queued',
+            error: message,
+            runAt: new Date(Date.now() + delay),
+            startedAt: null
+          });
+
+          logger.warn(`Job ${job.id} failed, retrying in ${delay}ms`, { type: job.type, attempt: job.attempts, error: message });
+        } else {
+          await this.storage.updateJob(job.id, {
+            status: 'failed',
+            error: message,
+            completedAt: new Date()
+          });
+
+          logger.error(`Job failed: ${job.id}`, { type: job.type, attempts: job.attempts, error: message });
+        }
+      } catch (updateError: unknown) {
+        logger.error(`Error recording job failure: ${job.id}`, updateError);
+      }
+    }
+  }
+
+  /**
+   * Mark a job whose handler stopped after cancellation as cancelled
+   *
+   * @param job - Cancelled job
+   */
+  private async finishCancelled(job: Job): Promise<void> {
+    await this.storage.updateJob(job.id, {
+      status: 'cancelled',
+      completedAt: new Date()
+    });
+
+    logger.info(`Job cancelled: ${job.id}`, { type: job.type });
+  }
+
+  /**
+   * Check whether a failed attempt is worth retrying
+   *
+   * @param error - Error thrown by the handler
+   * @returns Whether the job should run again
+   */
+  private isRetryable(error: unknown): boolean {
+    return !(error instanceof AppError && PERMANENT_ERROR_CODES.has(error.code));
+  }
+
+  /**
+   * Queue jobs again that were running when the previous process stopped
+   */
+  private async recoverInterruptedJobs(): Promise<void> {
+    const interrupted = await this.storage.listJobs({ status: ['running'], limit: 1000 });
+
+    for (const job of interrupted) {
+      if (this.active.has(job.id)) {
+        continue;
+      }
+
+      if (job.cancelRequested) {
+        await this.finishCancelled(job);
+        continue;
+      }
+
+      logger.warn(`Requeueing interrupted job: ${job.id}`, { type: job.type });
+
+      await this.storage.updateJob(job.id, {
+        status: job.attempts < job.maxAttempts ? 'queued' : 'failed',
+        error: 'Interrupted by a server restart',
+        startedAt: null,
+        completedAt: job.attempts < job.maxAttempts ? null : new Date()
+      });
+    }
+  }
+}
+
+// Create singleton instance
+export const jobQueue = new JobQueue();
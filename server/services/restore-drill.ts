@@ -0,0 +1,251 @@
+/**
+ * Restore Drills
+ *
+ * This module proves that backups can be restored by restoring them into an
+ * isolated sandbox directory. A drill checks that the archives extract, that
+ * key WordPress files match the checksums in the backup's file manifest and
+ * that SQL dumps parse the way an import would split them. Every drill stores
+ * a pass/fail report with the timing of each check for the site.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import logger from '../utils/logger';
+import { AppError, ErrorCodes } from '../utils/error-handler';
+import { calculateFileChecksum, fileExists } from '../utils/file-stream';
+import { MANIFEST_ENTRY_NAME, type FileManifest } from '../utils/file-manifest';
+import { parseSqlDump } from '../utils/sql-dump';
+import { storage, type IStorage } from '../storage';
+import type { Backup, RestoreDrill, RestoreDrillCheck } from '@shared/schema';
+import { backupService, type BackupService } from './backup-service';
+
+// Use the default logger instance
+
+/**
+ * Files whose checksums every drill verifies, relative to the site root
+ */
+export const DRILL_KEY_FILES = ['wp-config.php', 'wp-includes/version.php'];
+
+type CheckResult = Pick<RestoreDrillCheck, 'status' | 'message'>;
+
+/**
+ * Find the files below a directory that match a predicate
+ *
+ * @param dir - Directory to walk
+ * @param predicate - Test for file names
+ * @returns Paths of the matching files
+ */
+async function findFiles(dir: string, predicate: (name: string) => boolean): Promise<string[]> {
+  const found: string[] = [];
+
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      found.push(...await findFiles(entryPath, predicate));
+    } else if (entry.isFile() && predicate(entry.name)) {
+      found.push(entryPath);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Runs restore drills and stores their reports
+ */
+export class RestoreDrillRunner {
+  private storage: IStorage;
+  private backupService: BackupService;
+
+  /**
+   * Create a restore drill runner
+   *
+   * @param drillStorage - Storage with the backups and the drill reports
+   * @param service - Backup service that restores the backups
+   */
+  constructor(drillStorage: IStorage = storage, service: BackupService = backupService) {
+    this.storage = drillStorage;
+    this.backupService = service;
+  }
+
+  /**
+   * Restore a backup into a sandbox and check the result
+   *
+   * Full backups are restored through BackupService.restoreBackup, other
+   * backups with the chain they build on. The sandbox is removed again
+   * afterwards.
+   *
+   * @param backupId - Backups row to restore
+   * @returns Stored drill report
+   * @throws AppError if the backup doesn't exist or wasn't stored through a configuration
+   * @throws Error if the backup hasn't completed yet
+   */
+  async run(backupId: number): Promise<RestoreDrill> {
+    const backup = await this.storage.getBackup(backupId);
+
+    if (!backup) {
+      throw new AppError(ErrorCodes.NOT_FOUND, `Backup not found: ${backupId}`);
+    }
+
+    if (!backup.configurationId || !backup.externalId) {
+      throw new AppError(ErrorCodes.VALIDATION_ERROR, `Backup ${backupId} wasn't stored through a backup configuration`);
+    }
+
+    if (backup.status === 'pending' || backup.status === 'in_progress') {
+      throw new Error(`Backup ${backupId} hasn't completed yet`);
+    }
+
+    const startedAt = new Date();
+    const sandbox = await fs.mkdtemp(path.join(os.tmpdir(), 'restore-drill-'));
+    const checks: RestoreDrillCheck[] = [];
+
+    const check = async (name: string, run: () => Promise<CheckResult>): Promise<CheckResult> => {
+      const start = Date.now();
+      let result: CheckResult;
+
+      try {
+        result = await run();
+      } catch (error: unknown) {
+        result = { status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      checks.push({ name, ...result, duration: Date.now() - start });
+      return result;
+    };
+
+    try {
+      const restored = await check('restore', () => this.restore(backup, sandbox));
+
+      if (restored.status === 'passed') {
+        await check('checksums', () => this.checkKeyFiles(backup, sandbox));
+        await check('database', () => this.checkSqlDumps(sandbox));
+      } else {
+        checks.push(
+          { name: 'checksums', status: 'skipped', duration: 0, message: 'Restore failed' },
+          { name: 'database', status: 'skipped', duration: 0, message: 'Restore failed' }
+        );
+      }
+    } finally {
+      await fs.rm(sandbox, { recursive: true, force: true });
+    }
+
+    const status = checks.some(result => result.status === 'failed') ? 'failed' : 'passed';
+    const drill = await this.storage.createRestoreDrill({
+      siteId: backup.siteId,
+      backupId: backup.id,
+      status,
+      checks,
+      duration: Date.now() - startedAt.getTime(),
+      startedAt,
+    });
+
+    logger.info(`Restore drill of backup ${backup.id} ${status}`, {
+      siteId: backup.siteId,
+      checks: checks.map(result => `${result.name}: ${result.status}`),
+      duration: drill.duration
+    });
+
+    return drill;
+  }
+
+  /**
+   * Restore a backup into the sandbox
+   *
+   * A restore that reports success but leaves the sandbox empty fails, since
+   * the provider didn't restore into the destination.
+   *
+   * @param backup - Backups row
+   * @param sandbox - Directory to restore into
+   * @returns Check result
+   */
+  private async restore(backup: Backup, sandbox: string): Promise<CheckResult> {
+    const result = backup.type === 'full'
+      ? await this.backupService.restoreBackup(backup.configurationId!, backup.externalId!, { destination: sandbox })
+      : await this.backupService.restoreBackupChain(backup.id, { destination: sandbox });
+
+    if (!result.success) {
+      return { status: 'failed', message: result.message };
+    }
+
+    if ((await fs.readdir(sandbox)).length === 0) {
+      return { status: 'failed', message: 'Restore produced no files in the sandbox' };
+    }
+
+    return { status: 'passed', message: result.message };
+  }
+
+  /**
+   * Compare the key files in the sandbox with the checksums in the backup's manifest
+   *
+   * @param backup - Backups row
+   * @param sandbox - Directory the backup was restored into
+   * @returns Check result
+   */
+  private async checkKeyFiles(backup: Backup, sandbox: string): Promise<CheckResult> {
+    const download = await this.backupService.downloadFile(backup.configurationId!, backup.externalId!, MANIFEST_ENTRY_NAME);
+
+    if (!download.success || !download.content) {
+      return { status: 'failed', message: 'Backup has no file manifest' };
+    }
+
+    const manifest = JSON.parse(download.content.toString()) as FileManifest;
+    const problems: string[] = [];
+
+    for (const file of DRILL_KEY_FILES) {
+      // The site root is the shortest path that ends with the file
+      const entry = manifest.entries
+        .filter(candidate => candidate.type === 'file' && (candidate.path === file || candidate.path.endsWith(`/${file}`)))
+        .sort((a, b) => a.path.length - b.path.length)[0];
+
+      if (!entry?.hash) {
+        problems.push(`${file} not found in backup`);
+        continue;
+      }
+
+      const restoredPath = path.join(sandbox, entry.path);
+
+      if (!await fileExists(restoredPath)) {
+        problems.push(`${file} wasn't restored`);
+      } else if (await calculateFileChecksum(restoredPath) !== entry.hash) {
+        problems.push(`${file} doesn't match its checksum`);
+      }
+    }
+
+    return problems.length > 0
+      ? { status: 'failed', message: problems.join('; ') }
+      : { status: 'passed', message: `${DRILL_KEY_FILES.length} files match their checksums` };
+  }
+
+  /**
+   * Parse the SQL dumps in the sandbox
+   *
+   * @param sandbox - Directory the backup was restored into
+   * @returns Check result
+   */
+  private async checkSqlDumps(sandbox: string): Promise<CheckResult> {
+    const dumps = await findFiles(sandbox, name => name.toLowerCase().endsWith('.sql'));
+
+    if (dumps.length === 0) {
+      return { status: 'skipped', message: 'No SQL dump in backup' };
+    }
+
+    const summaries: string[] = [];
+
+    for (const dump of dumps) {
+      const name = path.relative(sandbox, dump);
+
+      try {
+        const summary = await parseSqlDump(dump);
+        summaries.push(`${name}: ${summary.statements} statements, ${summary.tables.length} tables`);
+      } catch (error: unknown) {
+        throw new Error(`${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return { status: 'passed', message: summaries.join('; ') };
+  }
+}
+
+// Create singleton instance
+export const restoreDrillRunner = new RestoreDrillRunner();
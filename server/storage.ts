@@ -4,8 +4,23 @@ import {
   storageProviders, type StorageProvider, type InsertStorageProvider,
   backupSchedules, type BackupSchedule, type InsertBackupSchedule,
   backups, type Backup, type InsertBackup,
+  backupRuns, type BackupRunRecord, type InsertBackupRunRecord,
+  backupConfigurations, type BackupConfiguration, type InsertBackupConfiguration,
+  jobs, type Job, type InsertJob, type JobStatus, type JobType,
+  repositoryChunks, type RepositoryChunk, type InsertRepositoryChunk,
+  encryptionKeys, type EncryptionKey, type InsertEncryptionKey,
+  restoreDrills, type RestoreDrill, type InsertRestoreDrill,
   feedback, type Feedback, type InsertFeedback
 } from "@shared/schema";
+import { getNextRun, changesTiming } from "./utils/schedule";
+
+// Filters for listing jobs
+export interface JobFilter {
+  status?: JobStatus[];
+  type?: JobType;
+  siteId?: number;
+  limit?: number;
+}
 
 // Storage interface with CRUD operations
 export interface IStorage {
@@ -29,6 +44,13 @@ export interface IStorage {
   updateStorageProvider(id: number, provider: Partial<InsertStorageProvider>): Promise<StorageProvider | undefined>;
   deleteStorageProvider(id: number): Promise<boolean>;
 
+  // Backup Configuration operations
+  getBackupConfiguration(id: string): Promise<BackupConfiguration | undefined>;
+  listBackupConfigurations(): Promise<BackupConfiguration[]>;
+  createBackupConfiguration(configuration: InsertBackupConfiguration): Promise<BackupConfiguration>;
+  updateBackupConfiguration(id: string, configuration: Partial<InsertBackupConfiguration>): Promise<BackupConfiguration | undefined>;
+  deleteBackupConfiguration(id: string): Promise<boolean>;
+
   // Backup Schedule operations
   getBackupSchedule(id: number): Promise<BackupSchedule | undefined>;
   listBackupSchedules(): Promise<BackupSchedule[]>;
@@ -36,15 +58,21 @@ export interface IStorage {
   createBackupSchedule(schedule: InsertBackupSchedule): Promise<BackupSchedule>;
   updateBackupSchedule(id: number, schedule: Partial<InsertBackupSchedule>): Promise<BackupSchedule | undefined>;
   deleteBackupSchedule(id: number): Promise<boolean>;
+  // Sets the run times only if nextRun still matches, so each due run is claimed once
+  claimBackupSchedule(id: number, expectedNextRun: Date | null, runs: { lastRun: Date | null; nextRun: Date }): Promise<BackupSchedule | undefined>;
 
   // Backup operations
   getBackup(id: number): Promise<Backup | undefined>;
   listBackups(limit?: number): Promise<Backup[]>;
   listBackupsBySiteId(siteId: number, limit?: number): Promise<Backup[]>;
   listRecentBackups(limit?: number): Promise<Backup[]>;
+  listBackupsByStatus(statuses: string[]): Promise<Backup[]>;
   createBackup(backup: InsertBackup): Promise<Backup>;
   updateBackupStatus(id: number, status: string, size?: number, error?: string, fileCount?: number, changedFiles?: number): Promise<Backup | undefined>;
-  getLatestFullBackup(siteId: number): Promise<Backup | undefined>;
+  updateBackup(id: number, backup: Partial<InsertBackup>): Promise<Backup | undefined>;
+  // Only backups stored through the configuration when one is given
+  getLatestFullBackup(siteId: number, configurationId?: string): Promise<Backup | undefined>;
+  // The full backup and the backups that build on it, oldest first
   getBackupChain(backupId: number): Promise<Backup[]>;
   getBackupStats(): Promise<{
     totalSites: number;
@@ -54,6 +82,42 @@ export interface IStorage {
   }>;
   getUpcomingBackups(limit?: number): Promise<(BackupSchedule & { site: Site })[]>;
 
+  // Backup run operations
+  getBackupRun(id: string): Promise<BackupRunRecord | undefined>;
+  listBackupRunsByStatus(statuses: string[]): Promise<BackupRunRecord[]>;
+  createBackupRun(run: InsertBackupRunRecord): Promise<BackupRunRecord>;
+  updateBackupRun(id: string, run: Partial<InsertBackupRunRecord>): Promise<BackupRunRecord | undefined>;
+
+  // Job operations
+  getJob(id: number): Promise<Job | undefined>;
+  listJobs(filter?: JobFilter): Promise<Job[]>;
+  createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: number, job: Partial<Omit<Job, 'id' | 'createdAt'>>): Promise<Job | undefined>;
+  // Marks a queued job as running only if it is still queued, so each attempt is claimed once
+  claimJob(id: number): Promise<Job | undefined>;
+
+  // Repository chunk operations
+  getRepositoryChunks(configurationId: string, hashes: string[]): Promise<RepositoryChunk[]>;
+  // Adds a reference to the chunks still in the repository and returns them
+  referenceRepositoryChunks(configurationId: string, hashes: string[]): Promise<RepositoryChunk[]>;
+  // Adds stored chunks; chunks another backup stored in the meantime get a reference instead
+  addRepositoryChunks(chunks: InsertRepositoryChunk[]): Promise<void>;
+  releaseRepositoryChunks(configurationId: string, hashes: string[]): Promise<void>;
+  // Removes the chunks no snapshot references any more and returns them
+  deleteUnreferencedRepositoryChunks(configurationId: string): Promise<RepositoryChunk[]>;
+  listRepositoryPackIds(configurationId: string): Promise<string[]>;
+
+  // Encryption key operations
+  getEncryptionKey(id: string): Promise<EncryptionKey | undefined>;
+  getActiveEncryptionKey(siteId: string): Promise<EncryptionKey | undefined>;
+  // Adds a key as the site's active key; the site's older keys are kept for decryption
+  createEncryptionKey(key: InsertEncryptionKey): Promise<EncryptionKey>;
+
+  // Restore drill operations
+  createRestoreDrill(drill: InsertRestoreDrill): Promise<RestoreDrill>;
+  // Newest first
+  listRestoreDrillsBySiteId(siteId: number, limit?: number): Promise<RestoreDrill[]>;
+
   // Feedback operations
   getFeedback(id: number): Promise<Feedback | undefined>;
   listFeedback(siteId?: number, limit?: number): Promise<Feedback[]>;
@@ -74,8 +138,14 @@ export class MemStorage implements IStorage {
   private usersMap: Map<number, User>;
   private sitesMap: Map<number, Site>;
   private storageProvidersMap: Map<number, StorageProvider>;
+  private backupConfigurationsMap: Map<string, BackupConfiguration>;
   private backupSchedulesMap: Map<number, BackupSchedule>;
   private backupsMap: Map<number, Backup>;
+  private backupRunsMap: Map<string, BackupRunRecord>;
+  private jobsMap: Map<number, Job>;
+  private repositoryChunksMap: Map<string, RepositoryChunk>;
+  private encryptionKeysMap: Map<string, EncryptionKey>;
+  private restoreDrillsMap: Map<number, RestoreDrill>;
   private feedbackMap: Map<number, Feedback>;
 
   private userId: number = 1;
@@ -83,14 +153,23 @@ export class MemStorage implements IStorage {
   private storageProviderId: number = 1;
   private backupScheduleId: number = 1;
   private backupId: number = 1;
+  private jobId: number = 1;
+  private repositoryChunkId: number = 1;
+  private restoreDrillId: number = 1;
   private feedbackId: number = 1;
 
   constructor() {
     this.usersMap = new Map();
     this.sitesMap = new Map();
     this.storageProvidersMap = new Map();
+    this.backupConfigurationsMap = new Map();
     this.backupSchedulesMap = new Map();
     this.backupsMap = new Map();
+    this.backupRunsMap = new Map();
+    this.jobsMap = new Map();
+    this.repositoryChunksMap = new Map();
+    this.encryptionKeysMap = new Map();
+    this.restoreDrillsMap = new Map();
     this.feedbackMap = new Map();
 
     // Add admin user
@@ -361,6 +440,49 @@ export class MemStorage implements IStorage {
     return this.storageProvidersMap.delete(id);
   }
 
+  // Backup Configuration operations
+  async getBackupConfiguration(id: string): Promise<BackupConfiguration | undefined> {
+    return this.backupConfigurationsMap.get(id);
+  }
+
+  async listBackupConfigurations(): Promise<BackupConfiguration[]> {
+    return Array.from(this.backupConfigurationsMap.values());
+  }
+
+  async createBackupConfiguration(configuration: InsertBackupConfiguration): Promise<BackupConfiguration> {
+    const now = new Date();
+    const newConfiguration: BackupConfiguration = {
+      ...configuration,
+      active: configuration.active ?? true,
+      schedule: configuration.schedule ?? null,
+      retention: configuration.retention ?? null,
+      filters: configuration.filters ?? null,
+      compression: configuration.compression ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.backupConfigurationsMap.set(configuration.id, newConfiguration);
+    return newConfiguration;
+  }
+
+  async updateBackupConfiguration(id: string, configuration: Partial<InsertBackupConfiguration>): Promise<BackupConfiguration | undefined> {
+    const existingConfiguration = this.backupConfigurationsMap.get(id);
+    if (!existingConfiguration) return undefined;
+
+    const updatedConfiguration: BackupConfiguration = {
+      ...existingConfiguration,
+      ...configuration,
+      id,
+      updatedAt: new Date()
+    };
+    this.backupConfigurationsMap.set(id, updatedConfiguration);
+    return updatedConfiguration;
+  }
+
+  async deleteBackupConfiguration(id: string): Promise<boolean> {
+    return this.backupConfigurationsMap.delete(id);
+  }
+
   // Backup Schedule operations
   async getBackupSchedule(id: number): Promise<BackupSchedule | undefined> {
     return this.backupSchedulesMap.get(id);
@@ -380,26 +502,24 @@ export class MemStorage implements IStorage {
     const id = this.backupScheduleId++;
     
     // Calculate next run
-    const now = new Date();
-    const nextRun = new Date(now);
-    nextRun.setHours(schedule.hourOfDay);
-    nextRun.setMinutes(schedule.minuteOfHour);
-    nextRun.setSeconds(0);
-    nextRun.setMilliseconds(0);
-    
-    if (nextRun <= now) {
-      // If the scheduled time for today has already passed, schedule for tomorrow
-      nextRun.setDate(nextRun.getDate() + 1);
-    }
+    const nextRun = getNextRun(schedule, new Date());
     
     const newSchedule: BackupSchedule = { 
       ...schedule, 
       id, 
       enabled: schedule.enabled ?? true,
-      dayOfWeek: schedule.dayOfWeek || null,
+      dayOfWeek: schedule.dayOfWeek ?? null,
+      dayOfMonth: schedule.dayOfMonth ?? null,
+      cronExpression: schedule.cronExpression || null,
+      timeZone: schedule.timeZone || null,
       backupType: schedule.backupType || 'full',
       fullBackupFrequency: schedule.fullBackupFrequency || null,
+      differentialBackupFrequency: schedule.differentialBackupFrequency || null,
       retentionCount: schedule.retentionCount || null,
+      configurationId: schedule.configurationId || null,
+      paths: schedule.paths || null,
+      catchUpPolicy: schedule.catchUpPolicy || 'run_once',
+      drillFrequency: schedule.drillFrequency || null,
       lastRun: null,
       nextRun,
       createdAt: new Date() 
@@ -413,23 +533,10 @@ export class MemStorage implements IStorage {
     const existingSchedule = this.backupSchedulesMap.get(id);
     if (!existingSchedule) return undefined;
 
-    // Recalculate next run if schedule timing changed
+    // Recalculate next run if schedule timing changed or it was re-enabled
     let nextRun = existingSchedule.nextRun;
-    if (schedule.hourOfDay !== undefined || schedule.minuteOfHour !== undefined) {
-      const hourOfDay = schedule.hourOfDay ?? existingSchedule.hourOfDay;
-      const minuteOfHour = schedule.minuteOfHour ?? existingSchedule.minuteOfHour;
-      
-      const now = new Date();
-      nextRun = new Date(now);
-      nextRun.setHours(hourOfDay);
-      nextRun.setMinutes(minuteOfHour);
-      nextRun.setSeconds(0);
-      nextRun.setMilliseconds(0);
-      
-      if (nextRun <= now) {
-        // If the scheduled time for today has already passed, schedule for tomorrow
-        nextRun.setDate(nextRun.getDate() + 1);
-      }
+    if (changesTiming(schedule) || (schedule.enabled && !existingSchedule.enabled)) {
+      nextRun = getNextRun({ ...existingSchedule, ...schedule }, new Date());
     }
 
     const updatedSchedule: BackupSchedule = { 
@@ -446,6 +553,20 @@ export class MemStorage implements IStorage {
     return this.backupSchedulesMap.delete(id);
   }
 
+  async claimBackupSchedule(id: number, expectedNextRun: Date | null, runs: { lastRun: Date | null; nextRun: Date }): Promise<BackupSchedule | undefined> {
+    const existingSchedule = this.backupSchedulesMap.get(id);
+    if (!existingSchedule) return undefined;
+
+    // Another scheduler already claimed this run
+    if ((existingSchedule.nextRun?.getTime() ?? null) !== (expectedNextRun?.getTime() ?? null)) {
+      return undefined;
+    }
+
+    const claimedSchedule: BackupSchedule = { ...existingSchedule, ...runs };
+    this.backupSchedulesMap.set(id, claimedSchedule);
+    return claimedSchedule;
+  }
+
   // Backup operations
   async getBackup(id: number): Promise<Backup | undefined> {
     return this.backupsMap.get(id);
@@ -468,6 +589,12 @@ export class MemStorage implements IStorage {
     return this.listBackups(limit);
   }
 
+  async listBackupsByStatus(statuses: string[]): Promise<Backup[]> {
+    return Array.from(this.backupsMap.values())
+      .filter((backup) => statuses.includes(backup.status))
+      .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+  }
+
   async createBackup(backup: InsertBackup): Promise<Backup> {
     const id = this.backupId++;
     
@@ -480,8 +607,13 @@ export class MemStorage implements IStorage {
       size: backup.size || null,
       fileCount: backup.fileCount || 0,
       changedFiles: backup.changedFiles || 0,
+      configurationId: backup.configurationId || null,
+      externalId: backup.externalId || null,
+      checksums: backup.checksums ?? null,
+      checkpoint: backup.checkpoint ?? null,
       startedAt: backup.startedAt || new Date(),
       completedAt: null,
+      verifiedAt: backup.verifiedAt || null,
       error: null
     };
     
@@ -490,12 +622,13 @@ export class MemStorage implements IStorage {
   }
   
   // Get the most recent successful full backup for a site (for incremental backup parent reference)
-  async getLatestFullBackup(siteId: number): Promise<Backup | undefined> {
+  async getLatestFullBackup(siteId: number, configurationId?: string): Promise<Backup | undefined> {
     const backups = Array.from(this.backupsMap.values())
       .filter(backup => 
         backup.siteId === siteId && 
         backup.status === 'completed' && 
-        backup.type === 'full'
+        backup.type === 'full' &&
+        (!configurationId || backup.configurationId === configurationId)
       )
       .sort((a, b) => 
         new Date(b.completedAt!).getTime() - new Date(a.completedAt!).getTime()
@@ -504,12 +637,12 @@ export class MemStorage implements IStorage {
     return backups.length > 0 ? backups[0] : undefined;
   }
   
-  // Get backup chain - returns the full backup and all incremental backups that depend on it
+  // Get backup chain - returns the full backup and all incremental and differential backups that depend on it
   async getBackupChain(backupId: number): Promise<Backup[]> {
     const backup = this.backupsMap.get(backupId);
     if (!backup) return [];
     
-    // For full backups, find all incremental backups that have this as parent
+    // For full backups, find all backups that have this as parent
     if (backup.type === 'full') {
       const incrementals = Array.from(this.backupsMap.values())
         .filter(b => b.parentBackupId === backupId)
@@ -520,8 +653,8 @@ export class MemStorage implements IStorage {
       return [backup, ...incrementals];
     }
     
-    // For incremental backups, find the parent full backup and all related incrementals
-    if (backup.type === 'incremental' && backup.parentBackupId) {
+    // For incremental and differential backups, find the parent full backup and all related backups
+    if (backup.parentBackupId) {
       return this.getBackupChain(backup.parentBackupId);
     }
     
@@ -556,6 +689,15 @@ export class MemStorage implements IStorage {
     return updatedBackup;
   }
 
+  async updateBackup(id: number, backup: Partial<InsertBackup>): Promise<Backup | undefined> {
+    const existingBackup = this.backupsMap.get(id);
+    if (!existingBackup) return undefined;
+
+    const updatedBackup: Backup = { ...existingBackup, ...backup };
+    this.backupsMap.set(id, updatedBackup);
+    return updatedBackup;
+  }
+
   async getBackupStats(): Promise<{
     totalSites: number;
     totalStorage: number;
@@ -594,6 +736,220 @@ export class MemStorage implements IStorage {
     });
   }
 
+  // Backup run operations
+  async getBackupRun(id: string): Promise<BackupRunRecord | undefined> {
+    return this.backupRunsMap.get(id);
+  }
+
+  async listBackupRunsByStatus(statuses: string[]): Promise<BackupRunRecord[]> {
+    return Array.from(this.backupRunsMap.values())
+      .filter((run) => statuses.includes(run.status))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async createBackupRun(run: InsertBackupRunRecord): Promise<BackupRunRecord> {
+    const now = new Date();
+    const newRun: BackupRunRecord = {
+      ...run,
+      archive: run.archive ?? null,
+      size: run.size ?? null,
+      fileCount: run.fileCount ?? null,
+      checksums: run.checksums ?? null,
+      createdAt: run.createdAt || now,
+      updatedAt: now
+    };
+    this.backupRunsMap.set(run.id, newRun);
+    return newRun;
+  }
+
+  async updateBackupRun(id: string, run: Partial<InsertBackupRunRecord>): Promise<BackupRunRecord | undefined> {
+    const existingRun = this.backupRunsMap.get(id);
+    if (!existingRun) return undefined;
+
+    const updatedRun: BackupRunRecord = {
+      ...existingRun,
+      ...run,
+      id,
+      updatedAt: new Date()
+    };
+    this.backupRunsMap.set(id, updatedRun);
+    return updatedRun;
+  }
+
+  // Job operations
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobsMap.get(id);
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<Job[]> {
+    return Array.from(this.jobsMap.values())
+      .filter((job) => !filter.status || filter.status.includes(job.status as JobStatus))
+      .filter((job) => !filter.type || job.type === filter.type)
+      .filter((job) => filter.siteId === undefined || job.siteId === filter.siteId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, filter.limit ?? 100);
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    const id = this.jobId++;
+    const now = new Date();
+
+    const newJob: Job = {
+      ...job,
+      id,
+      status: 'queued',
+      priority: job.priority ?? 0,
+      siteId: job.siteId ?? null,
+      provider: job.provider ?? null,
+      result: null,
+      error: null,
+      attempts: 0,
+      maxAttempts: job.maxAttempts ?? 3,
+      runAt: job.runAt ?? now,
+      cancelRequested: false,
+      createdAt: now,
+      startedAt: null,
+      completedAt: null
+    };
+
+    this.jobsMap.set(id, newJob);
+    return newJob;
+  }
+
+  async updateJob(id: number, job: Partial<Omit<Job, 'id' | 'createdAt'>>): Promise<Job | undefined> {
+    const existingJob = this.jobsMap.get(id);
+    if (!existingJob) return undefined;
+
+    const updatedJob: Job = { ...existingJob, ...job };
+    this.jobsMap.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async claimJob(id: number): Promise<Job | undefined> {
+    const existingJob = this.jobsMap.get(id);
+
+    // Another worker already claimed the job, or it was cancelled
+    if (!existingJob || existingJob.status !== 'queued') return undefined;
+
+    const claimedJob: Job = {
+      ...existingJob,
+      status: 'running',
+      attempts: existingJob.attempts + 1,
+      startedAt: new Date()
+    };
+    this.jobsMap.set(id, claimedJob);
+    return claimedJob;
+  }
+
+  // Repository chunk operations
+  async getRepositoryChunks(configurationId: string, hashes: string[]): Promise<RepositoryChunk[]> {
+    return hashes
+      .map((hash) => this.repositoryChunksMap.get(`${configurationId}:${hash}`))
+      .filter((chunk): chunk is RepositoryChunk => chunk !== undefined);
+  }
+
+  async referenceRepositoryChunks(configurationId: string, hashes: string[]): Promise<RepositoryChunk[]> {
+    const chunks = await this.getRepositoryChunks(configurationId, hashes);
+
+    return chunks.map((chunk) => {
+      const referencedChunk: RepositoryChunk = { ...chunk, refCount: chunk.refCount + 1 };
+      this.repositoryChunksMap.set(`${configurationId}:${chunk.hash}`, referencedChunk);
+      return referencedChunk;
+    });
+  }
+
+  async addRepositoryChunks(chunks: InsertRepositoryChunk[]): Promise<void> {
+    for (const chunk of chunks) {
+      const key = `${chunk.configurationId}:${chunk.hash}`;
+      const existingChunk = this.repositoryChunksMap.get(key);
+
+      if (existingChunk) {
+        this.repositoryChunksMap.set(key, { ...existingChunk, refCount: existingChunk.refCount + (chunk.refCount ?? 1) });
+      } else {
+        this.repositoryChunksMap.set(key, {
+          ...chunk,
+          id: this.repositoryChunkId++,
+          refCount: chunk.refCount ?? 1,
+          createdAt: new Date()
+        });
+      }
+    }
+  }
+
+  async releaseRepositoryChunks(configurationId: string, hashes: string[]): Promise<void> {
+    for (const chunk of await this.getRepositoryChunks(configurationId, hashes)) {
+      this.repositoryChunksMap.set(`${configurationId}:${chunk.hash}`, { ...chunk, refCount: chunk.refCount - 1 });
+    }
+  }
+
+  async deleteUnreferencedRepositoryChunks(configurationId: string): Promise<RepositoryChunk[]> {
+    const unreferenced = Array.from(this.repositoryChunksMap.values()).filter(
+      (chunk) => chunk.configurationId === configurationId && chunk.refCount <= 0
+    );
+
+    for (const chunk of unreferenced) {
+      this.repositoryChunksMap.delete(`${configurationId}:${chunk.hash}`);
+    }
+
+    return unreferenced;
+  }
+
+  async listRepositoryPackIds(configurationId: string): Promise<string[]> {
+    const packIds = Array.from(this.repositoryChunksMap.values())
+      .filter((chunk) => chunk.configurationId === configurationId)
+      .map((chunk) => chunk.packId);
+
+    return Array.from(new Set(packIds));
+  }
+
+  // Encryption key operations
+  async getEncryptionKey(id: string): Promise<EncryptionKey | undefined> {
+    return this.encryptionKeysMap.get(id);
+  }
+
+  async getActiveEncryptionKey(siteId: string): Promise<EncryptionKey | undefined> {
+    return Array.from(this.encryptionKeysMap.values()).find(
+      (key) => key.siteId === siteId && key.active
+    );
+  }
+
+  async createEncryptionKey(key: InsertEncryptionKey): Promise<EncryptionKey> {
+    for (const existingKey of Array.from(this.encryptionKeysMap.values())) {
+      if (existingKey.siteId === key.siteId && existingKey.active) {
+        this.encryptionKeysMap.set(existingKey.id, { ...existingKey, active: false });
+      }
+    }
+
+    const newKey: EncryptionKey = {
+      ...key,
+      active: true,
+      createdAt: new Date()
+    };
+
+    this.encryptionKeysMap.set(newKey.id, newKey);
+    return newKey;
+  }
+
+  // Restore drill operations
+  async createRestoreDrill(drill: InsertRestoreDrill): Promise<RestoreDrill> {
+    const id = this.restoreDrillId++;
+    const newDrill: RestoreDrill = {
+      ...drill,
+      id,
+      completedAt: new Date()
+    };
+
+    this.restoreDrillsMap.set(id, newDrill);
+    return newDrill;
+  }
+
+  async listRestoreDrillsBySiteId(siteId: number, limit: number = 100): Promise<RestoreDrill[]> {
+    return Array.from(this.restoreDrillsMap.values())
+      .filter((drill) => drill.siteId === siteId)
+      .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
   // Feedback operations
   async getFeedback(id: number): Promise<Feedback | undefined> {
     return this.feedbackMap.get(id);
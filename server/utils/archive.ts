@@ -0,0 +1,469 @@
+/**
+ * Archive Utilities
+ *
+ * This module provides helpers for creating, inspecting and extracting the
+ * tar archives produced by the backup providers. Archives are gzip
+ * compressed unless another codec is chosen; readers detect the codec from
+ * the archive when it isn't passed.
+ */
+import path from 'path';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs, Stats } from 'fs';
+import { pipeline, Transform, type Readable } from 'stream';
+import { promisify } from 'util';
+import archiver from 'archiver';
+import * as tar from 'tar';
+import logger from './logger';
+import {
+  createCompressStream,
+  createDecompressStream,
+  detectCompression,
+  DEFAULT_COMPRESSION,
+  type CompressionCodec,
+  type CompressionOptions,
+} from './file-stream';
+
+// Use the default logger instance
+const pipelineAsync = promisify(pipeline);
+
+/**
+ * Archive entry information
+ */
+export interface ArchiveEntry {
+  path: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  modified?: Date;
+}
+
+/**
+ * File that couldn't be added to an archive
+ */
+export interface ArchiveError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Archive creation options
+ */
+export interface CreateArchiveOptions {
+  // Archive the targets of symlinks instead of the links themselves
+  followSymlinks?: boolean;
+
+  // Only add entries whose name passes the filter; directories are still walked
+  filter?: (name: string) => boolean;
+
+  // In-memory files appended after all paths, built from the files that were skipped
+  extraEntries?: (errors: ArchiveError[]) => { name: string; content: Buffer | string }[];
+
+  // Directory relative paths are read from; their entry names stay relative
+  cwd?: string;
+
+  // Codec and level of the archive, gzip with its default level if missing
+  compression?: CompressionOptions;
+}
+
+/**
+ * Archive that is created while it is read
+ */
+export interface ArchiveStream {
+  // Compressed archive
+  stream: Readable;
+
+  // Size in bytes, SHA-256, number of files added and skipped files, once all of the archive was written to the stream
+  completed: Promise<{
+    size: number;
+    checksum: string;
+    fileCount: number;
+    errors: ArchiveError[];
+  }>;
+}
+
+/**
+ * Convert a filesystem path into the name used inside the archive
+ *
+ * @param filePath - Path on disk or inside the archive
+ * @returns Normalized relative entry name
+ */
+export function toEntryName(filePath: string): string {
+  return path.posix
+    .normalize(filePath.replace(/\\/g, '/'))
+    .replace(/^([a-zA-Z]:)?\/+/, '')
+    .replace(/^(\.\/)+/, '')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Create a compressed tar archive from files and directories
+ *
+ * Directories are walked recursively and every entry keeps its permissions
+ * and modification time. Symlinks below the given paths are stored as links
+ * unless `followSymlinks` is set; the given paths themselves are always
+ * resolved. Files that can't be read are skipped and reported in `errors`
+ * instead of failing the archive.
+ *
+ * @param files - Files and directories to include in the archive
+ * @param outputPath - Path to the output file
+ * @param options - Archive options
+ * @returns Archive size in bytes, SHA-256 of the archive, number of files added and skipped files
+ */
+export async function createArchive(files: string[], outputPath: string, options: CreateArchiveOptions = {}): Promise<{
+  size: number;
+  checksum: string;
+  fileCount: number;
+  errors: ArchiveError[];
+}> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
+  const archive = createArchiveStream(files, options);
+  const [, result] = await Promise.all([
+    pipelineAsync(archive.stream, createWriteStream(outputPath)),
+    archive.completed,
+  ]);
+
+  return result;
+}
+
+/**
+ * Create a compressed tar archive that is read while it is created
+ *
+ * Files are only read as fast as the stream is consumed, so an archive can be
+ * uploaded without staging it on disk or holding it in memory. Entries are
+ * added like createArchive adds them. Destroying the stream before the
+ * archive is complete stops reading files and rejects `completed`.
+ *
+ * @param files - Files and directories to include in the archive
+ * @param options - Archive options
+ * @returns Archive stream
+ */
+export function createArchiveStream(files: string[], options: CreateArchiveOptions = {}): ArchiveStream {
+  const compressor = createCompressStream(options.compression || DEFAULT_COMPRESSION);
+  const archive = archiver('tar');
+  const hash = createHash('sha256');
+  const errors: ArchiveError[] = [];
+  const extraNames = new Set<string>();
+  let fileCount = 0;
+  let size = 0;
+  let failed = false;
+  let complete = false;
+  let resolveCompleted!: (result: Awaited<ArchiveStream['completed']>) => void;
+  let rejectCompleted!: (error: Error) => void;
+
+  const completed = new Promise<Awaited<ArchiveStream['completed']>>((resolve, reject) => {
+    resolveCompleted = resolve;
+    rejectCompleted = reject;
+  });
+
+  // Hash and count the archive while it is read, so it isn't read again
+  const output = new Transform({
+    transform(chunk: Buffer, encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+    flush(callback) {
+      complete = true;
+      resolveCompleted({ size, checksum: hash.digest('hex'), fileCount, errors });
+      callback();
+    },
+  });
+
+  const fail = (err: Error) => {
+    failed = true;
+    rejectCompleted(err);
+    output.destroy(err);
+  };
+
+  archive.on('entry', (entry) => {
+    // The entry type is set by archiver but missing from its type definitions
+    if ((entry as archiver.EntryData & { type?: string }).type === 'file' && !extraNames.has(entry.name)) {
+      fileCount++;
+    }
+  });
+
+  archive.on('warning', (err) => {
+    logger.warn('Warning while creating archive', { error: err.message });
+  });
+
+  archive.on('error', (err) => {
+    logger.error('Error creating archive', err);
+    fail(err);
+  });
+
+  compressor.on('error', (err) => {
+    logger.error('Error compressing archive', err);
+    fail(err);
+  });
+
+  // A consumer that gives up, e.g. after a failed upload, ends the archive; no more entries are added
+  output.on('close', () => {
+    if (!complete && !failed) {
+      failed = true;
+      rejectCompleted(new Error('Archive stream closed before the archive was complete'));
+    }
+  });
+
+  archive.pipe(compressor).pipe(output);
+
+  // Wait until archiver has written an entry, so only one file is open at a time
+  const entryWritten = (name: string) => new Promise<void>((resolveEntry, rejectEntry) => {
+    const onEntry = (entry: archiver.EntryData) => {
+      if (entry.name === name) {
+        cleanup();
+        resolveEntry();
+      }
+    };
+    const onError = (err: Error) => {
+      cleanup();
+      rejectEntry(err);
+    };
+    const onClose = () => onError(new Error('Archive stream closed'));
+    const cleanup = () => {
+      archive.off('entry', onEntry);
+      archive.off('error', onError);
+      output.off('close', onClose);
+    };
+
+    archive.on('entry', onEntry);
+    archive.on('error', onError);
+    output.on('close', onClose);
+  });
+
+  const addEntry = async (filePath: string, name: string, stats: Stats, ancestors: string[]): Promise<void> => {
+    const entryData = { name, mode: stats.mode, date: new Date(stats.mtimeMs) };
+    const included = !options.filter || options.filter(name);
+
+    if (!included && !stats.isDirectory()) {
+      return;
+    }
+
+    if (stats.isSymbolicLink()) {
+      archive.append(Buffer.alloc(0), {
+        ...entryData,
+        type: 'symlink',
+        linkname: await fs.readlink(filePath),
+      } as archiver.EntryData);
+    } else if (stats.isDirectory()) {
+      // Followed symlinks can point back into a directory being archived
+      const realPath = await fs.realpath(filePath);
+
+      if (ancestors.includes(realPath)) {
+        throw new Error('Symlink loop detected');
+      }
+
+      if (included) {
+        archive.append(Buffer.alloc(0), { ...entryData, type: 'directory' } as archiver.EntryData);
+      }
+
+      for (const child of (await fs.readdir(filePath)).sort()) {
+        await addPath(path.join(filePath, child), `${name}/${child}`, [...ancestors, realPath]);
+      }
+    } else if (stats.isFile()) {
+      // Opening the file first turns missing or unreadable files into per-file errors
+      const handle = await fs.open(filePath, 'r');
+      const written = entryWritten(name);
+
+      // Archiver doesn't listen for source errors, so fail the archive instead of stalling
+      const stream = handle.createReadStream().on('error', err => archive.emit('error', err));
+
+      archive.append(stream, { ...entryData, stats });
+      await written.catch((err) => {
+        // Close the file archiver won't read anymore
+        stream.destroy();
+        throw err;
+      });
+    } else {
+      throw new Error('Unsupported file type');
+    }
+  };
+
+  const addPath = async (filePath: string, name: string, ancestors: string[], follow = options.followSymlinks): Promise<void> => {
+    try {
+      const stats = follow ? await fs.stat(filePath) : await fs.lstat(filePath);
+      await addEntry(filePath, name, stats, ancestors);
+    } catch (error: unknown) {
+      // Archive errors end the whole archive, everything else only skips this file
+      if (failed) {
+        throw error;
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.warn(`Skipping file: ${filePath}`, { error: message });
+      errors.push({ path: filePath, message });
+    }
+  };
+
+  (async () => {
+    for (const file of files) {
+      await addPath(options.cwd ? path.resolve(options.cwd, file) : file, toEntryName(file), [], true);
+    }
+
+    for (const entry of options.extraEntries?.(errors) || []) {
+      extraNames.add(entry.name);
+      archive.append(typeof entry.content === 'string' ? Buffer.from(entry.content) : entry.content, {
+        name: entry.name,
+        date: new Date(),
+      });
+    }
+
+    await archive.finalize();
+  })().catch(fail);
+
+  return { stream: output, completed };
+}
+
+/**
+ * Stream an archive through its decoder into a tar parser
+ *
+ * @param archivePath - Path to the archive
+ * @param parser - tar parser or unpacker
+ * @param compression - Codec of the archive, detected if missing
+ */
+async function readArchive(archivePath: string, parser: NodeJS.WritableStream, compression?: CompressionCodec): Promise<void> {
+  const codec = compression || await detectCompression(archivePath);
+
+  await pipelineAsync(createReadStream(archivePath), createDecompressStream(codec), parser);
+}
+
+/**
+ * List the entries of an archive
+ *
+ * @param archivePath - Path to the archive
+ * @param compression - Codec of the archive, detected if missing
+ * @returns Archive entries
+ */
+export async function listArchiveEntries(archivePath: string, compression?: CompressionCodec): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+
+  await readArchive(archivePath, tar.t({
+    onReadEntry: (entry) => {
+      entries.push({
+        path: toEntryName(entry.path),
+        type: entry.type === 'File' || entry.type === 'OldFile'
+          ? 'file'
+          : entry.type === 'Directory'
+            ? 'directory'
+            : entry.type === 'SymbolicLink'
+              ? 'symlink'
+              : 'other',
+        size: entry.size || 0,
+        modified: entry.mtime,
+      });
+    },
+  }), compression);
+
+  return entries;
+}
+
+/**
+ * Read a single entry from an archive into memory
+ *
+ * @param archivePath - Path to the archive
+ * @param entryPath - Entry path inside the archive
+ * @param compression - Codec of the archive, detected if missing
+ * @returns Entry content or null if the entry doesn't exist
+ */
+export async function readArchiveEntry(
+  archivePath: string,
+  entryPath: string,
+  compression?: CompressionCodec
+): Promise<Buffer | null> {
+  const target = toEntryName(entryPath);
+  const chunks: Buffer[] = [];
+  let found = false;
+
+  await readArchive(archivePath, tar.t({
+    filter: (entry) => toEntryName(entry) === target,
+    onReadEntry: (entry) => {
+      found = true;
+      entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+    },
+  }), compression);
+
+  return found ? Buffer.concat(chunks) : null;
+}
+
+/**
+ * Extract an archive
+ *
+ * @param archivePath - Path to the archive
+ * @param destination - Directory to extract into
+ * @param files - Optional list of entries (files or directories) to extract
+ * @param compression - Codec of the archive, detected if missing
+ * @returns Paths of the extracted entries
+ */
+export async function extractArchive(
+  archivePath: string,
+  destination: string,
+  files?: string[],
+  compression?: CompressionCodec
+): Promise<string[]> {
+  const wanted = files && files.length > 0 ? files.map(toEntryName) : null;
+  const extracted: string[] = [];
+
+  await fs.mkdir(destination, { recursive: true });
+
+  await readArchive(archivePath, tar.x({
+    cwd: destination,
+    filter: (entryPath) => {
+      if (!wanted) {
+        return true;
+      }
+
+      const name = toEntryName(entryPath);
+      return wanted.some(file => name === file || name.startsWith(`${file}/`));
+    },
+    onReadEntry: (entry) => {
+      extracted.push(toEntryName(entry.path));
+    },
+  }), compression);
+
+  return extracted;
+}
+
+/**
+ * Determine the content type of a file based on its extension
+ *
+ * @param filePath - File path
+ * @returns MIME content type
+ */
+export function getContentType(filePath: string): string {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.json':
+      return 'application/json';
+    case '.txt':
+    case '.log':
+      return 'text/plain';
+    case '.sql':
+      return 'application/sql';
+    case '.php':
+      return 'text/x-php';
+    case '.html':
+    case '.htm':
+      return 'text/html';
+    case '.css':
+      return 'text/css';
+    case '.js':
+      return 'application/javascript';
+    case '.png':
+      return 'image/png';
+    case '.jpg':
+    case '.jpeg':
+      return 'image/jpeg';
+    case '.gif':
+      return 'image/gif';
+    case '.svg':
+      return 'image/svg+xml';
+    case '.tar':
+      return 'application/x-tar';
+    case '.gz':
+    case '.gzip':
+      return 'application/gzip';
+    case '.zip':
+      return 'application/zip';
+    default:
+      return 'application/octet-stream';
+  }
+}
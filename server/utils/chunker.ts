@@ -0,0 +1,136 @@
+/**
+ * Content-Defined Chunking Utilities
+ *
+ * This module splits data into chunks at positions picked by the content
+ * itself, using a gear rolling hash. Inserting or removing bytes only changes
+ * the chunks around the edit, so the rest of a file keeps producing the same
+ * chunks and can be deduplicated.
+ */
+import { createHash } from 'crypto';
+
+/**
+ * Chunk size options in bytes
+ */
+export interface ChunkerOptions {
+  /** Smallest chunk, except for the last chunk of the data (default: 64 KiB) */
+  minSize?: number;
+
+  /** Typical distance between boundaries after minSize, a power of two (default: 256 KiB) */
+  avgSize?: number;
+
+  /** Largest chunk; a boundary is forced when no content boundary is found (default: 1 MiB) */
+  maxSize?: number;
+}
+
+/**
+ * Default chunk sizes
+ */
+export const DEFAULT_CHUNKER_OPTIONS: Required<ChunkerOptions> = {
+  minSize: 64 * 1024, // 64 KiB
+  avgSize: 256 * 1024, // 256 KiB
+  maxSize: 1024 * 1024 // 1 MiB
+};
+
+// The gear hash only depends on the last 32 bytes it has seen
+const WINDOW_SIZE = 32;
+
+/**
+ * Random value per byte value
+ *
+ * Derived from a fixed seed, so boundaries stay the same across processes
+ * and versions. Changing it would stop new chunks from matching stored ones.
+ */
+const GEAR = (() => {
+  const table = new Uint32Array(256);
+
+  for (let i = 0; i < table.length; i++) {
+    table[i] = createHash('sha256').update(`gear-${i}`).digest().readUInt32BE(0);
+  }
+
+  return table;
+})();
+
+/**
+ * Check chunk size options and fill in the defaults
+ *
+ * @param options - Chunk size options
+ * @returns Complete options
+ * @throws Error if the sizes are inconsistent
+ */
+function resolveOptions(options: ChunkerOptions): Required<ChunkerOptions> {
+  const resolved = { ...DEFAULT_CHUNKER_OPTIONS, ...options };
+  const { minSize, avgSize, maxSize } = resolved;
+
+  if (minSize < 2 * WINDOW_SIZE || minSize > maxSize) {
+    throw new Error(`Invalid chunk sizes: minSize must be between ${2 * WINDOW_SIZE} and maxSize`);
+  }
+
+  if (avgSize < 2 || (avgSize & (avgSize - 1)) !== 0 || avgSize > 2 ** 30) {
+    throw new Error('Invalid chunk sizes: avgSize must be a power of two');
+  }
+
+  return resolved;
+}
+
+/**
+ * Split a stream into content-defined chunks
+ *
+ * A boundary follows every byte where the top bits of the rolling hash are
+ * zero, once the chunk has reached minSize. The number of bits follows from
+ * avgSize. Chunks never exceed maxSize.
+ *
+ * @param source - Data to split, e.g. a file read stream
+ * @param options - Chunk size options
+ * @returns Chunks in order; together they are the complete data
+ */
+export async function* chunkStream(
+  source: AsyncIterable<Buffer | string>,
+  options: ChunkerOptions = {}
+): AsyncGenerator<Buffer> {
+  const { minSize, avgSize, maxSize } = resolveOptions(options);
+  const bits = Math.log2(avgSize);
+  const mask = bits === 0 ? 0 : ((0xffffffff << (32 - bits)) >>> 0);
+
+  let pieces: Buffer[] = [];
+  let length = 0;
+  let hash = 0;
+
+  for await (const input of source) {
+    const data = typeof input === 'string' ? Buffer.from(input) : input;
+    let start = 0;
+    let i = 0;
+
+    while (i < data.length) {
+      // Bytes that can't affect the hash at minSize don't need to be hashed
+      const skip = Math.min(data.length - i, minSize - WINDOW_SIZE - length);
+
+      if (skip > 0) {
+        i += skip;
+        length += skip;
+        continue;
+      }
+
+      hash = ((hash << 1) + GEAR[data[i]]) >>> 0;
+      length++;
+      i++;
+
+      if ((length >= minSize && (hash & mask) === 0) || length >= maxSize) {
+        pieces.push(data.subarray(start, i));
+        yield pieces.length === 1 ? pieces[0] : Buffer.concat(pieces);
+
+        pieces = [];
+        length = 0;
+        hash = 0;
+        start = i;
+      }
+    }
+
+    if (start < data.length) {
+      pieces.push(data.subarray(start));
+    }
+  }
+
+  if (length > 0) {
+    yield pieces.length === 1 ? pieces[0] : Buffer.concat(pieces);
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * Cron Expression Utilities
+ *
+ * This module parses standard five-field cron expressions and finds their
+ * run times in an IANA time zone, following daylight saving time changes.
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// How far ahead to look for a run before giving up, e.g. for "0 0 30 2 *"
+const SEARCH_YEARS = 5;
+
+/**
+ * Parsed cron expression
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day of month field is unrestricted, i.e. starts with "*" */
+  anyDayOfMonth: boolean;
+  /** Whether the day of week field is unrestricted, i.e. starts with "*" */
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * Shorthands for common expressions
+ */
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/**
+ * Allowed values of each field, in expression order
+ */
+const FIELDS: { name: string; min: number; max: number; names?: string[] }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is Sunday as well
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+/**
+ * Parse a cron expression
+ *
+ * Supports the five standard fields (minute, hour, day of month, month and
+ * day of week) with lists, ranges, steps, month and weekday names, and the
+ * \@hourly, \@daily, \@weekly, \@monthly and \@yearly shorthands. As in cron,
+ * a day matches when either day field matches if both are restricted.
+ *
+ * @param expression Cron expression
+ * @returns Parsed expression
+ * @throws Error if the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] || source).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Invalid cron expression "${source}": expected ${FIELDS.length} fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+    try {
+      return parseField(field, FIELDS[index]);
+    } catch (error: unknown) {
+      throw new Error(`Invalid cron expression "${source}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Check whether a cron expression is valid
+ *
+ * @param expression Cron expression
+ * @returns Whether the expression can be parsed
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse one field of a cron expression
+ *
+ * @param field Field text
+ * @param range Allowed values of the field
+ * @returns Values the field matches
+ */
+function parseField(field: string, range: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  const parseValue = (text: string): number => {
+    const nameIndex = range.names?.indexOf(text.toLowerCase()) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + range.min : /^\d+$/.test(text) ? Number(text) : NaN;
+
+    if (isNaN(value) || value < range.min || value > range.max) {
+      throw new Error(`invalid ${range.name} "${text}"`);
+    }
+
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [rangeText, stepText, ...rest] = part.split('/');
+
+    if (rest.length > 0 || (stepText !== undefined && !/^[1-9]\d*$/.test(stepText))) {
+      throw new Error(`invalid step in ${range.name} "${part}"`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start: number;
+    let end: number;
+
+    if (rangeText === '*') {
+      start = range.min;
+      end = range.max;
+    } else if (rangeText.includes('-')) {
+      const [startText, endText] = rangeText.split('-');
+      start = parseValue(startText);
+      end = parseValue(endText);
+    } else {
+      start = parseValue(rangeText);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : range.max;
+    }
+
+    if (start > end) {
+      throw new Error(`invalid ${range.name} range "${rangeText}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Check whether a time zone is a known IANA time zone
+ *
+ * @param timeZone Time zone name, e.g. "Europe/Amsterdam"
+ * @returns Whether the time zone can be used
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the wall clock time of an instant in a time zone
+ *
+ * @param instant Milliseconds since the epoch
+ * @param timeZone IANA time zone
+ * @returns The wall clock time as if it were UTC, in milliseconds
+ */
+function toWallTime(instant: number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    parts[part.type] = Number(part.value);
+  }
+
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Get the instant of a wall clock time in a time zone
+ *
+ * Wall clock times that happen twice when clocks go back resolve to the
+ * first one. Times skipped when clocks go forward are moved forward by the
+ * length of the gap, e.g. 02:30 becomes 03:30.
+ *
+ * @param wallTime Wall clock time as if it were UTC, in milliseconds
+ * @param timeZone IANA time zone
+ * @returns Milliseconds since the epoch
+ */
+function fromWallTime(wallTime: number, timeZone: string): number {
+  // The offsets around the wall time cover both sides of any DST change
+  const offsetBefore = toWallTime(wallTime - DAY, timeZone) - (wallTime - DAY);
+  const offsetAfter = toWallTime(wallTime + DAY, timeZone) - (wallTime + DAY);
+
+  const instants = [wallTime - offsetBefore, wallTime - offsetAfter]
+    .filter(instant => toWallTime(instant, timeZone) === wallTime)
+    .sort((a, b) => a - b);
+
+  return instants.length > 0 ? instants[0] : wallTime - offsetBefore;
+}
+
+/**
+ * Check whether a wall clock day matches a cron expression
+ *
+ * @param cron Parsed expression
+ * @param date Wall clock time as if it were UTC
+ * @returns Whether the expression runs on that day
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Find the first wall clock time matching a cron expression
+ *
+ * @param cron Parsed expression
+ * @param from Earliest wall clock time, at a whole minute
+ * @param limit Latest wall clock time to consider
+ * @returns Matching wall clock time or null if there is none before the limit
+ */
+function findWallTime(cron: CronExpression, from: number, limit: number): number | null {
+  const date = new Date(from);
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the first run of a cron expression strictly after a point in time
+ *
+ * The expression is evaluated in wall clock time of the time zone, so a
+ * daily 09:00 run stays at 09:00 across DST changes. Runs in the hour that
+ * repeats when clocks go back only happen once.
+ *
+ * @param cron Parsed expression
+ * @param after Point in time to start from
+ * @param timeZone IANA time zone
+ * @returns Next run time
+ * @throws Error if the expression doesn't run in the next five years
+ */
+export function getNextCronRun(cron: CronExpression, after: Date, timeZone: string): Date {
+  const start = Math.floor(toWallTime(after.getTime(), timeZone) / MINUTE) * MINUTE + MINUTE;
+  const limit = start + SEARCH_YEARS * 366 * DAY;
+
+  for (let wallTime = findWallTime(cron, start, limit); wallTime !== null; wallTime = findWallTime(cron, wallTime + MINUTE, limit)) {
+    const instant = fromWallTime(wallTime, timeZone);
+
+    // Skips the repeated hour and times moved forward past later runs
+    if (instant > after.getTime()) {
+      return new Date(instant);
+    }
+  }
+
+  throw new Error(`Cron expression "${cron.source}" doesn't run in the next ${SEARCH_YEARS} years`);
+}
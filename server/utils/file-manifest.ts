@@ -0,0 +1,328 @@
+/**
+ * File Manifest Utilities
+ *
+ * This module describes the files of a backup in a manifest (path, size,
+ * modification time and hash of every entry) and compares manifests, so an
+ * incremental backup only has to archive what changed since its parent.
+ */
+import path from 'path';
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs, Stats } from 'fs';
+import type { Readable } from 'stream';
+import { createArchive, createArchiveStream, toEntryName, type ArchiveError, type CreateArchiveOptions } from './archive';
+import type { CompressionOptions } from './file-stream';
+import type { BackupType } from '../providers/types';
+import logger from './logger';
+
+// Use the default logger instance
+
+/**
+ * Name of the manifest inside backup archives
+ */
+export const MANIFEST_ENTRY_NAME = '.backup-manifest.json';
+
+/**
+ * File, directory or symlink in a manifest
+ */
+export interface FileManifestEntry {
+  // Entry name inside the archive
+  path: string;
+  type: 'file' | 'directory' | 'symlink';
+  size: number;
+  // Modification time in milliseconds
+  mtime: number;
+  mode: number;
+  // SHA-256 of the content of files
+  hash?: string;
+  // Target of symlinks
+  target?: string;
+}
+
+/**
+ * Manifest stored in every backup archive
+ */
+export interface FileManifest {
+  version: 1;
+  type: BackupType;
+  // Backup ID the changes are relative to, missing for full backups
+  parent?: string;
+  // Backup ID whose state a synthetic full backup reproduces
+  replaces?: string;
+  created: string;
+  // Every file of the site after this backup, whether it is in this archive or not
+  entries: FileManifestEntry[];
+  // Entries stored in this backup's archive
+  changed: string[];
+  // Entries to remove when applying this backup on top of its parent
+  deleted: string[];
+  errors: ArchiveError[];
+}
+
+/**
+ * Hash the content of a file
+ *
+ * @param filePath - Path to the file
+ * @returns SHA-256 hex digest
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Describe files and directories the way createArchive would archive them
+ *
+ * Files whose size and modification time match the previous manifest keep
+ * its hash instead of being read again. Files that can't be read are
+ * skipped and reported in `errors`.
+ *
+ * @param files - Files and directories to describe
+ * @param previous - Entries of the parent backup's manifest
+ * @param options - Archive options the backup is created with
+ * @returns Manifest entries and skipped files
+ */
+export async function buildFileManifest(
+  files: string[],
+  previous: FileManifestEntry[] = [],
+  options: Pick<CreateArchiveOptions, 'followSymlinks' | 'cwd'> = {}
+): Promise<{ entries: FileManifestEntry[]; errors: ArchiveError[] }> {
+  const known = new Map(previous.map(entry => [entry.path, entry]));
+  const entries: FileManifestEntry[] = [];
+  const errors: ArchiveError[] = [];
+
+  const addEntry = async (filePath: string, name: string, stats: Stats, ancestors: string[]): Promise<void> => {
+    const entry = { path: name, size: 0, mtime: Math.floor(stats.mtimeMs), mode: stats.mode & 0o7777 };
+
+    if (stats.isSymbolicLink()) {
+      entries.push({ ...entry, type: 'symlink', target: await fs.readlink(filePath) });
+    } else if (stats.isDirectory()) {
+      // Followed symlinks can point back into a directory being described
+      const realPath = await fs.realpath(filePath);
+
+      if (ancestors.includes(realPath)) {
+        throw new Error('Symlink loop detected');
+      }
+
+      entries.push({ ...entry, type: 'directory' });
+
+      for (const child of (await fs.readdir(filePath)).sort()) {
+        await addPath(path.join(filePath, child), `${name}/${child}`, [...ancestors, realPath]);
+      }
+    } else if (stats.isFile()) {
+      const before = known.get(name);
+      const unchanged = before?.type === 'file' && before.size === stats.size && before.mtime === entry.mtime;
+
+      entries.push({
+        ...entry,
+        type: 'file',
+        size: stats.size,
+        hash: unchanged && before.hash ? before.hash : await hashFile(filePath),
+      });
+    } else {
+      throw new Error('Unsupported file type');
+    }
+  };
+
+  const addPath = async (filePath: string, name: string, ancestors: string[], follow = options.followSymlinks): Promise<void> => {
+    try {
+      const stats = follow ? await fs.stat(filePath) : await fs.lstat(filePath);
+      await addEntry(filePath, name, stats, ancestors);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.warn(`Skipping file: ${filePath}`, { error: message });
+      errors.push({ path: filePath, message });
+    }
+  };
+
+  for (const file of files) {
+    await addPath(options.cwd ? path.resolve(options.cwd, file) : file, toEntryName(file), [], true);
+  }
+
+  return { entries, errors };
+}
+
+/**
+ * Compare the entries of two manifests
+ *
+ * Directories only count as changed when they are new or their mode
+ * changed, as their modification time follows their children. Entries that
+ * changed type are both deleted and changed, so the old entry is removed
+ * before the new one is restored.
+ *
+ * @param previous - Entries of the parent backup
+ * @param current - Entries of the new backup
+ * @returns Names of new or changed entries and of removed entries
+ */
+export function diffFileManifests(
+  previous: FileManifestEntry[],
+  current: FileManifestEntry[]
+): { changed: string[]; deleted: string[] } {
+  const before = new Map(previous.map(entry => [entry.path, entry]));
+  const after = new Set(current.map(entry => entry.path));
+  const changed: string[] = [];
+  const deleted = previous.filter(entry => !after.has(entry.path)).map(entry => entry.path);
+
+  for (const entry of current) {
+    const old = before.get(entry.path);
+
+    if (!old) {
+      changed.push(entry.path);
+    } else if (old.type !== entry.type) {
+      deleted.push(entry.path);
+      changed.push(entry.path);
+    } else if (
+      old.mode !== entry.mode ||
+      (entry.type === 'file' && (old.hash !== entry.hash || old.mtime !== entry.mtime)) ||
+      (entry.type === 'symlink' && old.target !== entry.target)
+    ) {
+      changed.push(entry.path);
+    }
+  }
+
+  return { changed, deleted };
+}
+
+/**
+ * Count the files of a manifest
+ *
+ * @param manifest - Manifest
+ * @returns Number of files and symlinks in the backed up state, changed in this backup and removed
+ */
+export function countManifestFiles(manifest: FileManifest): {
+  fileCount: number;
+  changedFiles: number;
+  deletedFiles: number;
+} {
+  const directories = new Set(manifest.entries.filter(entry => entry.type === 'directory').map(entry => entry.path));
+
+  return {
+    fileCount: manifest.entries.length - directories.size,
+    changedFiles: manifest.changed.filter(name => !directories.has(name)).length,
+    deletedFiles: manifest.deleted.length,
+  };
+}
+
+/**
+ * Options of manifest archives
+ */
+interface ManifestArchiveOptions {
+  type?: BackupType;
+  parent?: string;
+  replaces?: string;
+  previous?: FileManifest;
+  cwd?: string;
+  compression?: CompressionOptions;
+}
+
+/**
+ * Create a backup archive with a manifest
+ *
+ * With a previous manifest only new and changed entries are archived, and
+ * the manifest lists the entries removed since then. Files that can't be
+ * archived are left out of the manifest, so the next backup picks them up
+ * as new.
+ *
+ * @param files - Files and directories to back up
+ * @param outputPath - Path to the output file
+ * @param options - Backup type, parent backup ID, the parent's manifest, the directory to read relative paths from and the compression
+ * @returns Archive size, number of files added, skipped files and the manifest
+ */
+export async function createManifestArchive(
+  files: string[],
+  outputPath: string,
+  options: ManifestArchiveOptions = {}
+): Promise<{
+  size: number;
+  checksum: string;
+  fileCount: number;
+  errors: ArchiveError[];
+  manifest: FileManifest;
+}> {
+  const { archiveOptions, getManifest } = await prepareManifestArchive(files, options);
+  const archive = await createArchive(files, outputPath, archiveOptions);
+  const manifest = getManifest();
+
+  return { ...archive, errors: manifest.errors, manifest };
+}
+
+/**
+ * Create a backup archive with a manifest that is read while it is created
+ *
+ * Entries are chosen like createManifestArchive chooses them; the manifest
+ * is only complete once the archive is.
+ *
+ * @param files - Files and directories to back up
+ * @param options - Backup type, parent backup ID, the parent's manifest, the directory to read relative paths from and the compression
+ * @returns Archive stream, completed with the manifest
+ */
+export async function createManifestArchiveStream(
+  files: string[],
+  options: ManifestArchiveOptions = {}
+): Promise<{
+  stream: Readable;
+  completed: Promise<Awaited<ReturnType<typeof createManifestArchive>>>;
+}> {
+  const { archiveOptions, getManifest } = await prepareManifestArchive(files, options);
+  const archive = createArchiveStream(files, archiveOptions);
+
+  return {
+    stream: archive.stream,
+    completed: archive.completed.then(result => {
+      const manifest = getManifest();
+      return { ...result, errors: manifest.errors, manifest };
+    }),
+  };
+}
+
+/**
+ * Build the manifest of a backup and the archive options that add its entries
+ *
+ * @param files - Files and directories to back up
+ * @param options - Manifest archive options
+ * @returns Archive options and a getter for the manifest, which is built when the archive ends
+ */
+async function prepareManifestArchive(files: string[], options: ManifestArchiveOptions): Promise<{
+  archiveOptions: CreateArchiveOptions;
+  getManifest: () => FileManifest;
+}> {
+  const previous = options.previous?.entries || [];
+  const { entries, errors: skipped } = await buildFileManifest(files, previous, { cwd: options.cwd });
+  const { changed, deleted } = options.previous
+    ? diffFileManifests(previous, entries)
+    : { changed: entries.map(entry => entry.path), deleted: [] };
+  const included = new Set(changed);
+
+  let manifest: FileManifest | undefined;
+
+  const archiveOptions: CreateArchiveOptions = {
+    cwd: options.cwd,
+    compression: options.compression,
+    filter: name => included.has(name),
+    extraEntries: errors => {
+      const failed = new Set(errors.map(error =>
+        toEntryName(options.cwd ? path.relative(options.cwd, error.path) : error.path)));
+
+      manifest = {
+        version: 1,
+        type: options.type || (options.previous ? 'incremental' : 'full'),
+        parent: options.parent,
+        replaces: options.replaces,
+        created: new Date().toISOString(),
+        entries: entries.filter(entry => !failed.has(entry.path)),
+        changed: changed.filter(name => !failed.has(name)),
+        deleted,
+        errors: [...skipped, ...errors],
+      };
+
+      return [{ name: MANIFEST_ENTRY_NAME, content: JSON.stringify(manifest) }];
+    },
+  };
+
+  return { archiveOptions, getManifest: () => manifest! };
+}
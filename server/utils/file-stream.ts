@@ -4,10 +4,12 @@
  * This module provides utilities for efficient file handling using streams,
  * which is especially important for large file operations.
  */
+import os from 'os';
 import { createReadStream, createWriteStream, promises as fs } from 'fs';
 import { join, dirname, basename } from 'path';
-import { createGzip, createGunzip } from 'zlib';
-import { Transform, pipeline } from 'stream';
+import * as zlib from 'zlib';
+import { createGzip, createGunzip, createBrotliCompress, createBrotliDecompress } from 'zlib';
+import { PassThrough, Transform, Writable, pipeline, type Readable } from 'stream';
 import { promisify } from 'util';
 import { createHash } from 'crypto';
 import logger from './logger';
@@ -15,6 +17,39 @@ import logger from './logger';
 // Use the default logger instance
 const pipelineAsync = promisify(pipeline);
 
+/**
+ * Compression codecs of backup archives
+ */
+export const compressionCodecs = ['none', 'gzip', 'zstd', 'brotli'] as const;
+export type CompressionCodec = typeof compressionCodecs[number];
+
+/**
+ * Compression of backup archives
+ */
+export interface CompressionOptions {
+  codec: CompressionCodec;
+  // Codec specific level, the codec's default if missing
+  level?: number;
+}
+
+/**
+ * Compression of archives without a configured codec
+ */
+export const DEFAULT_COMPRESSION: CompressionOptions = { codec: 'gzip' };
+
+// Levels accepted by each codec
+const COMPRESSION_LEVELS: Record<Exclude<CompressionCodec, 'none'>, { min: number; max: number }> = {
+  gzip: { min: 1, max: 9 },
+  zstd: { min: 1, max: 22 },
+  brotli: { min: 0, max: 11 },
+};
+
+// zstd is only part of zlib from Node.js 22.15 on
+const zstd = zlib as typeof zlib & {
+  createZstdCompress?: (options?: { params?: Record<number, number> }) => Transform;
+  createZstdDecompress?: () => Transform;
+};
+
 /**
  * Stream copy options
  */
@@ -88,9 +123,9 @@ export function createFileReadStream(
   filePath: string,
   options?: { bufferSize?: number; start?: number; end?: number }
 ) {
+  // Read raw bytes, decoding as text would corrupt binary files and their checksums
   const readOptions: any = {
     highWaterMark: options?.bufferSize || 64 * 1024, // 64KB default
-    encoding: 'utf8'
   };
   
   if (options?.start !== undefined) {
@@ -286,12 +321,14 @@ export async function calculateFileChecksum(
  * @param filePath - Path to the file
  * @param chunkSize - Size of each chunk in bytes
  * @param callback - Callback for each chunk
+ * @param firstChunk - Index of the chunk to start at, e.g. to continue an upload
  * @returns Promise that resolves when the file is fully read
  */
 export async function readFileInChunks(
   filePath: string,
   chunkSize: number,
-  callback: (chunk: Buffer, chunkIndex: number) => Promise<void>
+  callback: (chunk: Buffer, chunkIndex: number) => Promise<void>,
+  firstChunk: number = 0
 ): Promise<void> {
   // Check if the file exists
   if (!(await fileExists(filePath))) {
@@ -305,7 +342,7 @@ export async function readFileInChunks(
   const numChunks = Math.ceil(fileSize / chunkSize);
   
   // Read each chunk
-  for (let i = 0; i < numChunks; i++) {
+  for (let i = firstChunk; i < numChunks; i++) {
     const start = i * chunkSize;
     const end = Math.min(start + chunkSize - 1, fileSize - 1);
     
@@ -325,6 +362,381 @@ export async function readFileInChunks(
   }
 }
 
+/**
+ * Count the leading chunks of a file that match parts uploaded earlier
+ * 
+ * Chunks are compared with the parts by size and SHA-256, in order, up to
+ * the first one that differs, so an interrupted upload can continue after
+ * the chunks that didn't change.
+ * 
+ * @param filePath - Path to the file
+ * @param chunkSize - Size of each chunk in bytes
+ * @param parts - Parts uploaded earlier, in order
+ * @returns Number of matching chunks
+ */
+export async function countMatchingChunks(
+  filePath: string,
+  chunkSize: number,
+  parts: Array<{ size: number; sha256: string }>
+): Promise<number> {
+  const fileHandle = await fs.open(filePath, 'r');
+  
+  try {
+    for (let i = 0; i < parts.length; i++) {
+      const buffer = Buffer.alloc(chunkSize);
+      const { bytesRead } = await fileHandle.read(buffer, 0, chunkSize, i * chunkSize);
+      const sha256 = createHash('sha256').update(buffer.subarray(0, bytesRead)).digest('hex');
+      
+      if (bytesRead !== parts[i].size || sha256 !== parts[i].sha256) {
+        return i;
+      }
+    }
+    
+    return parts.length;
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Read a stream in parts of a fixed size
+ * 
+ * Only the current part is held in memory, so streams of any length can be
+ * uploaded in parts without staging them on disk. Parts are hashed through
+ * createChecksumTransform while they are read; the callback also learns
+ * whether a part is the last one, e.g. to name a single part differently,
+ * and the part's SHA-256.
+ * 
+ * @param stream - Stream to read
+ * @param partSize - Size of each part in bytes, the last part may be smaller
+ * @param callback - Callback for each part
+ * @returns SHA-256 of each part, in order
+ */
+export async function readStreamInParts(
+  stream: Readable,
+  partSize: number,
+  callback: (part: Buffer, partIndex: number, last: boolean, sha256: string) => Promise<void>
+): Promise<string[]> {
+  let partIndex = 0;
+  let partOffset = 0;
+  let held: { index: number; chunks: Buffer[] } | null = null;
+  
+  // Label every byte with the part it belongs to, in the chunk format of createChecksumTransform
+  const splitter = new Transform({
+    readableObjectMode: true,
+    
+    transform(chunk: Buffer, encoding, callback) {
+      let offset = 0;
+      
+      while (offset < chunk.length) {
+        if (partOffset === partSize) {
+          partIndex++;
+          partOffset = 0;
+        }
+        
+        const length = Math.min(partSize - partOffset, chunk.length - offset);
+        this.push({ file: String(partIndex), data: chunk.subarray(offset, offset + length) });
+        
+        offset += length;
+        partOffset += length;
+      }
+      
+      callback();
+    }
+  });
+  
+  const checksums = createChecksumTransform();
+  const hashes = (checksums as Transform & { checksums: Map<string, string> }).checksums;
+  
+  // A part is handed over once the next one starts, or the stream ends, so its hash is complete
+  const collector = new Writable({
+    objectMode: true,
+    
+    write(chunk: { file: string; data: Buffer }, encoding, done) {
+      const index = Number(chunk.file);
+      
+      if (held && held.index !== index) {
+        const part = held;
+        held = { index, chunks: [chunk.data] };
+        callback(Buffer.concat(part.chunks), part.index, false, hashes.get(String(part.index))!).then(() => done(), done);
+        return;
+      }
+      
+      held = held || { index, chunks: [] };
+      held.chunks.push(chunk.data);
+      done();
+    },
+    
+    final(done) {
+      if (!held) {
+        done();
+        return;
+      }
+      
+      callback(Buffer.concat(held.chunks), held.index, true, hashes.get(String(held.index))!).then(() => done(), done);
+    }
+  });
+  
+  await pipelineAsync(stream, splitter, checksums, collector);
+  
+  return Array.from({ length: hashes.size }, (_, index) => hashes.get(String(index))!);
+}
+
+/**
+ * Write a stream into part files of a fixed size
+ * 
+ * Like readStreamInParts, but parts are written to files in a directory
+ * instead of being held in memory, so parts can be larger than what should
+ * stay in memory. Only one part file exists at a time: each is removed once
+ * the callback has handled it, and the stream is only read on afterwards.
+ * 
+ * @param stream - Stream to read
+ * @param partSize - Size of each part in bytes, the last part may be smaller
+ * @param dir - Directory to write the part files to
+ * @param callback - Callback for each part, with the path and size of its file
+ * @returns SHA-256 of each part, in order
+ */
+export async function spoolStreamInParts(
+  stream: Readable,
+  partSize: number,
+  dir: string,
+  callback: (partPath: string, size: number, partIndex: number, last: boolean, sha256: string) => Promise<void>
+): Promise<string[]> {
+  const checksums: string[] = [];
+  let current: { index: number; size: number; handle: fs.FileHandle; hash: ReturnType<typeof createHash> } | null = null;
+  // A complete part is handed over once the next byte arrives, or the stream ends
+  let complete: { index: number; size: number } | null = null;
+  
+  const partPath = (index: number) => join(dir, `part-${index}`);
+  
+  const finishPart = async () => {
+    const part = current!;
+    current = null;
+    
+    await part.handle.close();
+    checksums.push(part.hash.digest('hex'));
+    complete = { index: part.index, size: part.size };
+  };
+  
+  const handOver = async (last: boolean) => {
+    const part = complete!;
+    complete = null;
+    
+    try {
+      await callback(partPath(part.index), part.size, part.index, last, checksums[part.index]);
+    } finally {
+      await fs.rm(partPath(part.index), { force: true });
+    }
+  };
+  
+  const writer = new Writable({
+    write(chunk: Buffer, encoding, done) {
+      (async () => {
+        let offset = 0;
+        
+        while (offset < chunk.length) {
+          if (complete) {
+            await handOver(false);
+          }
+          
+          if (!current) {
+            const index = checksums.length;
+            current = { index, size: 0, handle: await fs.open(partPath(index), 'w'), hash: createHash('sha256') };
+          }
+          
+          const data = chunk.subarray(offset, offset + Math.min(partSize - current.size, chunk.length - offset));
+          await current.handle.write(data);
+          current.hash.update(data);
+          current.size += data.length;
+          offset += data.length;
+          
+          if (current.size === partSize) {
+            await finishPart();
+          }
+        }
+      })().then(() => done(), done);
+    },
+    
+    final(done) {
+      (async () => {
+        if (current) {
+          await finishPart();
+        }
+        
+        if (complete) {
+          await handOver(true);
+        }
+      })().then(() => done(), done);
+    },
+    
+    destroy(error, done) {
+      const part = current;
+      current = null;
+      
+      // Close the part file of a failed stream; the caller removes the directory
+      (part ? part.handle.close() : Promise.resolve()).then(() => done(error), () => done(error));
+    }
+  });
+  
+  await pipelineAsync(stream, writer);
+  
+  return checksums;
+}
+
+// Prefix of the temporary directories backups stage their archives in
+const STAGING_PREFIX = 'backup-staging-';
+
+/**
+ * Create a temporary directory to stage the archives of a backup in
+ * 
+ * The directory name carries the backup ID, so the archives a backup staged
+ * before the process stopped can be found and removed again.
+ * 
+ * @param backupId - Backup ID
+ * @returns Path of the directory
+ */
+export async function createStagingDir(backupId: string): Promise<string> {
+  return fs.mkdtemp(join(os.tmpdir(), `${STAGING_PREFIX}${backupId}-`));
+}
+
+/**
+ * Remove the staging directories of a backup
+ * 
+ * @param backupId - Backup ID
+ * @returns Number of removed directories
+ */
+export async function removeStagingDirs(backupId: string): Promise<number> {
+  const prefix = `${STAGING_PREFIX}${backupId}-`;
+  const names = (await fs.readdir(os.tmpdir())).filter(name => name.startsWith(prefix));
+  
+  for (const name of names) {
+    await fs.rm(join(os.tmpdir(), name), { recursive: true, force: true });
+  }
+  
+  return names.length;
+}
+
+/**
+ * Check compression options
+ * 
+ * @param options - Compression options
+ * @returns Error message or null if the options can be used
+ */
+export function validateCompression(options: CompressionOptions): string | null {
+  if (!compressionCodecs.includes(options.codec)) {
+    return `Unknown compression codec: ${options.codec}`;
+  }
+  
+  if (options.codec === 'zstd' && !zstd.createZstdCompress) {
+    return 'zstd compression requires Node.js 22.15 or later';
+  }
+  
+  if (options.level !== undefined) {
+    if (options.codec === 'none') {
+      return 'Uncompressed archives have no compression level';
+    }
+    
+    const { min, max } = COMPRESSION_LEVELS[options.codec];
+    
+    if (!Number.isInteger(options.level) || options.level < min || options.level > max) {
+      return `${options.codec} compression level must be between ${min} and ${max}`;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Create a compression stream
+ * 
+ * @param options - Compression options
+ * @returns Transform stream that compresses its input
+ * @throws Error if the options can't be used
+ */
+export function createCompressStream(options: CompressionOptions): Transform {
+  const error = validateCompression(options);
+  
+  if (error) {
+    throw new Error(error);
+  }
+  
+  switch (options.codec) {
+    case 'gzip':
+      return createGzip(options.level !== undefined ? { level: options.level } : {});
+    case 'brotli':
+      return createBrotliCompress(options.level !== undefined
+        ? { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: options.level } }
+        : {});
+    case 'zstd':
+      return zstd.createZstdCompress!(options.level !== undefined
+        ? { params: { [(zlib.constants as Record<string, number>).ZSTD_c_compressionLevel]: options.level } }
+        : {});
+    default:
+      return new PassThrough();
+  }
+}
+
+/**
+ * Create a decompression stream
+ * 
+ * @param codec - Codec the input was compressed with
+ * @returns Transform stream that decompresses its input
+ * @throws Error if the codec isn't supported
+ */
+export function createDecompressStream(codec: CompressionCodec): Transform {
+  switch (codec) {
+    case 'gzip':
+      return createGunzip();
+    case 'brotli':
+      return createBrotliDecompress();
+    case 'zstd':
+      if (!zstd.createZstdDecompress) {
+        throw new Error('zstd decompression requires Node.js 22.15 or later');
+      }
+      
+      return zstd.createZstdDecompress();
+    case 'none':
+      return new PassThrough();
+    default:
+      throw new Error(`Unknown compression codec: ${codec}`);
+  }
+}
+
+/**
+ * Detect the codec a tar archive was compressed with
+ * 
+ * gzip and zstd are recognized by their magic numbers and uncompressed
+ * archives by their tar header. brotli has no magic number, so anything
+ * else is taken for brotli.
+ * 
+ * @param filePath - Path to the archive
+ * @returns Compression codec
+ */
+export async function detectCompression(filePath: string): Promise<CompressionCodec> {
+  const header = Buffer.alloc(262);
+  const fileHandle = await fs.open(filePath, 'r');
+  
+  try {
+    const { bytesRead } = await fileHandle.read(header, 0, header.length, 0);
+    
+    if (bytesRead >= 2 && header[0] === 0x1f && header[1] === 0x8b) {
+      return 'gzip';
+    }
+    
+    if (bytesRead >= 4 && header.readUInt32LE(0) === 0xfd2fb528) {
+      return 'zstd';
+    }
+    
+    if (bytesRead >= 262 && header.toString('ascii', 257, 262) === 'ustar') {
+      return 'none';
+    }
+    
+    return 'brotli';
+  } finally {
+    await fileHandle.close();
+  }
+}
+
 /**
  * Extract a gzipped file
  * 
@@ -337,6 +749,24 @@ export async function extractGzipFile(
   sourcePath: string,
   destinationPath: string,
   options: Omit<StreamCopyOptions, 'gzip'> = {}
+): Promise<void> {
+  return decompressFile(sourcePath, destinationPath, 'gzip', options);
+}
+
+/**
+ * Decompress a file
+ * 
+ * @param sourcePath - Source file path (compressed)
+ * @param destinationPath - Destination file path
+ * @param codec - Codec the file was compressed with, e.g. from the backup metadata
+ * @param options - Extract options
+ * @returns Promise that resolves when decompression is complete
+ */
+export async function decompressFile(
+  sourcePath: string,
+  destinationPath: string,
+  codec: CompressionCodec,
+  options: Omit<StreamCopyOptions, 'gzip'> = {}
 ): Promise<void> {
   // Check if the source file exists
   if (!(await fileExists(sourcePath))) {
@@ -353,7 +783,8 @@ export async function extractGzipFile(
   
   try {
     // Create read and write streams
-    const readStream = createFileReadStream(sourcePath, { bufferSize: options.bufferSize });
+    // Compressed data is binary, so it's read without an encoding
+    const readStream = createReadStream(sourcePath, { highWaterMark: options.bufferSize || 64 * 1024 });
     const writeStream = createFileWriteStream(destinationPath, { bufferSize: options.bufferSize });
     
     // Create progress tracking transform if needed
@@ -375,21 +806,21 @@ export async function extractGzipFile(
       
       await pipelineAsync(
         readStream,
-        createGunzip(),
+        createDecompressStream(codec),
         progressTracker,
         writeStream
       );
     } else {
       await pipelineAsync(
         readStream,
-        createGunzip(),
+        createDecompressStream(codec),
         writeStream
       );
     }
     
-    logger.debug(`File extracted: ${sourcePath} -> ${destinationPath}`);
+    logger.debug(`File decompressed: ${sourcePath} -> ${destinationPath}`);
   } catch (error) {
-    logger.error(`File extraction failed: ${sourcePath} -> ${destinationPath}`, error);
+    logger.error(`File decompression failed: ${sourcePath} -> ${destinationPath}`, error);
     
     // Attempt to clean up the partial file
     try {
@@ -415,7 +846,7 @@ export function createChecksumTransform(algorithm: string = 'sha256'): Transform
   let currentFile: string | null = null;
   let currentHash: any = null;
   
-  return new Transform({
+  const transform = new Transform({
     objectMode: true,
     
     transform(chunk, encoding, callback) {
@@ -446,12 +877,15 @@ export function createChecksumTransform(algorithm: string = 'sha256'): Transform
         checksums.set(currentFile, currentHash.digest('hex'));
       }
       
-      // Store the checksums on the transform stream
-      (this as any).checksums = checksums;
-      
       callback();
     }
   });
+  
+  // Store the checksums on the transform stream; a file's checksum is set
+  // before the first chunk of the next file is passed on
+  (transform as any).checksums = checksums;
+  
+  return transform;
 }
 
 /**
@@ -0,0 +1,135 @@
+/**
+ * Backup Schedule Utilities
+ *
+ * This module calculates when backup schedules run. Every schedule is
+ * turned into a cron expression that is evaluated in the schedule's time
+ * zone, or the server time zone if it has none.
+ */
+
+import type { BackupSchedule } from '@shared/schema';
+import { parseCronExpression, getNextCronRun, isValidTimeZone } from './cron';
+
+/**
+ * Schedule fields that determine when it runs
+ */
+export type ScheduleTiming = Pick<BackupSchedule, 'frequency' | 'hourOfDay' | 'minuteOfHour'> & {
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+  cronExpression?: string | null;
+  timeZone?: string | null;
+};
+
+/**
+ * Fields that change when a schedule runs when they are updated
+ */
+const TIMING_FIELDS: (keyof ScheduleTiming)[] = [
+  'frequency',
+  'dayOfWeek',
+  'dayOfMonth',
+  'hourOfDay',
+  'minuteOfHour',
+  'cronExpression',
+  'timeZone',
+];
+
+/**
+ * Check whether an update changes when a schedule runs
+ *
+ * @param update Updated schedule fields
+ * @returns Whether the next run has to be recalculated
+ */
+export function changesTiming(update: Partial<ScheduleTiming>): boolean {
+  return TIMING_FIELDS.some(field => update[field] !== undefined);
+}
+
+/**
+ * Get the cron expression of a schedule
+ *
+ * Hourly schedules run at `minuteOfHour` past every hour, weekly schedules
+ * on `dayOfWeek` (Sunday if unset) and monthly schedules on `dayOfMonth`
+ * (the 1st if unset), skipping months without that day. Custom schedules
+ * use `cronExpression` and any other frequency runs daily.
+ *
+ * @param schedule Schedule timing
+ * @returns Cron expression
+ */
+export function getCronExpression(schedule: ScheduleTiming): string {
+  const { minuteOfHour, hourOfDay } = schedule;
+
+  switch (schedule.frequency) {
+    case 'custom':
+      if (!schedule.cronExpression) {
+        throw new Error('Custom schedules need a cron expression');
+      }
+      return schedule.cronExpression;
+    case 'hourly':
+      return `${minuteOfHour} * * * *`;
+    case 'weekly':
+      return `${minuteOfHour} ${hourOfDay} * * ${schedule.dayOfWeek ?? 0}`;
+    case 'monthly':
+      return `${minuteOfHour} ${hourOfDay} ${schedule.dayOfMonth ?? 1} * *`;
+    default:
+      return `${minuteOfHour} ${hourOfDay} * * *`;
+  }
+}
+
+/**
+ * Get the time zone a schedule runs in
+ *
+ * @param schedule Schedule timing
+ * @returns IANA time zone
+ */
+export function getScheduleTimeZone(schedule: ScheduleTiming): string {
+  return schedule.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Get the next runs of a schedule strictly after a point in time
+ *
+ * @param schedule Schedule timing
+ * @param after Point in time to start from
+ * @param count Number of runs
+ * @returns Run times, oldest first
+ */
+export function getNextRuns(schedule: ScheduleTiming, after: Date, count: number): Date[] {
+  const cron = parseCronExpression(getCronExpression(schedule));
+  const timeZone = getScheduleTimeZone(schedule);
+  const runs: Date[] = [];
+
+  for (let run = after; runs.length < count; ) {
+    run = getNextCronRun(cron, run, timeZone);
+    runs.push(run);
+  }
+
+  return runs;
+}
+
+/**
+ * Get the first run of a schedule strictly after a point in time
+ *
+ * @param schedule Schedule timing
+ * @param after Point in time to start from
+ * @returns Next run time
+ */
+export function getNextRun(schedule: ScheduleTiming, after: Date): Date {
+  return getNextRuns(schedule, after, 1)[0];
+}
+
+/**
+ * Check that a schedule has a valid time zone and ever runs
+ *
+ * @param schedule Schedule timing
+ * @returns Error message or undefined if the schedule is valid
+ */
+export function getScheduleTimingError(schedule: ScheduleTiming): string | undefined {
+  if (schedule.timeZone && !isValidTimeZone(schedule.timeZone)) {
+    return `Unknown time zone: ${schedule.timeZone}`;
+  }
+
+  try {
+    getNextRun(schedule, new Date());
+    return undefined;
+  } catch (error: unknown) {
+    return error instanceof Error ? error.message : 'Invalid schedule';
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * SQL Dump Utilities
+ *
+ * This module splits SQL dumps into statements the way the mysql client does
+ * when it imports them, without a database. Quoted strings, identifiers,
+ * comments and DELIMITER commands are honored, so a dump that was cut off or
+ * corrupted shows up as an unterminated string or statement.
+ */
+import { createReadStream } from 'fs';
+
+/**
+ * Summary of a parsed SQL dump
+ */
+export interface SqlDumpSummary {
+  /** Number of statements */
+  statements: number;
+
+  /** Tables created by the dump, in order */
+  tables: string[];
+
+  /** Number of INSERT and REPLACE statements */
+  inserts: number;
+}
+
+// Characters kept from the start of a statement to classify it
+const HEAD_LENGTH = 256;
+
+// DELIMITER command of the mysql client, up to the end of its line
+const DELIMITER_COMMAND = /^\s*DELIMITER\s/i;
+
+type ParserState = 'normal' | 'single' | 'double' | 'backtick' | 'line-comment' | 'block-comment';
+
+/**
+ * Parse a SQL dump
+ *
+ * The dump is streamed, so its size isn't limited by memory.
+ *
+ * @param filePath - Path to the dump
+ * @returns Number of statements, created tables and inserts
+ * @throws Error if the dump is empty or ends inside a string, comment or statement
+ */
+export async function parseSqlDump(filePath: string): Promise<SqlDumpSummary> {
+  const summary: SqlDumpSummary = { statements: 0, tables: [], inserts: 0 };
+  let state = 'normal' as ParserState;
+  let delimiter = ';';
+  // Start of the current statement, with comments left out
+  let head = '';
+  // Whether the current block comment is executed by MySQL, e.g. /*!40101 SET NAMES utf8 */
+  let executable = false;
+  let line = 1;
+  let carry = '';
+
+  const endStatement = () => {
+    const statement = head.trim();
+
+    if (statement) {
+      summary.statements++;
+
+      const table = statement.match(/^CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?[`"]?([^`"\s(]+)/i);
+
+      if (table) {
+        summary.tables.push(table[1]);
+      } else if (/^(INSERT|REPLACE)\s/i.test(statement)) {
+        summary.inserts++;
+      }
+    }
+
+    head = '';
+  };
+
+  const append = (text: string) => {
+    if (head.length < HEAD_LENGTH) {
+      head += text;
+    }
+  };
+
+  // Returns how many characters were consumed at text[index]
+  const consume = (text: string, index: number): number => {
+    const char = text[index];
+    const next = text[index + 1];
+
+    if (char === '\n') {
+      line++;
+    }
+
+    switch (state) {
+      case 'single':
+      case 'double':
+      case 'backtick': {
+        const quote = state === 'single' ? "'" : state === 'double' ? '"' : '`';
+
+        if (char === '\\' && state !== 'backtick') {
+          append(text.slice(index, index + 2));
+          return 2;
+        }
+
+        if (char === quote) {
+          state = 'normal';
+        }
+
+        append(char);
+        return 1;
+      }
+      case 'line-comment':
+        if (char === '\n') {
+          state = 'normal';
+          append(char);
+        }
+
+        return 1;
+      case 'block-comment':
+        if (char === '*' && next === '/') {
+          state = 'normal';
+
+          if (executable) {
+            append(' */');
+          }
+
+          return 2;
+        }
+
+        if (executable) {
+          append(char);
+        }
+
+        return 1;
+    }
+
+    // The client handles DELIMITER lines itself, they never reach the server
+    if (DELIMITER_COMMAND.test(head)) {
+      if (char === '\n') {
+        delimiter = head.trim().split(/\s+/)[1];
+        head = '';
+      } else {
+        append(char);
+      }
+
+      return 1;
+    }
+
+    if (text.startsWith(delimiter, index)) {
+      endStatement();
+      return delimiter.length;
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      state = char === "'" ? 'single' : char === '"' ? 'double' : 'backtick';
+      append(char);
+      return 1;
+    }
+
+    if (char === '#' || (char === '-' && next === '-' && /[\s]/.test(text[index + 2] ?? '\n'))) {
+      state = 'line-comment';
+      return 1;
+    }
+
+    if (char === '/' && next === '*') {
+      state = 'block-comment';
+      executable = text[index + 2] === '!';
+
+      if (executable) {
+        append('/*');
+      }
+
+      return 2;
+    }
+
+    append(char);
+    return 1;
+  };
+
+  const parse = (text: string, final: boolean) => {
+    // Keep a few characters back, so comment markers and delimiters aren't split between chunks
+    const end = final ? text.length : text.length - Math.max(delimiter.length, 3);
+    let index = 0;
+
+    while (index < end) {
+      index += consume(text, index);
+    }
+
+    return text.slice(index);
+  };
+
+  const stream = createReadStream(filePath, { encoding: 'utf8' });
+
+  for await (const chunk of stream) {
+    carry = parse(carry + chunk, false);
+  }
+
+  parse(carry, true);
+
+  if (state === 'single' || state === 'double' || state === 'backtick') {
+    throw new Error(`SQL dump ends inside a quoted string (line ${line})`);
+  }
+
+  if (state === 'block-comment') {
+    throw new Error(`SQL dump ends inside a comment (line ${line})`);
+  }
+
+  if (DELIMITER_COMMAND.test(head)) {
+    head = '';
+  }
+
+  if (head.trim()) {
+    throw new Error(`SQL dump ends in the middle of a statement (line ${line})`);
+  }
+
+  if (summary.statements === 0) {
+    throw new Error('SQL dump has no statements');
+  }
+
+  return summary;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, jsonb, real, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -44,20 +44,48 @@ export const backupSchedules = pgTable("backup_schedules", {
   id: serial("id").primaryKey(),
   siteId: integer("site_id").notNull(),
   storageProviderId: integer("storage_provider_id").notNull(),
-  frequency: text("frequency").notNull(), // "daily", "weekly", "monthly", etc.
+  frequency: text("frequency").notNull(), // "hourly", "daily", "weekly", "monthly" or "custom"
   dayOfWeek: integer("day_of_week"), // 0-6, null if not applicable
+  dayOfMonth: integer("day_of_month"), // 1-31, null if not applicable
   hourOfDay: integer("hour_of_day").notNull(), // 0-23
   minuteOfHour: integer("minute_of_hour").notNull(), // 0-59
-  backupType: text("backup_type").default("full").notNull(), // "full", "incremental"
-  fullBackupFrequency: integer("full_backup_frequency"), // number of incremental backups before full backup
+  cronExpression: text("cron_expression"), // five-field cron expression for "custom" schedules
+  timeZone: text("time_zone"), // IANA time zone, null for the server time zone
+  backupType: text("backup_type").default("full").notNull(), // "full", "incremental", "differential"
+  fullBackupFrequency: integer("full_backup_frequency"), // number of incremental or differential backups before full backup
+  differentialBackupFrequency: integer("differential_backup_frequency"), // number of incremental backups before a differential backup
   retentionCount: integer("retention_count"), // number of backups to keep
+  configurationId: text("configuration_id"), // backup configuration that runs the scheduled backups
+  paths: jsonb("paths").$type<string[]>(), // site directories to back up
+  catchUpPolicy: text("catch_up_policy").default("run_once").notNull(), // "skip", "run_once", "run_all"
+  drillFrequency: integer("drill_frequency"), // number of scheduled backups between restore drills, null for none
   enabled: boolean("enabled").default(true).notNull(),
   lastRun: timestamp("last_run"),
   nextRun: timestamp("next_run"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertBackupScheduleSchema = createInsertSchema(backupSchedules).omit({
+// Kinds of backups a schedule takes; incremental schedules can mix in differential backups
+export const scheduleBackupTypes = ["full", "incremental", "differential"] as const;
+export type ScheduleBackupType = typeof scheduleBackupTypes[number];
+
+// What the scheduler does with runs missed while the server was down
+export const catchUpPolicies = ["skip", "run_once", "run_all"] as const;
+export type CatchUpPolicy = typeof catchUpPolicies[number];
+
+export const insertBackupScheduleSchema = createInsertSchema(backupSchedules, {
+  frequency: z.enum(["hourly", "daily", "weekly", "monthly", "custom"]),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+  hourOfDay: z.number().int().min(0).max(23),
+  minuteOfHour: z.number().int().min(0).max(59),
+  paths: z.array(z.string()).nullable().optional(),
+  catchUpPolicy: z.enum(catchUpPolicies).optional(),
+  backupType: z.enum(scheduleBackupTypes).optional(),
+  fullBackupFrequency: z.number().int().positive().nullable().optional(),
+  differentialBackupFrequency: z.number().int().positive().nullable().optional(),
+  drillFrequency: z.number().int().positive().nullable().optional(),
+}).omit({
   id: true,
   lastRun: true,
   nextRun: true,
@@ -75,11 +103,16 @@ export const backups = pgTable("backups", {
   status: text("status").notNull(), // "pending", "in_progress", "completed", "failed", etc.
   type: text("type").default("full").notNull(), // "full", "incremental", "differential"
   parentBackupId: integer("parent_backup_id"), // reference to parent backup for incremental backups
-  size: integer("size"), // in bytes, null if not completed
+  size: bigint("size", { mode: "number" }), // in bytes, null if not completed; archives can exceed 2 GB
   fileCount: integer("file_count"), // number of files backed up
   changedFiles: integer("changed_files"), // number of files changed since last backup (for incrementals)
+  configurationId: text("configuration_id"), // backup configuration that stores the backup
+  externalId: text("external_id"), // backup ID at the storage provider
+  checksums: jsonb("checksums"), // SHA-256 of every stored archive by name
+  checkpoint: jsonb("checkpoint"), // upload progress of an unfinished backup, to resume it after a restart
   startedAt: timestamp("started_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
+  verifiedAt: timestamp("verified_at"), // last time the stored archives matched their checksums
   error: text("error"), // error message if failed
 });
 
@@ -92,6 +125,175 @@ export const insertBackupSchema = createInsertSchema(backups).omit({
 export type Backup = typeof backups.$inferSelect;
 export type InsertBackup = z.infer<typeof insertBackupSchema>;
 
+// Backup run schema, the upload state of backups stored with several configurations
+export const backupRuns = pgTable("backup_runs", {
+  id: text("id").primaryKey(), // backup ID at every destination
+  configurationId: text("configuration_id").notNull(), // backup configuration that owns the backup
+  siteId: text("site_id").notNull(),
+  status: text("status").notNull(), // "in_progress", "completed", "partial", "failed"
+  options: jsonb("options").$type<Record<string, any>>().notNull(), // files and options to archive the site again
+  destinations: jsonb("destinations").$type<Record<string, any>[]>().notNull(), // upload state of every destination
+  archive: jsonb("archive").$type<Record<string, any>>(), // staged archive kept for retries, null once removed
+  size: bigint("size", { mode: "number" }),
+  fileCount: integer("file_count"),
+  checksums: jsonb("checksums"), // SHA-256 of the archive by name
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(), // when the run last changed, staged archives expire from here
+});
+
+export const insertBackupRunSchema = createInsertSchema(backupRuns, {
+  status: z.enum(["in_progress", "completed", "partial", "failed"]),
+  options: z.record(z.any()),
+  destinations: z.array(z.record(z.any())),
+  archive: z.record(z.any()).nullable().optional(),
+}).omit({
+  updatedAt: true,
+});
+
+export type BackupRunRecord = typeof backupRuns.$inferSelect;
+export type InsertBackupRunRecord = z.infer<typeof insertBackupRunSchema>;
+
+// Backup Configuration schema
+export const backupConfigurations = pgTable("backup_configurations", {
+  id: text("id").primaryKey(), // UUID assigned by the backup service
+  provider: text("provider").notNull(), // "github", "s3", "sftp", etc.
+  name: text("name").notNull(),
+  active: boolean("active").default(true).notNull(),
+  settings: text("settings").notNull(), // Provider settings JSON, encrypted at rest
+  schedule: jsonb("schedule"),
+  retention: jsonb("retention"),
+  filters: jsonb("filters"),
+  compression: jsonb("compression"), // codec and level of the archives
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertBackupConfigurationSchema = createInsertSchema(backupConfigurations).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type BackupConfiguration = typeof backupConfigurations.$inferSelect;
+export type InsertBackupConfiguration = z.infer<typeof insertBackupConfigurationSchema>;
+
+// Job schema
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // "backup", "restore", "verify", "prune"
+  status: text("status").default("queued").notNull(), // "queued", "running", "completed", "failed", "cancelled"
+  priority: integer("priority").default(0).notNull(), // higher priorities run first
+  siteId: integer("site_id"), // site the job works on, for per-site concurrency limits
+  provider: text("provider"), // provider type the job uses, for per-provider concurrency limits
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(),
+  result: jsonb("result").$type<Record<string, any>>(),
+  error: text("error"), // error message of the last failed attempt
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(), // earliest time to run, later when retrying
+  cancelRequested: boolean("cancel_requested").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const jobTypes = ["backup", "restore", "verify", "prune", "synthesize", "drill"] as const;
+export const jobStatuses = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type JobType = typeof jobTypes[number];
+export type JobStatus = typeof jobStatuses[number];
+
+export const insertJobSchema = createInsertSchema(jobs, {
+  type: z.enum(jobTypes),
+  payload: z.record(z.any()),
+  priority: z.number().int().optional(),
+  maxAttempts: z.number().int().min(1).optional(),
+}).omit({
+  id: true,
+  status: true,
+  result: true,
+  error: true,
+  attempts: true,
+  cancelRequested: true,
+  createdAt: true,
+  startedAt: true,
+  completedAt: true,
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
+// Repository chunk schema, the index of a deduplicating backup repository
+export const repositoryChunks = pgTable("repository_chunks", {
+  id: serial("id").primaryKey(),
+  configurationId: text("configuration_id").notNull(), // backup configuration the repository belongs to
+  hash: text("hash").notNull(), // SHA-256 of the chunk content
+  packId: text("pack_id").notNull(), // provider backup that stores the chunk
+  size: integer("size").notNull(),
+  refCount: integer("ref_count").default(1).notNull(), // number of snapshots using the chunk
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  configurationHashIdx: uniqueIndex("repository_chunks_configuration_hash_idx").on(table.configurationId, table.hash),
+}));
+
+export const insertRepositoryChunkSchema = createInsertSchema(repositoryChunks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type RepositoryChunk = typeof repositoryChunks.$inferSelect;
+export type InsertRepositoryChunk = z.infer<typeof insertRepositoryChunkSchema>;
+
+// Encryption key schema, the per-site data keys of encrypted backup archives
+export const encryptionKeys = pgTable("encryption_keys", {
+  id: text("id").primaryKey(), // key ID recorded in the metadata of encrypted backups
+  siteId: text("site_id").notNull(), // site the key encrypts backups of
+  wrappedKey: text("wrapped_key").notNull(), // data key encrypted with the master key
+  active: boolean("active").default(true).notNull(), // new backups use the active key, older keys only decrypt
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEncryptionKeySchema = createInsertSchema(encryptionKeys).omit({
+  createdAt: true,
+});
+
+export type EncryptionKey = typeof encryptionKeys.$inferSelect;
+export type InsertEncryptionKey = z.infer<typeof insertEncryptionKeySchema>;
+
+// One check of a restore drill
+export interface RestoreDrillCheck {
+  name: string; // "restore", "checksums" or "database"
+  status: "passed" | "failed" | "skipped";
+  duration: number; // in milliseconds
+  message?: string;
+}
+
+// Restore drill schema, the reports of restoring backups into a sandbox
+export const restoreDrills = pgTable("restore_drills", {
+  id: serial("id").primaryKey(),
+  siteId: integer("site_id").notNull(),
+  backupId: integer("backup_id").notNull(), // backups row that was restored
+  status: text("status").notNull(), // "passed" or "failed"
+  checks: jsonb("checks").$type<RestoreDrillCheck[]>().notNull(),
+  duration: integer("duration").notNull(), // in milliseconds
+  startedAt: timestamp("started_at").notNull(),
+  completedAt: timestamp("completed_at").defaultNow().notNull(),
+});
+
+export const insertRestoreDrillSchema = createInsertSchema(restoreDrills, {
+  status: z.enum(["passed", "failed"]),
+  checks: z.array(z.object({
+    name: z.string(),
+    status: z.enum(["passed", "failed", "skipped"]),
+    duration: z.number().int().min(0),
+    message: z.string().optional(),
+  })),
+}).omit({
+  id: true,
+  completedAt: true,
+});
+
+export type RestoreDrill = typeof restoreDrills.$inferSelect;
+export type InsertRestoreDrill = z.infer<typeof insertRestoreDrillSchema>;
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -135,7 +337,14 @@ export type InsertFeedback = z.infer<typeof insertFeedbackSchema>;
 // Additional validation schemas for API endpoints
 export const incrementalBackupSchema = z.object({
   siteId: z.number().int().positive().or(z.string().regex(/^\d+$/).transform(Number)),
-  storageProviderId: z.number().int().positive().or(z.string().regex(/^\d+$/).transform(Number))
+  storageProviderId: z.number().int().positive().or(z.string().regex(/^\d+$/).transform(Number)),
+  configurationId: z.string().nonempty(),
+  paths: z.array(z.string().nonempty()).nonempty()
+});
+
+export const restoreBackupChainSchema = z.object({
+  destination: z.string().optional(),
+  files: z.array(z.string()).optional()
 });
 
 export const updateBackupStatusSchema = z.object({
@@ -147,4 +356,5 @@ export const updateBackupStatusSchema = z.object({
 });
 
 export type IncrementalBackupRequest = z.infer<typeof incrementalBackupSchema>;
+export type RestoreBackupChainRequest = z.infer<typeof restoreBackupChainSchema>;
 export type UpdateBackupStatusRequest = z.infer<typeof updateBackupStatusSchema>;
@@ -0,0 +1,221 @@
+/**
+ * Unit Tests for the Prisma Storage
+ *
+ * Tests the queries of the Prisma storage against an in-memory stand-in for
+ * the Prisma client, which keeps the rows of every model and evaluates the
+ * where clauses and orderings the storage uses.
+ */
+import { PrismaStorage } from '../../../server/database/prisma-storage';
+
+type Row = Record<string, any>;
+
+/**
+ * Create a stand-in for the Prisma client with in-memory models
+ */
+function createPrismaStandIn() {
+  const tables = new Map<string, Row[]>();
+  const ids = new Map<string, number>();
+
+  const matches = (row: Row, where: Row = {}): boolean => Object.entries(where).every(([field, condition]) => {
+    const value = row[field] instanceof Date ? row[field].getTime() : row[field] ?? null;
+    const expected = (item: any) => (item instanceof Date ? item.getTime() : item ?? null);
+
+    if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+      if ('in' in condition) return condition.in.map(expected).includes(value);
+      if ('not' in condition) return value !== expected(condition.not);
+    }
+
+    return value === expected(condition);
+  });
+
+  const sorted = (rows: Row[], orderBy?: Row | Row[]): Row[] => {
+    const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        const [field, direction] = Object.entries(order)[0];
+        const left = a[field] instanceof Date ? a[field].getTime() : a[field];
+        const right = b[field] instanceof Date ? b[field].getTime() : b[field];
+
+        if (left !== right) {
+          // Postgres sorts nulls last in ascending order
+          const compared = left === null ? 1 : right === null ? -1 : left < right ? -1 : 1;
+          return direction === 'desc' ? -compared : compared;
+        }
+      }
+
+      return 0;
+    });
+  };
+
+  const model = (name: string) => {
+    const rows = () => tables.get(name) || tables.set(name, []).get(name)!;
+    // Like the client, hand out copies of the stored rows
+    const copy = (row: Row | undefined) => (row ? { ...row } : null);
+
+    return {
+      findUnique: async ({ where }: { where: Row }) => copy(rows().find(row => matches(row, where))),
+      findFirst: async ({ where, orderBy }: { where?: Row; orderBy?: Row }) =>
+        copy(sorted(rows().filter(row => matches(row, where)), orderBy)[0]),
+      findMany: async ({ where, orderBy, take }: { where?: Row; orderBy?: Row; take?: number } = {}) =>
+        sorted(rows().filter(row => matches(row, where)), orderBy).slice(0, take).map(copy),
+      create: async ({ data }: { data: Row }) => {
+        const id = (ids.get(name) || 0) + 1;
+        const row = { id, createdAt: new Date(), ...data };
+        ids.set(name, id);
+        rows().push(row);
+        return copy(row);
+      },
+      update: async ({ where, data }: { where: Row; data: Row }) => {
+        const row = rows().find(candidate => matches(candidate, where));
+        if (!row) throw new Error(`No ${name} found`);
+        return copy(Object.assign(row, data));
+      },
+      updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+        const updated = rows().filter(row => matches(row, where));
+        updated.forEach(row => Object.assign(row, data));
+        return { count: updated.length };
+      },
+      delete: async ({ where }: { where: Row }) => {
+        const index = rows().findIndex(row => matches(row, where));
+        if (index < 0) throw new Error(`No ${name} found`);
+        return copy(rows().splice(index, 1)[0]);
+      },
+    };
+  };
+
+  return new Proxy({} as Record<string, ReturnType<typeof model>>, {
+    get: (models, name: string) => models[name] || (models[name] = model(name)),
+  });
+}
+
+const mockPrisma = createPrismaStandIn();
+
+jest.mock('../../../server/prisma', () => ({
+  __esModule: true,
+  get default() {
+    return mockPrisma;
+  },
+}));
+
+describe('PrismaStorage', () => {
+  let storage: PrismaStorage;
+
+  beforeEach(() => {
+    storage = new PrismaStorage();
+  });
+
+  describe('backup schedules', () => {
+    it('should claim a due run only once', async () => {
+      const schedule = await storage.createBackupSchedule({
+        siteId: 1,
+        storageProviderId: 1,
+        frequency: 'custom',
+        hourOfDay: 0,
+        minuteOfHour: 0,
+        cronExpression: '*/15 * * * *',
+        timeZone: 'Europe/Berlin',
+      });
+      const runs = { lastRun: schedule.nextRun, nextRun: new Date(schedule.nextRun!.getTime() + 15 * 60 * 1000) };
+
+      const claimed = await storage.claimBackupSchedule(schedule.id, schedule.nextRun, runs);
+
+      expect(claimed).toMatchObject({ id: schedule.id, cronExpression: '*/15 * * * *', timeZone: 'Europe/Berlin', ...runs });
+
+      // Another scheduler that saw the same due run loses the race
+      expect(await storage.claimBackupSchedule(schedule.id, schedule.nextRun, runs)).toBeUndefined();
+      expect(await storage.claimBackupSchedule(404, schedule.nextRun, runs)).toBeUndefined();
+      expect((await storage.listBackupSchedules()).map(item => item.nextRun)).toEqual([runs.nextRun]);
+    });
+  });
+
+  describe('backups', () => {
+    it('should return sizes beyond 2 GB as numbers', async () => {
+      const site = await mockPrisma.site.create({ data: { name: 'Large', url: 'https://large.example.com' } });
+      const size = 20 * 1024 * 1024 * 1024;
+      // Prisma returns BigInt columns as bigint values
+      const backup = await mockPrisma.backup.create({
+        data: { siteId: site.id, storageProviderId: 1, status: 'completed', type: 'full', size: BigInt(size) },
+      });
+      const run = await mockPrisma.backupRun.create({
+        data: { id: 'large', configurationId: 'local', siteId: String(site.id), status: 'completed', size: BigInt(size) },
+      });
+
+      expect((await storage.getBackup(backup.id))!.size).toBe(size);
+      expect((await storage.listBackupsByStatus(['completed'])).find(item => item.id === backup.id)!.size).toBe(size);
+      expect((await storage.getBackupRun(run.id))!.size).toBe(size);
+    });
+  });
+
+  describe('backup chains', () => {
+    it('should return a full backup and its dependents oldest first', async () => {
+      const site = await mockPrisma.site.create({ data: { name: 'Chain', url: 'https://chain.example.com' } });
+      const create = (type: string, parentBackupId: number | null = null) => storage.createBackup({
+        siteId: site.id,
+        storageProviderId: 1,
+        status: 'completed',
+        type,
+        parentBackupId,
+        startedAt: new Date(),
+      });
+
+      const earlierFull = await create('full');
+      await create('incremental', earlierFull.id);
+      const full = await create('full');
+      const first = await create('incremental', full.id);
+      const second = await create('incremental', full.id);
+      const unrelated = await create('incremental');
+
+      const chainIds = [full.id, first.id, second.id];
+
+      expect((await storage.getBackupChain(full.id)).map(backup => backup.id)).toEqual(chainIds);
+      expect((await storage.getBackupChain(second.id)).map(backup => backup.id)).toEqual(chainIds);
+      expect((await storage.getBackupChain(unrelated.id)).map(backup => backup.id)).toEqual([unrelated.id]);
+      expect(await storage.getBackupChain(404)).toEqual([]);
+    });
+
+    it('should move reparented backups onto a synthetic full backup', async () => {
+      const site = await mockPrisma.site.create({ data: { name: 'Synthetic', url: 'https://synthetic.example.com' } });
+      const create = (type: string, parentBackupId: number | null = null) => storage.createBackup({
+        siteId: site.id,
+        storageProviderId: 1,
+        status: 'completed',
+        type,
+        parentBackupId,
+        startedAt: new Date(),
+      });
+
+      const full = await create('full');
+      const merged = await create('incremental', full.id);
+      const later = await create('incremental', full.id);
+      const synthetic = await create('full');
+
+      // What synthesizeFullBackup does once the synthetic archive is stored
+      await storage.updateBackup(later.id, { parentBackupId: synthetic.id });
+
+      expect((await storage.getBackupChain(later.id)).map(backup => backup.id)).toEqual([synthetic.id, later.id]);
+      expect((await storage.getBackupChain(full.id)).map(backup => backup.id)).toEqual([full.id, merged.id]);
+    });
+
+    it('should pick the most recently completed full backup', async () => {
+      const site = await mockPrisma.site.create({ data: { name: 'Latest', url: 'https://latest.example.com' } });
+      const create = (type: string, status: string, completedAt: Date | null) => storage.createBackup({
+        siteId: site.id,
+        storageProviderId: 1,
+        status,
+        type,
+        startedAt: new Date(),
+        completedAt,
+      } as any);
+
+      const latest = await create('full', 'completed', new Date('2026-01-02T00:00:00Z'));
+      await create('full', 'completed', new Date('2026-01-01T00:00:00Z'));
+      await create('incremental', 'completed', new Date('2026-01-03T00:00:00Z'));
+      await create('full', 'failed', new Date('2026-01-04T00:00:00Z'));
+      await create('full', 'in_progress', null);
+
+      expect((await storage.getLatestFullBackup(site.id))?.id).toBe(latest.id);
+      expect(await storage.getLatestFullBackup(404)).toBeUndefined();
+    });
+  });
+});
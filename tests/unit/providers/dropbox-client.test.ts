@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for the Dropbox API Client
+ *
+ * Tests token refresh and upload sessions, and resuming them, against an
+ * in-process stand-in for the Dropbox API and content endpoints.
+ */
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { DropboxClient } from '../../../server/providers/dropbox/client';
+import { tokenRefreshManager } from '../../../server/TokenRefreshManager';
+import type { BackupPart } from '../../../server/providers/types';
+
+describe('DropboxClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let files: Map<string, Buffer>;
+  let sessions: Map<string, Buffer>;
+  let validToken: string;
+  let requests: string[];
+  let failures: Set<string>;
+
+  beforeEach(async () => {
+    files = new Map();
+    sessions = new Map();
+    validToken = 'fresh-token';
+    requests = [];
+    failures = new Set();
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks);
+        const arg = req.headers['dropbox-api-arg'] ? JSON.parse(String(req.headers['dropbox-api-arg'])) : {};
+        const json = (status: number, data: any) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+        };
+
+        requests.push(String(req.url));
+
+        if (req.headers.authorization !== `Bearer ${validToken}`) {
+          json(401, { error_summary: 'expired_access_token/' });
+          return;
+        }
+
+        if (failures.has(String(req.url))) {
+          json(500, { error_summary: 'internal_error/' });
+          return;
+        }
+
+        switch (req.url) {
+          case '/users/get_current_account':
+            json(200, { email: 'owner@example.com' });
+            break;
+          case '/files/upload':
+            files.set(arg.path, body);
+            json(200, { name: path.posix.basename(arg.path), path_display: arg.path });
+            break;
+          case '/files/upload_session/start': {
+            const sessionId = `session-${sessions.size + 1}`;
+            sessions.set(sessionId, body);
+            json(200, { session_id: sessionId });
+            break;
+          }
+          case '/files/upload_session/append_v2':
+          case '/files/upload_session/finish': {
+            const current = sessions.get(arg.cursor.session_id);
+
+            if (!current) {
+              json(409, { error_summary: 'lookup_failed/not_found/' });
+              return;
+            }
+
+            if (arg.cursor.offset !== current.length) {
+              json(409, { error_summary: 'lookup_failed/incorrect_offset/' });
+              return;
+            }
+
+            sessions.set(arg.cursor.session_id, Buffer.concat([current, body]));
+
+            if (req.url.endsWith('finish')) {
+              files.set(arg.commit.path, sessions.get(arg.cursor.session_id)!);
+              json(200, { name: path.posix.basename(arg.commit.path), path_display: arg.commit.path });
+            } else {
+              json(200, null);
+            }
+            break;
+          }
+          case '/files/download': {
+            const data = files.get(arg.path);
+            if (data) {
+              res.writeHead(200).end(data);
+            } else {
+              json(409, { error_summary: 'path/not_found/' });
+            }
+            break;
+          }
+          default:
+            json(400, { error_summary: 'unknown_endpoint/' });
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should refresh the token and retry when a call returns 401', async () => {
+    const refresh = jest.spyOn(tokenRefreshManager, 'refreshDropboxToken').mockResolvedValue({
+      access_token: 'fresh-token',
+      refresh_token: 'refresh-token',
+      expires_at: 12345,
+    });
+    const onTokenRefreshed = jest.fn();
+
+    const client = new DropboxClient({
+      accessToken: 'expired-token',
+      refreshToken: 'refresh-token',
+      apiUrl: baseUrl,
+      contentUrl: baseUrl,
+      onTokenRefreshed,
+    });
+
+    const result = await client.testConnection();
+
+    expect(result.success).toBe(true);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(onTokenRefreshed).toHaveBeenCalledWith(expect.objectContaining({ access_token: 'fresh-token' }));
+  });
+
+  it('should upload large files through an upload session', async () => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dropbox-client-'));
+    const localPath = path.join(workDir, 'archive.tar.gz');
+    await fs.writeFile(localPath, 'abcdefghij');
+
+    try {
+      const client = new DropboxClient({ accessToken: 'fresh-token', apiUrl: baseUrl, contentUrl: baseUrl });
+
+      await client.uploadFile('/wordpress-backups/1/archive.tar.gz', localPath, 4);
+
+      expect(requests).toEqual([
+        '/files/upload_session/start',
+        '/files/upload_session/append_v2',
+        '/files/upload_session/finish',
+      ]);
+      expect((await client.download('/wordpress-backups/1/archive.tar.gz'))!.toString()).toBe('abcdefghij');
+      expect(await client.download('/missing.json')).toBeNull();
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should resume an interrupted upload session without appending its chunks again', async () => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dropbox-client-'));
+    const localPath = path.join(workDir, 'archive.tar.gz');
+    await fs.writeFile(localPath, 'abcdefghij');
+
+    try {
+      const client = new DropboxClient({ accessToken: 'fresh-token', apiUrl: baseUrl, contentUrl: baseUrl });
+      const saved: Array<{ session: string; parts: BackupPart[] }> = [];
+      const save = async (session: string, parts: BackupPart[]) => {
+        saved.push({ session, parts: [...parts] });
+      };
+
+      failures.add('/files/upload_session/finish');
+      await expect(client.uploadFile('/wordpress-backups/1/archive.tar.gz', localPath, 4, { uploaded: [], save }))
+        .rejects.toThrow();
+
+      expect(saved.map(({ session, parts }) => [session, parts.length])).toEqual([['session-1', 1], ['session-1', 2]]);
+
+      failures.clear();
+      requests = [];
+
+      await client.uploadFile('/wordpress-backups/1/archive.tar.gz', localPath, 4, {
+        session: saved[1].session,
+        uploaded: saved[1].parts,
+        save,
+      });
+
+      expect(requests).toEqual(['/files/upload_session/finish']);
+      expect((await client.download('/wordpress-backups/1/archive.tar.gz'))!.toString()).toBe('abcdefghij');
+
+      // A session that is gone starts the upload over in a new one
+      requests = [];
+
+      await client.uploadFile('/wordpress-backups/1/archive.tar.gz', localPath, 4, {
+        session: 'session-gone',
+        uploaded: saved[1].parts,
+        save,
+      });
+
+      expect(requests).toEqual([
+        '/files/upload_session/finish',
+        '/files/upload_session/start',
+        '/files/upload_session/append_v2',
+        '/files/upload_session/finish',
+      ]);
+      expect(saved[saved.length - 1].session).toBe('session-2');
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,506 @@
+/**
+ * Unit Tests for the GitHub Backup Provider
+ *
+ * Tests the Git Data API and release upload paths against an in-process
+ * stand-in that keeps blobs, trees, commits, refs and releases in memory,
+ * that archives are streamed into the upload without staging them, and that
+ * chains of backups restore and verify from the stored archives.
+ */
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import fsSync, { promises as fs } from 'fs';
+import { GitHubBackupProvider } from '../../../server/providers/github/provider';
+import { getGitBlobSha } from '../../../server/providers/github/client';
+import { GitHubBackupConfig, UploadCheckpoint } from '../../../server/providers/types';
+import { BackupChain } from '../../../server/services/backup-chain';
+import { createArchive, createArchiveStream, toEntryName } from '../../../server/utils/archive';
+
+/**
+ * Start a minimal GitHub Git Data and Releases API stand-in for owner `acme`
+ * and repo `backups`
+ */
+async function startGitHubStandIn(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  blobs: Map<string, Buffer>;
+  commits: Map<string, { tree: string; parents: string[] }>;
+  refs: Map<string, string>;
+  createdCommits: string[];
+  releases: Map<number, any>;
+  assets: Map<number, Buffer>;
+  failures: Set<string>;
+  requests: string[];
+}> {
+  const blobs = new Map<string, Buffer>();
+  const trees = new Map<string, Map<string, string>>([['tree-0', new Map()]]);
+  const commits = new Map<string, { tree: string; parents: string[] }>([['commit-0', { tree: 'tree-0', parents: [] }]]);
+  const refs = new Map<string, string>([['heads/main', 'commit-0']]);
+  const createdCommits: string[] = [];
+  const releases = new Map<number, any>();
+  const assets = new Map<number, Buffer>();
+  const failures = new Set<string>();
+  const requests: string[] = [];
+  let counter = 0;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const raw = Buffer.concat(chunks);
+      const json = (status: number, data: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+      };
+      const refJson = (name: string) => ({ ref: `refs/${name}`, object: { type: 'commit', sha: refs.get(name) } });
+      const route = url.pathname.replace(/^(\/uploads)?\/repos\/acme\/backups/, '');
+      const assetUpload = route.match(/^\/releases\/(\d+)\/assets$/);
+      const body = raw.length && !assetUpload ? JSON.parse(raw.toString()) : {};
+      requests.push(`${req.method} ${route}`);
+
+      if (failures.has(route)) {
+        json(500, { message: 'Server error' });
+      } else if (assetUpload && req.method === 'POST') {
+        const release = releases.get(Number(assetUpload[1]));
+        const id = ++counter;
+        const asset = { id, name: url.searchParams.get('name'), size: raw.length, state: 'uploaded', updated_at: new Date().toISOString() };
+        assets.set(id, raw);
+        release.assets.push(asset);
+        json(201, asset);
+      } else if (route === '/releases' && req.method === 'POST') {
+        const id = ++counter;
+        releases.set(id, {
+          id,
+          tag_name: body.tag_name,
+          target_commitish: body.target_commitish,
+          name: body.name,
+          draft: body.draft,
+          html_url: `https://github.com/acme/backups/releases/tag/${body.tag_name}`,
+          upload_url: `http://${req.headers.host}/uploads/repos/acme/backups/releases/${id}/assets{?name,label}`,
+          assets: [],
+        });
+        json(201, releases.get(id));
+      } else if (route === '/releases' && req.method === 'GET') {
+        const page = Number(url.searchParams.get('page') || 1);
+        json(200, page === 1 ? Array.from(releases.values()).reverse() : []);
+      } else if (route.startsWith('/releases/tags/')) {
+        const tag = route.slice('/releases/tags/'.length);
+        const release = Array.from(releases.values()).find(item => item.tag_name === tag && !item.draft);
+        release ? json(200, release) : json(404, { message: 'Not Found' });
+      } else if (route.startsWith('/releases/assets/')) {
+        const id = Number(route.slice('/releases/assets/'.length));
+        const content = assets.get(id);
+
+        if (req.method === 'DELETE') {
+          assets.delete(id);
+          releases.forEach(release => {
+            release.assets = release.assets.filter((asset: { id: number }) => asset.id !== id);
+          });
+          res.writeHead(204).end();
+        } else {
+          content
+            ? res.writeHead(200, { 'Content-Type': 'application/octet-stream' }).end(content)
+            : json(404, { message: 'Not Found' });
+        }
+      } else if (route.startsWith('/releases/')) {
+        const release = releases.get(Number(route.slice('/releases/'.length)));
+
+        if (!release) {
+          json(404, { message: 'Not Found' });
+        } else if (req.method === 'GET') {
+          json(200, release);
+        } else if (req.method === 'PATCH') {
+          Object.assign(release, body);
+
+          // Publishing creates the tag on the target branch
+          if (!release.draft) {
+            refs.set(`tags/${release.tag_name}`, refs.get(`heads/${release.target_commitish}`)!);
+          }
+
+          json(200, release);
+        } else if (req.method === 'DELETE') {
+          releases.delete(release.id);
+          res.writeHead(204).end();
+        }
+      } else if (url.pathname === '/user') {
+        json(200, { login: 'acme' });
+      } else if (url.pathname === '/repos/acme/backups' && req.method === 'GET') {
+        json(200, { name: 'backups' });
+      } else if (route === '/git/refs/heads' && req.method === 'GET') {
+        json(200, Array.from(refs.keys()).filter(name => name.startsWith('heads/')).map(refJson));
+      } else if (route.startsWith('/git/refs/')) {
+        const name = route.slice('/git/refs/'.length);
+
+        if (req.method === 'GET') {
+          refs.has(name) ? json(200, refJson(name)) : json(404, { message: 'Not Found' });
+        } else if (req.method === 'PATCH') {
+          refs.set(name, body.sha);
+          json(200, refJson(name));
+        } else if (req.method === 'DELETE') {
+          refs.delete(name);
+          res.writeHead(204).end();
+        }
+      } else if (route === '/git/refs' && req.method === 'POST') {
+        const name = body.ref.replace(/^refs\//, '');
+        refs.set(name, body.sha);
+        json(201, refJson(name));
+      } else if (route === '/git/blobs' && req.method === 'POST') {
+        const content = Buffer.from(body.content, body.encoding === 'base64' ? 'base64' : 'utf8');
+        const sha = getGitBlobSha(content);
+        blobs.set(sha, content);
+        json(201, { sha, url: '' });
+      } else if (route.startsWith('/git/blobs/')) {
+        const content = blobs.get(route.slice('/git/blobs/'.length));
+        content
+          ? json(200, { sha: '', size: content.length, content: content.toString('base64'), encoding: 'base64' })
+          : json(404, { message: 'Not Found' });
+      } else if (route === '/git/trees' && req.method === 'POST') {
+        const sha = `tree-${++counter}`;
+        const entries = new Map(trees.get(body.base_tree) || []);
+        body.tree.forEach((entry: { path: string; sha: string }) => entries.set(entry.path, entry.sha));
+        trees.set(sha, entries);
+        json(201, { sha, tree: [] });
+      } else if (route === '/git/commits' && req.method === 'POST') {
+        const sha = `commit-${++counter}`;
+        commits.set(sha, { tree: body.tree, parents: body.parents });
+        createdCommits.push(sha);
+        json(201, { sha, tree: { sha: body.tree } });
+      } else if (route.startsWith('/git/commits/')) {
+        const sha = route.slice('/git/commits/'.length);
+        json(200, { sha, tree: { sha: commits.get(sha)!.tree } });
+      } else if (route.startsWith('/contents/')) {
+        const filePath = decodeURIComponent(route.slice('/contents/'.length));
+        const commit = commits.get(refs.get(`heads/${url.searchParams.get('ref')}`) || '');
+        const entries = commit ? trees.get(commit.tree)! : new Map<string, string>();
+
+        if (entries.has(filePath)) {
+          const content = blobs.get(entries.get(filePath)!)!;
+          json(200, { type: 'file', name: path.posix.basename(filePath), path: filePath, size: content.length, content: content.toString('base64') });
+        } else {
+          const children = Array.from(entries.keys()).filter(name => name.startsWith(`${filePath}/`));
+          children.length
+            ? json(200, children.map(name => ({ type: 'file', name: path.posix.basename(name), path: name, size: blobs.get(entries.get(name)!)!.length })))
+            : json(404, { message: 'Not Found' });
+        }
+      } else {
+        json(404, { message: 'Not Found' });
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    server,
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    blobs,
+    commits,
+    refs,
+    createdCommits,
+    releases,
+    assets,
+    failures,
+    requests,
+  };
+}
+
+describe('GitHubBackupProvider', () => {
+  let workDir: string;
+  let standIn: Awaited<ReturnType<typeof startGitHubStandIn>>;
+  let provider: GitHubBackupProvider;
+  let archive: { path: string; size: number; fileCount: number };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'github-provider-'));
+
+    // Random data doesn't compress, so the archive is split into two parts
+    const sourceDir = path.join(workDir, 'site');
+    await fs.mkdir(path.join(sourceDir, 'wp-content', 'uploads'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'uploads', 'video.bin'), randomBytes(11 * 1024 * 1024));
+
+    const archivePath = path.join(workDir, 'shared', 'archive.tar.gz');
+    archive = { path: archivePath, ...(await createArchive([sourceDir], archivePath)) };
+
+    standIn = await startGitHubStandIn();
+
+    const config: GitHubBackupConfig = {
+      id: 'github-test',
+      provider: 'github',
+      name: 'GitHub test',
+      active: true,
+      created: new Date(),
+      updated: new Date(),
+      settings: {
+        token: 'token',
+        owner: 'acme',
+        baseRepo: 'backups',
+        baseUrl: standIn.baseUrl,
+      },
+    };
+
+    provider = new GitHubBackupProvider(config);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => standIn.server.close(resolve));
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should commit binary archive parts and metadata in a single commit', async () => {
+    const result = await provider.createBackup({ siteId: '7', files: [], archive });
+
+    expect(result.success).toBe(true);
+    expect(standIn.createdCommits).toHaveLength(1);
+
+    const backup = await provider.getBackup(result.id);
+    expect(backup!.contents!.map(item => item.name).sort()).toEqual([
+      'archive.tar.gz.part1',
+      'archive.tar.gz.part2',
+      'metadata.json',
+    ]);
+
+    // The stored parts reassemble into the original archive byte for byte
+    const commit = standIn.commits.get(standIn.createdCommits[0])!;
+    expect(commit.parents).toEqual(['commit-0']);
+
+    const original = await fs.readFile(archive.path);
+    const stored = Buffer.concat(
+      Array.from(standIn.blobs.values()).filter(blob => blob.length > 1024 * 1024)
+    );
+    expect(stored.equals(original)).toBe(true);
+
+    expect((await provider.restoreBackup(result.id, {})).success).toBe(true);
+  });
+
+  it('should reject restores when a part does not match its checksum', async () => {
+    const result = await provider.createBackup({ siteId: '7', files: [], archive });
+
+    // Corrupt the first part in place
+    const [sha, content] = Array.from(standIn.blobs.entries()).find(([, blob]) => blob.length > 1024 * 1024)!;
+    const corrupted = Buffer.from(content);
+    corrupted[0] ^= 0xff;
+    standIn.blobs.set(sha, corrupted);
+
+    const restore = await provider.restoreBackup(result.id, {});
+    expect(restore.success).toBe(false);
+    expect(restore.message).toContain('Checksum mismatch');
+  });
+
+  it('should back up real files and report the ones it had to skip', async () => {
+    const missing = path.join(workDir, 'site', 'missing.php');
+    const result = await provider.createBackup({ siteId: '7', files: [path.join(workDir, 'site'), missing] });
+
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ message: expect.stringContaining(`Skipped ${missing}`) }),
+    ]);
+
+    // The stored parts contain the real upload, not a placeholder
+    const stored = Buffer.concat(
+      Array.from(standIn.blobs.values()).filter(blob => blob.length > 1024 * 1024)
+    );
+    expect(stored.length).toBeGreaterThan(11 * 1024 * 1024);
+  });
+
+  it('should remove the backup branch when an upload fails', async () => {
+    standIn.failures.add('/git/trees');
+
+    const result = await provider.createBackup({ siteId: '7', files: [], archive });
+
+    expect(result.success).toBe(false);
+    expect(Array.from(standIn.refs.keys())).toEqual(['heads/main']);
+  });
+
+  it('should stream archives into the upload without staging them on disk', async () => {
+    const writes = jest.spyOn(fsSync, 'createWriteStream');
+    const streamed = createArchiveStream([path.join(workDir, 'site')]);
+
+    const result = await provider.createStreamedBackup({
+      siteId: '7',
+      files: [],
+      archive: {
+        stream: streamed.stream,
+        completed: streamed.completed.then(details => ({ ...details, metadata: { checksum: details.checksum } })),
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(writes).not.toHaveBeenCalled();
+
+    const { size, checksum } = await streamed.completed;
+    const metadata = JSON.parse(
+      Array.from(standIn.blobs.values()).find(blob => blob.length < 1024 * 1024 && blob.includes(result.id))!.toString()
+    );
+
+    expect(result.size).toBe(size);
+    expect(metadata).toMatchObject({ size, fileCount: 1, metadata: { checksum } });
+    expect(metadata.parts.map((part: { name: string }) => part.name)).toEqual(['archive.tar.gz.part1', 'archive.tar.gz.part2']);
+
+    expect((await provider.restoreBackup(result.id, {})).success).toBe(true);
+  });
+
+  it('should stop reading the archive when an upload fails', async () => {
+    standIn.failures.add('/git/blobs');
+    const streamed = createArchiveStream([path.join(workDir, 'site')]);
+
+    const result = await provider.createStreamedBackup({ siteId: '7', files: [], archive: streamed });
+
+    expect(result.success).toBe(false);
+    await expect(streamed.completed).rejects.toThrow('Archive stream closed before the archive was complete');
+    expect(Array.from(standIn.refs.keys())).toEqual(['heads/main']);
+  });
+
+  it('should resume an interrupted upload without uploading its parts again', async () => {
+    const checkpoints: UploadCheckpoint[] = [];
+    const onCheckpoint = async (checkpoint: UploadCheckpoint) => {
+      checkpoints.push(checkpoint);
+    };
+
+    standIn.failures.add('/git/trees');
+    const failed = await provider.createBackup({ siteId: '7', files: [], archive, backupId: 'resumed', onCheckpoint });
+
+    expect(failed.success).toBe(false);
+    expect(checkpoints.map(checkpoint => checkpoint.parts.length)).toEqual([0, 1, 2]);
+
+    // The process stopped after the parts were uploaded
+    const checkpoint = checkpoints[checkpoints.length - 1];
+    standIn.failures.clear();
+    standIn.requests.length = 0;
+
+    const result = await provider.createBackup({ siteId: '7', files: [], archive, backupId: 'resumed', checkpoint, onCheckpoint });
+
+    expect(result.success).toBe(true);
+    expect(standIn.requests.filter(request => request === 'POST /git/blobs')).toHaveLength(1);
+    expect(standIn.refs.has(`heads/backup/wp-backup-7-${checkpoint.session.created.replace(/[:.]/g, '-')}`)).toBe(true);
+    expect((await provider.restoreBackup(result.id, {})).success).toBe(true);
+  });
+
+  it('should restore a full backup and an incremental one into a destination', async () => {
+    const sourceDir = path.join(workDir, 'site');
+    const chain = new BackupChain(provider);
+
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php // full');
+    await fs.writeFile(path.join(sourceDir, 'readme.html'), 'Removed later');
+    const full = await chain.createBackup({ siteId: '7', files: [sourceDir] });
+
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php // incremental');
+    await fs.rm(path.join(sourceDir, 'readme.html'));
+
+    // The incremental archive uses another codec than the full one
+    const incremental = await chain.createBackup({
+      siteId: '7',
+      files: [sourceDir],
+      type: 'incremental',
+      parent: full.id,
+      compression: { codec: 'brotli' },
+    });
+
+    expect(full.success).toBe(true);
+    expect(incremental.success).toBe(true);
+    expect(incremental.manifest).toMatchObject({ parent: full.id, deleted: [`${toEntryName(sourceDir)}/readme.html`] });
+
+    const restoreDir = path.join(workDir, 'restore');
+    await chain.restore([full.id, incremental.id], restoreDir);
+
+    const siteDir = path.join(restoreDir, toEntryName(sourceDir));
+    expect(await fs.readFile(path.join(siteDir, 'wp-config.php'), 'utf8')).toBe('<?php // incremental');
+    expect(fsSync.existsSync(path.join(siteDir, 'readme.html'))).toBe(false);
+    expect((await fs.stat(path.join(siteDir, 'wp-content', 'uploads', 'video.bin'))).size).toBe(11 * 1024 * 1024);
+
+    // The full archive is stored in two parts
+    expect(await chain.verify(full.id)).toEqual({ archives: 1, files: 3, mismatches: [] });
+  });
+
+  describe('release storage mode', () => {
+    beforeEach(() => {
+      const config = provider.getConfig();
+      provider = new GitHubBackupProvider({ ...config, settings: { ...config.settings, storageMode: 'release' } });
+    });
+
+    it('should store backups as published releases with archive assets', async () => {
+      const result = await provider.createBackup({ siteId: '7', files: [], archive });
+
+      expect(result.success).toBe(true);
+      expect(standIn.createdCommits).toHaveLength(0);
+
+      const [release] = Array.from(standIn.releases.values());
+      expect(release.draft).toBe(false);
+      expect(standIn.refs.has(`tags/${release.tag_name}`)).toBe(true);
+      expect(standIn.assets.get(release.assets[0].id)!.equals(await fs.readFile(archive.path))).toBe(true);
+
+      const { backups } = await provider.listBackups({ siteId: '7' });
+      expect(backups.map(backup => backup.id)).toEqual([result.id]);
+      expect(backups[0].url).toBe(release.html_url);
+
+      const backup = await provider.getBackup(result.id);
+      expect(backup!.contents!.map(item => item.name)).toEqual(['archive.tar.gz', 'metadata.json']);
+
+      const metadata = await provider.downloadFile(result.id, 'metadata.json');
+      expect(JSON.parse(metadata.content!.toString()).parts[0].ref).toBe(String(release.assets[0].id));
+
+      expect((await provider.restoreBackup(result.id, {})).success).toBe(true);
+
+      expect((await provider.deleteBackup(result.id)).success).toBe(true);
+      expect(standIn.releases.size).toBe(0);
+      expect(Array.from(standIn.refs.keys())).toEqual(['heads/main']);
+    });
+
+    it('should reject restores when an asset does not match its checksum', async () => {
+      const result = await provider.createBackup({ siteId: '7', files: [], archive });
+
+      const [release] = Array.from(standIn.releases.values());
+      standIn.assets.get(release.assets[0].id)![0] ^= 0xff;
+
+      const restore = await provider.restoreBackup(result.id, {});
+      expect(restore.success).toBe(false);
+      expect(restore.message).toContain('Checksum mismatch');
+    });
+
+    it('should fill up the draft release of an interrupted upload', async () => {
+      const checkpoints: UploadCheckpoint[] = [];
+      const onCheckpoint = async (checkpoint: UploadCheckpoint) => {
+        checkpoints.push(checkpoint);
+      };
+
+      // Neither publishing nor deleting the draft gets through, as if the process stopped
+      standIn.failures.add('/releases/1');
+      const failed = await provider.createBackup({ siteId: '7', files: [], archive, backupId: 'resumed', onCheckpoint });
+
+      expect(failed.success).toBe(false);
+      expect(standIn.releases.get(1)!.assets.map((asset: { name: string }) => asset.name))
+        .toEqual(['archive.tar.gz', 'metadata.json']);
+
+      const checkpoint = checkpoints[checkpoints.length - 1];
+      expect(checkpoint).toMatchObject({ session: { storageMode: 'release', releaseId: 1 }, parts: [{ name: 'archive.tar.gz' }] });
+
+      standIn.failures.clear();
+      standIn.requests.length = 0;
+
+      const result = await provider.createBackup({ siteId: '7', files: [], archive, backupId: 'resumed', checkpoint, onCheckpoint });
+
+      expect(result.success).toBe(true);
+      expect(standIn.releases.size).toBe(1);
+      expect(standIn.requests.filter(request => request === 'POST /releases/1/assets')).toHaveLength(1);
+
+      const release = standIn.releases.get(1)!;
+      expect(release.draft).toBe(false);
+      expect(release.assets.map((asset: { id: number; name: string }) => [asset.id, asset.name]))
+        .toEqual([[Number(checkpoint.parts[0].ref), 'archive.tar.gz'], [expect.any(Number), 'metadata.json']]);
+      expect((await provider.restoreBackup(result.id, {})).success).toBe(true);
+    });
+
+    it('should delete the draft release when an upload fails', async () => {
+      standIn.failures.add('/releases/1/assets');
+
+      const result = await provider.createBackup({ siteId: '7', files: [], archive });
+
+      expect(result.success).toBe(false);
+      expect(standIn.releases.size).toBe(0);
+      expect((await provider.listBackups()).backups).toHaveLength(0);
+    });
+  });
+});
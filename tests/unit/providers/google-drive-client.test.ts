@@ -0,0 +1,213 @@
+/**
+ * Unit Tests for the Google Drive API Client
+ *
+ * Tests resumable uploads, resuming interrupted ones, and shared drive
+ * queries against an in-process stand-in for the Drive API.
+ */
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { GoogleDriveClient, CHUNK_ALIGNMENT } from '../../../server/providers/google/client';
+import type { BackupPart } from '../../../server/providers/types';
+
+describe('GoogleDriveClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let ranges: string[];
+  let uploaded: Buffer;
+  let sessionsStarted: number;
+  let failingRange: string | undefined;
+  let listParams: URLSearchParams | undefined;
+
+  beforeEach(async () => {
+    ranges = [];
+    uploaded = Buffer.alloc(0);
+    sessionsStarted = 0;
+    failingRange = undefined;
+    listParams = undefined;
+
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const url = new URL(req.url || '/', baseUrl);
+
+        if (req.method === 'POST' && url.pathname === '/upload/files') {
+          sessionsStarted++;
+          uploaded = Buffer.alloc(0);
+          res.writeHead(200, { Location: `${baseUrl}/session/1` }).end();
+        } else if (req.method === 'PUT' && url.pathname === '/session/1') {
+          const range = String(req.headers['content-range']);
+          const total = Number(range.split('/')[1]);
+
+          ranges.push(range);
+
+          if (range.startsWith('bytes */')) {
+            // Status query of the session
+            res.writeHead(308, uploaded.length > 0 ? { Range: `bytes=0-${uploaded.length - 1}` } : {}).end();
+            return;
+          }
+
+          if (failingRange && range.startsWith(failingRange)) {
+            res.writeHead(400).end();
+            return;
+          }
+
+          uploaded = Buffer.concat([uploaded, ...chunks]);
+
+          if (uploaded.length < total) {
+            res.writeHead(308, { Range: `bytes=0-${uploaded.length - 1}` }).end();
+          } else {
+            res.writeHead(200, { 'Content-Type': 'application/json' })
+              .end(JSON.stringify({ id: 'file-1', name: 'archive.tar.gz', mimeType: 'application/gzip' }));
+          }
+        } else if (req.method === 'GET' && url.pathname === '/api/files') {
+          listParams = url.searchParams;
+          res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ files: [] }));
+        } else {
+          res.writeHead(404).end();
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should upload files in aligned chunks through a resumable session', async () => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gdrive-client-'));
+    const localPath = path.join(workDir, 'archive.tar.gz');
+    const size = CHUNK_ALIGNMENT * 2 + 10;
+    await fs.writeFile(localPath, Buffer.alloc(size, 1));
+
+    try {
+      const client = new GoogleDriveClient({
+        accessToken: 'token',
+        apiUrl: `${baseUrl}/api`,
+        uploadUrl: `${baseUrl}/upload`,
+      });
+
+      // Requested chunk size is rounded down to a multiple of 256 KiB
+      const file = await client.uploadFile('folder-1', 'archive.tar.gz', localPath, CHUNK_ALIGNMENT + 100);
+
+      expect(file.id).toBe('file-1');
+      expect(uploaded.length).toBe(size);
+      expect(ranges).toEqual([
+        `bytes 0-${CHUNK_ALIGNMENT - 1}/${size}`,
+        `bytes ${CHUNK_ALIGNMENT}-${CHUNK_ALIGNMENT * 2 - 1}/${size}`,
+        `bytes ${CHUNK_ALIGNMENT * 2}-${size - 1}/${size}`,
+      ]);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should resume an interrupted upload in its session without uploading its chunks again', async () => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gdrive-client-'));
+    const localPath = path.join(workDir, 'archive.tar.gz');
+    const size = CHUNK_ALIGNMENT * 2 + 10;
+    await fs.writeFile(localPath, Buffer.alloc(size, 1));
+
+    try {
+      const client = new GoogleDriveClient({
+        accessToken: 'token',
+        apiUrl: `${baseUrl}/api`,
+        uploadUrl: `${baseUrl}/upload`,
+      });
+      const saved: Array<{ session: string; parts: BackupPart[] }> = [];
+      const save = async (session: string, parts: BackupPart[]) => {
+        saved.push({ session, parts: [...parts] });
+      };
+
+      failingRange = `bytes ${CHUNK_ALIGNMENT * 2}-`;
+      await expect(client.uploadFile('folder-1', 'archive.tar.gz', localPath, CHUNK_ALIGNMENT, undefined, undefined, {
+        uploaded: [],
+        save,
+      })).rejects.toThrow();
+
+      expect(saved.map(({ session, parts }) => [session, parts.length])).toEqual([
+        [`${baseUrl}/session/1`, 1],
+        [`${baseUrl}/session/1`, 2],
+      ]);
+
+      failingRange = undefined;
+      ranges = [];
+
+      const file = await client.uploadFile('folder-1', 'archive.tar.gz', localPath, CHUNK_ALIGNMENT, undefined, undefined, {
+        session: saved[1].session,
+        uploaded: saved[1].parts,
+        save,
+      });
+
+      expect(file.id).toBe('file-1');
+      expect(sessionsStarted).toBe(1);
+      expect(uploaded.length).toBe(size);
+      expect(ranges).toEqual([`bytes */${size}`, `bytes ${CHUNK_ALIGNMENT * 2}-${size - 1}/${size}`]);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should start a new session when the chunks of an interrupted upload changed', async () => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gdrive-client-'));
+    const localPath = path.join(workDir, 'archive.tar.gz');
+    const size = CHUNK_ALIGNMENT * 2 + 10;
+    await fs.writeFile(localPath, Buffer.alloc(size, 1));
+
+    try {
+      const client = new GoogleDriveClient({
+        accessToken: 'token',
+        apiUrl: `${baseUrl}/api`,
+        uploadUrl: `${baseUrl}/upload`,
+      });
+      let checkpoint: { session: string; parts: BackupPart[] } | undefined;
+      const save = async (session: string, parts: BackupPart[]) => {
+        checkpoint = { session, parts: [...parts] };
+      };
+
+      failingRange = `bytes ${CHUNK_ALIGNMENT * 2}-`;
+      await expect(client.uploadFile('folder-1', 'archive.tar.gz', localPath, CHUNK_ALIGNMENT, undefined, undefined, {
+        uploaded: [],
+        save,
+      })).rejects.toThrow();
+
+      failingRange = undefined;
+      ranges = [];
+      await fs.writeFile(localPath, Buffer.alloc(size, 2));
+
+      await client.uploadFile('folder-1', 'archive.tar.gz', localPath, CHUNK_ALIGNMENT, undefined, undefined, {
+        session: checkpoint!.session,
+        uploaded: checkpoint!.parts,
+        save,
+      });
+
+      expect(sessionsStarted).toBe(2);
+      expect(ranges).toHaveLength(4);
+      expect(uploaded.equals(Buffer.alloc(size, 2))).toBe(true);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should search inside the configured shared drive', async () => {
+    const client = new GoogleDriveClient({
+      accessToken: 'token',
+      driveId: 'shared-1',
+      apiUrl: `${baseUrl}/api`,
+    });
+
+    await client.findByProperties({ wpBackupId: 'abc' });
+
+    expect(listParams!.get('corpora')).toBe('drive');
+    expect(listParams!.get('driveId')).toBe('shared-1');
+    expect(listParams!.get('supportsAllDrives')).toBe('true');
+    expect(listParams!.get('q')).toContain("appProperties has { key='wpBackupId' and value='abc' }");
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit Tests for the Local Filesystem Backup Provider
+ *
+ * Tests the full provider lifecycle against temporary directories.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { LocalBackupProvider } from '../../../server/providers/local/provider';
+import { localBackupProviderFactory } from '../../../server/providers/local/factory';
+import { LocalBackupConfig } from '../../../server/providers/types';
+
+describe('LocalBackupProvider', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let provider: LocalBackupProvider;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-provider-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(path.join(sourceDir, 'wp-includes'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+    await fs.writeFile(path.join(sourceDir, 'wp-includes', 'version.php'), '<?php $wp_version = "6.5";');
+
+    const config: LocalBackupConfig = {
+      id: 'local-test',
+      provider: 'local',
+      name: 'Local test',
+      active: true,
+      created: new Date(),
+      updated: new Date(),
+      settings: {
+        basePath: path.join(workDir, 'backups'),
+      },
+    };
+
+    provider = new LocalBackupProvider(config);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should create the backup directory on initialization', async () => {
+    expect(await provider.initialize()).toBe(true);
+
+    const stats = await fs.stat(path.join(workDir, 'backups'));
+    expect(stats.isDirectory()).toBe(true);
+  });
+
+  it('should create, list, get and delete a backup', async () => {
+    const result = await provider.createBackup({ siteId: '1', files: [sourceDir] });
+
+    expect(result.success).toBe(true);
+    expect(result.size).toBeGreaterThan(0);
+
+    const { backups, total } = await provider.listBackups({ siteId: '1' });
+    expect(total).toBe(1);
+    expect(backups[0].id).toBe(result.id);
+
+    const backup = await provider.getBackup(result.id);
+    expect(backup).not.toBeNull();
+    expect(backup!.contents!.some(item => item.path.endsWith('wp-includes/version.php'))).toBe(true);
+
+    const deleted = await provider.deleteBackup(result.id);
+    expect(deleted.success).toBe(true);
+    expect((await provider.listBackups()).total).toBe(0);
+  });
+
+  it('should download files from inside the archive and next to it', async () => {
+    const result = await provider.createBackup({ siteId: '1', files: [sourceDir] });
+    const backup = await provider.getBackup(result.id);
+    const configEntry = backup!.contents!.find(item => item.path.endsWith('wp-config.php'))!;
+
+    const file = await provider.downloadFile(result.id, configEntry.path);
+    expect(file.success).toBe(true);
+    expect(file.content!.toString()).toContain('DB_NAME');
+
+    const metadata = await provider.downloadFile(result.id, 'metadata.json');
+    expect(metadata.contentType).toBe('application/json');
+    expect(JSON.parse(metadata.content!.toString()).id).toBe(result.id);
+  });
+
+  it('should restore selected files into a destination', async () => {
+    const result = await provider.createBackup({ siteId: '1', files: [sourceDir] });
+    const backup = await provider.getBackup(result.id);
+    const versionEntry = backup!.contents!.find(item => item.path.endsWith('version.php'))!;
+    const destination = path.join(workDir, 'restore');
+
+    const restored = await provider.restoreBackup(result.id, {
+      destination,
+      files: [versionEntry.path],
+    });
+
+    expect(restored.success).toBe(true);
+    expect(restored.details.files).toEqual([versionEntry.path]);
+
+    const content = await fs.readFile(path.join(destination, versionEntry.path), 'utf8');
+    expect(content).toContain('wp_version');
+  });
+
+  it('should keep backups inside the base directory', async () => {
+    for (const siteId of ['../outside', '..', 'a/b', '/etc']) {
+      const result = await provider.createBackup({ siteId, files: [sourceDir] });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Invalid backup path');
+    }
+
+    expect((await fs.readdir(workDir)).sort()).toEqual(['backups', 'site']);
+    expect((await provider.listBackups({ siteId: '../site' })).total).toBe(0);
+
+    // Restoring an unknown backup ID never touches the path it names
+    const restored = await provider.restoreBackup('../../site', {});
+
+    expect(restored.success).toBe(false);
+    expect(await fs.stat(sourceDir)).toBeTruthy();
+  });
+
+  it('should report missing backups', async () => {
+    const result = await provider.deleteBackup('does-not-exist');
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('LocalBackupProviderFactory', () => {
+  it('should require an absolute base path', () => {
+    expect(localBackupProviderFactory.validateConfig({ basePath: 'relative/path' }).valid).toBe(false);
+    expect(localBackupProviderFactory.validateConfig({ basePath: '/var/backups' }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Unit Tests for the OneDrive Backup Provider
+ *
+ * Tests the provider contract, and resuming upload sessions, against an
+ * in-process stand-in for the Microsoft Graph drive endpoints.
+ */
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import { OneDriveBackupProvider } from '../../../server/providers/onedrive/provider';
+import { OneDriveClient, CHUNK_ALIGNMENT, SIMPLE_UPLOAD_LIMIT } from '../../../server/providers/onedrive/client';
+import { BackupPart, OneDriveBackupConfig } from '../../../server/providers/types';
+
+/**
+ * Start a minimal Graph drive stand-in; folders exist implicitly through their files
+ */
+async function startGraphStandIn(): Promise<{
+  server: http.Server;
+  apiUrl: string;
+  files: Map<string, Buffer>;
+  paths: string[];
+  sessions: Map<string, { itemPath: string; data: Buffer }>;
+  failing: Set<number>;
+}> {
+  const files = new Map<string, Buffer>();
+  const paths: string[] = [];
+  const sessions = new Map<string, { itemPath: string; data: Buffer }>();
+  // Offsets of session uploads that fail
+  const failing = new Set<number>();
+  let sessionCount = 0;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const json = (status: number, data: any) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(data));
+      };
+
+      paths.push(url.pathname);
+
+      const sessionId = url.pathname.match(/^\/upload-sessions\/(\d+)$/)?.[1];
+
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        const range = String(req.headers['content-range'] || '').match(/^bytes (\d+)-\d+\/(\d+)$/);
+
+        if (!session) {
+          json(404, { error: { message: 'Upload session not found' } });
+        } else if (req.method === 'GET') {
+          json(200, { nextExpectedRanges: [`${session.data.length}-`] });
+        } else if (req.method === 'DELETE') {
+          sessions.delete(sessionId);
+          res.writeHead(204).end();
+        } else if (!range || Number(range[1]) !== session.data.length || failing.has(Number(range[1]))) {
+          json(416, { error: { message: 'Range not satisfiable' } });
+        } else {
+          session.data = Buffer.concat([session.data, ...chunks]);
+
+          if (session.data.length < Number(range[2])) {
+            json(202, { nextExpectedRanges: [`${session.data.length}-`] });
+          } else {
+            files.set(session.itemPath, session.data);
+            sessions.delete(sessionId);
+            json(201, { id: session.itemPath, name: path.posix.basename(session.itemPath), size: session.data.length });
+          }
+        }
+        return;
+      }
+
+      if (url.pathname === '/sites/contoso/drive') {
+        json(200, { id: 'drive-1', name: 'Documents', driveType: 'documentLibrary' });
+        return;
+      }
+
+      const match = url.pathname.match(/^\/sites\/contoso\/drive\/root:\/(.*?)(?::\/(children|content|createUploadSession))?$/);
+
+      if (!match) {
+        json(404, { error: { message: 'Not found' } });
+        return;
+      }
+
+      const itemPath = decodeURIComponent(match[1]);
+      const action = match[2];
+      const isFolder = Array.from(files.keys()).some(name => name.startsWith(`${itemPath}/`));
+
+      if (req.method === 'POST' && action === 'createUploadSession') {
+        const id = String(++sessionCount);
+        sessions.set(id, { itemPath, data: Buffer.alloc(0) });
+        json(200, { uploadUrl: `http://${req.headers.host}/upload-sessions/${id}` });
+      } else if (req.method === 'PUT' && action === 'content') {
+        files.set(itemPath, Buffer.concat(chunks));
+        json(201, { id: itemPath, name: path.posix.basename(itemPath), size: files.get(itemPath)!.length });
+      } else if (req.method === 'GET' && action === 'content') {
+        const data = files.get(itemPath);
+        data ? res.writeHead(200).end(data) : json(404, { error: { message: 'Not found' } });
+      } else if (req.method === 'GET' && action === 'children') {
+        const names = new Set(
+          Array.from(files.keys())
+            .filter(name => name.startsWith(`${itemPath}/`))
+            .map(name => name.slice(itemPath.length + 1).split('/')[0])
+        );
+        json(200, {
+          value: Array.from(names).map(name => {
+            const childPath = `${itemPath}/${name}`;
+            return files.has(childPath)
+              ? { id: childPath, name, size: files.get(childPath)!.length, file: {} }
+              : { id: childPath, name, folder: {} };
+          }),
+        });
+      } else if (req.method === 'GET') {
+        files.has(itemPath) || isFolder
+          ? json(200, { id: itemPath, name: path.posix.basename(itemPath) })
+          : json(404, { error: { message: 'Not found' } });
+      } else if (req.method === 'DELETE') {
+        Array.from(files.keys())
+          .filter(name => name === itemPath || name.startsWith(`${itemPath}/`))
+          .forEach(name => files.delete(name));
+        res.writeHead(204).end();
+      } else {
+        json(400, { error: { message: 'Unsupported' } });
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    server,
+    apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    files,
+    paths,
+    sessions,
+    failing,
+  };
+}
+
+describe('OneDriveBackupProvider', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let standIn: Awaited<ReturnType<typeof startGraphStandIn>>;
+  let provider: OneDriveBackupProvider;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'onedrive-provider-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(path.join(sourceDir, 'wp-includes'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+    await fs.writeFile(path.join(sourceDir, 'wp-includes', 'version.php'), '<?php $wp_version = "6.5";');
+
+    standIn = await startGraphStandIn();
+
+    const config: OneDriveBackupConfig = {
+      id: 'onedrive-test',
+      provider: 'onedrive',
+      name: 'SharePoint test',
+      active: true,
+      created: new Date(),
+      updated: new Date(),
+      settings: {
+        accessToken: 'token',
+        sharePointSiteId: 'contoso',
+      },
+    };
+
+    provider = new OneDriveBackupProvider(config, new OneDriveClient({
+      accessToken: 'token',
+      siteId: 'contoso',
+      apiUrl: standIn.apiUrl,
+    }));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => standIn.server.close(resolve));
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should store backups in the SharePoint document library', async () => {
+    const result = await provider.createBackup({ siteId: '7', files: [sourceDir] });
+
+    expect(result.success).toBe(true);
+    expect(standIn.files.has(`wordpress-backups/7/${result.id}/archive.tar.gz`)).toBe(true);
+    expect(standIn.files.has(`wordpress-backups/7/${result.id}/metadata.json`)).toBe(true);
+
+    const { backups } = await provider.listBackups();
+    expect(backups.map(backup => backup.id)).toEqual([result.id]);
+  });
+
+  it('should list backup contents and download single files', async () => {
+    const result = await provider.createBackup({ siteId: '7', files: [sourceDir] });
+
+    const backup = await provider.getBackup(result.id);
+    const configEntry = backup!.contents!.find(item => item.path.endsWith('wp-config.php'))!;
+    expect(configEntry.type).toBe('file');
+
+    const file = await provider.downloadFile(result.id, configEntry.path);
+    expect(file.content!.toString()).toContain('DB_NAME');
+  });
+
+  it('should delete backups', async () => {
+    const result = await provider.createBackup({ siteId: '7', files: [sourceDir] });
+
+    expect((await provider.deleteBackup(result.id)).success).toBe(true);
+    expect(standIn.files.size).toBe(0);
+    expect(await provider.getBackup(result.id)).toBeNull();
+  });
+
+  it('should resume an interrupted upload session without uploading its chunks again', async () => {
+    const client = new OneDriveClient({ accessToken: 'token', siteId: 'contoso', apiUrl: standIn.apiUrl });
+    const localPath = path.join(workDir, 'archive.tar.gz');
+    const chunkSize = CHUNK_ALIGNMENT * 4;
+    const content = Buffer.alloc(SIMPLE_UPLOAD_LIMIT + 10, 1);
+    await fs.writeFile(localPath, content);
+
+    const saved: Array<{ session: string; parts: BackupPart[] }> = [];
+    const save = async (session: string, parts: BackupPart[]) => {
+      saved.push({ session, parts: [...parts] });
+    };
+
+    // An interrupted upload never gets to release its session
+    jest.spyOn(axios, 'delete').mockResolvedValue({});
+    standIn.failing.add(chunkSize * 3);
+
+    await expect(client.uploadFile('wordpress-backups/7/archive.tar.gz', localPath, chunkSize, { uploaded: [], save }))
+      .rejects.toThrow();
+
+    expect(saved.map(({ parts }) => parts.length)).toEqual([1, 2, 3]);
+
+    standIn.failing.clear();
+    standIn.paths.length = 0;
+
+    const item = await client.uploadFile('wordpress-backups/7/archive.tar.gz', localPath, chunkSize, {
+      session: saved[2].session,
+      uploaded: saved[2].parts,
+      save,
+    });
+
+    expect(item.size).toBe(content.length);
+    expect(standIn.paths.some(itemPath => itemPath.endsWith('createUploadSession'))).toBe(false);
+    expect(standIn.paths.filter(itemPath => itemPath.startsWith('/upload-sessions/'))).toHaveLength(2);
+    expect(standIn.files.get('wordpress-backups/7/archive.tar.gz')!.equals(content)).toBe(true);
+  });
+});
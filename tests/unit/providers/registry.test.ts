@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for the Backup Provider Registry
+ *
+ * Tests factory registration, validation before provider creation and
+ * provider cache invalidation.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import * as providerRegistry from '../../../server/providers';
+import { BackupService } from '../../../server/services/backup-service';
+import { MemStorage } from '../../../server/storage';
+import { AppError } from '../../../server/utils/error-handler';
+import { BackupConfig } from '../../../server/providers/types';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+describe('Provider registry', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-registry-'));
+    providerRegistry.clearProviderCache();
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const localConfig = (settings: Record<string, any>): BackupConfig => ({
+    id: 'local-test',
+    provider: 'local',
+    name: 'Local test',
+    active: true,
+    settings,
+    created: new Date(),
+    updated: new Date(),
+  });
+
+  it('should expose self-registered factories by ID', () => {
+    const ids = providerRegistry.getAvailableProviders().map(info => info.id);
+
+    expect(ids).toEqual(expect.arrayContaining(['github', 'local', 's3', 'dropbox', 'google', 'onedrive', 'sftp', 'webdav']));
+    expect(providerRegistry.getProviderFactory('sftp')!.getId()).toBe('sftp');
+    expect(providerRegistry.getProviderConfigurationFields('webdav')!.map(field => field.name)).toContain('chunking');
+    expect(providerRegistry.getProviderConfigurationFields('missing')).toBeUndefined();
+  });
+
+  it('should load the factory of every provider directory', async () => {
+    const providersDir = path.join(__dirname, '../../../server/providers');
+    const entries = await fs.readdir(providersDir, { withFileTypes: true });
+    const withFactory = await Promise.all(entries
+      .filter(entry => entry.isDirectory())
+      .map(async entry => (await fs.stat(path.join(providersDir, entry.name, 'factory.ts')).catch(() => null)) ? entry.name : null));
+
+    expect(providerRegistry.getAvailableProviders().map(info => info.id).sort())
+      .toEqual(withFactory.filter(Boolean).sort());
+  });
+
+  it('should not create providers from invalid configurations', async () => {
+    expect(providerRegistry.validateProviderConfig('missing', {}).valid).toBe(false);
+    expect(await providerRegistry.getProvider(localConfig({ basePath: 'relative/dir' }))).toBeUndefined();
+  });
+
+  it('should reuse cached providers until the configuration changes', async () => {
+    const config = localConfig({ basePath: workDir });
+    const provider = await providerRegistry.getProvider(config);
+
+    expect(await providerRegistry.getProvider(config)).toBe(provider);
+
+    const changed = { ...config, settings: { basePath: path.join(workDir, 'other') }, updated: new Date(Date.now() + 1000) };
+    const recreated = await providerRegistry.getProvider(changed);
+
+    expect(recreated).not.toBe(provider);
+    expect(recreated!.getConfig().settings.basePath).toBe(path.join(workDir, 'other'));
+  });
+
+  it('should validate configurations before they are saved', async () => {
+    const service = new BackupService(new MemStorage());
+
+    await expect(service.createConfiguration({
+      provider: 'local',
+      name: 'Broken',
+      active: true,
+      settings: {},
+    })).rejects.toThrow(AppError);
+
+    const saved = await service.createConfiguration({
+      provider: 'local',
+      name: 'Local',
+      active: true,
+      settings: { basePath: workDir },
+    });
+
+    await expect(service.updateConfiguration(saved.id, { settings: { basePath: 'relative/dir' } })).rejects.toThrow(AppError);
+    expect((await service.getConfiguration(saved.id))!.settings.basePath).toBe(workDir);
+  });
+});
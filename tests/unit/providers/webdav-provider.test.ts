@@ -0,0 +1,202 @@
+/**
+ * Unit Tests for the WebDAV Backup Provider
+ *
+ * Tests the provider contract against an in-process WebDAV stand-in that
+ * also understands the Nextcloud chunked upload protocol.
+ */
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { WebDavBackupProvider } from '../../../server/providers/webdav/provider';
+import { WebDavBackupConfig } from '../../../server/providers/types';
+
+/**
+ * Start a minimal WebDAV stand-in with basic auth
+ */
+async function startWebDavStandIn(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  files: Map<string, Buffer>;
+  collections: Set<string>;
+  requests: Array<{ method: string; path: string; chunked: boolean }>;
+}> {
+  const files = new Map<string, Buffer>();
+  const collections = new Set<string>(['']);
+  const requests: Array<{ method: string; path: string; chunked: boolean }> = [];
+  const expectedAuth = `Basic ${Buffer.from('alice:secret').toString('base64')}`;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const itemPath = decodeURIComponent(url.pathname).replace(/^\/+|\/+$/g, '');
+      const method = req.method || 'GET';
+
+      requests.push({ method, path: itemPath, chunked: req.headers['transfer-encoding'] === 'chunked' });
+
+      if (req.headers.authorization !== expectedAuth) {
+        res.writeHead(401).end();
+        return;
+      }
+
+      const toPath = (destination: string) =>
+        decodeURIComponent(new URL(destination).pathname).replace(/^\/+|\/+$/g, '');
+
+      if (method === 'MKCOL') {
+        if (collections.has(itemPath)) {
+          res.writeHead(405).end();
+        } else {
+          collections.add(itemPath);
+          res.writeHead(201).end();
+        }
+      } else if (method === 'PUT') {
+        files.set(itemPath, Buffer.concat(chunks));
+        res.writeHead(201).end();
+      } else if (method === 'MOVE' && itemPath.endsWith('/.file')) {
+        const uploadDir = itemPath.slice(0, -'/.file'.length);
+        const parts = Array.from(files.keys()).filter(name => name.startsWith(`${uploadDir}/`)).sort();
+        files.set(toPath(String(req.headers.destination)), Buffer.concat(parts.map(name => files.get(name)!)));
+        parts.forEach(name => files.delete(name));
+        collections.delete(uploadDir);
+        res.writeHead(201).end();
+      } else if (method === 'GET') {
+        const data = files.get(itemPath);
+        data ? res.writeHead(200).end(data) : res.writeHead(404).end();
+      } else if (method === 'DELETE') {
+        Array.from(files.keys())
+          .filter(name => name === itemPath || name.startsWith(`${itemPath}/`))
+          .forEach(name => files.delete(name));
+        Array.from(collections)
+          .filter(name => name === itemPath || name.startsWith(`${itemPath}/`))
+          .forEach(name => collections.delete(name));
+        res.writeHead(204).end();
+      } else if (method === 'PROPFIND') {
+        if (!files.has(itemPath) && !collections.has(itemPath)) {
+          res.writeHead(404).end();
+          return;
+        }
+
+        const entry = (name: string) => {
+          const isCollection = collections.has(name);
+          return `<d:response><d:href>/${encodeURI(name)}${isCollection ? '/' : ''}</d:href><d:propstat><d:prop>` +
+            (isCollection
+              ? '<d:resourcetype><d:collection/></d:resourcetype>'
+              : `<d:resourcetype/><d:getcontentlength>${files.get(name)!.length}</d:getcontentlength>`) +
+            '</d:prop></d:propstat></d:response>';
+        };
+        const prefix = itemPath ? `${itemPath}/` : '';
+        const members = req.headers.depth === '1' && collections.has(itemPath)
+          ? [...Array.from(collections), ...Array.from(files.keys())]
+            .filter(name => name.startsWith(prefix) && name !== itemPath && !name.slice(prefix.length).includes('/'))
+          : [];
+
+        res.writeHead(207, { 'Content-Type': 'application/xml' })
+          .end(`<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${[itemPath, ...members].map(entry).join('')}</d:multistatus>`);
+      } else {
+        res.writeHead(400).end();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    server,
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    files,
+    collections,
+    requests,
+  };
+}
+
+describe('WebDavBackupProvider', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let standIn: Awaited<ReturnType<typeof startWebDavStandIn>>;
+
+  const createProvider = (settings: Partial<WebDavBackupConfig['settings']> = {}) => {
+    const config: WebDavBackupConfig = {
+      id: 'webdav-test',
+      provider: 'webdav',
+      name: 'Nextcloud test',
+      active: true,
+      created: new Date(),
+      updated: new Date(),
+      settings: {
+        url: `${standIn.baseUrl}/remote.php/dav/files/alice`,
+        username: 'alice',
+        password: 'secret',
+        ...settings,
+      },
+    };
+
+    return new WebDavBackupProvider(config);
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webdav-provider-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(path.join(sourceDir, 'wp-includes'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+    await fs.writeFile(path.join(sourceDir, 'wp-includes', 'version.php'), '<?php $wp_version = "6.5";');
+
+    standIn = await startWebDavStandIn();
+    ['remote.php', 'remote.php/dav', 'remote.php/dav/files', 'remote.php/dav/files/alice', 'remote.php/dav/uploads', 'remote.php/dav/uploads/alice']
+      .forEach(name => standIn.collections.add(name));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => standIn.server.close(resolve));
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should upload archives with chunked PUT and list them', async () => {
+    const provider = createProvider();
+    const result = await provider.createBackup({ siteId: '7', files: [sourceDir] });
+
+    expect(result.success).toBe(true);
+
+    const archivePath = `remote.php/dav/files/alice/wordpress-backups/7/${result.id}/archive.tar.gz`;
+    expect(standIn.files.has(archivePath)).toBe(true);
+    expect(standIn.requests.find(request => request.method === 'PUT' && request.path === archivePath)!.chunked).toBe(true);
+
+    const { backups } = await provider.listBackups();
+    expect(backups.map(backup => backup.id)).toEqual([result.id]);
+
+    const backup = await provider.getBackup(result.id);
+    const configEntry = backup!.contents!.find(item => item.path.endsWith('wp-config.php'))!;
+    const file = await provider.downloadFile(result.id, configEntry.path);
+    expect(file.content!.toString()).toContain('DB_NAME');
+  });
+
+  it('should assemble archives from Nextcloud upload chunks', async () => {
+    const provider = createProvider({ chunking: 'nextcloud' });
+    const result = await provider.createBackup({ siteId: '7', files: [sourceDir] });
+
+    expect(result.success).toBe(true);
+    expect(standIn.requests.some(request => request.method === 'MOVE')).toBe(true);
+    expect(standIn.files.has(`remote.php/dav/files/alice/wordpress-backups/7/${result.id}/archive.tar.gz`)).toBe(true);
+    expect(Array.from(standIn.files.keys()).some(name => name.includes('/uploads/'))).toBe(false);
+  });
+
+  it('should delete backups', async () => {
+    const provider = createProvider();
+    const result = await provider.createBackup({ siteId: '7', files: [sourceDir] });
+
+    expect((await provider.deleteBackup(result.id)).success).toBe(true);
+    expect(standIn.files.size).toBe(0);
+    expect(await provider.getBackup(result.id)).toBeNull();
+  });
+
+  it('should report rejected credentials', async () => {
+    const provider = createProvider({ password: 'wrong' });
+    const result = await provider.testConnection();
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit Tests for Archive Encryption
+ *
+ * Tests that configurations with encryption store archives that can't be
+ * read without the site's key, that restores and downloads decrypt them
+ * transparently, that rotated keys keep older backups readable, that
+ * streamed archives are encrypted on their way into the upload and
+ * decrypted as a stream, and that a site gets a single active key.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { ArchiveKeyring, EncryptedProvider } from '../../../server/services/archive-encryption';
+import { BackupService } from '../../../server/services/backup-service';
+import { createDecryptStream, createEncryptStream, decryptBuffer } from '../../../server/security/encryption';
+import { LocalBackupProvider } from '../../../server/providers/local/provider';
+import type { BackupProvider } from '../../../server/providers/types';
+import { MemStorage } from '../../../server/storage';
+import { readArchiveEntry, toEntryName } from '../../../server/utils/archive';
+import { MANIFEST_ENTRY_NAME } from '../../../server/utils/file-manifest';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+describe('Archive encryption', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let keyStorage: MemStorage;
+  let service: BackupService;
+  let configurationId: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-encryption-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(sourceDir, { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_PASSWORD", "secret");');
+
+    keyStorage = new MemStorage();
+    service = new BackupService(keyStorage);
+
+    configurationId = (await service.createConfiguration({
+      provider: 'local',
+      name: 'Encrypted',
+      active: true,
+      settings: { basePath: path.join(workDir, 'backups'), encrypt: true },
+    })).id;
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should encrypt archives and decrypt them on restore and download', async () => {
+    const result = await service.createBackup(configurationId, { siteId: '1', files: [sourceDir] });
+
+    expect(result.success).toBe(true);
+
+    const stored = await fs.readFile(path.join(result.locations![0].path, 'archive.tar.gz'));
+    const metadata = JSON.parse(await fs.readFile(path.join(result.locations![0].path, 'metadata.json'), 'utf8'));
+    const key = await keyStorage.getActiveEncryptionKey('1');
+
+    // The stored archive isn't a gzip archive any more
+    expect(stored.subarray(0, 2)).not.toEqual(Buffer.from([0x1f, 0x8b]));
+    expect(metadata.metadata.encryption).toEqual({ algorithm: 'aes-256-gcm', keyId: key!.id });
+
+    const manifest = await service.downloadFile(configurationId, result.id, MANIFEST_ENTRY_NAME);
+    expect(JSON.parse(manifest.content!.toString())).toMatchObject({ type: 'full', deleted: [] });
+
+    const restoreDir = path.join(workDir, 'restore');
+    const restored = await service.restoreBackup(configurationId, result.id, { destination: restoreDir });
+
+    expect(restored.success).toBe(true);
+    expect(await fs.readFile(path.join(restoreDir, toEntryName(sourceDir), 'wp-config.php'), 'utf8'))
+      .toBe('<?php define("DB_PASSWORD", "secret");');
+  });
+
+  it('should keep backups readable after the key is rotated', async () => {
+    const before = await service.createBackup(configurationId, { siteId: '1', files: [sourceDir] });
+    const keyId = await service.rotateEncryptionKey('1');
+    const after = await service.createBackup(configurationId, { siteId: '1', files: [sourceDir] });
+
+    const details = await service.getBackupDetails(configurationId, after.id);
+    expect(details!.metadata!.encryption.keyId).toBe(keyId);
+    expect(details!.contents!.map(entry => entry.name)).toContain('wp-config.php');
+
+    const downloaded = await service.downloadFile(configurationId, before.id, `${toEntryName(sourceDir)}/wp-config.php`);
+    expect(downloaded.content!.toString()).toBe('<?php define("DB_PASSWORD", "secret");');
+
+    // A new service, e.g. after a restart, unwraps the stored keys again
+    const restarted = new BackupService(keyStorage);
+    const restored = await restarted.restoreBackup(configurationId, before.id, {});
+
+    expect(restored.success).toBe(true);
+  });
+
+  it('should encrypt streamed archives on their way into the upload', async () => {
+    const uploads: { content: Buffer; size: number; metadata?: Record<string, any>; resumable: boolean }[] = [];
+    const streaming = {
+      createStreamedBackup: async options => {
+        const chunks: Buffer[] = [];
+
+        for await (const chunk of options.archive.stream) {
+          chunks.push(chunk);
+        }
+
+        const { size } = await options.archive.completed;
+        uploads.push({
+          content: Buffer.concat(chunks),
+          size,
+          metadata: options.metadata,
+          resumable: !!(options.checkpoint || options.onCheckpoint),
+        });
+
+        return { id: options.backupId!, success: true, message: 'Backup created', created: new Date() };
+      },
+    } as Partial<BackupProvider> as BackupProvider;
+    const plain = { createBackup: jest.fn() } as Partial<BackupProvider> as BackupProvider;
+    const keyring = new ArchiveKeyring(keyStorage);
+    const archive = Buffer.from('streamed archive');
+
+    // Providers without streamed uploads keep getting a staged archive
+    expect(new EncryptedProvider(plain, keyring).createStreamedBackup).toBeUndefined();
+
+    const result = await new EncryptedProvider(streaming, keyring).createStreamedBackup!({
+      siteId: '1',
+      backupId: 'streamed',
+      files: [],
+      archive: {
+        stream: Readable.from([archive]),
+        completed: Promise.resolve({ size: archive.length, fileCount: 1 }),
+      },
+      checkpoint: { session: { created: new Date().toISOString() }, parts: [] },
+      onCheckpoint: async () => undefined,
+    });
+    const { id: keyId, key } = await keyring.getActiveKey('1');
+
+    expect(result.success).toBe(true);
+    expect(uploads[0].metadata).toEqual({ encryption: { algorithm: 'aes-256-gcm', keyId } });
+    expect(uploads[0].size).toBe(uploads[0].content.length);
+    // A new IV encrypts every attempt differently, so none of its parts could be resumed
+    expect(uploads[0].resumable).toBe(false);
+    expect(decryptBuffer(uploads[0].content, key)).toEqual(archive);
+  });
+
+  it('should decrypt archives as a stream and reject modified ones', async () => {
+    const key = await new ArchiveKeyring(keyStorage).getActiveKey('1').then(active => active.key);
+    const archive = Buffer.from('streamed archive '.repeat(100));
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of Readable.from([archive]).pipe(createEncryptStream(key))) {
+      chunks.push(chunk);
+    }
+
+    const encrypted = Buffer.concat(chunks);
+    const decrypt = async (content: Buffer): Promise<Buffer> => {
+      const decrypted: Buffer[] = [];
+      // Split the content so the header and the authentication tag span chunks
+      const parts = Array.from({ length: Math.ceil(content.length / 5) }, (_, i) => content.subarray(i * 5, i * 5 + 5));
+
+      for await (const chunk of Readable.from(parts).pipe(createDecryptStream(key))) {
+        decrypted.push(chunk);
+      }
+
+      return Buffer.concat(decrypted);
+    };
+
+    expect(await decrypt(encrypted)).toEqual(archive);
+
+    const modified = Buffer.from(encrypted);
+    modified[modified.length - 30] ^= 1;
+
+    await expect(decrypt(modified)).rejects.toThrow();
+    await expect(decrypt(Buffer.from('not encrypted at all'))).rejects.toThrow('Invalid encrypted data format');
+  });
+
+  it('should create one active key for backups of a site that start at once', async () => {
+    const keyring = new ArchiveKeyring(keyStorage);
+    const createKey = jest.spyOn(keyStorage, 'createEncryptionKey');
+
+    const keys = await Promise.all([1, 2, 3].map(() => keyring.getActiveKey('1')));
+
+    expect(createKey).toHaveBeenCalledTimes(1);
+    expect(new Set(keys.map(key => key.id)).size).toBe(1);
+    expect((await keyStorage.getActiveEncryptionKey('1'))!.id).toBe(keys[0].id);
+  });
+
+  it('should download decrypted archives to a file', async () => {
+    const result = await service.createBackup(configurationId, { siteId: '1', files: [sourceDir] });
+    const provider = new EncryptedProvider(
+      new LocalBackupProvider({
+        id: configurationId,
+        provider: 'local',
+        name: 'Encrypted',
+        active: true,
+        created: new Date(),
+        updated: new Date(),
+        settings: { basePath: path.join(workDir, 'backups'), encrypt: true },
+      }),
+      new ArchiveKeyring(keyStorage)
+    );
+    const archivePath = path.join(workDir, 'archive.tar.gz');
+
+    expect((await provider.downloadArchiveToFile(result.id, archivePath)).success).toBe(true);
+    expect((await fs.readFile(archivePath)).subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+    expect(await readArchiveEntry(archivePath, `${toEntryName(sourceDir)}/wp-config.php`))
+      .toEqual(Buffer.from('<?php define("DB_PASSWORD", "secret");'));
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Unit Tests for Backup Chains
+ *
+ * Tests that queued incremental and differential backups only store what
+ * changed since the backup they build on, that a chain from the backups
+ * table restores the files as they were at any backup of the chain, and that
+ * chains can be merged into synthetic full backups and that backups can be
+ * verified against the checksums recorded when they were created.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { LocalBackupProvider } from '../../../server/providers/local/provider';
+import { BackupService } from '../../../server/services/backup-service';
+import { JobQueue } from '../../../server/services/job-queue';
+import { registerJobHandlers } from '../../../server/services/job-handlers';
+import { MemStorage } from '../../../server/storage';
+import { toEntryName } from '../../../server/utils/archive';
+import type { Backup } from '@shared/schema';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+describe('Backup chains', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let backupStorage: MemStorage;
+  let service: BackupService;
+  let queue: JobQueue;
+  let configurationId: string;
+
+  // Queue a backup of the site like the scheduler does and run it
+  const runBackup = async (type: 'full' | 'incremental' | 'differential', parent?: Backup): Promise<Backup> => {
+    const backup = await backupStorage.createBackup({
+      siteId: 1,
+      storageProviderId: 1,
+      status: 'pending',
+      type,
+      parentBackupId: parent?.id ?? null,
+      configurationId,
+      externalId: uuidv4(),
+      startedAt: new Date(),
+    });
+
+    await queue.enqueue({
+      type: 'backup',
+      siteId: 1,
+      payload: { configurationId, siteId: '1', files: [sourceDir], backupId: backup.id },
+    });
+
+    await runJobs();
+
+    return (await backupStorage.getBackup(backup.id))!;
+  };
+
+  const runJobs = async () => {
+    while ((await queue.poll()).length > 0) {
+      await queue.idle();
+    }
+  };
+
+  const readRestored = async (restoreDir: string) => {
+    const siteDir = path.join(restoreDir, toEntryName(sourceDir));
+    const files: Record<string, string> = {};
+
+    const walk = async (dir: string, prefix = ''): Promise<void> => {
+      for (const name of (await fs.readdir(dir)).sort()) {
+        const filePath = path.join(dir, name);
+
+        if ((await fs.stat(filePath)).isDirectory()) {
+          await walk(filePath, `${prefix}${name}/`);
+        } else {
+          files[`${prefix}${name}`] = await fs.readFile(filePath, 'utf8');
+        }
+      }
+    };
+
+    await walk(siteDir);
+    return files;
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backup-chain-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(path.join(sourceDir, 'wp-content', 'plugins'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'plugins', 'hello.php'), '<?php // Hello Dolly');
+
+    backupStorage = new MemStorage();
+    service = new BackupService(backupStorage);
+    queue = new JobQueue(backupStorage);
+    registerJobHandlers(queue, service, backupStorage);
+
+    configurationId = (await service.createConfiguration({
+      provider: 'local',
+      name: 'Local',
+      active: true,
+      settings: { basePath: path.join(workDir, 'backups') },
+    })).id;
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should only store changes and restore any backup of the chain', async () => {
+    const full = await runBackup('full');
+
+    expect(full).toMatchObject({ status: 'completed', fileCount: 2, changedFiles: 2 });
+
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wordpress");');
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'plugins', 'akismet.php'), '<?php // Akismet');
+    const first = await runBackup('incremental', full);
+
+    expect(first).toMatchObject({ status: 'completed', fileCount: 3, changedFiles: 2 });
+
+    // Replace the plugins directory with a file and remove a file
+    await fs.rm(path.join(sourceDir, 'wp-content', 'plugins'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'plugins'), 'moved');
+    const second = await runBackup('incremental', full);
+
+    expect(second).toMatchObject({ status: 'completed', fileCount: 2, changedFiles: 1 });
+    expect((await backupStorage.getBackupChain(second.id)).map(backup => backup.id)).toEqual([full.id, first.id, second.id]);
+
+    const restoreDir = path.join(workDir, 'restore-first');
+    const restoredFirst = await service.restoreBackupChain(first.id, { destination: restoreDir });
+
+    expect(restoredFirst.details.backups).toEqual([full.id, first.id]);
+    expect(await readRestored(restoreDir)).toEqual({
+      'wp-config.php': '<?php define("DB_NAME", "wordpress");',
+      'wp-content/plugins/akismet.php': '<?php // Akismet',
+      'wp-content/plugins/hello.php': '<?php // Hello Dolly',
+    });
+
+    // Applying the chain on top of an older restore removes files that are gone
+    const restoredSecond = await service.restoreBackupChain(second.id, { destination: restoreDir });
+
+    expect(restoredSecond.success).toBe(true);
+    expect(await readRestored(restoreDir)).toEqual({
+      'wp-config.php': '<?php define("DB_NAME", "wordpress");',
+      'wp-content/plugins': 'moved',
+    });
+    expect(await fs.readdir(restoreDir)).not.toContain('.backup-manifest.json');
+  });
+
+  it('should restore from the full backup and the latest differential backup', async () => {
+    const full = await runBackup('full');
+
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wordpress");');
+    const incremental = await runBackup('incremental', full);
+
+    await fs.writeFile(path.join(sourceDir, 'readme.txt'), 'Hello');
+    const differential = await runBackup('differential', full);
+
+    // Every change since the full backup, including the one the incremental backup already stored
+    expect(differential).toMatchObject({ status: 'completed', fileCount: 3, changedFiles: 2 });
+
+    await fs.rm(path.join(sourceDir, 'readme.txt'));
+    const latest = await runBackup('incremental', full);
+
+    expect(latest).toMatchObject({ status: 'completed', changedFiles: 0 });
+
+    const restoreDir = path.join(workDir, 'restore');
+    const restored = await service.restoreBackupChain(latest.id, { destination: restoreDir });
+
+    expect(restored.details.backups).toEqual([full.id, differential.id, latest.id]);
+    expect(restored.details.backups).not.toContain(incremental.id);
+    expect(await readRestored(restoreDir)).toEqual({
+      'wp-config.php': '<?php define("DB_NAME", "wordpress");',
+      'wp-content/plugins/hello.php': '<?php // Hello Dolly',
+    });
+  });
+
+  it('should merge a chain into a synthetic full backup and let retention drop the old chain', async () => {
+    const full = await runBackup('full');
+
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wordpress");');
+    const first = await runBackup('incremental', full);
+
+    await fs.rm(path.join(sourceDir, 'wp-content', 'plugins', 'hello.php'));
+    await fs.writeFile(path.join(sourceDir, 'readme.txt'), 'Hello');
+    const second = await runBackup('incremental', full);
+
+    await fs.writeFile(path.join(sourceDir, 'readme.txt'), 'Hello again');
+    const later = await runBackup('incremental', full);
+
+    const job = await queue.enqueue({ type: 'synthesize', siteId: 1, payload: { backupId: second.id } });
+    await runJobs();
+
+    const { result } = (await backupStorage.getJob(job.id))!;
+    const synthetic = (await backupStorage.getBackup(result.details.backupId))!;
+
+    expect(result.details).toMatchObject({ backups: [full.id, first.id, second.id], reparented: [later.id] });
+    expect(synthetic).toMatchObject({ status: 'completed', type: 'full', parentBackupId: null, fileCount: 2, changedFiles: 2 });
+    expect((await backupStorage.getBackup(later.id))!.parentBackupId).toBe(synthetic.id);
+
+    // New incremental backups build on the synthetic backup's chain
+    await fs.writeFile(path.join(sourceDir, 'license.txt'), 'GPL');
+    const next = await runBackup('incremental', synthetic);
+
+    expect(next).toMatchObject({ status: 'completed', changedFiles: 1 });
+
+    const prune = await queue.enqueue({ type: 'prune', siteId: 1, payload: { configurationId, keep: 2 } });
+    await runJobs();
+
+    expect((await backupStorage.getJob(prune.id))!.result.deleted.sort())
+      .toEqual([full.externalId, first.externalId, second.externalId].sort());
+
+    const restoreDir = path.join(workDir, 'restore');
+    const restored = await service.restoreBackupChain(next.id, { destination: restoreDir });
+
+    expect(restored.details.backups).toEqual([synthetic.id, later.id, next.id]);
+    expect(await readRestored(restoreDir)).toEqual({
+      'license.txt': 'GPL',
+      'readme.txt': 'Hello again',
+      'wp-config.php': '<?php define("DB_NAME", "wordpress");',
+    });
+  });
+
+  it('should record checksums and verify backups against them', async () => {
+    const full = await runBackup('full');
+
+    expect(full.checksums).toEqual({ 'archive.tar.gz': expect.stringMatching(/^[0-9a-f]{64}$/) });
+
+    const downloads = jest.spyOn(LocalBackupProvider.prototype, 'downloadFile');
+    const verify = () => queue.enqueue({
+      type: 'verify',
+      siteId: 1,
+      payload: { configurationId, backupId: full.externalId, backupRowId: full.id },
+    });
+
+    const verified = await verify();
+    await runJobs();
+
+    expect((await backupStorage.getJob(verified.id))!.result).toMatchObject({ archives: 1, files: 2, mismatches: [] });
+    expect((await backupStorage.getBackup(full.id))!.verifiedAt).toBeInstanceOf(Date);
+
+    // The archive is streamed into a file instead of being handed over in memory
+    expect(downloads.mock.calls.map(([, file]) => file)).not.toContain('archive.tar.gz');
+    downloads.mockRestore();
+
+    // Corrupt the stored archive
+    const siteDir = path.join(workDir, 'backups', '1');
+    const [backupDir] = await fs.readdir(siteDir);
+    const archivePath = path.join(siteDir, backupDir, 'archive.tar.gz');
+    const archive = await fs.readFile(archivePath);
+    archive[archive.length - 20] ^= 0xff;
+    await fs.writeFile(archivePath, archive);
+
+    const result = await service.verifyBackup(configurationId, full.externalId!);
+
+    expect(result).toMatchObject({ success: false, details: { mismatches: ['archive.tar.gz'] } });
+  });
+
+  it('should fail incremental backups without a completed backup to build on', async () => {
+    const full = await backupStorage.createBackup({
+      siteId: 1,
+      storageProviderId: 1,
+      status: 'failed',
+      type: 'full',
+      configurationId,
+      startedAt: new Date(),
+    });
+
+    const incremental = await runBackup('incremental', full);
+
+    expect(incremental.status).toBe('failed');
+    expect(incremental.error).toContain('No completed backup');
+    expect((await service.restoreBackupChain(incremental.id, {})).success).toBe(false);
+  });
+});
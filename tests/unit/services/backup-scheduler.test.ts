@@ -0,0 +1,184 @@
+/**
+ * Unit Tests for the Backup Scheduler
+ *
+ * Tests that due schedules are queued once and run through the backup
+ * service, even with several schedulers, that missed runs follow the
+ * catch-up policy, and that incremental runs build on the full backups of
+ * their own configuration.
+ */
+import { BackupScheduler } from '../../../server/services/backup-scheduler';
+import type { BackupService } from '../../../server/services/backup-service';
+import { JobQueue } from '../../../server/services/job-queue';
+import { registerJobHandlers } from '../../../server/services/job-handlers';
+import { MemStorage } from '../../../server/storage';
+import type { CatchUpPolicy, InsertBackupSchedule } from '@shared/schema';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+describe('BackupScheduler', () => {
+  // Schedules run daily at 02:30 local time
+  const scheduledAt = new Date(2020, 0, 10, 2, 30);
+  const daysLater = (days: number, minutes = 0) =>
+    new Date(2020, 0, 10 + days, 2, 30 + minutes);
+
+  let scheduleStorage: MemStorage;
+  let createBackup: jest.Mock;
+  let service: BackupService;
+  let queue: JobQueue;
+
+  // Run queued jobs until none are left, one site's jobs at a time
+  const runQueuedJobs = async () => {
+    while ((await queue.poll()).length > 0) {
+      await queue.idle();
+    }
+  };
+
+  const createSchedule = async (options: Partial<InsertBackupSchedule> = {}) => {
+    const schedule = await scheduleStorage.createBackupSchedule({
+      ...options,
+      siteId: 1,
+      storageProviderId: 1,
+      frequency: 'daily',
+      hourOfDay: 2,
+      minuteOfHour: 30,
+      configurationId: 'configurationId' in options ? options.configurationId : 'config-1',
+      paths: ['/var/www/site'],
+    });
+
+    // Pretend the schedule was created before its first run
+    return (await scheduleStorage.claimBackupSchedule(schedule.id, schedule.nextRun, {
+      lastRun: null,
+      nextRun: scheduledAt,
+    }))!;
+  };
+
+  beforeEach(() => {
+    scheduleStorage = new MemStorage();
+    createBackup = jest.fn().mockResolvedValue({ id: 'remote-id', success: true, size: 2048, created: new Date() });
+    service = {
+      createBackup,
+      getConfiguration: jest.fn().mockResolvedValue({ id: 'config-1', provider: 'local' }),
+    } as unknown as BackupService;
+
+    queue = new JobQueue(scheduleStorage);
+    registerJobHandlers(queue, service, scheduleStorage);
+  });
+
+  it('should queue due schedules and run them through the backup service', async () => {
+    const schedule = await createSchedule();
+    const scheduler = new BackupScheduler(scheduleStorage, service, queue);
+
+    expect(await scheduler.tick(daysLater(0, -1))).toEqual([]);
+
+    const now = daysLater(0, 1);
+    const [backup] = await scheduler.tick(now);
+
+    expect(backup).toMatchObject({ siteId: 1, status: 'pending', type: 'full' });
+    expect(createBackup).not.toHaveBeenCalled();
+
+    await runQueuedJobs();
+
+    expect(createBackup).toHaveBeenCalledWith('config-1', expect.objectContaining({
+      siteId: '1',
+      files: ['/var/www/site'],
+      metadata: expect.objectContaining({ scheduleId: schedule.id, scheduledFor: scheduledAt.toISOString() }),
+    }));
+    expect(await scheduleStorage.getBackup(backup.id)).toMatchObject({ status: 'completed', size: 2048 });
+
+    const updated = await scheduleStorage.getBackupSchedule(schedule.id);
+    expect(updated!.lastRun).toEqual(now);
+    expect(updated!.nextRun).toEqual(daysLater(1));
+
+    // The run is not repeated on the next check
+    expect(await scheduler.tick(daysLater(0, 2))).toEqual([]);
+    await runQueuedJobs();
+    expect(createBackup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fire a run twice when several schedulers check at once', async () => {
+    await createSchedule();
+
+    // e.g. a restarted server while the old one is still shutting down
+    const schedulers = [
+      new BackupScheduler(scheduleStorage, service, queue),
+      new BackupScheduler(scheduleStorage, service, queue),
+    ];
+
+    const results = await Promise.all(schedulers.map(scheduler => scheduler.tick(daysLater(0, 1))));
+    await runQueuedJobs();
+
+    expect(results.flat()).toHaveLength(1);
+    expect(createBackup).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    ['skip', 0],
+    ['run_once', 1],
+    ['run_all', 4],
+  ] as [CatchUpPolicy, number][])('should catch up on missed runs with the %s policy', async (catchUpPolicy, runs) => {
+    const schedule = await createSchedule({ catchUpPolicy });
+    const scheduler = new BackupScheduler(scheduleStorage, service, queue);
+
+    // The server was down for three days and came back an hour after a run
+    const backups = await scheduler.tick(daysLater(3, 60));
+    await runQueuedJobs();
+
+    expect(backups).toHaveLength(runs);
+    expect(createBackup).toHaveBeenCalledTimes(runs);
+    expect((await scheduleStorage.getBackupSchedule(schedule.id))!.nextRun).toEqual(daysLater(4));
+  });
+
+  it('should mix full, differential and incremental runs', async () => {
+    await createSchedule({ backupType: 'incremental', fullBackupFrequency: 5, differentialBackupFrequency: 2 });
+    const scheduler = new BackupScheduler(scheduleStorage, service, queue);
+    const backups = [];
+
+    for (let day = 0; day < 8; day++) {
+      backups.push(...await scheduler.tick(daysLater(day, 1)));
+      await runQueuedJobs();
+    }
+
+    expect(backups.map(backup => backup.type)).toEqual([
+      'full', 'incremental', 'incremental', 'differential', 'incremental', 'incremental', 'full', 'incremental',
+    ]);
+
+    // Differential backups build on the full backup, incremental backups on the backup before them
+    const parents = createBackup.mock.calls.map(([, options]) => options.parent);
+    expect(parents[3]).toBe(backups[0].externalId);
+    expect(parents[4]).toBe(backups[3].externalId);
+    expect(parents[7]).toBe(backups[6].externalId);
+  });
+
+  it('should build on the full backups of each configuration of a site', async () => {
+    const schedules = [
+      await createSchedule({ backupType: 'incremental', configurationId: 'config-1' }),
+      await createSchedule({ backupType: 'incremental', configurationId: 'config-2' }),
+    ];
+    const scheduler = new BackupScheduler(scheduleStorage, service, queue);
+    const backups = [];
+
+    for (let day = 0; day < 3; day++) {
+      backups.push(...await scheduler.tick(daysLater(day, 1)));
+      await runQueuedJobs();
+    }
+
+    // The full backup of one configuration doesn't make the other one's runs full
+    for (const schedule of schedules) {
+      const runs = backups.filter(backup => backup.configurationId === schedule.configurationId);
+      expect(runs.map(backup => backup.type)).toEqual(['full', 'incremental', 'incremental']);
+      expect(runs.slice(1).map(backup => backup.parentBackupId)).toEqual([runs[0].id, runs[0].id]);
+    }
+  });
+
+  it('should record a failed backup when the schedule has no configuration', async () => {
+    await createSchedule({ configurationId: undefined });
+    const scheduler = new BackupScheduler(scheduleStorage, service, queue);
+
+    const [backup] = await scheduler.tick(daysLater(0, 1));
+
+    expect(backup).toMatchObject({ status: 'failed', error: 'Schedule has no backup configuration' });
+    expect(await scheduleStorage.listJobs()).toEqual([]);
+    expect(createBackup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Unit Tests for the Backup Service
+ *
+ * Tests persisting configurations and their compression settings through
+ * the storage layer and uploading one backup to several destinations, using
+ * local destinations so no remote services are needed.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import * as archiveUtils from '../../../server/utils/archive';
+import { BackupService, STAGED_ARCHIVE_TTL } from '../../../server/services/backup-service';
+import { MemStorage } from '../../../server/storage';
+import { decryptObject } from '../../../server/security/encryption';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+describe('BackupService configurations', () => {
+  let configStorage: MemStorage;
+
+  beforeEach(() => {
+    configStorage = new MemStorage();
+  });
+
+  it('should persist configurations with encrypted settings', async () => {
+    const service = new BackupService(configStorage);
+    const settings = { token: 'ghp_secret', owner: 'acme', baseRepo: 'backups' };
+
+    const created = await service.createConfiguration({
+      provider: 'github',
+      name: 'GitHub',
+      active: true,
+      settings,
+      retention: { count: 5 },
+      filters: { exclude: ['wp-content/cache/**'] },
+    });
+
+    const record = await configStorage.getBackupConfiguration(created.id);
+    expect(record!.settings).not.toContain('ghp_secret');
+    expect(await decryptObject(record!.settings)).toEqual(settings);
+
+    // A new service, e.g. after a restart, loads the stored configuration
+    const restarted = new BackupService(configStorage);
+    const loaded = await restarted.getConfiguration(created.id);
+
+    expect(loaded).toMatchObject({
+      provider: 'github',
+      settings,
+      retention: { count: 5 },
+      filters: { exclude: ['wp-content/cache/**'] },
+    });
+    expect(loaded!.schedule).toBeUndefined();
+  });
+
+  it('should persist updates and deletions', async () => {
+    const service = new BackupService(configStorage);
+    const created = await service.createConfiguration({
+      provider: 'local',
+      name: 'Local',
+      active: true,
+      settings: { basePath: os.tmpdir() },
+    });
+
+    await service.updateConfiguration(created.id, {
+      name: 'Nightly',
+      schedule: { frequency: 'daily', hour: 2, minute: 30 },
+    });
+
+    const updated = await new BackupService(configStorage).getConfiguration(created.id);
+    expect(updated!.name).toBe('Nightly');
+    expect(updated!.schedule).toEqual({ frequency: 'daily', hour: 2, minute: 30 });
+    expect(updated!.settings).toEqual({ basePath: os.tmpdir() });
+
+    expect(await service.deleteConfiguration(created.id)).toBe(true);
+    expect(await new BackupService(configStorage).getAllConfigurations()).toEqual([]);
+  });
+
+  it('should validate compression and record the codec in backup metadata', async () => {
+    const service = new BackupService(configStorage);
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backup-service-'));
+
+    try {
+      await expect(service.createConfiguration({
+        provider: 'local',
+        name: 'Local',
+        active: true,
+        settings: { basePath: workDir },
+        compression: { codec: 'brotli', level: 12 },
+      })).rejects.toThrow('brotli compression level must be between 0 and 11');
+
+      const created = await service.createConfiguration({
+        provider: 'local',
+        name: 'Local',
+        active: true,
+        settings: { basePath: path.join(workDir, 'backups') },
+        compression: { codec: 'brotli', level: 5 },
+      });
+
+      expect((await new BackupService(configStorage).getConfiguration(created.id))!.compression)
+        .toEqual({ codec: 'brotli', level: 5 });
+
+      await fs.writeFile(path.join(workDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+      const result = await service.createBackup(created.id, { siteId: '1', files: [path.join(workDir, 'wp-config.php')] });
+      const details = await service.getBackupDetails(created.id, result.id);
+
+      expect(details!.metadata!.compression).toBe('brotli');
+      expect(details!.contents!.map(entry => entry.name)).toContain('wp-config.php');
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('BackupService fan-out', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let service: BackupService;
+
+  const addLocalDestination = (name: string) =>
+    service.createConfiguration({
+      provider: 'local',
+      name,
+      active: true,
+      settings: { basePath: path.join(workDir, name) },
+    });
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backup-service-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(sourceDir, { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+
+    service = new BackupService(new MemStorage());
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should archive once and upload to every destination', async () => {
+    const primary = await addLocalDestination('primary');
+    const secondary = await addLocalDestination('secondary');
+    const createArchive = jest.spyOn(archiveUtils, 'createArchive');
+
+    const result = await service.createBackup(primary.id, {
+      siteId: '7',
+      files: [sourceDir],
+      destinations: [secondary.id],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe('completed');
+    expect(result.locations).toHaveLength(2);
+    expect(createArchive).toHaveBeenCalledTimes(1);
+    expect(result.destinations!.map(destination => destination.status)).toEqual(['completed', 'completed']);
+
+    // Every destination stores the backup under the same ID
+    const primaryBackups = await service.listBackups(primary.id);
+    const secondaryBackups = await service.listBackups(secondary.id);
+    expect(primaryBackups.backups.map(backup => backup.id)).toEqual([result.id]);
+    expect(secondaryBackups.backups.map(backup => backup.id)).toEqual([result.id]);
+  });
+
+  it('should reject incremental and deduplicated backups to several destinations', async () => {
+    const primary = await addLocalDestination('primary');
+    const secondary = await addLocalDestination('secondary');
+    const repository = await service.createConfiguration({
+      provider: 'local',
+      name: 'repository',
+      active: true,
+      settings: { basePath: path.join(workDir, 'repository'), deduplicate: true },
+    });
+    const createArchive = jest.spyOn(archiveUtils, 'createArchive');
+
+    const incremental = await service.createBackup(primary.id, {
+      siteId: '7',
+      files: [sourceDir],
+      destinations: [secondary.id],
+      type: 'incremental',
+    });
+    const deduplicated = await service.createBackup(primary.id, {
+      siteId: '7',
+      files: [sourceDir],
+      destinations: [repository.id],
+    });
+
+    expect(incremental).toMatchObject({ success: false, message: 'Incremental backups can only be stored with one configuration' });
+    expect(deduplicated).toMatchObject({ success: false, message: `Deduplicating configurations can only store backups alone: ${repository.id}` });
+    expect(createArchive).not.toHaveBeenCalled();
+    expect((await service.listBackups(secondary.id)).backups).toEqual([]);
+  });
+
+  it('should report partial success and retry only failed destinations', async () => {
+    const primary = await addLocalDestination('primary');
+    const blocked = await addLocalDestination('blocked');
+
+    // A file where the site directory should be makes uploads to this destination fail
+    await fs.mkdir(path.join(workDir, 'blocked'), { recursive: true });
+    await fs.writeFile(path.join(workDir, 'blocked', '7'), '');
+
+    const result = await service.createBackup(primary.id, {
+      siteId: '7',
+      files: [sourceDir],
+      destinations: [blocked.id, 'missing-config'],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.status).toBe('partial');
+    expect(result.errors!.map(error => error.destination).sort()).toEqual([blocked.id, 'missing-config'].sort());
+
+    await fs.rm(path.join(workDir, 'blocked', '7'));
+
+    const retried = await service.retryFailedDestinations(result.id);
+    const statuses = Object.fromEntries(
+      retried!.destinations!.map(destination => [destination.configId, destination])
+    );
+
+    expect(statuses[primary.id].attempts).toBe(1);
+    expect(statuses[blocked.id].status).toBe('completed');
+    expect(statuses[blocked.id].attempts).toBe(2);
+    expect(statuses['missing-config'].status).toBe('failed');
+    expect(retried!.status).toBe('partial');
+    expect((await service.listBackups(blocked.id)).backups.map(backup => backup.id)).toEqual([result.id]);
+  });
+
+  it('should keep the destinations of a backup across a restart and expire its staged archive', async () => {
+    const runStorage = new MemStorage();
+    service = new BackupService(runStorage);
+
+    const primary = await addLocalDestination('primary');
+    const blocked = await addLocalDestination('blocked');
+
+    await fs.mkdir(path.join(workDir, 'blocked'), { recursive: true });
+    await fs.writeFile(path.join(workDir, 'blocked', '7'), '');
+
+    const result = await service.createBackup(primary.id, {
+      siteId: '7',
+      files: [sourceDir],
+      destinations: [blocked.id],
+    });
+    const staged = (await runStorage.getBackupRun(result.id))!.archive!.path as string;
+
+    expect(result.status).toBe('partial');
+    expect(await fs.stat(staged)).toBeTruthy();
+
+    // A new service stands in for the restarted server
+    const restarted = new BackupService(runStorage);
+    const run = await restarted.getBackupRun(result.id);
+
+    expect(run).toMatchObject({ configId: primary.id, status: 'partial' });
+    expect(run!.destinations.map(destination => destination.status)).toEqual(['completed', 'failed']);
+
+    // Archives are kept until they expire
+    expect(await restarted.removeExpiredArchives()).toBe(0);
+    expect(await restarted.removeExpiredArchives(new Date(Date.now() + STAGED_ARCHIVE_TTL + 1000))).toBe(1);
+    expect(await fs.stat(staged).catch(() => null)).toBeNull();
+    expect((await runStorage.getBackupRun(result.id))!.archive).toBeNull();
+
+    await fs.rm(path.join(workDir, 'blocked', '7'));
+
+    // The retry archives the site again from the stored run
+    const retried = await restarted.retryFailedDestinations(result.id);
+
+    expect(retried!.status).toBe('completed');
+    expect((await runStorage.getBackupRun(result.id))!.status).toBe('completed');
+    expect((await restarted.listBackups(blocked.id)).backups.map(backup => backup.id)).toEqual([result.id]);
+  });
+});
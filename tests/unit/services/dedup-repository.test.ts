@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for the Deduplicating Backup Repository
+ *
+ * Tests storing snapshots through the local provider, restoring them and
+ * pruning chunks once no snapshot uses them.
+ */
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { DedupRepository, REPOSITORY_SITE_ID } from '../../../server/services/dedup-repository';
+import { LocalBackupProvider } from '../../../server/providers/local/provider';
+import { MemStorage } from '../../../server/storage';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+// Reproducible data that doesn't repeat
+const pseudoRandom = (size: number, seed: string) => {
+  const blocks: Buffer[] = [];
+
+  for (let i = 0; blocks.length * 32 < size; i++) {
+    blocks.push(createHash('sha256').update(`${seed}-${i}`).digest());
+  }
+
+  return Buffer.concat(blocks).subarray(0, size);
+};
+
+describe('DedupRepository', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let provider: LocalBackupProvider;
+  let indexStorage: MemStorage;
+  let repository: DedupRepository;
+
+  const listPacks = async () => (await provider.listBackups({ siteId: REPOSITORY_SITE_ID })).backups;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dedup-repository-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(path.join(sourceDir, 'wp-content', 'uploads'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");', { mode: 0o600 });
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'uploads', 'video.mp4'), pseudoRandom(200 * 1024, 'video'));
+    await fs.symlink('uploads/video.mp4', path.join(sourceDir, 'wp-content', 'latest.mp4'));
+
+    provider = new LocalBackupProvider({
+      id: 'local-dedup',
+      provider: 'local',
+      name: 'Local dedup',
+      active: true,
+      created: new Date(),
+      updated: new Date(),
+      settings: { basePath: path.join(workDir, 'backups'), deduplicate: true },
+    });
+    await provider.initialize();
+
+    indexStorage = new MemStorage();
+    repository = new DedupRepository(provider, indexStorage, {
+      chunker: { minSize: 4 * 1024, avgSize: 16 * 1024, maxSize: 64 * 1024 },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should store unchanged data only once', async () => {
+    const first = await repository.createSnapshot({ siteId: '1', files: [sourceDir] });
+    const second = await repository.createSnapshot({ siteId: '1', files: [sourceDir] });
+
+    expect(first).toMatchObject({ fileCount: 2, errors: [] });
+    expect(first.size).toBeGreaterThan(200 * 1024);
+    expect(first.storedSize).toBeGreaterThan(0);
+    expect(second.storedSize).toBe(0);
+    expect(await listPacks()).toHaveLength(1);
+
+    // Appending to a file only stores the chunks at its end
+    await fs.appendFile(path.join(sourceDir, 'wp-content', 'uploads', 'video.mp4'), pseudoRandom(1024, 'more'));
+    const third = await repository.createSnapshot({ siteId: '1', files: [sourceDir] });
+
+    expect(third.storedSize).toBeGreaterThan(0);
+    expect(third.storedSize).toBeLessThan(first.storedSize / 2);
+    expect((await repository.listSnapshots('1')).map(snapshot => snapshot.id).sort()).toEqual(
+      [first.id, second.id, third.id].sort()
+    );
+  });
+
+  it('should restore files, modes and symlinks from a snapshot', async () => {
+    const snapshot = await repository.createSnapshot({ siteId: '1', files: [sourceDir] });
+    const restoreDir = path.join(workDir, 'restore');
+
+    await repository.restoreSnapshot(snapshot.id, restoreDir);
+
+    const restoredSite = path.join(restoreDir, snapshot.entries[0].path);
+    expect(await fs.readFile(path.join(restoredSite, 'wp-content', 'uploads', 'video.mp4'))).toEqual(
+      pseudoRandom(200 * 1024, 'video')
+    );
+    expect((await fs.stat(path.join(restoredSite, 'wp-config.php'))).mode & 0o777).toBe(0o600);
+    expect(await fs.readlink(path.join(restoredSite, 'wp-content', 'latest.mp4'))).toBe('uploads/video.mp4');
+  });
+
+  it('should only prune chunks that no snapshot uses', async () => {
+    const first = await repository.createSnapshot({ siteId: '1', files: [sourceDir] });
+
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'uploads', 'video.mp4'), pseudoRandom(100 * 1024, 'video'));
+    const second = await repository.createSnapshot({ siteId: '1', files: [sourceDir] });
+
+    // The first pack still holds the start of the file the second snapshot uses
+    expect(await repository.deleteSnapshot(first.id)).toMatchObject({ success: true });
+    const partial = await repository.prune();
+
+    expect(partial.chunks).toBeGreaterThan(0);
+    expect(partial.packs).toBe(0);
+
+    const restoreDir = path.join(workDir, 'restore');
+    await repository.restoreSnapshot(second.id, restoreDir, [`${second.entries[0].path}/wp-content`]);
+
+    expect(await fs.readFile(path.join(restoreDir, second.entries[0].path, 'wp-content', 'uploads', 'video.mp4'))).toEqual(
+      pseudoRandom(100 * 1024, 'video')
+    );
+
+    expect(await repository.deleteSnapshot(second.id)).toMatchObject({ success: true });
+    expect((await repository.prune()).packs).toBe(2);
+    expect(await listPacks()).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for the Job Handlers
+ *
+ * Tests that backups a server restart interrupted are resumed by their
+ * requeued jobs or marked failed, and that the archives they staged are
+ * removed. Local uploads don't save checkpoints, so the local backups here
+ * start their upload over.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { BackupService } from '../../../server/services/backup-service';
+import { JobQueue } from '../../../server/services/job-queue';
+import {
+  INTERRUPTED_BACKUP_ERROR,
+  recoverInterruptedBackups,
+  registerJobHandlers,
+} from '../../../server/services/job-handlers';
+import { createStagingDir, fileExists } from '../../../server/utils/file-stream';
+import { MemStorage } from '../../../server/storage';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+describe('recoverInterruptedBackups', () => {
+  let workDir: string;
+  let handlerStorage: MemStorage;
+  let service: BackupService;
+  let queue: JobQueue;
+  let configurationId: string;
+
+  // A backup whose job was running when the server stopped
+  const createInterruptedBackup = async (
+    externalId: string,
+    attempts: number,
+    checkpoint: Record<string, any> | null = { session: { storageMode: 'branch' }, parts: [] }
+  ) => {
+    const backup = await handlerStorage.createBackup({
+      siteId: 1,
+      storageProviderId: 1,
+      status: 'in_progress',
+      type: 'full',
+      configurationId,
+      externalId,
+      checkpoint,
+      startedAt: new Date(),
+    });
+    const job = await queue.enqueue({
+      type: 'backup',
+      siteId: 1,
+      payload: { configurationId, siteId: '1', files: [path.join(workDir, 'site')], backupId: backup.id },
+    });
+
+    await handlerStorage.updateJob(job.id, { status: 'running', attempts, startedAt: new Date() });
+
+    return backup;
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-handlers-test-'));
+
+    await fs.mkdir(path.join(workDir, 'site'));
+    await fs.writeFile(path.join(workDir, 'site', 'index.php'), '<?php echo "Hello";');
+
+    handlerStorage = new MemStorage();
+    service = new BackupService(handlerStorage);
+    queue = new JobQueue(handlerStorage);
+    registerJobHandlers(queue, service, handlerStorage);
+
+    configurationId = (await service.createConfiguration({
+      provider: 'local',
+      name: 'Local',
+      active: true,
+      settings: { basePath: path.join(workDir, 'backups') },
+    })).id;
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should resume backups whose jobs run again and fail the others', async () => {
+    const resumable = await createInterruptedBackup('resumable', 1);
+    const exhausted = await createInterruptedBackup('exhausted', 3);
+    const staged = await createStagingDir('resumable');
+
+    const { resumed, failed } = await recoverInterruptedBackups(handlerStorage);
+
+    expect(resumed.map(backup => backup.id)).toEqual([resumable.id]);
+    expect(failed.map(backup => backup.id)).toEqual([exhausted.id]);
+    expect(await fileExists(staged)).toBe(false);
+    expect(await handlerStorage.getBackup(exhausted.id)).toMatchObject({
+      status: 'failed',
+      error: INTERRUPTED_BACKUP_ERROR,
+      checkpoint: null,
+    });
+
+    // Starting the queue requeues the interrupted job, which completes the backup
+    await queue.start();
+    queue.stop();
+
+    // start() polls in the background
+    await new Promise(resolve => setImmediate(resolve));
+    await queue.idle();
+
+    expect(await handlerStorage.getBackup(resumable.id)).toMatchObject({ status: 'completed', checkpoint: null });
+  });
+
+  it('should fail interrupted backups of providers that save no checkpoints cleanly', async () => {
+    const interrupted = await createInterruptedBackup('local', 3, null);
+    const staged = await createStagingDir('local');
+    // What the local provider leaves behind when it stops while writing the archive
+    const partialDir = path.join(workDir, 'backups', '1', 'wp-backup-1-interrupted');
+
+    await fs.mkdir(partialDir, { recursive: true });
+    await fs.writeFile(path.join(partialDir, 'archive.tar.gz.partial'), 'partial');
+
+    const { resumed, failed } = await recoverInterruptedBackups(handlerStorage);
+
+    expect(resumed).toEqual([]);
+    expect(failed.map(backup => backup.id)).toEqual([interrupted.id]);
+    expect(await fileExists(staged)).toBe(false);
+    expect(await handlerStorage.getBackup(interrupted.id)).toMatchObject({
+      status: 'failed',
+      error: INTERRUPTED_BACKUP_ERROR,
+      checkpoint: null,
+    });
+    expect((await service.listBackups(configurationId, { siteId: '1' })).backups).toEqual([]);
+  });
+
+  it('should leave backups alone when nothing was interrupted', async () => {
+    const backup = await handlerStorage.createBackup({
+      siteId: 1,
+      storageProviderId: 1,
+      status: 'completed',
+      type: 'full',
+      configurationId,
+      externalId: 'completed',
+      startedAt: new Date(),
+    });
+
+    expect(await recoverInterruptedBackups(handlerStorage)).toEqual({ resumed: [], failed: [] });
+    expect((await handlerStorage.getBackup(backup.id))!.status).toBe('completed');
+  });
+});
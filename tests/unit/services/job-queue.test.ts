@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for the Job Queue
+ *
+ * Tests that jobs run by priority within the concurrency limits, that failed
+ * attempts are retried with backoff and that jobs can be cancelled.
+ */
+import { JobQueue } from '../../../server/services/job-queue';
+import { AppError, ErrorCodes } from '../../../server/utils/error-handler';
+import { MemStorage } from '../../../server/storage';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+describe('JobQueue', () => {
+  let jobStorage: MemStorage;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    jobStorage = new MemStorage();
+    queue = new JobQueue(jobStorage, {
+      concurrency: 3,
+      perProvider: 1,
+      perSite: 1,
+      retry: { initialDelay: 1000, useJitter: false },
+    });
+  });
+
+  it('should run jobs by priority within the concurrency limits', async () => {
+    const finish: (() => void)[] = [];
+    const handler = jest.fn(() => new Promise<void>(resolve => finish.push(resolve)));
+    queue.registerHandler('backup', handler);
+
+    const low = await queue.enqueue({ type: 'backup', siteId: 1, provider: 'local', payload: {} });
+    const high = await queue.enqueue({ type: 'backup', siteId: 1, provider: 's3', priority: 10, payload: {} });
+    const sameProvider = await queue.enqueue({ type: 'backup', siteId: 2, provider: 's3', priority: 5, payload: {} });
+    const other = await queue.enqueue({ type: 'backup', siteId: 3, provider: 'dropbox', payload: {} });
+
+    // The low priority job waits for its site and the other s3 job for its provider
+    expect((await queue.poll()).map(job => job.id)).toEqual([high.id, other.id]);
+
+    finish.forEach(resolve => resolve());
+    await queue.idle();
+
+    expect((await queue.poll()).map(job => job.id)).toEqual([sameProvider.id, low.id]);
+
+    finish.forEach(resolve => resolve());
+    await queue.idle();
+
+    const jobs = await jobStorage.listJobs();
+    expect(jobs.map(job => job.status)).toEqual(['completed', 'completed', 'completed', 'completed']);
+    expect(handler).toHaveBeenCalledTimes(4);
+  });
+
+  it('should retry failed attempts with exponential backoff', async () => {
+    const handler = jest.fn()
+      .mockRejectedValueOnce(new Error('Connection reset'))
+      .mockRejectedValueOnce(new Error('Connection reset'))
+      .mockResolvedValueOnce({ size: 2048 });
+    queue.registerHandler('backup', handler);
+
+    const { id } = await queue.enqueue({ type: 'backup', payload: {} });
+
+    let dueAt = new Date();
+
+    for (const expectedDelay of [1000, 2000]) {
+      const start = Date.now();
+      await queue.poll(dueAt);
+      await queue.idle();
+
+      const job = (await jobStorage.getJob(id))!;
+      expect(job).toMatchObject({ status: 'queued', error: 'Connection reset' });
+
+      const delay = job.runAt.getTime() - start;
+      expect(delay).toBeGreaterThanOrEqual(expectedDelay);
+      expect(delay).toBeLessThan(expectedDelay + 1000);
+
+      // Not due again before the backoff has passed
+      expect(await queue.poll(new Date(job.runAt.getTime() - 1))).toEqual([]);
+      dueAt = job.runAt;
+    }
+
+    await queue.poll(dueAt);
+    await queue.idle();
+
+    expect(await jobStorage.getJob(id)).toMatchObject({
+      status: 'completed',
+      attempts: 3,
+      result: { size: 2048 },
+      error: null,
+    });
+  });
+
+  it('should fail jobs on permanent errors or when out of attempts', async () => {
+    queue.registerHandler('restore', jest.fn().mockRejectedValue(
+      new AppError(ErrorCodes.NOT_FOUND, 'Configuration not found: config-1')
+    ));
+    queue.registerHandler('verify', jest.fn().mockRejectedValue(new Error('Checksum mismatch')));
+
+    const restore = await queue.enqueue({ type: 'restore', payload: {} });
+    const verify = await queue.enqueue({ type: 'verify', siteId: 2, maxAttempts: 1, payload: {} });
+    const prune = await queue.enqueue({ type: 'prune', siteId: 3, payload: {} });
+
+    await queue.poll();
+    await queue.idle();
+
+    expect(await jobStorage.getJob(restore.id)).toMatchObject({ status: 'failed', attempts: 1, error: 'Configuration not found: config-1' });
+    expect(await jobStorage.getJob(verify.id)).toMatchObject({ status: 'failed', attempts: 1, error: 'Checksum mismatch' });
+    expect(await jobStorage.getJob(prune.id)).toMatchObject({ status: 'failed', error: 'No handler for job type: prune' });
+  });
+
+  it('should cancel queued and running jobs', async () => {
+    queue.registerHandler('backup', (_job, signal) =>
+      new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('Aborted'))))
+    );
+
+    const running = await queue.enqueue({ type: 'backup', siteId: 1, payload: {} });
+    const queued = await queue.enqueue({ type: 'backup', siteId: 1, payload: {} });
+
+    await queue.poll();
+
+    expect(await queue.cancel(queued.id)).toMatchObject({ status: 'cancelled' });
+    expect(await queue.cancel(running.id)).toMatchObject({ status: 'running', cancelRequested: true });
+
+    await queue.idle();
+
+    expect(await jobStorage.getJob(running.id)).toMatchObject({ status: 'cancelled', attempts: 1 });
+    expect(await queue.poll()).toEqual([]);
+    await expect(queue.cancel(running.id)).rejects.toThrow(`Job ${running.id} is already cancelled`);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Unit Tests for Restore Drills
+ *
+ * Tests that schedules queue restore drills of their completed backups, and that
+ * drills restore backups into a sandbox, check the key files and SQL dumps
+ * and store a report for the site. Restores that leave the sandbox empty
+ * and backups without a file manifest fail their drills.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { BackupScheduler } from '../../../server/services/backup-scheduler';
+import { BackupService } from '../../../server/services/backup-service';
+import { JobQueue } from '../../../server/services/job-queue';
+import { registerJobHandlers } from '../../../server/services/job-handlers';
+import { RestoreDrillRunner } from '../../../server/services/restore-drill';
+import { MemStorage } from '../../../server/storage';
+import { MANIFEST_ENTRY_NAME } from '../../../server/utils/file-manifest';
+
+// Keep unit tests independent of the generated Prisma client
+jest.mock('../../../server/prisma', () => ({ __esModule: true, default: {} }));
+
+describe('Restore drills', () => {
+  // Schedules run daily at 02:30 local time
+  const daysLater = (days: number) => new Date(2020, 0, 10 + days, 2, 31);
+  const dump = [
+    'CREATE TABLE `wp_options` (`option_id` bigint, `option_value` longtext);',
+    "INSERT INTO `wp_options` VALUES (1,'It\\'s a site; really');",
+    '',
+  ].join('\n');
+
+  let workDir: string;
+  let sourceDir: string;
+  let drillStorage: MemStorage;
+  let service: BackupService;
+  let queue: JobQueue;
+  let configurationId: string;
+
+  const runJobs = async () => {
+    while ((await queue.poll()).length > 0) {
+      await queue.idle();
+    }
+  };
+
+  const createScheduler = async (drillFrequency: number) => {
+    const schedule = await drillStorage.createBackupSchedule({
+      siteId: 1,
+      storageProviderId: 1,
+      frequency: 'daily',
+      hourOfDay: 2,
+      minuteOfHour: 30,
+      configurationId,
+      paths: [sourceDir],
+      drillFrequency,
+    });
+
+    await drillStorage.claimBackupSchedule(schedule.id, schedule.nextRun, {
+      lastRun: null,
+      nextRun: new Date(2020, 0, 10, 2, 30),
+    });
+
+    return new BackupScheduler(drillStorage, service, queue);
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'restore-drill-test-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(path.join(sourceDir, 'wp-includes'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+    await fs.writeFile(path.join(sourceDir, 'wp-includes', 'version.php'), '<?php $wp_version = "6.4";');
+    await fs.writeFile(path.join(sourceDir, 'database.sql'), dump);
+
+    drillStorage = new MemStorage();
+    service = new BackupService(drillStorage);
+    queue = new JobQueue(drillStorage);
+    registerJobHandlers(queue, service, drillStorage);
+
+    configurationId = (await service.createConfiguration({
+      provider: 'local',
+      name: 'Local',
+      active: true,
+      settings: { basePath: path.join(workDir, 'backups') },
+    })).id;
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should drill every few scheduled backups and store passing reports', async () => {
+    const scheduler = await createScheduler(2);
+
+    await scheduler.tick(daysLater(0));
+    await runJobs();
+
+    expect(await drillStorage.listRestoreDrillsBySiteId(1)).toEqual([]);
+
+    const [backup] = await scheduler.tick(daysLater(1));
+    await runJobs();
+
+    const drills = await drillStorage.listRestoreDrillsBySiteId(1);
+
+    expect(drills).toHaveLength(1);
+    expect(drills[0]).toMatchObject({ siteId: 1, backupId: backup.id, status: 'passed' });
+    expect(drills[0].checks).toEqual([
+      expect.objectContaining({ name: 'restore', status: 'passed' }),
+      expect.objectContaining({ name: 'checksums', status: 'passed', message: '2 files match their checksums' }),
+      expect.objectContaining({ name: 'database', status: 'passed', message: expect.stringMatching(/site\/database\.sql: 2 statements, 1 tables$/) }),
+    ]);
+
+    // The next drill is due two backups after the latest one
+    await scheduler.tick(daysLater(2));
+    await runJobs();
+
+    expect(await drillStorage.listRestoreDrillsBySiteId(1)).toHaveLength(1);
+  });
+
+  it('should queue the drill only once the backup completed', async () => {
+    const scheduler = await createScheduler(1);
+    const [backup] = await scheduler.tick(daysLater(0));
+
+    expect(await drillStorage.listJobs({ type: 'drill' })).toEqual([]);
+
+    // Running the backup job queues its drill
+    await queue.poll();
+    await queue.idle();
+
+    expect((await drillStorage.getBackup(backup.id))!.status).toBe('completed');
+    expect((await drillStorage.listJobs({ type: 'drill' })).map(job => job.payload)).toEqual([{ backupId: backup.id }]);
+
+    await runJobs();
+
+    expect(await drillStorage.listRestoreDrillsBySiteId(1)).toEqual([
+      expect.objectContaining({ backupId: backup.id, status: 'passed' }),
+    ]);
+  });
+
+  it('should fail drills of backups with a cut-off SQL dump', async () => {
+    await fs.writeFile(path.join(sourceDir, 'database.sql'), dump.slice(0, dump.indexOf('really')));
+
+    const scheduler = await createScheduler(1);
+    const [backup] = await scheduler.tick(daysLater(0));
+    await runJobs();
+
+    const [drill] = await drillStorage.listRestoreDrillsBySiteId(1);
+
+    expect(drill).toMatchObject({ backupId: backup.id, status: 'failed' });
+    expect(drill.checks.map(check => [check.name, check.status])).toEqual([
+      ['restore', 'passed'],
+      ['checksums', 'passed'],
+      ['database', 'failed'],
+    ]);
+    expect(drill.checks[2].message).toMatch(/site\/database\.sql: SQL dump ends inside a quoted string \(line 2\)$/);
+  });
+
+  it('should not drill backups that have not completed', async () => {
+    const backup = await drillStorage.createBackup({
+      siteId: 1,
+      storageProviderId: 1,
+      status: 'pending',
+      type: 'full',
+      configurationId,
+      externalId: 'remote-id',
+      startedAt: new Date(),
+    });
+
+    await expect(new RestoreDrillRunner(drillStorage, service).run(backup.id))
+      .rejects.toThrow(`Backup ${backup.id} hasn't completed yet`);
+    await expect(new RestoreDrillRunner(drillStorage, service).run(404))
+      .rejects.toThrow('Backup not found: 404');
+  });
+
+  it('should fail drills whose restore leaves the sandbox empty', async () => {
+    const scheduler = await createScheduler(1);
+
+    // A provider that ignores the destination reports success without restoring into the sandbox
+    jest.spyOn(service, 'restoreBackup').mockResolvedValue({ success: true, message: 'Backup restored' });
+
+    const [backup] = await scheduler.tick(daysLater(0));
+    await runJobs();
+
+    const [drill] = await drillStorage.listRestoreDrillsBySiteId(1);
+
+    expect(drill).toMatchObject({ backupId: backup.id, status: 'failed' });
+    expect(drill.checks.map(check => [check.name, check.status, check.message])).toEqual([
+      ['restore', 'failed', 'Restore produced no files in the sandbox'],
+      ['checksums', 'skipped', 'Restore failed'],
+      ['database', 'skipped', 'Restore failed'],
+    ]);
+  });
+
+  it('should fail drills of backups without a file manifest', async () => {
+    const scheduler = await createScheduler(1);
+    const downloadFile = service.downloadFile.bind(service);
+
+    jest.spyOn(service, 'downloadFile').mockImplementation(async (id, backupId, filePath) =>
+      filePath === MANIFEST_ENTRY_NAME
+        ? { success: false, message: `File not found in backup: ${filePath}` }
+        : downloadFile(id, backupId, filePath));
+
+    const [backup] = await scheduler.tick(daysLater(0));
+    await runJobs();
+
+    const [drill] = await drillStorage.listRestoreDrillsBySiteId(1);
+
+    expect(drill).toMatchObject({ backupId: backup.id, status: 'failed' });
+    expect(drill.checks.map(check => [check.name, check.status])).toEqual([
+      ['restore', 'passed'],
+      ['checksums', 'failed'],
+      ['database', 'passed'],
+    ]);
+    expect(drill.checks[1].message).toBe('Backup has no file manifest');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Unit Tests for Archive Utilities
+ *
+ * Tests that archives contain real file contents with their permissions,
+ * modification times and symlinks, that unreadable files are reported
+ * without failing the archive, that archives can be read back with every
+ * compression codec, and that archives can be read in parts, in memory or
+ * spooled to part files, while they are created.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import { createArchive, createArchiveStream, extractArchive, readArchiveEntry, toEntryName } from '../../../server/utils/archive';
+import { detectCompression, readStreamInParts, spoolStreamInParts, validateCompression } from '../../../server/utils/file-stream';
+
+describe('createArchive', () => {
+  let workDir: string;
+  let sourceDir: string;
+  let archivePath: string;
+  let restoreDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-'));
+    sourceDir = path.join(workDir, 'site');
+    archivePath = path.join(workDir, 'archive.tar.gz');
+    restoreDir = path.join(workDir, 'restore');
+
+    await fs.mkdir(path.join(sourceDir, 'wp-content', 'uploads'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'uploads', 'photo.jpg'), Buffer.from([0xff, 0xd8, 0xff, 0x00]));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const restored = (filePath: string) => path.join(restoreDir, toEntryName(sourceDir), filePath);
+
+  it('should keep contents, permissions, modification times and symlinks', async () => {
+    const modified = new Date('2024-01-02T03:04:05Z');
+
+    await fs.chmod(path.join(sourceDir, 'wp-config.php'), 0o640);
+    await fs.utimes(path.join(sourceDir, 'wp-config.php'), modified, modified);
+    await fs.symlink('wp-config.php', path.join(sourceDir, 'config-link.php'));
+
+    const missing = path.join(workDir, 'missing');
+    const result = await createArchive([sourceDir, missing], archivePath);
+
+    expect(result.fileCount).toBe(2);
+    expect(result.errors.map(error => error.path)).toEqual([missing]);
+
+    await extractArchive(archivePath, restoreDir);
+
+    expect(await fs.readFile(restored('wp-config.php'), 'utf8')).toBe('<?php define("DB_NAME", "wp");');
+    expect(await fs.readFile(restored('wp-content/uploads/photo.jpg'))).toEqual(Buffer.from([0xff, 0xd8, 0xff, 0x00]));
+
+    const stats = await fs.stat(restored('wp-config.php'));
+    expect(stats.mode & 0o777).toBe(0o640);
+    expect(stats.mtime.getTime()).toBe(modified.getTime());
+
+    expect(await fs.readlink(restored('config-link.php'))).toBe('wp-config.php');
+  });
+
+  it('should follow symlinks when asked and skip links that loop', async () => {
+    const sharedDir = path.join(workDir, 'shared');
+    await fs.mkdir(sharedDir);
+    await fs.writeFile(path.join(sharedDir, 'font.woff'), 'font');
+
+    await fs.symlink(sharedDir, path.join(sourceDir, 'shared'));
+    await fs.symlink(sourceDir, path.join(sourceDir, 'wp-content', 'loop'));
+
+    const result = await createArchive([sourceDir], archivePath, { followSymlinks: true });
+
+    expect(result.errors).toEqual([
+      { path: path.join(sourceDir, 'wp-content', 'loop'), message: 'Symlink loop detected' },
+    ]);
+
+    await extractArchive(archivePath, restoreDir);
+
+    expect(await fs.readFile(restored('shared/font.woff'), 'utf8')).toBe('font');
+    expect((await fs.lstat(restored('shared'))).isDirectory()).toBe(true);
+  });
+
+  it('should read archives back with the codec they were compressed with', async () => {
+    for (const compression of [
+      { codec: 'none' as const },
+      { codec: 'gzip' as const, level: 9 },
+      { codec: 'zstd' as const, level: 19 },
+      { codec: 'brotli' as const, level: 4 },
+    ]) {
+      await createArchive([sourceDir], archivePath, { compression });
+
+      // Without the codec it is detected from the archive
+      expect(await detectCompression(archivePath)).toBe(compression.codec);
+      expect((await readArchiveEntry(archivePath, `${toEntryName(sourceDir)}/wp-config.php`, compression.codec))!.toString())
+        .toBe('<?php define("DB_NAME", "wp");');
+
+      await extractArchive(archivePath, restoreDir);
+      expect(await fs.readFile(restored('wp-content/uploads/photo.jpg'))).toEqual(Buffer.from([0xff, 0xd8, 0xff, 0x00]));
+    }
+  });
+
+  it('should reject compression levels the codec does not support', () => {
+    expect(validateCompression({ codec: 'gzip', level: 6 })).toBeNull();
+    expect(validateCompression({ codec: 'gzip', level: 12 })).toBe('gzip compression level must be between 1 and 9');
+    expect(validateCompression({ codec: 'none', level: 1 })).toBe('Uncompressed archives have no compression level');
+  });
+
+  it('should read archives in parts while they are created', async () => {
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'uploads', 'video.bin'), randomBytes(300 * 1024));
+
+    const archive = createArchiveStream([sourceDir]);
+    const parts: { part: Buffer; index: number; last: boolean }[] = [];
+    const checksums = await readStreamInParts(archive.stream, 100 * 1024, async (part, index, last) => {
+      parts.push({ part, index, last });
+    });
+    const result = await archive.completed;
+
+    expect(parts.map(({ part, index, last }) => [part.length <= 100 * 1024, index, last])).toEqual([
+      [true, 0, false],
+      [true, 1, false],
+      [true, 2, false],
+      [true, 3, true],
+    ]);
+    expect(checksums).toEqual(parts.map(({ part }) => createHash('sha256').update(part).digest('hex')));
+
+    // The parts reassemble into the archive the result describes
+    const content = Buffer.concat(parts.map(({ part }) => part));
+    expect(result).toMatchObject({ size: content.length, fileCount: 3, errors: [] });
+    expect(result.checksum).toBe(createHash('sha256').update(content).digest('hex'));
+
+    await fs.writeFile(archivePath, content);
+    await extractArchive(archivePath, restoreDir);
+    expect(await fs.readFile(restored('wp-config.php'), 'utf8')).toBe('<?php define("DB_NAME", "wp");');
+  });
+
+  it('should spool archives to one part file at a time while they are created', async () => {
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'uploads', 'video.bin'), randomBytes(300 * 1024));
+
+    const spoolDir = path.join(workDir, 'spool');
+    await fs.mkdir(spoolDir);
+
+    const archive = createArchiveStream([sourceDir]);
+    const parts: { part: Buffer; index: number; last: boolean; sha256: string }[] = [];
+    const checksums = await spoolStreamInParts(archive.stream, 100 * 1024, spoolDir, async (partPath, size, index, last, sha256) => {
+      expect(await fs.readdir(spoolDir)).toEqual([path.basename(partPath)]);
+
+      const part = await fs.readFile(partPath);
+      expect(part.length).toBe(size);
+      parts.push({ part, index, last, sha256 });
+    });
+    const result = await archive.completed;
+
+    expect(parts.map(({ part, index, last }) => [part.length <= 100 * 1024, index, last])).toEqual([
+      [true, 0, false],
+      [true, 1, false],
+      [true, 2, false],
+      [true, 3, true],
+    ]);
+    expect(checksums).toEqual(parts.map(({ part }) => createHash('sha256').update(part).digest('hex')));
+    expect(checksums).toEqual(parts.map(({ sha256 }) => sha256));
+    expect(await fs.readdir(spoolDir)).toEqual([]);
+
+    const content = Buffer.concat(parts.map(({ part }) => part));
+    expect(result.checksum).toBe(createHash('sha256').update(content).digest('hex'));
+  });
+
+  it('should stop archiving when the stream is closed early', async () => {
+    const archive = createArchiveStream([sourceDir]);
+
+    archive.stream.destroy();
+
+    await expect(archive.completed).rejects.toThrow('Archive stream closed before the archive was complete');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Content-Defined Chunking
+ *
+ * Tests that chunk boundaries depend on the content only, so edits leave
+ * the chunks away from them unchanged.
+ */
+import { createHash } from 'crypto';
+import { chunkStream } from '../../../server/utils/chunker';
+
+const options = { minSize: 1024, avgSize: 4096, maxSize: 16 * 1024 };
+
+// Reproducible data that doesn't repeat
+const pseudoRandom = (size: number, seed = 'seed') => {
+  const blocks: Buffer[] = [];
+
+  for (let i = 0; blocks.length * 32 < size; i++) {
+    blocks.push(createHash('sha256').update(`${seed}-${i}`).digest());
+  }
+
+  return Buffer.concat(blocks).subarray(0, size);
+};
+
+const split = (data: Buffer, size: number) => {
+  const pieces: Buffer[] = [];
+
+  for (let offset = 0; offset < data.length; offset += size) {
+    pieces.push(data.subarray(offset, offset + size));
+  }
+
+  return pieces;
+};
+
+const collect = async (source: Buffer[]) => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of chunkStream(source, options)) {
+    chunks.push(chunk);
+  }
+
+  return chunks;
+};
+
+const hashes = (chunks: Buffer[]) => chunks.map(chunk => createHash('sha256').update(chunk).digest('hex'));
+
+describe('chunkStream', () => {
+  const data = pseudoRandom(256 * 1024);
+
+  it('should split data into chunks within the size limits', async () => {
+    const chunks = await collect([data]);
+
+    expect(Buffer.concat(chunks).equals(data)).toBe(true);
+    expect(chunks.length).toBeGreaterThan(10);
+
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.length).toBeGreaterThanOrEqual(options.minSize);
+      expect(chunk.length).toBeLessThanOrEqual(options.maxSize);
+    }
+  });
+
+  it('should find the same boundaries however the input is read', async () => {
+    const whole = await collect([data]);
+    const pieces = await collect(split(data, 1000));
+
+    expect(hashes(pieces)).toEqual(hashes(whole));
+  });
+
+  it('should only change the chunks around an edit', async () => {
+    const original = hashes(await collect([data]));
+
+    // Insert bytes in the middle, which shifts everything after them
+    const middle = data.length / 2;
+    const edited = Buffer.concat([data.subarray(0, middle), Buffer.from('inserted text'), data.subarray(middle)]);
+    const changed = hashes(await collect([edited]));
+
+    const unchanged = changed.filter(hash => original.includes(hash));
+    expect(changed.length - unchanged.length).toBeLessThanOrEqual(2);
+    expect(unchanged.length).toBeGreaterThan(original.length - 3);
+  });
+
+  it('should reject inconsistent chunk sizes', async () => {
+    await expect(chunkStream([data], { avgSize: 3000 }).next()).rejects.toThrow('avgSize must be a power of two');
+    await expect(chunkStream([data], { minSize: 2048, maxSize: 1024 }).next()).rejects.toThrow('minSize must be between');
+  });
+});
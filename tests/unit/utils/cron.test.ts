@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Cron Expressions and Schedule Run Times
+ *
+ * Tests parsing cron expressions and calculating run times in time zones,
+ * including the days clocks change for daylight saving time.
+ */
+import { parseCronExpression, getNextCronRun } from '../../../server/utils/cron';
+import { getNextRuns, getScheduleTimingError } from '../../../server/utils/schedule';
+
+const nextRuns = (expression: string, after: string, timeZone: string, count: number) => {
+  const cron = parseCronExpression(expression);
+  const runs: string[] = [];
+
+  for (let run = new Date(after); runs.length < count; ) {
+    run = getNextCronRun(cron, run, timeZone);
+    runs.push(run.toISOString());
+  }
+
+  return runs;
+};
+
+describe('parseCronExpression', () => {
+  it('should parse lists, ranges, steps, names and shorthands', () => {
+    const cron = parseCronExpression('*/15 9-17/4 1,15 jan-mar MON-FRI');
+
+    expect(Array.from(cron.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(cron.hours)).toEqual([9, 13, 17]);
+    expect(Array.from(cron.daysOfMonth)).toEqual([1, 15]);
+    expect(Array.from(cron.months)).toEqual([1, 2, 3]);
+    expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+
+    expect(Array.from(parseCronExpression('@weekly').daysOfWeek)).toEqual([0]);
+    expect(Array.from(parseCronExpression('0 0 * * 7').daysOfWeek)).toEqual([0]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCronExpression('* * *')).toThrow('expected 5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('invalid minute "60"');
+    expect(() => parseCronExpression('0 17-9 * * *')).toThrow('invalid hour range');
+    expect(() => parseCronExpression('0 0 * * */0')).toThrow('invalid step');
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('should run on days matching either day field when both are restricted', () => {
+    // The 13th of every month and every Friday
+    expect(nextRuns('0 12 13 * fri', '2024-09-01T00:00:00Z', 'UTC', 4)).toEqual([
+      '2024-09-06T12:00:00.000Z',
+      '2024-09-13T12:00:00.000Z',
+      '2024-09-20T12:00:00.000Z',
+      '2024-09-27T12:00:00.000Z',
+    ]);
+  });
+
+  it('should keep the wall clock time across DST changes', () => {
+    expect(nextRuns('0 9 * * *', '2024-03-30T12:00:00Z', 'Europe/Amsterdam', 2)).toEqual([
+      '2024-03-31T07:00:00.000Z',
+      '2024-04-01T07:00:00.000Z',
+    ]);
+  });
+
+  it('should move runs skipped when clocks go forward to after the gap', () => {
+    expect(nextRuns('30 2 * * *', '2024-03-09T00:00:00Z', 'America/New_York', 3)).toEqual([
+      '2024-03-09T07:30:00.000Z', // 02:30 EST
+      '2024-03-10T07:30:00.000Z', // 03:30 EDT, 02:30 doesn't exist
+      '2024-03-11T06:30:00.000Z', // 02:30 EDT
+    ]);
+  });
+
+  it('should run once in the hour that repeats when clocks go back', () => {
+    expect(nextRuns('30 * * * *', '2024-11-03T04:45:00Z', 'America/New_York', 2)).toEqual([
+      '2024-11-03T05:30:00.000Z', // 01:30 EDT
+      '2024-11-03T07:30:00.000Z', // 02:30 EST, skipping 01:30 EST
+    ]);
+  });
+
+  it('should give up on expressions that never run', () => {
+    expect(() => nextRuns('0 0 30 2 *', '2024-01-01T00:00:00Z', 'UTC', 1)).toThrow("doesn't run in the next 5 years");
+  });
+});
+
+describe('getNextRuns', () => {
+  const monthly = { frequency: 'monthly', dayOfMonth: 31, hourOfDay: 23, minuteOfHour: 0 };
+
+  it('should run schedules in their time zone', () => {
+    const runs = getNextRuns({ ...monthly, timeZone: 'Asia/Tokyo' }, new Date('2024-01-01T00:00:00Z'), 3);
+
+    // Months without a 31st are skipped
+    expect(runs.map(run => run.toISOString())).toEqual([
+      '2024-01-31T14:00:00.000Z',
+      '2024-03-31T14:00:00.000Z',
+      '2024-05-31T14:00:00.000Z',
+    ]);
+  });
+
+  it('should report invalid time zones and cron expressions', () => {
+    expect(getScheduleTimingError({ ...monthly, timeZone: 'Mars/Olympus_Mons' })).toBe('Unknown time zone: Mars/Olympus_Mons');
+    expect(getScheduleTimingError({ ...monthly, frequency: 'custom', cronExpression: '0 25 * * *' })).toContain('invalid hour "25"');
+    expect(getScheduleTimingError({ ...monthly, frequency: 'custom', cronExpression: '0 3 * * sun', timeZone: 'UTC' })).toBeUndefined();
+  });
+});
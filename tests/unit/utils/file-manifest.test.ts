@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for File Manifest Utilities
+ *
+ * Tests that manifests describe every file of a backup and that incremental
+ * archives only contain what changed since the previous manifest.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { listArchiveEntries, readArchiveEntry, toEntryName } from '../../../server/utils/archive';
+import {
+  buildFileManifest,
+  createManifestArchive,
+  diffFileManifests,
+  MANIFEST_ENTRY_NAME,
+  type FileManifestEntry,
+} from '../../../server/utils/file-manifest';
+
+describe('diffFileManifests', () => {
+  const file = (filePath: string, hash: string, mtime = 1000): FileManifestEntry =>
+    ({ path: filePath, type: 'file', size: 1, mtime, mode: 0o644, hash });
+  const directory = (filePath: string, mtime = 1000): FileManifestEntry =>
+    ({ path: filePath, type: 'directory', size: 0, mtime, mode: 0o755 });
+
+  it('should report new, changed, removed and replaced entries', () => {
+    const previous = [directory('site', 1000), file('site/a', 'a'), file('site/b', 'b'), file('site/c', 'c'), file('site/d', 'd')];
+    const current = [
+      directory('site', 2000),
+      file('site/a', 'a'),
+      file('site/b', 'b2'),
+      file('site/c', 'c', 2000),
+      directory('site/d'),
+      file('site/e', 'e'),
+    ];
+
+    expect(diffFileManifests(previous, current)).toEqual({
+      changed: ['site/b', 'site/c', 'site/d', 'site/e'],
+      deleted: ['site/d'],
+    });
+    expect(diffFileManifests(current, previous).deleted).toEqual(['site/e', 'site/d']);
+  });
+});
+
+describe('createManifestArchive', () => {
+  let workDir: string;
+  let sourceDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-manifest-'));
+    sourceDir = path.join(workDir, 'site');
+
+    await fs.mkdir(path.join(sourceDir, 'wp-content'), { recursive: true });
+    await fs.writeFile(path.join(sourceDir, 'wp-config.php'), '<?php define("DB_NAME", "wp");');
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'style.css'), 'body {}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  const entryName = (filePath: string) => `${toEntryName(sourceDir)}/${filePath}`;
+
+  it('should hash every file and reuse hashes of unchanged files', async () => {
+    const { entries, errors } = await buildFileManifest([sourceDir]);
+
+    expect(errors).toEqual([]);
+    expect(entries.map(entry => entry.path)).toEqual([
+      toEntryName(sourceDir),
+      entryName('wp-config.php'),
+      entryName('wp-content'),
+      entryName('wp-content/style.css'),
+    ]);
+    expect(entries.find(entry => entry.path === entryName('wp-content/style.css'))).toMatchObject({
+      type: 'file',
+      size: 7,
+      hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+
+    // Unchanged size and modification time keep the previous hash without reading the file
+    const previous = entries.map(entry => entry.type === 'file' ? { ...entry, hash: 'cached' } : entry);
+    const { entries: again } = await buildFileManifest([sourceDir], previous);
+
+    expect(again.filter(entry => entry.type === 'file').map(entry => entry.hash)).toEqual(['cached', 'cached']);
+  });
+
+  it('should only archive changes since the previous manifest', async () => {
+    const full = await createManifestArchive([sourceDir], path.join(workDir, 'full.tar.gz'));
+
+    expect(full.fileCount).toBe(2);
+    expect(full.manifest).toMatchObject({ type: 'full', deleted: [] });
+    expect(full.manifest.changed).toHaveLength(4);
+
+    await fs.writeFile(path.join(sourceDir, 'wp-content', 'style.css'), 'body { color: red }');
+    await fs.writeFile(path.join(sourceDir, 'readme.txt'), 'Hello');
+    await fs.rm(path.join(sourceDir, 'wp-config.php'));
+
+    const archivePath = path.join(workDir, 'incremental.tar.gz');
+    const incremental = await createManifestArchive([sourceDir], archivePath, {
+      parent: 'full-id',
+      previous: full.manifest,
+    });
+
+    expect(incremental.fileCount).toBe(2);
+    expect(incremental.manifest).toMatchObject({
+      type: 'incremental',
+      parent: 'full-id',
+      changed: [entryName('readme.txt'), entryName('wp-content/style.css')],
+      deleted: [entryName('wp-config.php')],
+    });
+
+    const entries = (await listArchiveEntries(archivePath)).map(entry => entry.path);
+    expect(entries).toEqual([entryName('readme.txt'), entryName('wp-content/style.css'), MANIFEST_ENTRY_NAME]);
+
+    const stored = JSON.parse((await readArchiveEntry(archivePath, MANIFEST_ENTRY_NAME))!.toString());
+    expect(stored).toEqual(incremental.manifest);
+  });
+});
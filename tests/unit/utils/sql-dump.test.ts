@@ -0,0 +1,68 @@
+/**
+ * Unit Tests for SQL Dump Utilities
+ *
+ * Tests that dumps are split into statements like the mysql client splits
+ * them, and that dumps which were cut off are rejected.
+ */
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { parseSqlDump } from '../../../server/utils/sql-dump';
+
+describe('parseSqlDump', () => {
+  let workDir: string;
+  let dumpPath: string;
+
+  const dump = [
+    '-- MySQL dump 10.13',
+    '/*!40101 SET NAMES utf8mb4 */;',
+    'DROP TABLE IF EXISTS `wp_options`;',
+    'CREATE TABLE `wp_options` (',
+    '  `option_id` bigint(20) unsigned NOT NULL AUTO_INCREMENT,',
+    '  `option_value` longtext NOT NULL # the value',
+    ') ENGINE=InnoDB;',
+    "INSERT INTO `wp_options` VALUES (1,'It\\'s a site; really'),(2,'a:1:{s:4:\"--x;\";}');",
+    'DELIMITER ;;',
+    'CREATE TRIGGER `wp_touch` BEFORE UPDATE ON `wp_options` FOR EACH ROW BEGIN SET NEW.option_value = \'x\'; END ;;',
+    'DELIMITER ;',
+    'CREATE TABLE IF NOT EXISTS wp_posts (ID bigint);',
+    '',
+  ].join('\n');
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sql-dump-'));
+    dumpPath = path.join(workDir, 'database.sql');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('should split a dump into statements', async () => {
+    await fs.writeFile(dumpPath, dump);
+
+    expect(await parseSqlDump(dumpPath)).toEqual({
+      statements: 6,
+      tables: ['wp_options', 'wp_posts'],
+      inserts: 1,
+    });
+  });
+
+  it('should parse dumps larger than one read', async () => {
+    const insert = "INSERT INTO `wp_posts` VALUES (1,'Hello; world -- not a comment');\n";
+    await fs.writeFile(dumpPath, dump + insert.repeat(5000));
+
+    expect((await parseSqlDump(dumpPath)).inserts).toBe(5001);
+  });
+
+  it('should reject dumps that were cut off', async () => {
+    await fs.writeFile(dumpPath, dump.slice(0, dump.indexOf('really')));
+    await expect(parseSqlDump(dumpPath)).rejects.toThrow('SQL dump ends inside a quoted string (line 8)');
+
+    await fs.writeFile(dumpPath, dump.slice(0, dump.indexOf('ENGINE')));
+    await expect(parseSqlDump(dumpPath)).rejects.toThrow('SQL dump ends in the middle of a statement');
+
+    await fs.writeFile(dumpPath, '-- Nothing but comments\n');
+    await expect(parseSqlDump(dumpPath)).rejects.toThrow('SQL dump has no statements');
+  });
+});